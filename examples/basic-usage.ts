@@ -29,6 +29,13 @@ async function basicExample() {
     console.log(`✓ Task completed! Balance: ${robot.getBalance()}`);
   });
 
+  robot.registerTaskType({
+    type: 'cleaning',
+    requiredCapabilities: ['cleaning'],
+    verificationRules: { requireProof: true, requireWitness: false },
+    pricing: { basePrice: 300, variableFactors: ['size'] }
+  });
+
   const task = await robot.publishTask({
     type: 'cleaning',
     payload: { area: 'lobby', size: 100 },
@@ -5,8 +5,12 @@
  * delivery, and customer service bots.
  */
 
-import { AutoGridOS, DeviceType, Task } from '../index';
+import { AutoGridOS, DeviceType, Location, Task } from '../index';
 import EventEmitter from 'eventemitter3';
+import { Clock, systemClock } from '../utils/clock';
+import { NetworkTransport } from '../network/NetworkTransport';
+import { PathPlanner } from '../navigation/PathPlanner';
+import { PayloadOf, defineTaskType, readPayload } from '../modules/TaskContracts';
 
 export interface ServiceRobotConfig {
   deviceId: string;
@@ -17,6 +21,10 @@ export interface ServiceRobotConfig {
   maxSpeed?: number;
   batteryCapacity?: number;
   interactionLanguages?: string[];
+  transport?: NetworkTransport;
+  clock?: Clock;
+  /** Drive planned paths through doors and elevators instead of straight lines */
+  planner?: PathPlanner;
 }
 
 export type ServiceType = 
@@ -38,34 +46,126 @@ export type ServiceCapability =
   | 'door-access'
   | 'payment-processing';
 
-export interface DeliveryTask {
-  orderId: string;
-  items: Array<{
-    id: string;
-    name: string;
-    quantity: number;
-  }>;
-  destination: {
-    room: string;
-    floor: number;
-    x: number;
-    y: number;
-  };
-  recipientName?: string;
-  specialInstructions?: string;
-}
+const POINT_SCHEMA = {
+  type: 'object',
+  required: ['x', 'y', 'floor'],
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    floor: { type: 'integer' }
+  }
+} as const;
 
-export interface CleaningTask {
-  areaId: string;
-  cleaningType: 'routine' | 'deep' | 'spot';
-  zones: Array<{
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>;
-  priority: 'low' | 'normal' | 'high';
-}
+/**
+ * Contracts of the tasks the robot executes, registered on its
+ * `AutoGridOS` like the warehouse robot's
+ */
+export const DELIVERY_TASK = defineTaskType({
+  type: 'delivery',
+  requiredCapabilities: ['delivery'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 40, variableFactors: ['distance', 'items'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['orderId', 'items', 'destination'],
+    properties: {
+      orderId: { type: 'string' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'name', 'quantity'],
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            quantity: { type: 'integer', minimum: 1 }
+          }
+        }
+      },
+      destination: {
+        type: 'object',
+        required: ['room', 'floor', 'x', 'y'],
+        properties: {
+          room: { type: 'string' },
+          floor: { type: 'integer' },
+          x: { type: 'number' },
+          y: { type: 'number' }
+        }
+      },
+      recipientName: { type: 'string' },
+      specialInstructions: { type: 'string' }
+    }
+  },
+  description: 'Deliver an order to a room'
+});
+
+export const CLEANING_TASK = defineTaskType({
+  type: 'cleaning',
+  requiredCapabilities: ['cleaning'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 30, variableFactors: ['area', 'cleaningType'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['areaId', 'cleaningType', 'zones', 'priority'],
+    properties: {
+      areaId: { type: 'string' },
+      cleaningType: { enum: ['routine', 'deep', 'spot'] },
+      zones: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['x', 'y', 'width', 'height'],
+          properties: {
+            x: { type: 'number' },
+            y: { type: 'number' },
+            width: { type: 'number', minimum: 0 },
+            height: { type: 'number', minimum: 0 }
+          }
+        }
+      },
+      priority: { enum: ['low', 'normal', 'high'] }
+    }
+  },
+  description: 'Clean the zones of an area'
+});
+
+export const PATROL_TASK = defineTaskType({
+  type: 'patrol',
+  requiredCapabilities: ['patrol'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 30, variableFactors: ['checkpoints'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['checkpoints', 'reportAnomalies'],
+    properties: {
+      checkpoints: { type: 'array', items: POINT_SCHEMA },
+      reportAnomalies: { type: 'boolean' }
+    }
+  },
+  description: 'Inspect a round of checkpoints'
+});
+
+export const INTERACTION_TASK = defineTaskType({
+  type: 'interaction',
+  requiredCapabilities: ['customer-interaction'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 20, variableFactors: [] },
+  payloadSchema: {
+    type: 'object',
+    required: ['type', 'location'],
+    properties: {
+      type: { enum: ['greeting', 'assistance', 'information', 'guidance'] },
+      location: POINT_SCHEMA,
+      language: { type: 'string' },
+      script: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  description: 'Greet, assist or guide a customer'
+});
+
+export type DeliveryTask = PayloadOf<typeof DELIVERY_TASK>;
+
+export type CleaningTask = PayloadOf<typeof CLEANING_TASK>;
 
 export class ServiceRobotAdapter extends EventEmitter {
   private os: AutoGridOS;
@@ -74,10 +174,12 @@ export class ServiceRobotAdapter extends EventEmitter {
   private isCharging: boolean = false;
   private currentTask: Task | null = null;
   private interactionCount: number = 0;
+  private clock: Clock;
 
   constructor(config: ServiceRobotConfig) {
     super();
     this.config = config;
+    this.clock = config.clock ?? systemClock;
 
     // Initialize AutoGrid OS
     this.os = new AutoGridOS({
@@ -86,6 +188,9 @@ export class ServiceRobotAdapter extends EventEmitter {
       privateKey: config.privateKey,
       capabilities: config.capabilities,
       location: config.initialLocation,
+      transport: config.transport,
+      clock: this.clock,
+      planner: config.planner,
       metadata: {
         serviceType: config.serviceType,
         maxSpeed: config.maxSpeed || 1.5,
@@ -93,6 +198,10 @@ export class ServiceRobotAdapter extends EventEmitter {
         languages: config.interactionLanguages || ['en']
       }
     });
+    this.os.updateBatteryLevel(this.batteryLevel);
+    for (const definition of [DELIVERY_TASK, CLEANING_TASK, PATROL_TASK, INTERACTION_TASK]) {
+      this.os.registerTaskType(definition);
+    }
 
     this.setupEventHandlers();
   }
@@ -121,7 +230,7 @@ export class ServiceRobotAdapter extends EventEmitter {
    * Execute a delivery task
    */
   async executeDelivery(task: Task): Promise<void> {
-    const delivery = task.payload as DeliveryTask;
+    const delivery = readPayload(task, DELIVERY_TASK);
     this.currentTask = task;
 
     this.emit('delivery:started', { task, delivery });
@@ -155,7 +264,7 @@ export class ServiceRobotAdapter extends EventEmitter {
    * Execute a cleaning task
    */
   async executeCleaning(task: Task): Promise<void> {
-    const cleaning = task.payload as CleaningTask;
+    const cleaning = readPayload(task, CLEANING_TASK);
     this.currentTask = task;
 
     this.emit('cleaning:started', { task, areaId: cleaning.areaId });
@@ -188,10 +297,7 @@ export class ServiceRobotAdapter extends EventEmitter {
    * Execute a patrol task
    */
   async executePatrol(task: Task): Promise<void> {
-    const patrol = task.payload as {
-      checkpoints: Array<{ x: number; y: number; floor: number }>;
-      reportAnomalies: boolean;
-    };
+    const patrol = readPayload(task, PATROL_TASK);
 
     this.currentTask = task;
     this.emit('patrol:started', { task, checkpoints: patrol.checkpoints.length });
@@ -211,7 +317,7 @@ export class ServiceRobotAdapter extends EventEmitter {
           anomalies.push({
             location: checkpoint,
             type: inspection.anomalyType,
-            timestamp: Date.now()
+            timestamp: this.clock.now()
           });
           
           this.emit('patrol:anomaly-detected', inspection);
@@ -234,12 +340,7 @@ export class ServiceRobotAdapter extends EventEmitter {
    * Execute a customer interaction task
    */
   async executeInteraction(task: Task): Promise<void> {
-    const interaction = task.payload as {
-      type: 'greeting' | 'assistance' | 'information' | 'guidance';
-      location: { x: number; y: number; floor: number };
-      language?: string;
-      script?: string[];
-    };
+    const interaction = readPayload(task, INTERACTION_TASK);
 
     this.currentTask = task;
     this.emit('interaction:started', { task, type: interaction.type });
@@ -273,11 +374,13 @@ export class ServiceRobotAdapter extends EventEmitter {
 
     this.emit('charging:requested', { batteryLevel: this.batteryLevel });
 
+    // Set before driving so navigateTo() doesn't request charging again on the way
+    this.isCharging = true;
+
     // Find nearest charging station
     const chargingStation = await this.findChargingStation();
     await this.navigateTo(chargingStation);
 
-    this.isCharging = true;
     this.emit('charging:started', { location: chargingStation });
 
     await this.charge();
@@ -314,6 +417,13 @@ export class ServiceRobotAdapter extends EventEmitter {
     };
   }
 
+  /**
+   * The AutoGrid OS instance the robot trades through
+   */
+  getOS(): AutoGridOS {
+    return this.os;
+  }
+
   // ==================== Private Methods ====================
 
   private async navigateTo(location: { x: number; y: number; floor?: number }): Promise<void> {
@@ -322,25 +432,38 @@ export class ServiceRobotAdapter extends EventEmitter {
       throw new Error('Current location unknown');
     }
 
-    // Handle floor change if needed
-    if (location.floor && currentLocation.floor !== location.floor) {
-      await this.changeFloor(location.floor);
-    }
+    // With a map the planned path includes the elevator rides
+    let distance: number;
+    let waypoints: Location[] | undefined;
+    let connectorTime = 0;
+    if (this.config.planner) {
+      const path = this.os.planPath(location);
+      if (!path) {
+        throw new Error('No path to destination');
+      }
+      ({ distance, waypoints, connectorTime } = path);
+    } else {
+      // Handle floor change if needed
+      if (location.floor && currentLocation.floor !== location.floor) {
+        await this.changeFloor(location.floor);
+      }
 
-    const distance = Math.sqrt(
-      Math.pow(location.x - currentLocation.x, 2) +
-      Math.pow(location.y - currentLocation.y, 2)
-    );
+      distance = Math.sqrt(
+        Math.pow(location.x - currentLocation.x, 2) +
+        Math.pow(location.y - currentLocation.y, 2)
+      );
+    }
 
     const speed = this.config.maxSpeed || 1.5;
-    const travelTime = (distance / speed) * 1000;
+    const travelTime = (distance / speed) * 1000 + connectorTime;
 
-    this.emit('navigation:started', { from: currentLocation, to: location, distance });
+    this.emit('navigation:started', { from: currentLocation, to: location, distance, waypoints });
 
-    await new Promise(resolve => setTimeout(resolve, travelTime));
+    await this.clock.sleep(travelTime);
 
     // Consume battery
     this.batteryLevel = Math.max(0, this.batteryLevel - (distance * 0.05));
+    this.os.updateBatteryLevel(this.batteryLevel);
 
     this.os.updateLocation(location);
     this.emit('navigation:completed', { location, batteryLevel: this.batteryLevel });
@@ -355,7 +478,7 @@ export class ServiceRobotAdapter extends EventEmitter {
     this.emit('elevator:requested', { targetFloor });
     
     // Simulate elevator wait and travel
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    await this.clock.sleep(5000);
     
     this.emit('elevator:arrived', { floor: targetFloor });
   }
@@ -364,7 +487,7 @@ export class ServiceRobotAdapter extends EventEmitter {
     this.emit('announcement:made', { room, recipientName });
     
     // Wait for acknowledgment (simulate)
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await this.clock.sleep(2000);
   }
 
   private async cleanZone(
@@ -374,17 +497,18 @@ export class ServiceRobotAdapter extends EventEmitter {
     const area = zone.width * zone.height;
     const cleaningTime = area * (cleaningType === 'deep' ? 200 : cleaningType === 'spot' ? 50 : 100);
     
-    await new Promise(resolve => setTimeout(resolve, cleaningTime));
+    await this.clock.sleep(cleaningTime);
     
     // Consume battery based on cleaning type
     const batteryConsumption = cleaningType === 'deep' ? 2 : cleaningType === 'spot' ? 0.5 : 1;
     this.batteryLevel = Math.max(0, this.batteryLevel - batteryConsumption);
+    this.os.updateBatteryLevel(this.batteryLevel);
   }
 
   private async inspectCheckpoint(
     checkpoint: { x: number; y: number; floor: number }
   ): Promise<{ anomaly: boolean; anomalyType?: string }> {
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await this.clock.sleep(1000);
     
     // Simulate random anomaly detection (10% chance)
     const hasAnomaly = Math.random() < 0.1;
@@ -400,7 +524,7 @@ export class ServiceRobotAdapter extends EventEmitter {
     language?: string;
     script?: string[];
   }): Promise<{ success: boolean; feedback?: string }> {
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await this.clock.sleep(3000);
     
     return {
       success: true,
@@ -415,8 +539,9 @@ export class ServiceRobotAdapter extends EventEmitter {
 
   private async charge(): Promise<void> {
     while (this.batteryLevel < 100) {
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.clock.sleep(500);
       this.batteryLevel = Math.min(100, this.batteryLevel + 5);
+      this.os.updateBatteryLevel(this.batteryLevel);
       this.emit('charging:progress', { batteryLevel: this.batteryLevel });
     }
   }
@@ -445,7 +570,7 @@ export class ServiceRobotAdapter extends EventEmitter {
 
         const result = {
           completed: true,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           location: this.os.getLocation(),
           batteryLevel: this.batteryLevel
         };
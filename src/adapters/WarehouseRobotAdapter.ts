@@ -4,8 +4,12 @@
  * Provides integration layer for warehouse automation systems
  */
 
-import { AutoGridOS, DeviceType, Task } from '../index';
+import { AutoGridOS, DeviceType, Location, Task } from '../index';
 import EventEmitter from 'eventemitter3';
+import { Clock, systemClock } from '../utils/clock';
+import { NetworkTransport } from '../network/NetworkTransport';
+import { PathPlanner } from '../navigation/PathPlanner';
+import { LOCATION_SCHEMA, defineTaskType, readPayload } from '../modules/TaskContracts';
 
 export interface WarehouseRobotConfig {
   deviceId: string;
@@ -15,6 +19,10 @@ export interface WarehouseRobotConfig {
   initialLocation?: { x: number; y: number; floor: number };
   maxLoad?: number;
   batteryCapacity?: number;
+  transport?: NetworkTransport;
+  clock?: Clock;
+  /** Drive planned paths around shelving instead of straight lines */
+  planner?: PathPlanner;
 }
 
 export type WarehouseCapability = 
@@ -26,16 +34,75 @@ export type WarehouseCapability =
   | 'heavy-lift'
   | 'precision-handling';
 
+/**
+ * Contracts of the tasks the robot executes. They are registered on its
+ * `AutoGridOS`, so it doesn't bid on tasks that break them, and each task
+ * is checked again before the robot moves.
+ */
+export const TRANSPORT_TASK = defineTaskType({
+  type: 'transport',
+  requiredCapabilities: ['transport'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 100, variableFactors: ['distance', 'weight'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['from', 'to', 'weight'],
+    properties: {
+      from: LOCATION_SCHEMA,
+      to: LOCATION_SCHEMA,
+      items: { type: 'array' },
+      weight: { type: 'number', minimum: 0 }
+    }
+  },
+  description: 'Transport items from one location to another'
+});
+
+export const PICKING_TASK = defineTaskType({
+  type: 'picking',
+  requiredCapabilities: ['picking'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 50, variableFactors: ['items', 'complexity'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['orderId', 'items', 'location'],
+    properties: {
+      orderId: { type: 'string' },
+      items: { type: 'array', items: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } },
+      location: LOCATION_SCHEMA
+    }
+  },
+  description: 'Pick items from warehouse shelves'
+});
+
+export const SORTING_TASK = defineTaskType({
+  type: 'sorting',
+  requiredCapabilities: ['sorting'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 75, variableFactors: ['items', 'categories'] },
+  payloadSchema: {
+    type: 'object',
+    required: ['items', 'location'],
+    properties: {
+      items: { type: 'array', items: { type: 'object', properties: { category: { type: 'string' } } } },
+      categories: { type: 'array', items: { type: 'string' } },
+      location: LOCATION_SCHEMA
+    }
+  },
+  description: 'Sort items by category'
+});
+
 export class WarehouseRobotAdapter extends EventEmitter {
   private os: AutoGridOS;
   private config: WarehouseRobotConfig;
   private currentLoad: number = 0;
   private batteryLevel: number = 100;
   private isCharging: boolean = false;
+  private clock: Clock;
 
   constructor(config: WarehouseRobotConfig) {
     super();
     this.config = config;
+    this.clock = config.clock ?? systemClock;
 
     // Initialize AutoGrid OS
     this.os = new AutoGridOS({
@@ -44,12 +111,19 @@ export class WarehouseRobotAdapter extends EventEmitter {
       privateKey: config.privateKey,
       capabilities: config.capabilities,
       location: config.initialLocation,
+      transport: config.transport,
+      clock: this.clock,
+      planner: config.planner,
       metadata: {
         warehouseId: config.warehouseId,
         maxLoad: config.maxLoad || 100,
         batteryCapacity: config.batteryCapacity || 10000
       }
     });
+    this.os.updateBatteryLevel(this.batteryLevel);
+    for (const definition of [TRANSPORT_TASK, PICKING_TASK, SORTING_TASK]) {
+      this.os.registerTaskType(definition);
+    }
 
     this.setupEventHandlers();
   }
@@ -77,7 +151,7 @@ export class WarehouseRobotAdapter extends EventEmitter {
    * Execute a transport task
    */
   async executeTransport(task: Task): Promise<void> {
-    const { from, to, items, weight } = task.payload;
+    const { from, to, items, weight } = readPayload(task, TRANSPORT_TASK);
 
     this.emit('transport:started', { task, from, to });
 
@@ -107,7 +181,7 @@ export class WarehouseRobotAdapter extends EventEmitter {
    * Execute a picking task
    */
   async executePicking(task: Task): Promise<void> {
-    const { orderId, items, location } = task.payload;
+    const { orderId, items, location } = readPayload(task, PICKING_TASK);
 
     this.emit('picking:started', { task, orderId });
 
@@ -127,7 +201,7 @@ export class WarehouseRobotAdapter extends EventEmitter {
    * Execute a sorting task
    */
   async executeSorting(task: Task): Promise<void> {
-    const { items, categories, location } = task.payload;
+    const { items, categories = [], location } = readPayload(task, SORTING_TASK);
 
     this.emit('sorting:started', { task, itemCount: items.length });
 
@@ -156,11 +230,13 @@ export class WarehouseRobotAdapter extends EventEmitter {
 
     this.emit('charging:requested', { batteryLevel: this.batteryLevel });
 
+    // Set before driving so navigateTo() doesn't request charging again on the way
+    this.isCharging = true;
+
     // Find nearest charging station (simplified)
     const chargingStation = { x: 0, y: 0, floor: 1 };
     await this.navigateTo(chargingStation);
 
-    this.isCharging = true;
     this.emit('charging:started', { location: chargingStation });
 
     // Simulate charging
@@ -186,6 +262,13 @@ export class WarehouseRobotAdapter extends EventEmitter {
     };
   }
 
+  /**
+   * The AutoGrid OS instance the robot trades through
+   */
+  getOS(): AutoGridOS {
+    return this.os;
+  }
+
   /**
    * Navigate to a location
    */
@@ -195,20 +278,32 @@ export class WarehouseRobotAdapter extends EventEmitter {
       throw new Error('Current location unknown');
     }
 
-    // Calculate distance
-    const distance = Math.sqrt(
-      Math.pow(location.x - currentLocation.x, 2) +
-      Math.pow(location.y - currentLocation.y, 2)
-    );
+    // Calculate distance, along the planned path if there is a map
+    let distance: number;
+    let waypoints: Location[] | undefined;
+    let connectorTime = 0;
+    if (this.config.planner) {
+      const path = this.os.planPath(location);
+      if (!path) {
+        throw new Error('No path to destination');
+      }
+      ({ distance, waypoints, connectorTime } = path);
+    } else {
+      distance = Math.sqrt(
+        Math.pow(location.x - currentLocation.x, 2) +
+        Math.pow(location.y - currentLocation.y, 2)
+      );
+    }
 
     // Simulate navigation (1 meter per 100ms)
-    const travelTime = distance * 100;
-    this.emit('navigation:started', { from: currentLocation, to: location, distance });
+    const travelTime = distance * 100 + connectorTime;
+    this.emit('navigation:started', { from: currentLocation, to: location, distance, waypoints });
 
-    await new Promise(resolve => setTimeout(resolve, travelTime));
+    await this.clock.sleep(travelTime);
 
     // Consume battery
     this.batteryLevel = Math.max(0, this.batteryLevel - (distance * 0.1));
+    this.os.updateBatteryLevel(this.batteryLevel);
 
     // Update location
     this.os.updateLocation(location);
@@ -225,8 +320,9 @@ export class WarehouseRobotAdapter extends EventEmitter {
    */
   private async pickItem(item: any): Promise<void> {
     // Simulate picking time
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await this.clock.sleep(500);
     this.batteryLevel = Math.max(0, this.batteryLevel - 0.5);
+    this.os.updateBatteryLevel(this.batteryLevel);
   }
 
   /**
@@ -242,8 +338,9 @@ export class WarehouseRobotAdapter extends EventEmitter {
    */
   private async charge(): Promise<void> {
     while (this.batteryLevel < 100) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await this.clock.sleep(1000);
       this.batteryLevel = Math.min(100, this.batteryLevel + 10);
+      this.os.updateBatteryLevel(this.batteryLevel);
       this.emit('charging:progress', { batteryLevel: this.batteryLevel });
     }
   }
@@ -274,7 +371,7 @@ export class WarehouseRobotAdapter extends EventEmitter {
         // Submit proof of completion
         const result = {
           completed: true,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           location: this.os.getLocation(),
           batteryLevel: this.batteryLevel
         };
@@ -16,27 +16,76 @@ import {
   TaskDefinition,
   TaskFilter,
   Bid,
+  BundleBid,
   Payment,
   Location,
   ReputationScore,
   Proof,
+  TaskTransition,
+  AuctionFormat,
   BidStrategy,
-  EventCallback
+  EventCallback,
+  NetworkConfig
 } from '../types';
-import { PaymentModule } from '../modules/PaymentModule';
+import { ChannelState, Escrow, PaymentChannel, PaymentModule } from '../modules/PaymentModule';
 import { TaskVerificationModule } from '../modules/TaskVerificationModule';
-import { CoordinationLayer } from '../modules/CoordinationLayer';
-import { TaskMarketplace } from '../modules/TaskMarketplace';
+import { ExecutionStep, StepProof } from '../modules/ExecutionTrace';
+import { CoordinationLayer, Workflow, WorkflowSpec, WorkflowTaskSpec } from '../modules/CoordinationLayer';
+import { BiddingOptions, TaskMarketplace } from '../modules/TaskMarketplace';
+import { BiddingStrategy } from '../modules/BiddingStrategy';
+import { AuctionRecord, MarketHistory } from '../modules/MarketHistory';
 import { ReputationRegistry } from '../modules/ReputationRegistry';
+import {
+  Attestation,
+  WitnessOffer,
+  WitnessOptions,
+  WitnessProtocol,
+  WitnessRequest,
+  WitnessSession,
+  getWitnessSettings
+} from '../modules/WitnessProtocol';
+import { KeyRegistry } from '../modules/KeyRegistry';
+import { InvalidTaskTransitionError, canTransition, isFinalStatus } from '../modules/TaskLifecycle';
+import { TaskValidationError, validatePayload, validateResult } from '../modules/TaskContracts';
+import { LedgerStatement } from '../modules/Ledger';
+import { AuctionEngine, AuctionEngineOptions, AuctionResult } from '../modules/AuctionEngine';
+import { DeadlineExpiry, DeadlineScheduler, DeadlineSchedulerOptions } from '../modules/DeadlineScheduler';
+import { InsuranceModule } from '../modules/InsuranceModule';
+import { NetworkMessage, NetworkTransport } from '../network/NetworkTransport';
+import { InMemoryTransport } from '../network/InMemoryTransport';
+import { TcpTransport } from '../network/TcpTransport';
+import { TaskGossip, TaskGossipOptions } from '../network/TaskGossip';
+import { Persistable, StorageAdapter, loadSnapshot, saveSnapshot } from '../storage/StorageAdapter';
+import { Clock, systemClock } from '../utils/clock';
+import { PathPlanner, PlannedPath } from '../navigation/PathPlanner';
+import { ReservationTable } from '../navigation/ReservationTable';
 
 export interface AutoGridOSConfig extends DeviceConfig {
   initialBalance?: number;
   autoConnect?: boolean;
   zkProofs?: boolean;
+  network?: NetworkConfig;
+  transport?: NetworkTransport;
+  gossip?: TaskGossipOptions;
+  auction?: AuctionEngineOptions;
+  bidding?: BiddingOptions;
+  trustedKeys?: Record<string, string>;
+  storage?: StorageAdapter;
+  deadlines?: DeadlineSchedulerOptions;
+  /** Settles the insurance policies and collateral of tasks whose deadline expires */
+  insurance?: InsuranceModule;
+  clock?: Clock;
+  /** Path planner over the facility map, for routes, distances and bid pricing */
+  planner?: PathPlanner;
+  /** Route reservations shared with the rest of the fleet */
+  reservations?: ReservationTable;
+  /** Witnessing other devices' tasks, and recruiting witnesses for ours */
+  witness?: WitnessOptions;
 }
 
 export class AutoGridOS extends EventEmitter {
   private config: AutoGridOSConfig;
+  private clock: Clock;
   private connected: boolean = false;
   private location?: Location;
   
@@ -46,52 +95,128 @@ export class AutoGridOS extends EventEmitter {
   private coordination: CoordinationLayer;
   private marketplace: TaskMarketplace;
   private reputation: ReputationRegistry;
+  private auctions: AuctionEngine;
+  private deadlines: DeadlineScheduler;
+  private keys: KeyRegistry;
+  private witnesses: WitnessProtocol;
+
+  // Network transport
+  private transport: NetworkTransport;
+  private gossip: TaskGossip;
   
   // Task definitions
   private taskDefinitions: Map<string, TaskDefinition> = new Map();
-  
-  // Event handlers
-  private taskHandlers: Map<string, EventCallback<Task>> = new Map();
+
+  // Verified proofs held back until their witnesses reach a quorum
+  private awaitingWitnesses: Map<string, Proof> = new Map();
+
+  // Persistence
+  private restored: boolean = false;
+  private persistScheduled: boolean = false;
+
 
   constructor(config: AutoGridOSConfig) {
     super();
     this.config = config;
     this.location = config.location;
+    this.clock = config.clock ?? systemClock;
+
+    // Public keys of known devices, used to verify payments and proofs
+    this.keys = new KeyRegistry({ keys: config.trustedKeys });
 
     // Initialize payment module
     this.payments = new PaymentModule({
       deviceId: config.deviceId,
       privateKey: config.privateKey,
-      initialBalance: config.initialBalance ?? 1000
+      keyRegistry: this.keys,
+      initialBalance: config.initialBalance ?? 1000,
+      clock: this.clock
     });
 
     // Initialize verification module
     this.verification = new TaskVerificationModule({
       deviceId: config.deviceId,
-      zkEnabled: config.zkProofs ?? true
+      zkEnabled: config.zkProofs ?? true,
+      privateKey: config.privateKey,
+      keyRegistry: this.keys,
+      clock: this.clock
     });
 
     // Initialize coordination layer
     this.coordination = new CoordinationLayer({
       deviceId: config.deviceId,
       location: config.location,
-      capabilities: config.capabilities
+      capabilities: config.capabilities,
+      clock: this.clock,
+      planner: config.planner,
+      reservations: config.reservations
     });
 
     // Initialize marketplace
     this.marketplace = new TaskMarketplace({
       deviceId: config.deviceId,
       location: config.location,
-      capabilities: config.capabilities
+      capabilities: config.capabilities,
+      clock: this.clock,
+      planner: config.planner,
+      ...config.bidding
     });
 
     // Initialize reputation registry
     this.reputation = new ReputationRegistry({
-      deviceId: config.deviceId
+      deviceId: config.deviceId,
+      clock: this.clock
+    });
+
+    // Recruit witnesses for tasks that require them, and witness for others
+    this.witnesses = new WitnessProtocol({
+      deviceId: config.deviceId,
+      privateKey: config.privateKey,
+      keyRegistry: this.keys,
+      reputation: this.reputation,
+      clock: this.clock,
+      recruitWindow: config.witness?.recruitWindow
+    });
+
+    // Initialize publisher-side auctions
+    this.auctions = new AuctionEngine({
+      coordination: this.coordination,
+      clock: this.clock,
+      // Bidders' own claims about their reputation don't count
+      reputationOf: deviceId => this.reputation.getReputation(deviceId),
+      ...config.auction
+    });
+
+    // Enforce task deadlines
+    this.deadlines = new DeadlineScheduler({
+      coordination: this.coordination,
+      marketplace: this.marketplace,
+      reputation: this.reputation,
+      insurance: config.insurance,
+      clock: this.clock,
+      ...config.deadlines
+    });
+
+    // Initialize network transport (isolated in-process network by default)
+    this.transport = config.transport ?? (config.network
+      ? new TcpTransport({ deviceId: config.deviceId, ...config.network })
+      : new InMemoryTransport({ deviceId: config.deviceId }));
+
+    // Share marketplace state with peers
+    this.gossip = new TaskGossip({
+      deviceId: config.deviceId,
+      transport: this.transport,
+      marketplace: this.marketplace,
+      privateKey: config.privateKey,
+      keyRegistry: this.keys,
+      clock: this.clock,
+      ...config.gossip
     });
 
     // Wire up internal events
     this.setupInternalEvents();
+    this.setupNetworkEvents();
+    this.setupPersistence();
 
     // Register default task types
     this.registerDefaultTaskTypes();
@@ -107,8 +232,14 @@ export class AutoGridOS extends EventEmitter {
       return;
     }
 
-    // Simulate network connection
-    await new Promise(resolve => setTimeout(resolve, 100));
+    if (this.config.storage && !this.restored) {
+      await this.restoreState();
+    }
+
+    await this.transport.start();
+    await this.gossip.start();
+    this.deadlines.start();
+    await this.reopenAuctions();
     
     this.connected = true;
     this.emit('connected', { deviceId: this.config.deviceId });
@@ -123,6 +254,16 @@ export class AutoGridOS extends EventEmitter {
     }
 
     this.connected = false;
+    this.auctions.dispose();
+    this.witnesses.dispose();
+    this.deadlines.stop();
+    await this.gossip.stop();
+    await this.transport.stop();
+
+    if (this.config.storage && this.restored) {
+      await this.saveState();
+    }
+
     this.emit('disconnected', { deviceId: this.config.deviceId });
   }
 
@@ -133,6 +274,60 @@ export class AutoGridOS extends EventEmitter {
     return this.connected;
   }
 
+  /**
+   * Request a full marketplace sync from peers
+   */
+  async syncMarketplace(): Promise<void> {
+    this.ensureConnected();
+    await this.gossip.sync();
+  }
+
+  /**
+   * Get IDs of currently reachable peers
+   */
+  getPeers(): string[] {
+    return this.transport.getPeers();
+  }
+
+  // ==================== Persistence ====================
+
+  /**
+   * Load wallet, tasks, reputation and known keys from the configured
+   * storage. Called by `connect()`; state is only written back to storage
+   * once it has been restored, so a fresh instance never overwrites what
+   * a previous run left behind.
+   */
+  async restoreState(): Promise<boolean> {
+    const storage = this.requireStorage();
+
+    let found = false;
+    for (const [key, module] of Object.entries(this.getPersistedModules())) {
+      found = await loadSnapshot(storage, key, module) || found;
+    }
+    this.restored = true;
+
+    const own = await this.reputation.getScore(this.config.deviceId);
+    if (own) {
+      this.marketplace.updateReputation(own.score);
+    }
+
+    if (found) {
+      this.emit('state:restored', { deviceId: this.config.deviceId });
+    }
+    return found;
+  }
+
+  /**
+   * Write the current state to the configured storage
+   */
+  async saveState(): Promise<void> {
+    const storage = this.requireStorage();
+
+    for (const [key, module] of Object.entries(this.getPersistedModules())) {
+      await saveSnapshot(storage, key, module);
+    }
+  }
+
   // ==================== Task Management ====================
 
   /**
@@ -144,6 +339,8 @@ export class AutoGridOS extends EventEmitter {
     maxPrice?: number;
     deadline?: number;
     priority?: TaskPriority;
+    biddingWindow?: number;
+    auctionFormat?: AuctionFormat;
     requirements?: {
       capabilities?: string[];
       minReputation?: number;
@@ -151,6 +348,12 @@ export class AutoGridOS extends EventEmitter {
     };
   }): Promise<Task> {
     this.ensureConnected();
+    params = this.applyTaskDefinition(params);
+
+    // The reward is held in escrow until a verified proof comes back
+    if ((params.maxPrice || 0) > this.payments.getBalance()) {
+      throw new Error('Insufficient balance for escrow');
+    }
 
     const task = await this.coordination.publishTask({
       type: params.type,
@@ -165,13 +368,70 @@ export class AutoGridOS extends EventEmitter {
       }
     });
 
-    // Add to marketplace
-    this.marketplace.addTask(task);
-
-    this.emit('task:published', task);
+    await this.listTask(task, params);
     return task;
   }
 
+  /**
+   * Publish a workflow: a graph of dependent tasks. Each step is published
+   * once the steps it depends on completed, with their outputs in its
+   * payload under `inputs`. The rewards of all steps and of their
+   * compensation tasks must be covered by the balance up front. A failed
+   * attempt is refunded before its retry locks the reward again, so
+   * retries cost nothing extra.
+   */
+  async publishWorkflow(spec: WorkflowSpec): Promise<Workflow> {
+    this.ensureConnected();
+
+    spec = {
+      ...spec,
+      steps: spec.steps.map(step => ({
+        ...this.applyTaskDefinition(step),
+        compensation: step.compensation && this.applyTaskDefinition(step.compensation)
+      }))
+    };
+
+    const total = spec.steps.reduce((sum, step) =>
+      sum + (step.maxPrice || 0) + (step.compensation?.maxPrice || 0), 0);
+    if (total > this.payments.getBalance()) {
+      throw new Error('Insufficient balance for escrow');
+    }
+
+    return this.coordination.createWorkflow(spec);
+  }
+
+  getWorkflow(workflowId: string): Workflow | undefined {
+    return this.coordination.getWorkflow(workflowId);
+  }
+
+  /**
+   * Cancel a task this device published. Escrowed funds are refunded and
+   * bidders or the assigned device are notified.
+   */
+  async cancelTask(taskId: string, reason?: string): Promise<void> {
+    const task = this.coordination.getTask(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (task.publisherId !== this.config.deviceId) {
+      throw new Error('Only the publisher can cancel a task');
+    }
+
+    if (isFinalStatus(task.status)) {
+      throw new InvalidTaskTransitionError(task.id, task.status, TaskStatus.CANCELLED);
+    }
+
+    await this.withdrawTask(task, TaskStatus.CANCELLED, reason ?? 'cancelled');
+  }
+
+  /**
+   * Get the escrow held for a task this device published
+   */
+  getEscrow(taskId: string): Escrow | undefined {
+    return this.payments.getEscrow(taskId);
+  }
+
   /**
    * Submit a bid for a task
    */
@@ -185,11 +445,95 @@ export class AutoGridOS extends EventEmitter {
   ): Promise<Bid> {
     this.ensureConnected();
 
+    // Don't take on work whose payload breaks the contract of its type
+    const listed = this.marketplace.getTask(taskId);
+    const definition = listed && this.taskDefinitions.get(listed.type);
+    const errors = definition ? validatePayload(definition, listed.payload) : [];
+    if (errors.length > 0) {
+      throw new TaskValidationError(listed!.type, 'payload', errors);
+    }
+
     const bid = await this.marketplace.submitBid(taskId, params);
+
+    const task = this.marketplace.getTask(taskId);
+    if (task) {
+      await this.sendTo(task.publisherId, 'bid:submitted', bid);
+    }
+
     this.emit('bid:submitted', bid);
     return bid;
   }
 
+  /**
+   * Price an available task with a bidding strategy (the default one if
+   * none is named) without bidding. Null if the strategy would skip it.
+   */
+  async quoteTask(taskId: string, strategy?: BidStrategy): Promise<number | null> {
+    return this.marketplace.quote(taskId, strategy);
+  }
+
+  /**
+   * Register a bidding strategy for `auto` bids. It is used by name, or
+   * for every `auto` bid that names none if `useByDefault` is set.
+   */
+  registerBiddingStrategy(strategy: BiddingStrategy, useByDefault: boolean = false): void {
+    this.marketplace.registerStrategy(strategy);
+    if (useByDefault) {
+      this.marketplace.setDefaultStrategy(strategy.name);
+    }
+  }
+
+  /**
+   * Recent prices tasks of a type were awarded at, oldest first
+   */
+  getClearingPrices(taskType: string): number[] {
+    return this.marketplace.getClearingPrices(taskType);
+  }
+
+  /**
+   * Closed auctions seen on the network, for price analytics
+   */
+  getMarketHistory(): MarketHistory {
+    return this.marketplace.getMarketHistory();
+  }
+
+  /**
+   * Submit an all-or-nothing bid over several tasks of one publisher
+   */
+  async submitBundleBid(
+    taskIds: string[],
+    params: {
+      price: number;
+      estimatedDuration: number;
+    }
+  ): Promise<BundleBid> {
+    this.ensureConnected();
+
+    const bundle = await this.marketplace.submitBundleBid(taskIds, params);
+
+    const task = this.marketplace.getTask(taskIds[0]);
+    if (task) {
+      await this.sendTo(task.publisherId, 'bundle:submitted', bundle);
+    }
+
+    this.emit('bundle:submitted', bundle);
+    return bundle;
+  }
+
+  /**
+   * Close a task's bidding window early and award it
+   */
+  async closeAuction(taskId: string): Promise<AuctionResult> {
+    return this.auctions.closeAuction(taskId);
+  }
+
+  /**
+   * Get the outcome of a closed auction for a task this device published
+   */
+  getAuctionResult(taskId: string): AuctionResult | undefined {
+    return this.auctions.getResult(taskId);
+  }
+
   /**
    * Get available tasks from marketplace
    */
@@ -197,6 +541,40 @@ export class AutoGridOS extends EventEmitter {
     return this.marketplace.getAvailableTasks(filter);
   }
 
+  /**
+   * Path from this device (or `from`) to a location, null if there is no
+   * path, no planner or no known location
+   */
+  planPath(to: Location, from?: Location): PlannedPath | null {
+    const origin = from ?? this.location;
+    if (!this.config.planner || !origin) {
+      return null;
+    }
+    return this.config.planner.plan(origin, to);
+  }
+
+  getPlanner(): PathPlanner | undefined {
+    return this.config.planner;
+  }
+
+  /**
+   * Available tasks within `radius` meters on the same floor, nearest
+   * first. Defaults to this device's location.
+   */
+  getTasksNear(radius: number, location?: Location, area?: string): Task[] {
+    const origin = location ?? this.location;
+    return origin ? this.marketplace.getTasksNear(origin, radius, area) : [];
+  }
+
+  /**
+   * The `k` available tasks nearest to this device (or `location`)
+   */
+  getNearestTasks(k: number, options: { location?: Location; area?: string; maxDistance?: number; type?: string } = {}): Task[] {
+    const { location, ...query } = options;
+    const origin = location ?? this.location;
+    return origin ? this.marketplace.getNearestTasks(origin, k, query) : [];
+  }
+
   /**
    * Get active tasks assigned to this device
    */
@@ -205,30 +583,57 @@ export class AutoGridOS extends EventEmitter {
   }
 
   /**
-   * Update task status
+   * Update task status. Tasks whose type requires a proof are only
+   * completed through `submitProof()`.
    */
   async updateTaskStatus(
     taskId: string,
     status: TaskStatus,
     metadata?: Record<string, any>
   ): Promise<void> {
-    await this.coordination.updateTaskStatus(taskId, status, metadata);
-    this.emit('task:updated', { taskId, status, metadata });
+    const task = this.coordination.getTask(taskId);
+    if (status === TaskStatus.COMPLETED && task &&
+        this.taskDefinitions.get(task.type)?.verificationRules.requireProof) {
+      throw new Error(`Task type ${task.type} requires a proof; use submitProof()`);
+    }
+
+    await this.setTaskStatus(taskId, status, metadata);
+
+    // A failed task won't be paid for: refund its escrow
+    if (status === TaskStatus.FAILED && task?.publisherId === this.config.deviceId) {
+      await this.releaseTask(task, metadata?.reason ?? 'failed');
+    }
   }
 
   /**
-   * Register a custom task type
+   * Every status change of a task with the device that made it and why
+   */
+  getTaskHistory(taskId: string): TaskTransition[] {
+    return this.coordination.getTaskHistory(taskId);
+  }
+
+  /**
+   * Register a custom task type. Only registered types can be published.
    */
   registerTaskType(definition: TaskDefinition): void {
+    if (definition.verificationRules.requireWitness) {
+      getWitnessSettings(definition.verificationRules);
+    }
     this.taskDefinitions.set(definition.type, definition);
     this.emit('taskType:registered', definition);
   }
 
+  /**
+   * Task types this device can publish
+   */
+  getTaskTypes(): TaskDefinition[] {
+    return Array.from(this.taskDefinitions.values());
+  }
+
   /**
    * Handle task assignment events
    */
   onTaskAssigned(callback: EventCallback<Task>): void {
-    this.taskHandlers.set('assigned', callback);
     this.on('task:assigned', callback);
   }
 
@@ -245,7 +650,7 @@ export class AutoGridOS extends EventEmitter {
     this.ensureConnected();
 
     const payment = await this.payments.send(params);
-    this.emit('payment:sent', payment);
+    await this.sendTo(payment.to, 'payment:sent', payment);
     return payment;
   }
 
@@ -254,7 +659,59 @@ export class AutoGridOS extends EventEmitter {
    */
   async receivePayment(payment: Payment): Promise<void> {
     await this.payments.receive(payment);
-    this.emit('payment:received', payment);
+  }
+
+  /**
+   * Open a payment channel to a device for frequent small payments
+   */
+  async openChannel(
+    counterparty: string,
+    deposit: number,
+    options: { duration?: number; challengePeriod?: number } = {}
+  ): Promise<PaymentChannel> {
+    this.ensureConnected();
+
+    const channel = await this.payments.openChannel({ counterparty, initialDeposit: deposit, ...options });
+    await this.sendTo(counterparty, 'channel:open', channel.toOpenRequest());
+    return channel;
+  }
+
+  /**
+   * Pay through an open channel; final once the counterparty countersigns
+   */
+  async payChannel(channelId: string, amount: number): Promise<ChannelState> {
+    this.ensureConnected();
+
+    const state = this.payments.payChannel(channelId, amount);
+    await this.sendToCounterparty(channelId, 'channel:update', state);
+    return state;
+  }
+
+  /**
+   * Close a channel cooperatively with the counterparty
+   */
+  async closeChannel(channelId: string): Promise<void> {
+    this.ensureConnected();
+
+    const state = await this.payments.closeChannel(channelId);
+    await this.sendToCounterparty(channelId, 'channel:update', state);
+  }
+
+  /**
+   * Close a channel without the counterparty; settles after the challenge period
+   */
+  async forceCloseChannel(channelId: string): Promise<void> {
+    const dispute = this.payments.forceCloseChannel(channelId);
+    if (this.connected) {
+      await this.sendToCounterparty(channelId, 'channel:dispute', dispute);
+    }
+  }
+
+  /**
+   * Get a payment channel
+   */
+  getChannel(channelId: string): PaymentChannel | undefined {
+    return this.payments.getChannel(channelId);
   }
 
   /**
@@ -271,42 +728,100 @@ export class AutoGridOS extends EventEmitter {
     return this.payments.getHistory(limit);
   }
 
+  /**
+   * Get every balance change between two timestamps, for auditing
+   */
+  getStatement(from?: number, to?: number): LedgerStatement {
+    return this.payments.getStatement(from, to);
+  }
+
   /**
    * Add funds to balance
    */
-  addFunds(amount: number): void {
-    this.payments.addFunds(amount);
+  addFunds(amount: number, reason?: string): void {
+    this.payments.addFunds(amount, reason);
   }
 
   // ==================== Verification & Proofs ====================
 
   /**
-   * Submit proof of task completion
+   * Submit proof of task completion. With the execution `steps` the proof
+   * carries only their Merkle root; `proveStep()` discloses single steps.
    */
-  async submitProof(taskId: string, result: any): Promise<Proof> {
+  async submitProof(taskId: string, result: any, steps?: ExecutionStep[]): Promise<Proof> {
     const task = this.coordination.getTask(taskId);
     if (!task) {
       throw new Error('Task not found');
     }
 
+    if (task.assignedTo !== this.config.deviceId) {
+      throw new Error('Task is not assigned to this device');
+    }
+
+    if (!canTransition(task.status, TaskStatus.COMPLETED)) {
+      throw new InvalidTaskTransitionError(task.id, task.status, TaskStatus.COMPLETED);
+    }
+
+    const definition = this.taskDefinitions.get(task.type);
+    const errors = definition ? validateResult(definition, result) : [];
+    if (errors.length > 0) {
+      throw new TaskValidationError(task.type, 'result', errors);
+    }
+
     const proof = await this.verification.generateProof({
       taskId,
       result,
-      parameters: task.payload
+      parameters: task.payload,
+      output: result,
+      steps
     });
 
     // Update task status
-    await this.updateTaskStatus(taskId, TaskStatus.COMPLETED, { proofId: proof.id });
+    await this.setTaskStatus(taskId, TaskStatus.COMPLETED, {
+      proofId: proof.id,
+      output: result,
+      reason: 'proof-submitted'
+    });
+
+    // The publisher verifies the proof and releases the escrowed payment
+    if (this.connected) {
+      await this.sendTo(task.publisherId, 'proof:submitted', proof);
+    }
 
     this.emit('proof:submitted', proof);
     return proof;
   }
 
   /**
-   * Verify a proof
+   * Verify a proof, and that it commits to `result` (default: the
+   * disclosed output). A proof with neither does not verify.
    */
-  async verifyProof(proof: Proof): Promise<boolean> {
-    return this.verification.verifyProof(proof);
+  async verifyProof(proof: Proof, result?: any): Promise<boolean> {
+    return result !== undefined
+      ? this.verification.verifyProof(proof, result)
+      : this.verification.verifyProof(proof);
+  }
+
+  /**
+   * Disclose one step of a task this device submitted a proof for
+   */
+  proveStep(taskId: string, index: number): StepProof {
+    return this.verification.proveStep(taskId, index);
+  }
+
+  /**
+   * Check a disclosed step against a proof's `traceRoot`
+   */
+  verifyStep(root: string, index: number, proof: StepProof): boolean {
+    return this.verification.verifyStep(root, index, proof);
+  }
+
+  /**
+   * Witnesses recruited for a task this device published, and their
+   * attestations so far
+   */
+  getWitnessSession(taskId: string): WitnessSession | undefined {
+    return this.witnesses.getSession(taskId);
   }
 
   // ==================== Reputation ====================
@@ -330,12 +845,18 @@ export class AutoGridOS extends EventEmitter {
    * Rate another device
    */
   async rateDevice(deviceId: string, rating: number, taskId?: string): Promise<void> {
-    await this.reputation.addRating({
+    const params = {
       fromDeviceId: this.config.deviceId,
       toDeviceId: deviceId,
       rating,
       taskId
-    });
+    };
+
+    await this.reputation.addRating(params);
+
+    if (this.connected) {
+      await this.broadcast('reputation:rating', params);
+    }
   }
 
   // ==================== Location & Configuration ====================
@@ -350,6 +871,13 @@ export class AutoGridOS extends EventEmitter {
     this.emit('location:updated', location);
   }
 
+  /**
+   * Report the battery level (0-100) for bidding strategies to price in
+   */
+  updateBatteryLevel(level: number): void {
+    this.marketplace.updateBatteryLevel(level);
+  }
+
   /**
    * Get current location
    */
@@ -364,6 +892,13 @@ export class AutoGridOS extends EventEmitter {
     return { ...this.config };
   }
 
+  /**
+   * Get the Ed25519 public key of this device, or of a known peer
+   */
+  getPublicKey(deviceId: string = this.config.deviceId): string | undefined {
+    return this.keys.getPublicKey(deviceId);
+  }
+
   /**
    * Get device ID
    */
@@ -405,6 +940,13 @@ export class AutoGridOS extends EventEmitter {
     return this.marketplace.getActiveBids();
   }
 
+  /**
+   * Get active bundle bids
+   */
+  getActiveBundleBids(): BundleBid[] {
+    return this.marketplace.getActiveBundleBids();
+  }
+
   /**
    * Get won tasks
    */
@@ -420,6 +962,226 @@ export class AutoGridOS extends EventEmitter {
     }
   }
 
+  private async broadcast(type: string, payload: any): Promise<void> {
+    await this.transport.send(this.createMessage(type, payload));
+  }
+
+  private async sendTo(to: string, type: string, payload: any): Promise<void> {
+    const message = this.createMessage(type, payload, to);
+
+    // Messages to ourselves (e.g. bidding on our own task) never hit the wire
+    if (to === this.config.deviceId) {
+      await this.handleNetworkMessage(message);
+      return;
+    }
+
+    await this.transport.send(message);
+  }
+
+  /**
+   * Whether an auction record from the network describes a plausible
+   * award of the task, before it can move anyone's prices
+   */
+  private isValidAuctionRecord(record: AuctionRecord, task: Task): boolean {
+    return record.taskType === task.type &&
+      Number.isFinite(record.price) && record.price > 0 && record.price <= record.reward &&
+      Number.isInteger(record.bidders) && record.bidders >= 1 &&
+      Number.isFinite(record.timeToFill) && record.timeToFill >= 0 &&
+      Number.isFinite(record.closedAt);
+  }
+
+  private async sendToCounterparty(channelId: string, type: string, payload: any): Promise<void> {
+    const channel = this.payments.getChannel(channelId)!;
+    await this.sendTo(channel.getCounterparty(this.config.deviceId), type, payload);
+  }
+
+  private createMessage(type: string, payload: any, to?: string): NetworkMessage {
+    return {
+      id: uuidv4(),
+      type,
+      from: this.config.deviceId,
+      to,
+      payload,
+      timestamp: this.clock.now()
+    };
+  }
+
+  private setupNetworkEvents(): void {
+    this.transport.on('message', (message: NetworkMessage) => {
+      if (message.from === this.config.deviceId) {
+        return;
+      }
+
+      this.handleNetworkMessage(message).catch(error => {
+        this.emit('network:error', { message, error });
+      });
+    });
+
+    // Exchange device keys with every new peer
+    this.transport.on('peer:connected', (peerId: string) => {
+      this.emit('peer:connected', peerId);
+      this.sendTo(peerId, 'key:announce', {
+        deviceId: this.config.deviceId,
+        publicKey: this.payments.getPublicKey()
+      }).catch(error => this.emit('network:error', { error }));
+    });
+
+    this.transport.on('peer:disconnected', (peerId: string) => {
+      this.emit('peer:disconnected', peerId);
+    });
+  }
+
+  private async handleNetworkMessage(message: NetworkMessage): Promise<void> {
+    if (message.type.startsWith('gossip:')) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'key:announce': {
+        const { deviceId, publicKey } = message.payload as { deviceId: string; publicKey: string };
+        if (deviceId === message.from && this.keys.register(deviceId, publicKey)) {
+          this.emit('key:registered', { deviceId, publicKey });
+          // Task records from the peer that arrived before its key can now be checked
+          await this.gossip.sync(deviceId);
+        }
+        break;
+      }
+      case 'bid:submitted': {
+        // Bids are unsigned: a device may only bid in its own name
+        const bid = message.payload as Bid;
+        if (bid.deviceId !== message.from) {
+          break;
+        }
+        this.emit('bid:received', bid);
+        if (this.auctions.getAuction(bid.taskId)) {
+          this.auctions.submitBid(bid);
+        }
+        break;
+      }
+      case 'bundle:submitted': {
+        const bundle = message.payload as BundleBid;
+        if (bundle.deviceId !== message.from) {
+          break;
+        }
+        this.emit('bundle:received', bundle);
+        this.auctions.submitBundleBid(bundle);
+        break;
+      }
+      case 'auction:bid':
+      case 'auction:price':
+        this.emit(message.type, message.payload);
+        break;
+      case 'auction:cleared': {
+        // Only the publisher reports what its tasks cleared at
+        const record = message.payload as AuctionRecord;
+        const task = this.marketplace.getTask(record.taskId) ??
+          this.gossip.getRecord(record.taskId)?.task ??
+          this.coordination.getTask(record.taskId);
+        if (task && task.publisherId === message.from && this.isValidAuctionRecord(record, task)) {
+          this.marketplace.recordAuction(record);
+        }
+        break;
+      }
+      case 'bid:won': {
+        // Only the publisher awards its tasks
+        const { task } = message.payload as { task: Task; bid: Bid };
+        const publisherId = this.marketplace.getTask(task.id)?.publisherId ?? task.publisherId;
+        if (message.from === publisherId && task.publisherId === publisherId) {
+          this.coordination.trackTask(task);
+          await this.marketplace.handleBidWon(task.id, task);
+        }
+        break;
+      }
+      case 'bid:lost': {
+        const task = this.marketplace.getTask(message.payload.taskId);
+        if (task && message.from === task.publisherId) {
+          await this.marketplace.handleBidLost(task.id);
+        }
+        break;
+      }
+      case 'payment:sent': {
+        const payment = message.payload as Payment;
+        if (payment.to === this.config.deviceId) {
+          await this.receivePayment(payment);
+        }
+        break;
+      }
+      case 'proof:submitted':
+        await this.handleProofSubmitted(message.payload as Proof);
+        break;
+      case 'task:cancelled': {
+        const { taskId, reason } = message.payload;
+        const task = this.coordination.getTask(taskId);
+        // Only the publisher cancels its tasks
+        if (
+          task &&
+          task.publisherId === message.from &&
+          task.assignedTo === this.config.deviceId &&
+          canTransition(task.status, TaskStatus.CANCELLED)
+        ) {
+          await this.coordination.cancelTask(taskId, reason, message.from);
+        }
+        break;
+      }
+      case 'channel:open':
+        await this.sendTo(message.from, 'channel:state', this.payments.acceptChannel(message.payload));
+        break;
+      case 'channel:update':
+        await this.sendTo(message.from, 'channel:state', this.payments.receiveChannelUpdate(message.payload));
+        break;
+      case 'channel:state':
+        this.payments.receiveChannelState(message.payload);
+        break;
+      case 'channel:dispute': {
+        const challenge = this.payments.receiveChannelDispute(message.payload);
+        if (challenge) {
+          await this.sendTo(message.from, 'channel:challenge', challenge);
+        }
+        break;
+      }
+      case 'channel:challenge':
+        this.payments.challengeChannel(message.payload);
+        break;
+      case 'reputation:rating': {
+        // Devices only rate in their own name, and never themselves
+        const { fromDeviceId, toDeviceId, rating, taskId } = message.payload;
+        if (fromDeviceId === message.from && toDeviceId !== fromDeviceId) {
+          await this.reputation.addRating({ fromDeviceId, toDeviceId, rating, taskId });
+        }
+        break;
+      }
+      case 'witness:request': {
+        const request = message.payload as WitnessRequest;
+        const offer = this.config.witness?.observe && request.publisherId === message.from
+          ? this.witnesses.volunteer(request, this.location)
+          : undefined;
+        if (offer) {
+          await this.sendTo(message.from, 'witness:offer', offer);
+        }
+        break;
+      }
+      case 'witness:offer': {
+        const offer = message.payload as WitnessOffer;
+        if (offer.deviceId === message.from) {
+          this.witnesses.offer(offer);
+        }
+        break;
+      }
+      case 'witness:selected':
+        await this.observeTask(message.payload.taskId, message.from);
+        break;
+      case 'witness:attestation': {
+        const attestation = message.payload as Attestation;
+        if (attestation.witnessId === message.from) {
+          this.witnesses.addAttestation(attestation);
+        }
+        break;
+      }
+      default:
+        this.emit('network:message', message);
+    }
+  }
+
   private setupInternalEvents(): void {
     // Forward payment events
     this.payments.on('payment:sent', (payment) => {
@@ -430,21 +1192,127 @@ export class AutoGridOS extends EventEmitter {
       this.emit('payment:received', payment);
     });
 
+    this.payments.on('escrow:locked', (escrow) => {
+      this.emit('escrow:locked', escrow);
+    });
+
+    this.payments.on('escrow:refunded', (escrow) => {
+      this.emit('escrow:refunded', escrow);
+    });
+
+    // The escrow expires with the task's deadline; don't wait for the next sweep
+    this.payments.on('escrow:expired', (escrow: Escrow) => {
+      this.deadlines.expire(escrow.taskId)
+        .catch(error => this.emit('deadline:error', { error }));
+    });
+
+    // Take overdue tasks we published off the market and refund them
+    this.deadlines.on('task:deadline-expired', (expiry: DeadlineExpiry) => {
+      this.emit('task:deadline-expired', expiry);
+      if (expiry.task.publisherId === this.config.deviceId) {
+        this.releaseTask(expiry.task, 'deadline-expired')
+          .catch(error => this.emit('network:error', { error }));
+      }
+    });
+
+    for (const event of ['task:deadline-approaching', 'bid:expired', 'deadline:error']) {
+      this.deadlines.on(event, (data) => this.emit(event, data));
+    }
+
+    for (const event of ['channel:opened', 'channel:payment', 'channel:closing', 'channel:challenged', 'channel:closed']) {
+      this.payments.on(event, (data) => this.emit(event, data));
+    }
+
+    // Tell recruited witnesses to observe, and pay out once they confirm
+    this.witnesses.on('witness:recruited', ({ taskId, witnesses }: { taskId: string; witnesses: string[] }) => {
+      this.emit('witness:recruited', { taskId, witnesses });
+      Promise.all(witnesses.map(witness => this.sendTo(witness, 'witness:selected', { taskId })))
+        .catch(error => this.emit('network:error', { error }));
+    });
+
+    this.witnesses.on('witness:attested', (attestation: Attestation) => {
+      this.emit('witness:attested', attestation);
+    });
+
+    this.witnesses.on('witness:quorum', (data: { taskId: string; attestations: Attestation[] }) => {
+      this.emit('witness:quorum', data);
+      const proof = this.awaitingWitnesses.get(data.taskId);
+      if (proof) {
+        this.awaitingWitnesses.delete(data.taskId);
+        this.acceptProof(proof).catch(error => this.emit('network:error', { error }));
+      }
+    });
+
+    this.witnesses.on('witness:failed', (data: { taskId: string; reason: string }) => {
+      this.emit('witness:failed', data);
+      const proof = this.awaitingWitnesses.get(data.taskId);
+      if (proof) {
+        this.awaitingWitnesses.delete(data.taskId);
+        this.emit('proof:rejected', { proof, reason: 'witness-quorum-failed' });
+      }
+
+      // Without a quorum the task can never be paid for
+      const task = this.coordination.getTask(data.taskId);
+      if (task && canTransition(task.status, TaskStatus.FAILED)) {
+        this.updateTaskStatus(task.id, TaskStatus.FAILED, { reason: `witness-${data.reason}` })
+          .catch(error => this.emit('network:error', { error }));
+      }
+    });
+
     // Forward marketplace events
-    this.marketplace.on('bid:won', async (task) => {
+    this.marketplace.on('bid:won', (task) => {
       this.emit('task:assigned', task);
-      
-      // Execute registered handler
-      const handler = this.taskHandlers.get('assigned');
-      if (handler) {
-        await handler(task);
-      }
+    });
+
+    this.marketplace.on('bid:lost', (bid) => {
+      this.emit('bid:lost', bid);
+    });
+
+    this.marketplace.on('bundle:lost', (bundle) => {
+      this.emit('bundle:lost', bundle);
     });
 
     this.marketplace.on('task:available', (task) => {
       this.emit('task:available', task);
     });
 
+    this.marketplace.on('task:removed', (task) => {
+      this.emit('task:removed', task);
+    });
+
+    // Award auctions: update the market, then notify winner and losers
+    this.auctions.on('auction:opened', (auction) => {
+      this.emit('auction:opened', auction);
+    });
+
+    // Open formats publish the standing bid / clock price; sealed bids stay private
+    this.auctions.on('auction:bid', (data) => {
+      this.emit('auction:bid', data);
+      if (data.format === AuctionFormat.ENGLISH) {
+        this.broadcast('auction:bid', data).catch(error => this.emit('network:error', { error }));
+      }
+    });
+
+    this.auctions.on('auction:price', (data) => {
+      this.emit('auction:price', data);
+      this.broadcast('auction:price', data).catch(error => this.emit('network:error', { error }));
+    });
+
+    this.auctions.on('bundle:awarded', (data) => {
+      this.emit('bundle:awarded', data);
+    });
+
+    this.auctions.on('auction:closed', (result: AuctionResult) => {
+      this.handleAuctionClosed(result).catch(error => {
+        this.emit('auction:error', { taskId: result.taskId, error });
+      });
+    });
+
+    // Keep the marketplace's view of this device's queue current
+    for (const event of ['task:tracked', 'task:updated', 'task:cancelled']) {
+      this.coordination.on(event, () => this.updateQueueLength());
+    }
+
     // Forward coordination events
     this.coordination.on('task:updated', (data) => {
       this.emit('task:updated', data);
@@ -454,13 +1322,406 @@ export class AutoGridOS extends EventEmitter {
       this.emit('task:cancelled', data);
     });
 
+    // Workflow steps go through the same escrow and auction as any task. A
+    // step that cannot be listed, e.g. because the balance no longer covers
+    // its escrow, is cancelled, which aborts the workflow.
+    this.coordination.on('workflow:task', ({ workflow, stepId, task }) => {
+      this.listTask(task).catch(async error => {
+        this.emit('workflow:error', { workflowId: workflow.id, stepId, error });
+        if (!isFinalStatus(task.status)) {
+          await this.withdrawTask(task, TaskStatus.CANCELLED, 'listing-failed');
+        }
+      }).catch(error => this.emit('network:error', { error }));
+    });
+
+    for (const event of ['workflow:aborted', 'workflow:compensating']) {
+      this.coordination.on(event, (data) => {
+        for (const task of data.cancelled as Task[]) {
+          this.releaseTask(task, `workflow-${data.workflow.status}`)
+            .catch(error => this.emit('network:error', { error }));
+        }
+      });
+    }
+
+    for (const event of ['workflow:created', 'workflow:step:completed', 'workflow:step:failed', 'workflow:completed', 'workflow:aborted', 'workflow:compensating', 'workflow:compensated']) {
+      this.coordination.on(event, (data) => this.emit(event, data));
+    }
+
     // Forward reputation events
     this.reputation.on('reputation:updated', (score) => {
-      this.marketplace.updateReputation(score.score);
+      if (score.deviceId === this.config.deviceId) {
+        this.marketplace.updateReputation(score.score);
+      }
       this.emit('reputation:updated', score);
     });
   }
 
+  /**
+   * Write state back to storage whenever a persisted module changes.
+   * Changes made in the same tick are saved together.
+   */
+  private setupPersistence(): void {
+    if (!this.config.storage) {
+      return;
+    }
+
+    const persist = () => this.schedulePersist();
+
+    this.payments.getLedger().on('transaction:recorded', persist);
+    for (const event of ['payment:received', 'escrow:locked', 'escrow:refunded', 'channel:opened', 'channel:payment', 'channel:closing', 'channel:challenged', 'channel:closed']) {
+      this.payments.on(event, persist);
+    }
+
+    for (const event of ['task:published', 'task:assigned', 'task:tracked', 'task:updated', 'task:cancelled', 'task:queued', 'route:created', 'route:updated', 'route:completed', 'workflow:created']) {
+      this.coordination.on(event, persist);
+    }
+
+    this.reputation.on('reputation:updated', persist);
+    this.keys.on('key:registered', persist);
+    this.marketplace.getMarketHistory().on('auction:recorded', persist);
+  }
+
+  private schedulePersist(): void {
+    if (!this.restored || this.persistScheduled) {
+      return;
+    }
+
+    this.persistScheduled = true;
+    setImmediate(() => {
+      this.persistScheduled = false;
+      this.saveState().catch(error => this.emit('storage:error', { error }));
+    });
+  }
+
+  private getPersistedModules(): Record<string, Persistable> {
+    return {
+      keys: this.keys,
+      payments: this.payments,
+      coordination: this.coordination,
+      reputation: this.reputation,
+      market: this.marketplace.getMarketHistory()
+    };
+  }
+
+  private requireStorage(): StorageAdapter {
+    if (!this.config.storage) {
+      throw new Error('No storage configured');
+    }
+    return this.config.storage;
+  }
+
+  /**
+   * Publisher side: release the escrowed payment to the assigned device
+   * once its proof verifies and, if the task type requires witnesses,
+   * a quorum of them has confirmed the work
+   */
+  private async handleProofSubmitted(proof: Proof): Promise<void> {
+    const task = this.coordination.getTask(proof.taskId);
+    if (!task || task.publisherId !== this.config.deviceId) {
+      return;
+    }
+
+    const escrow = this.payments.getEscrow(task.id);
+    const valid = await this.verification.verifyTaskProof(proof, {
+      taskId: task.id,
+      deviceId: task.assignedTo,
+      parameters: task.payload
+    });
+
+    if (!valid || escrow?.status !== 'locked') {
+      this.emit('proof:rejected', { proof, reason: valid ? 'escrow-not-locked' : 'invalid-proof' });
+      return;
+    }
+
+    const definition = this.taskDefinitions.get(task.type);
+    const errors = definition ? validateResult(definition, proof.output) : [];
+    if (errors.length > 0) {
+      this.emit('proof:rejected', { proof, reason: 'invalid-result', errors });
+      return;
+    }
+
+    // The task type may limit how long after assignment a proof counts
+    const rules = definition?.verificationRules;
+    const assignedAt = this.coordination.getTaskHistory(task.id)
+      .filter(transition => transition.to === TaskStatus.ASSIGNED)
+      .pop()?.timestamp;
+    if (rules?.timeout !== undefined && assignedAt !== undefined && this.clock.now() - assignedAt > rules.timeout) {
+      this.emit('proof:rejected', { proof, reason: 'proof-timeout' });
+      return;
+    }
+
+    if (rules?.requireWitness && !this.witnesses.hasQuorum(task.id)) {
+      this.awaitingWitnesses.set(task.id, proof);
+      this.emit('proof:awaiting-witnesses', proof);
+      return;
+    }
+
+    await this.acceptProof(proof);
+  }
+
+  /**
+   * Complete the task for a proof that passed verification and pay the
+   * executor, and its confirming witnesses, from the escrow
+   */
+  private async acceptProof(proof: Proof): Promise<void> {
+    const task = this.coordination.getTask(proof.taskId)!;
+
+    if (task.status !== TaskStatus.COMPLETED) {
+      await this.setTaskStatus(task.id, TaskStatus.COMPLETED, {
+        proofId: proof.id,
+        output: proof.output,
+        actor: proof.deviceId,
+        reason: 'proof-verified'
+      });
+    }
+    this.emit('proof:verified', proof);
+
+    // Witnesses are paid their share of the reward before the executor
+    const session = this.witnesses.getSession(task.id);
+    const payouts = this.witnesses.getConfirmations(task.id)
+      .map(attestation => ({ to: attestation.witnessId, amount: task.reward * (session?.reward ?? 0) }));
+
+    // Our own work needs no payment
+    if (proof.deviceId !== this.config.deviceId) {
+      const witnessed = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+      const price = this.auctions.getResult(task.id)?.price ?? task.reward;
+      payouts.unshift({ to: proof.deviceId, amount: Math.min(price, task.reward - witnessed) });
+    }
+
+    const owed = payouts.filter(payout => payout.amount > 0);
+    if (owed.length === 0) {
+      this.payments.refundEscrow(task.id, 'self-assigned');
+      this.witnesses.close(task.id);
+      return;
+    }
+
+    const payments = this.payments.releaseEscrowTo(task.id, owed);
+    this.witnesses.close(task.id);
+    for (const payment of payments) {
+      await this.sendTo(payment.to, 'payment:sent', payment);
+    }
+  }
+
+  /**
+   * Witness side: observe a task we were recruited for and send the
+   * signed attestation to its publisher
+   */
+  private async observeTask(taskId: string, publisherId: string): Promise<void> {
+    const request = this.witnesses.getRequest(taskId);
+    const observe = this.config.witness?.observe;
+    if (!request || request.publisherId !== publisherId || !observe) {
+      return;
+    }
+
+    const { observation, confirmed } = await observe(request);
+    const attestation = this.witnesses.attest({
+      taskId,
+      executorId: request.executorId,
+      observation,
+      confirmed,
+      location: this.location
+    });
+    this.witnesses.close(taskId);
+
+    await this.sendTo(publisherId, 'witness:attestation', attestation);
+    this.emit('witness:attestation', attestation);
+  }
+
+  private async setTaskStatus(taskId: string, status: TaskStatus, metadata?: Record<string, any>): Promise<void> {
+    await this.coordination.updateTaskStatus(taskId, status, metadata);
+    this.emit('task:updated', { taskId, status, metadata });
+  }
+
+  /**
+   * Take a published task off the market, refund its escrow and tell the
+   * bidders (or the assigned device) that it is gone
+   */
+  private async withdrawTask(task: Task, status: TaskStatus, reason: string): Promise<void> {
+    if (status === TaskStatus.CANCELLED) {
+      await this.coordination.cancelTask(task.id, reason);
+    } else {
+      await this.setTaskStatus(task.id, status, { reason });
+    }
+
+    await this.releaseTask(task, reason);
+  }
+
+  /**
+   * Check a task against the definition of its type and apply what the
+   * definition dictates: its required capabilities, the minimum reputation
+   * of its verification rules, and a reward capped at its maximum price.
+   * Offers below its minimum price are refused.
+   */
+  private applyTaskDefinition<T extends WorkflowTaskSpec>(params: T): T {
+    const definition = this.taskDefinitions.get(params.type);
+    if (!definition) {
+      throw new Error(`Unknown task type: ${params.type}`);
+    }
+
+    const errors = validatePayload(definition, params.payload ?? {});
+    if (errors.length > 0) {
+      throw new TaskValidationError(params.type, 'payload', errors);
+    }
+
+    // A publisher is never made to escrow more than it offered
+    const { minPrice = 0, maxPrice = Infinity } = definition.pricing;
+    if (params.maxPrice !== undefined && params.maxPrice < minPrice) {
+      throw new TaskValidationError(params.type, 'maxPrice', [
+        { path: '$.maxPrice', keyword: 'minimum', message: `$.maxPrice must be at least ${minPrice}` }
+      ]);
+    }
+
+    const minReputations = [params.requirements?.minReputation, definition.verificationRules.minReputation]
+      .filter((value): value is number => value !== undefined);
+
+    return {
+      ...params,
+      maxPrice: params.maxPrice === undefined ? undefined : Math.min(maxPrice, params.maxPrice),
+      requirements: {
+        ...params.requirements,
+        capabilities: Array.from(new Set([...definition.requiredCapabilities, ...(params.requirements?.capabilities ?? [])])),
+        minReputation: minReputations.length > 0 ? Math.max(...minReputations) : undefined
+      }
+    };
+  }
+
+  /**
+   * Escrow the reward of a task just published through the coordination
+   * layer, open its auction and list it on the marketplace
+   */
+  private async listTask(
+    task: Task,
+    options: { biddingWindow?: number; auctionFormat?: AuctionFormat } = {}
+  ): Promise<void> {
+    if (task.reward > 0) {
+      this.payments.lockEscrow(task.id, task.reward, { expiresAt: task.deadline });
+    }
+
+    await this.openListing(task, options);
+    this.emit('task:published', task);
+  }
+
+  /**
+   * Open the bidding window, then list on the marketplace (gossiped to peers)
+   */
+  private async openListing(
+    task: Task,
+    options: { biddingWindow?: number; auctionFormat?: AuctionFormat } = {}
+  ): Promise<void> {
+    const pricing = this.taskDefinitions.get(task.type)?.pricing;
+    await this.auctions.openAuction(task.id, {
+      biddingWindow: options.biddingWindow,
+      format: options.auctionFormat ?? pricing?.auctionFormat,
+      bidIncrement: pricing?.bidIncrement,
+      reservePrice: pricing?.minPrice,
+      priceStep: pricing?.priceStep,
+      priceStepInterval: pricing?.priceStepInterval
+    });
+    this.marketplace.addTask(task);
+  }
+
+  /**
+   * Auctions are not persisted: after a restore, reopen a fresh one for
+   * each of this device's tasks that was still taking bids. The escrow
+   * restored with the task stays locked.
+   */
+  private async reopenAuctions(): Promise<void> {
+    const orphaned = this.coordination.getTasksByStatus(TaskStatus.BIDDING).filter(task =>
+      task.publisherId === this.config.deviceId && !this.auctions.getAuction(task.id)
+    );
+
+    for (const task of orphaned) {
+      await this.coordination.updateTaskStatus(task.id, TaskStatus.PENDING, { reason: 'auction-reopened' });
+      await this.openListing(task);
+    }
+
+    // Peers still hold the listings under the versions gossiped before the
+    // restore; their replies let the gossip layer republish above them
+    if (orphaned.length > 0) {
+      await this.gossip.sync();
+    }
+  }
+
+  /**
+   * Undo listTask() for a task that has been cancelled or failed
+   */
+  private async releaseTask(task: Task, reason: string): Promise<void> {
+    const dropped = this.auctions.cancelAuction(task.id);
+    this.marketplace.removeTask(task.id);
+    this.witnesses.close(task.id);
+    this.awaitingWitnesses.delete(task.id);
+
+    if (this.payments.getEscrow(task.id)?.status === 'locked') {
+      this.payments.refundEscrow(task.id, reason);
+    }
+
+    if (!this.connected) {
+      return;
+    }
+
+    for (const bid of dropped) {
+      await this.sendTo(bid.deviceId, 'bid:lost', { taskId: task.id, bidId: bid.id });
+    }
+
+    if (task.assignedTo && task.assignedTo !== this.config.deviceId) {
+      await this.sendTo(task.assignedTo, 'task:cancelled', { taskId: task.id, reason });
+    }
+  }
+
+  private async handleAuctionClosed(result: AuctionResult): Promise<void> {
+    const task = this.coordination.getTask(result.taskId);
+    if (!task) {
+      return;
+    }
+
+    if (!result.winner) {
+      this.marketplace.updateTask(task);
+      this.emit('auction:closed', result);
+      return;
+    }
+
+    this.marketplace.markAssigned(task.id, result.winner.deviceId);
+    this.emit('auction:closed', result);
+
+    await this.sendTo(result.winner.deviceId, 'bid:won', { task, bid: result.winner });
+
+    // Recruit witnesses nearby before the work starts
+    const rules = this.taskDefinitions.get(task.type)?.verificationRules;
+    if (rules?.requireWitness) {
+      await this.broadcast('witness:request', this.witnesses.open(task, rules));
+    }
+
+    // A device can lose with one bid (e.g. a bundle) but win with another
+    const notified = new Set([result.winner.deviceId]);
+    for (const loser of result.losers) {
+      if (!notified.has(loser.deviceId)) {
+        notified.add(loser.deviceId);
+        await this.sendTo(loser.deviceId, 'bid:lost', { taskId: task.id, bidId: loser.id });
+      }
+    }
+
+    // Let bidding strategies everywhere see what the task went for
+    const record: AuctionRecord = {
+      taskId: task.id,
+      taskType: task.type,
+      priority: task.priority,
+      price: result.price ?? result.winner.price,
+      reward: task.reward,
+      bidders: new Set([result.winner, ...result.losers].map(bid => bid.deviceId)).size,
+      timeToFill: Math.max(0, result.closedAt - task.createdAt),
+      closedAt: result.closedAt
+    };
+    this.marketplace.recordAuction(record);
+    await this.broadcast('auction:cleared', record);
+  }
+
+  private updateQueueLength(): void {
+    const queued = this.coordination.getActiveTasks().filter(task =>
+      task.assignedTo === this.config.deviceId && !isFinalStatus(task.status)
+    );
+    this.marketplace.updateQueueLength(queued.length);
+  }
+
   private registerDefaultTaskTypes(): void {
     // Transport task
     this.registerTaskType({
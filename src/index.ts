@@ -8,12 +8,111 @@
 export { AutoGridOS } from './core/AutoGridOS';
 
 // Core Modules
-export { PaymentModule, PaymentChannel } from './modules/PaymentModule';
+export {
+  PaymentModule,
+  PaymentChannel,
+  EXTERNAL_ACCOUNT,
+  type Escrow,
+  type EscrowStatus,
+  type ChannelStatus,
+  type ChannelState,
+  type ChannelOpenRequest,
+  type ChannelDispute,
+  type PaymentChannelSnapshot,
+  type PaymentModuleSnapshot
+} from './modules/PaymentModule';
+export {
+  Ledger,
+  type LedgerConfig,
+  type LedgerAccountOptions,
+  type LedgerEntry,
+  type LedgerTransaction,
+  type LedgerStatement,
+  type LedgerSnapshot
+} from './modules/Ledger';
 export { TaskVerificationModule } from './modules/TaskVerificationModule';
-export { CoordinationLayer } from './modules/CoordinationLayer';
-export { ReputationRegistry } from './modules/ReputationRegistry';
-export { TaskMarketplace } from './modules/TaskMarketplace';
-export { FleetManager } from './modules/FleetManager';
+export { ExecutionTrace, type ExecutionStep, type StepProof } from './modules/ExecutionTrace';
+export {
+  WitnessProtocol,
+  type WitnessProtocolConfig,
+  type WitnessOptions,
+  type WitnessObservation,
+  type WitnessRequest,
+  type WitnessOffer,
+  type WitnessSession,
+  type WitnessSessionStatus,
+  type Attestation
+} from './modules/WitnessProtocol';
+export {
+  CoordinationLayer,
+  type CoordinationSnapshot,
+  type Route,
+  type Workflow,
+  type WorkflowSpec,
+  type WorkflowStepSpec,
+  type WorkflowTaskSpec,
+  type WorkflowStep,
+  type WorkflowStatus,
+  type WorkflowStepStatus,
+  type WorkflowFailurePolicy
+} from './modules/CoordinationLayer';
+export {
+  TASK_TRANSITIONS,
+  InvalidTaskTransitionError,
+  canTransition,
+  isFinalStatus
+} from './modules/TaskLifecycle';
+export {
+  TaskValidationError,
+  LOCATION_SCHEMA,
+  defineTaskType,
+  readPayload,
+  validatePayload,
+  validateResult,
+  type PayloadOf,
+  type ResultOf,
+  type TypedTask,
+  type TaskValidationTarget
+} from './modules/TaskContracts';
+export { ReputationRegistry, type ReputationSnapshot } from './modules/ReputationRegistry';
+export { TaskMarketplace, type BiddingOptions } from './modules/TaskMarketplace';
+export {
+  RewardShareStrategy,
+  CostPlusStrategy,
+  AdaptiveStrategy,
+  type BiddingStrategy,
+  type BiddingContext,
+  type BidOutcome,
+  type DeviceState,
+  type CostPlusOptions,
+  type AdaptiveOptions
+} from './modules/BiddingStrategy';
+export {
+  MarketHistory,
+  type AuctionRecord,
+  type MarketHistoryConfig,
+  type MarketHistoryQuery,
+  type PriceStats,
+  type PricePoint
+} from './modules/MarketHistory';
+export { FleetManager, type FleetSnapshot, type DeviceInfo } from './modules/FleetManager';
+export {
+  AuctionEngine,
+  type Auction,
+  type AuctionResult,
+  type AuctionEngineConfig,
+  type AuctionEngineOptions,
+  type AuctionOptions,
+  type BidScoringWeights,
+  type BidScoringFunction
+} from './modules/AuctionEngine';
+export { KeyRegistry, type KeyRegistryConfig } from './modules/KeyRegistry';
+export {
+  DeadlineScheduler,
+  type DeadlineSchedulerConfig,
+  type DeadlineSchedulerOptions,
+  type DeadlineExpiry
+} from './modules/DeadlineScheduler';
 
 // v2.0 Modules - Swarm Intelligence
 export { 
@@ -41,7 +140,8 @@ export {
   type InsurancePool,
   type Collateral,
   type RiskAssessment,
-  type InsuranceQuote
+  type InsuranceQuote,
+  type InsuranceSnapshot
 } from './modules/InsuranceModule';
 
 // v2.0 Modules - Maintenance Prediction
@@ -58,7 +158,8 @@ export {
   type MaintenanceRecommendation,
   type MaintenanceTask,
   type HealthAlert,
-  type SparePart
+  type SparePart,
+  type MaintenancePredictionSnapshot
 } from './modules/MaintenancePrediction';
 
 // v2.1 Modules - Energy Market
@@ -73,15 +174,91 @@ export {
   type EnergyReservation,
   type EnergyMarketStats,
   type PeerEnergyTransfer,
-  type EnergyForecast
+  type EnergyForecast,
+  type EnergyMarketSnapshot
 } from './modules/EnergyMarketModule';
 
+// Network
+export { type NetworkTransport, type NetworkMessage } from './network/NetworkTransport';
+export { InMemoryTransport, InMemoryNetwork, type InMemoryTransportConfig } from './network/InMemoryTransport';
+export { TcpTransport, type TcpTransportConfig } from './network/TcpTransport';
+export {
+  TaskGossip,
+  type TaskGossipConfig,
+  type TaskGossipOptions,
+  type TaskRecord,
+  type GossipEnvelope,
+  type TaskDigestEntry
+} from './network/TaskGossip';
+
+// Storage
+export {
+  type StorageAdapter,
+  type Persistable,
+  saveSnapshot,
+  loadSnapshot
+} from './storage/StorageAdapter';
+export { MemoryStorage } from './storage/MemoryStorage';
+export { FileStorage, type FileStorageConfig } from './storage/FileStorage';
+
 // Adapters
-export { WarehouseRobotAdapter } from './adapters/WarehouseRobotAdapter';
-export { ServiceRobotAdapter } from './adapters/ServiceRobotAdapter';
+export { WarehouseRobotAdapter, TRANSPORT_TASK, PICKING_TASK, SORTING_TASK } from './adapters/WarehouseRobotAdapter';
+export {
+  ServiceRobotAdapter,
+  DELIVERY_TASK,
+  CLEANING_TASK,
+  PATROL_TASK,
+  INTERACTION_TASK
+} from './adapters/ServiceRobotAdapter';
+
+// Simulation
+export {
+  FleetSimulator,
+  sampleDistribution,
+  type FleetSimulatorConfig,
+  type FleetSimulationReport,
+  type Distribution,
+  type SimulationMap,
+  type RobotKind,
+  type RobotGroupSpec,
+  type TaskArrivalSpec,
+  type PayloadGenerator,
+  type PricingStrategy,
+  type BidContext,
+  type TaskCounts,
+  type RobotReport,
+  type ReputationSample
+} from './simulation/FleetSimulator';
+
+// Navigation
+export {
+  FacilityMap,
+  type FacilityMapConfig,
+  type FloorPlan,
+  type FloorConnector,
+  type ConnectorKind,
+  type Door,
+  type Rect,
+  type GridCell
+} from './navigation/FacilityMap';
+export { PathPlanner, type PathPlannerConfig, type PlannedPath } from './navigation/PathPlanner';
+export {
+  ReservationTable,
+  type ReservationTableConfig,
+  type ReservationRequest,
+  type Reservation,
+  type RouteConflict,
+  type ConflictResolution
+} from './navigation/ReservationTable';
 
 // Utils
 export * from './utils/helpers';
+export * from './utils/winnerDetermination';
+export * from './utils/crypto';
+export * from './utils/merkle';
+export * from './utils/clock';
+export * from './utils/spatialIndex';
+export * from './utils/schema';
 
 // Types
 export * from './types';
@@ -0,0 +1,642 @@
+/**
+ * Auction Engine
+ *
+ * Publisher-side auctions: opens a bidding window for a task, collects
+ * bids, picks a winner and assigns the task through the CoordinationLayer.
+ *
+ * Supported formats (all are reverse auctions - the publisher buys work):
+ * - First-price sealed bid: best score wins, winner is paid its own bid
+ * - Vickrey (second-price): best score wins, winner is paid the runner-up's
+ *   price (or the task reward if unopposed), so truthful bidding is optimal
+ * - English: open auction, every new bid must undercut the standing bid by
+ *   the bid increment; the standing bid wins when the window closes
+ * - Dutch: a price clock descends from the task reward towards the reserve
+ *   (`minPrice`); the first bid at or below the clock wins at the clock price
+ *
+ * Sealed-bid auctions also accept all-or-nothing bundle bids over several
+ * tasks. Auctions linked by bundle bids close together once the last of
+ * their windows elapses; winners are chosen by the winner-determination
+ * solver and paid their bid (bundle prices are split by task reward).
+ *
+ * Events: `auction:opened`, `auction:bid`, `auction:price` (Dutch clock),
+ * `auction:bid-rejected`, `bundle:bid`, `bundle:rejected`, `bundle:awarded`
+ * and `auction:closed`.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { AuctionFormat, Bid, BundleBid, Task, TaskStatus } from '../types';
+import { CoordinationLayer } from './CoordinationLayer';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import {
+  WinnerDeterminationMethod,
+  solveWinnerDetermination,
+  splitBundlePrice
+} from '../utils/winnerDetermination';
+
+export interface BidScoringWeights {
+  price: number;
+  reputation: number;
+  distance: number;
+  duration: number;
+}
+
+/**
+ * Scores a bid; higher is better. All bids of the auction are passed so
+ * that metrics can be normalized against the competition.
+ */
+export type BidScoringFunction = (bid: Bid, context: { task: Task; bids: Bid[] }) => number;
+
+export interface AuctionEngineOptions {
+  biddingWindow?: number;
+  weights?: Partial<BidScoringWeights>;
+  scoreBid?: BidScoringFunction;
+  defaultFormat?: AuctionFormat;
+  bundleSolver?: WinnerDeterminationMethod;
+  exactSolverLimit?: number;
+}
+
+export interface AuctionEngineConfig extends AuctionEngineOptions {
+  coordination: CoordinationLayer;
+  clock?: Clock;
+  /**
+   * The publisher's view of a bidder's reputation. Without it the
+   * reputation bidders report in their bids is trusted.
+   */
+  reputationOf?: (deviceId: string) => number;
+}
+
+export interface AuctionOptions {
+  biddingWindow?: number;
+  format?: AuctionFormat;
+  bidIncrement?: number;
+  reservePrice?: number;
+  priceStep?: number;
+  priceStepInterval?: number;
+}
+
+export interface Auction {
+  taskId: string;
+  task: Task;
+  format: AuctionFormat;
+  bids: Map<string, Bid>;
+  openedAt: number;
+  closesAt: number;
+  status: 'open' | 'closed' | 'cancelled';
+  bidIncrement: number;
+  reservePrice: number;
+  currentPrice?: number;
+  standingBid?: Bid;
+}
+
+export interface AuctionResult {
+  taskId: string;
+  format: AuctionFormat;
+  winner?: Bid;
+  losers: Bid[];
+  price?: number;
+  bundleId?: string;
+  bidCount: number;
+  openedAt: number;
+  closedAt: number;
+}
+
+const DEFAULT_WEIGHTS: BidScoringWeights = {
+  price: 0.5,
+  reputation: 0.2,
+  distance: 0.15,
+  duration: 0.15
+};
+
+export class AuctionEngine extends EventEmitter {
+  private coordination: CoordinationLayer;
+  private biddingWindow: number;
+  private weights: BidScoringWeights;
+  private scoreBid: BidScoringFunction;
+  private defaultFormat: AuctionFormat;
+  private bundleSolver: WinnerDeterminationMethod;
+  private exactSolverLimit: number;
+  private reputationOf?: (deviceId: string) => number;
+  private auctions: Map<string, Auction> = new Map();
+  private bundleBids: Map<string, BundleBid> = new Map();
+  private results: Map<string, AuctionResult> = new Map();
+  private timers: Map<string, TimerHandle[]> = new Map();
+  private clock: Clock;
+
+  constructor(config: AuctionEngineConfig) {
+    super();
+    this.coordination = config.coordination;
+    this.biddingWindow = config.biddingWindow ?? 10000;
+    this.weights = { ...DEFAULT_WEIGHTS, ...config.weights };
+    this.scoreBid = config.scoreBid ?? ((bid, context) => this.defaultScore(bid, context.bids));
+    this.defaultFormat = config.defaultFormat ?? AuctionFormat.FIRST_PRICE;
+    this.bundleSolver = config.bundleSolver ?? 'auto';
+    this.exactSolverLimit = config.exactSolverLimit ?? 20;
+    this.clock = config.clock ?? systemClock;
+    this.reputationOf = config.reputationOf;
+  }
+
+  /**
+   * Open a bidding window for a task and move it to BIDDING
+   */
+  async openAuction(taskId: string, options: AuctionOptions = {}): Promise<Auction> {
+    const task = this.coordination.getTask(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const existing = this.auctions.get(taskId);
+    if (existing && existing.status === 'open') {
+      throw new Error('Auction already open for task');
+    }
+
+    if (task.status !== TaskStatus.PENDING) {
+      throw new Error('Task is not available for auction');
+    }
+
+    const format = options.format ?? this.defaultFormat;
+    const window = options.biddingWindow ?? this.biddingWindow;
+    const reservePrice = options.reservePrice ?? 0;
+    const openedAt = this.clock.now();
+
+    if (format === AuctionFormat.DUTCH && task.reward <= reservePrice) {
+      throw new Error('Dutch auction requires a reward above the reserve price');
+    }
+
+    const auction: Auction = {
+      taskId,
+      task,
+      format,
+      bids: new Map(),
+      openedAt,
+      closesAt: openedAt + window,
+      status: 'open',
+      bidIncrement: options.bidIncrement ?? 0,
+      reservePrice,
+      currentPrice: format === AuctionFormat.DUTCH ? task.reward : undefined
+    };
+
+    await this.coordination.updateTaskStatus(taskId, TaskStatus.BIDDING);
+    this.auctions.set(taskId, auction);
+
+    const timers = [this.clock.setTimeout(() => this.handleWindowElapsed(taskId), window)];
+
+    if (format === AuctionFormat.DUTCH) {
+      const step = options.priceStep ?? (task.reward - reservePrice) / 10;
+      timers.push(this.clock.setInterval(() => this.tickPrice(auction, step), options.priceStepInterval ?? 1000));
+    }
+
+    this.timers.set(taskId, timers);
+    this.emit('auction:opened', auction);
+    return auction;
+  }
+
+  /**
+   * Accept a bid for an open auction. A device's later bid replaces its
+   * earlier one. Returns false if the bid was rejected.
+   */
+  submitBid(bid: Bid): boolean {
+    const auction = this.auctions.get(bid.taskId);
+    const reason = this.validateBid(auction, bid);
+
+    if (reason) {
+      this.emit('auction:bid-rejected', { bid, reason });
+      return false;
+    }
+
+    auction!.bids.set(bid.deviceId, bid);
+
+    if (auction!.format === AuctionFormat.ENGLISH) {
+      auction!.standingBid = bid;
+    }
+
+    this.emit('auction:bid', { taskId: bid.taskId, format: auction!.format, bid });
+
+    // The first acceptable bid stops the Dutch clock
+    if (auction!.format === AuctionFormat.DUTCH) {
+      this.closeInBackground(bid.taskId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Accept an all-or-nothing bid over several tasks. Every task must have
+   * an open sealed-bid auction. A device's later bundle over the same
+   * tasks replaces its earlier one.
+   */
+  submitBundleBid(bundle: BundleBid): boolean {
+    const reason = this.validateBundle(bundle);
+
+    if (reason) {
+      this.emit('bundle:rejected', { bundle, reason });
+      return false;
+    }
+
+    const key = `${bundle.deviceId}:${[...bundle.taskIds].sort().join(',')}`;
+    this.bundleBids.set(key, bundle);
+    this.emit('bundle:bid', bundle);
+    return true;
+  }
+
+  /**
+   * Close an auction, pick the winner and assign the task. Auctions linked
+   * to it by bundle bids are closed and resolved together.
+   */
+  async closeAuction(taskId: string): Promise<AuctionResult> {
+    const auction = this.auctions.get(taskId);
+    if (!auction) {
+      throw new Error('Auction not found');
+    }
+
+    if (auction.status === 'cancelled') {
+      throw new Error('Auction was cancelled');
+    }
+
+    if (auction.status === 'closed') {
+      return this.results.get(taskId)!;
+    }
+
+    const linked = this.getLinkedAuctions(taskId);
+    if (linked.length > 1) {
+      await this.closeBundledAuctions(linked);
+      return this.results.get(taskId)!;
+    }
+
+    auction.status = 'closed';
+    this.clearTimers(taskId);
+
+    const ranked = this.rankBids(auction);
+    const [winner, ...losers] = ranked;
+    const price = winner ? this.clearingPrice(auction, ranked) : undefined;
+
+    return this.finalize(auction, winner, losers, price);
+  }
+
+  /**
+   * Rank the bids of an auction, best first. English and Dutch auctions
+   * rank on price alone; sealed formats use the scoring function. Ties go
+   * to the lower price, then the earlier bid, then the smaller device ID.
+   */
+  rankBids(auction: Auction): Bid[] {
+    const bids = Array.from(auction.bids.values());
+    const priceOnly = auction.format === AuctionFormat.ENGLISH || auction.format === AuctionFormat.DUTCH;
+
+    const scored = bids.map(bid => ({
+      bid,
+      score: priceOnly ? -bid.price : this.scoreBid(bid, { task: auction.task, bids })
+    }));
+
+    return scored
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.bid.price - b.bid.price ||
+        a.bid.timestamp - b.bid.timestamp ||
+        a.bid.deviceId.localeCompare(b.bid.deviceId)
+      )
+      .map(entry => entry.bid);
+  }
+
+  getBundleBids(taskId?: string): BundleBid[] {
+    const bundles = Array.from(this.bundleBids.values());
+    return taskId ? bundles.filter(b => b.taskIds.includes(taskId)) : bundles;
+  }
+
+  getAuction(taskId: string): Auction | undefined {
+    return this.auctions.get(taskId);
+  }
+
+  getOpenAuctions(): Auction[] {
+    return Array.from(this.auctions.values()).filter(a => a.status === 'open');
+  }
+
+  getResult(taskId: string): AuctionResult | undefined {
+    return this.results.get(taskId);
+  }
+
+  /**
+   * Abort an open auction without awarding the task. Returns the bids and
+   * bundle bids that were dropped so their bidders can be notified.
+   */
+  cancelAuction(taskId: string): Array<Bid | BundleBid> {
+    const auction = this.auctions.get(taskId);
+    if (!auction || auction.status !== 'open') {
+      return [];
+    }
+
+    auction.status = 'cancelled';
+    this.clearTimers(taskId);
+
+    const dropped: Array<Bid | BundleBid> = Array.from(auction.bids.values());
+    for (const [key, bundle] of this.bundleBids.entries()) {
+      if (bundle.taskIds.includes(taskId)) {
+        this.bundleBids.delete(key);
+        dropped.push(bundle);
+      }
+    }
+
+    this.emit('auction:cancelled', { taskId, dropped });
+    return dropped;
+  }
+
+  /**
+   * Cancel pending close timers (e.g. on disconnect)
+   */
+  dispose(): void {
+    for (const taskId of Array.from(this.timers.keys())) {
+      this.clearTimers(taskId);
+    }
+  }
+
+  private validateBid(auction: Auction | undefined, bid: Bid): string | undefined {
+    if (!auction) {
+      return 'auction-not-found';
+    }
+    if (auction.status !== 'open') {
+      return 'auction-closed';
+    }
+    // Bids come from the network: a NaN or infinite number would break scoring
+    if (!isAmount(bid.price)) {
+      return 'invalid-price';
+    }
+    if (!isAmount(bid.estimatedDuration)) {
+      return 'invalid-duration';
+    }
+    if (bid.distance !== undefined && !isAmount(bid.distance)) {
+      return 'invalid-distance';
+    }
+    if (!Number.isFinite(bid.timestamp)) {
+      return 'invalid-timestamp';
+    }
+    if (auction.task.reward > 0 && bid.price > auction.task.reward) {
+      return 'price-above-reward';
+    }
+
+    const minReputation = auction.task.requirements.minReputation;
+    if (minReputation !== undefined && this.getReputation(bid) < minReputation) {
+      return 'insufficient-reputation';
+    }
+
+    if (auction.format === AuctionFormat.ENGLISH && auction.standingBid &&
+        bid.price > auction.standingBid.price - auction.bidIncrement) {
+      return 'bid-increment-not-met';
+    }
+
+    if (auction.format === AuctionFormat.DUTCH && bid.price > auction.currentPrice!) {
+      return 'price-above-clock';
+    }
+
+    return undefined;
+  }
+
+  private validateBundle(bundle: BundleBid): string | undefined {
+    if (!Array.isArray(bundle.taskIds)) {
+      return 'invalid-bundle';
+    }
+    const taskIds = new Set(bundle.taskIds);
+    if (taskIds.size < 2 || taskIds.size !== bundle.taskIds.length) {
+      return 'invalid-bundle';
+    }
+    if (!isAmount(bundle.price)) {
+      return 'invalid-price';
+    }
+    if (!isAmount(bundle.estimatedDuration)) {
+      return 'invalid-duration';
+    }
+    if (!Number.isFinite(bundle.timestamp)) {
+      return 'invalid-timestamp';
+    }
+
+    let totalReward = 0;
+    for (const taskId of taskIds) {
+      const auction = this.auctions.get(taskId);
+      if (!auction) {
+        return 'auction-not-found';
+      }
+      if (auction.status !== 'open') {
+        return 'auction-closed';
+      }
+      if (auction.format !== AuctionFormat.FIRST_PRICE && auction.format !== AuctionFormat.VICKREY) {
+        return 'bundle-format-unsupported';
+      }
+
+      const minReputation = auction.task.requirements.minReputation;
+      if (minReputation !== undefined && this.getReputation(bundle) < minReputation) {
+        return 'insufficient-reputation';
+      }
+
+      totalReward += auction.task.reward;
+    }
+
+    if (totalReward > 0 && bundle.price > totalReward) {
+      return 'price-above-reward';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Open auctions reachable from a task through shared bundle bids
+   */
+  private getLinkedAuctions(taskId: string): Auction[] {
+    const linked = new Set<string>([taskId]);
+    const queue = [taskId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const bundle of this.bundleBids.values()) {
+        if (!bundle.taskIds.includes(current)) continue;
+        for (const id of bundle.taskIds) {
+          if (!linked.has(id) && this.auctions.get(id)?.status === 'open') {
+            linked.add(id);
+            queue.push(id);
+          }
+        }
+      }
+    }
+
+    return Array.from(linked).map(id => this.auctions.get(id)!);
+  }
+
+  private async closeBundledAuctions(auctions: Auction[]): Promise<void> {
+    const taskIds = new Set(auctions.map(a => a.taskId));
+    const rewards = new Map(auctions.map(a => [a.taskId, a.task.reward]));
+
+    for (const auction of auctions) {
+      auction.status = 'closed';
+      this.clearTimers(auction.taskId);
+    }
+
+    const bundles = Array.from(this.bundleBids.values())
+      .filter(bundle => bundle.taskIds.every(id => taskIds.has(id)));
+
+    // Single-task bids take part as one-task bundles
+    const singles = new Map<string, Bid>();
+    const candidates: BundleBid[] = [...bundles];
+    for (const auction of auctions) {
+      for (const bid of auction.bids.values()) {
+        singles.set(bid.id, bid);
+        candidates.push({ ...bid, taskIds: [bid.taskId] });
+      }
+    }
+
+    const solution = solveWinnerDetermination(candidates, rewards, {
+      method: this.bundleSolver,
+      exactLimit: this.exactSolverLimit
+    });
+
+    const winners = new Map<string, { bid: Bid; bundleId?: string }>();
+    for (const awarded of solution.allocation) {
+      const single = singles.get(awarded.id);
+      if (single) {
+        winners.set(single.taskId, { bid: single });
+        continue;
+      }
+
+      const shares = splitBundlePrice(awarded, rewards);
+      for (const taskId of awarded.taskIds) {
+        winners.set(taskId, {
+          bundleId: awarded.id,
+          bid: {
+            id: awarded.id,
+            taskId,
+            deviceId: awarded.deviceId,
+            price: shares.get(taskId)!,
+            estimatedDuration: awarded.estimatedDuration,
+            reputation: awarded.reputation,
+            timestamp: awarded.timestamp
+          }
+        });
+      }
+      this.emit('bundle:awarded', { bundle: awarded, shares });
+    }
+
+    for (const auction of auctions) {
+      const won = winners.get(auction.taskId);
+      const bundleLosers: Bid[] = bundles
+        .filter(b => b.taskIds.includes(auction.taskId) && b.id !== won?.bundleId)
+        .map(b => ({ ...b, taskId: auction.taskId }));
+      const losers = [...auction.bids.values(), ...bundleLosers]
+        .filter(bid => bid.id !== won?.bid.id);
+
+      await this.finalize(auction, won?.bid, losers, won?.bid.price, won?.bundleId);
+    }
+
+    for (const [key, bundle] of this.bundleBids.entries()) {
+      if (bundle.taskIds.some(id => taskIds.has(id))) {
+        this.bundleBids.delete(key);
+      }
+    }
+  }
+
+  private async finalize(
+    auction: Auction,
+    winner: Bid | undefined,
+    losers: Bid[],
+    price: number | undefined,
+    bundleId?: string
+  ): Promise<AuctionResult> {
+    const result: AuctionResult = {
+      taskId: auction.taskId,
+      format: auction.format,
+      winner,
+      losers,
+      price,
+      bundleId,
+      bidCount: auction.bids.size,
+      openedAt: auction.openedAt,
+      closedAt: this.clock.now()
+    };
+
+    if (winner) {
+      await this.coordination.assignTask(auction.taskId, winner.deviceId);
+    } else {
+      await this.coordination.updateTaskStatus(auction.taskId, TaskStatus.PENDING, { reason: 'no-bids' });
+    }
+
+    this.results.set(auction.taskId, result);
+    this.emit('auction:closed', result);
+    return result;
+  }
+
+  /**
+   * A bundled auction waits for the last linked window before closing
+   */
+  private handleWindowElapsed(taskId: string): void {
+    const now = this.clock.now();
+    const pending = this.getLinkedAuctions(taskId)
+      .some(auction => auction.taskId !== taskId && auction.closesAt > now);
+
+    if (!pending) {
+      this.closeInBackground(taskId);
+    }
+  }
+
+  private clearingPrice(auction: Auction, ranked: Bid[]): number {
+    const [winner, runnerUp] = ranked;
+
+    switch (auction.format) {
+      case AuctionFormat.VICKREY:
+        return runnerUp ? Math.max(winner.price, runnerUp.price) : auction.task.reward || winner.price;
+      case AuctionFormat.DUTCH:
+        return auction.currentPrice!;
+      case AuctionFormat.ENGLISH:
+      case AuctionFormat.FIRST_PRICE:
+      default:
+        return winner.price;
+    }
+  }
+
+  private tickPrice(auction: Auction, step: number): void {
+    if (auction.status !== 'open' || auction.currentPrice === auction.reservePrice) {
+      return;
+    }
+
+    auction.currentPrice = Math.max(auction.reservePrice, auction.currentPrice! - step);
+    this.emit('auction:price', { taskId: auction.taskId, price: auction.currentPrice });
+  }
+
+  /**
+   * Weighted score in [0, 1]. Price, distance and duration are scored
+   * relative to the best competing bid; reputation on the 0-5 scale.
+   */
+  private defaultScore(bid: Bid, bids: Bid[]): number {
+    const minPrice = Math.min(...bids.map(b => b.price));
+    const minDuration = Math.min(...bids.map(b => b.estimatedDuration));
+    const distances = bids.filter(b => b.distance !== undefined).map(b => b.distance!);
+    const minDistance = distances.length > 0 ? Math.min(...distances) : 0;
+
+    const priceScore = bid.price > 0 ? minPrice / bid.price : 1;
+    const durationScore = bid.estimatedDuration > 0 ? minDuration / bid.estimatedDuration : 1;
+    const distanceScore = bid.distance !== undefined ? (minDistance + 1) / (bid.distance + 1) : 0.5;
+    const reputationScore = Math.min(5, Math.max(0, this.getReputation(bid))) / 5;
+
+    return priceScore * this.weights.price +
+      reputationScore * this.weights.reputation +
+      distanceScore * this.weights.distance +
+      durationScore * this.weights.duration;
+  }
+
+  private getReputation(bid: { deviceId: string; reputation: number }): number {
+    return this.reputationOf ? this.reputationOf(bid.deviceId) : bid.reputation;
+  }
+
+  private closeInBackground(taskId: string): void {
+    this.closeAuction(taskId).catch(error => this.emit('auction:error', { taskId, error }));
+  }
+
+  private clearTimers(taskId: string): void {
+    for (const timer of this.timers.get(taskId) || []) {
+      this.clock.clearTimer(timer);
+    }
+    this.timers.delete(taskId);
+  }
+}
+
+/**
+ * A finite, non-negative number
+ */
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+export default AuctionEngine;
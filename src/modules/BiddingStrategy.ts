@@ -0,0 +1,274 @@
+/**
+ * Bidding Strategies
+ *
+ * A bidding strategy prices a task for this device from the task, the
+ * device's own state and what similar tasks recently cleared at, or
+ * declines to bid. The marketplace tells it whether each bid it priced won
+ * or lost, so a strategy can learn.
+ */
+
+import { Location, Task } from '../types';
+import { percentile } from './MarketHistory';
+
+export interface DeviceState {
+  location?: Location;
+  /** 0-100, if the device reports it */
+  batteryLevel?: number;
+  /** Tasks won and not yet finished */
+  queueLength: number;
+  reputation: number;
+}
+
+export interface BiddingContext {
+  task: Task;
+  device: DeviceState;
+  /** Meters from the device to the task's location, 0 if either is unknown */
+  distance: number;
+  /**
+   * Meters driven within the task along planned paths, when the device has
+   * a map. Strategies measure the straight route otherwise.
+   */
+  routeDistance?: number;
+  market: {
+    /** Recent clearing prices per task type, oldest first */
+    clearingPrices: Record<string, number[]>;
+  };
+}
+
+export interface BidOutcome {
+  task: Task;
+  price: number;
+  won: boolean;
+}
+
+export interface BiddingStrategy {
+  readonly name: string;
+  /** The price to bid, or null to skip the task */
+  price(context: BiddingContext): number | null | Promise<number | null>;
+  /** Called once the auction for a bid this strategy priced is decided */
+  recordOutcome?(outcome: BidOutcome): void;
+}
+
+/**
+ * The original fixed strategies: a share of the reward, adjusted for
+ * reputation and distance in `auto` mode
+ */
+export class RewardShareStrategy implements BiddingStrategy {
+  readonly name: string;
+
+  constructor(name: 'competitive' | 'conservative' | 'aggressive' | 'auto') {
+    this.name = name;
+  }
+
+  price({ task, device, distance }: BiddingContext): number {
+    const basePrice = task.reward * 0.8;
+
+    switch (this.name) {
+      case 'aggressive':
+        return basePrice * 0.7;
+      case 'conservative':
+        return basePrice * 1.2;
+      case 'competitive':
+        return basePrice;
+      default: {
+        let multiplier = 1.0;
+
+        if (device.reputation > 4.0) {
+          multiplier *= 1.1;
+        } else if (device.reputation < 3.0) {
+          multiplier *= 0.9;
+        }
+
+        if (device.location) {
+          if (distance < 10) {
+            multiplier *= 0.95;
+          } else if (distance > 50) {
+            multiplier *= 1.1;
+          }
+        }
+
+        return basePrice * multiplier;
+      }
+    }
+  }
+}
+
+export interface CostPlusOptions {
+  /** Meters per second */
+  speed?: number;
+  /** Cost of one second of the device's time */
+  costPerSecond?: number;
+  /** Battery percentage points used per meter */
+  energyPerMeter?: number;
+  /** Cost of one battery percentage point */
+  energyPrice?: number;
+  /** Cost added to every task */
+  fixedCost?: number;
+  /** Markup on the cost */
+  margin?: number;
+  /** Markup added per task already in the queue */
+  queueSurcharge?: number;
+  /** Skip tasks when the battery is below this level */
+  minBattery?: number;
+  /**
+   * Percentiles (0-100) of the task type's recent clearing prices that
+   * bids are kept between
+   */
+  clearingBand?: [number, number];
+  /** Most recent clearing prices of the task type that count */
+  clearingWindow?: number;
+  /** Clearing prices needed before they bound bids */
+  minClearingPrices?: number;
+}
+
+/**
+ * Cost of a task from the time and energy it takes to drive it, plus a
+ * margin. Once the task type has cleared often enough, the price is kept
+ * within the band of its recent clearing prices, but never below cost.
+ * Tasks that don't cover their cost are skipped.
+ */
+export class CostPlusStrategy implements BiddingStrategy {
+  readonly name: string;
+  private options: Required<CostPlusOptions>;
+
+  constructor(options: CostPlusOptions = {}, name: string = 'cost-plus') {
+    this.name = name;
+    this.options = {
+      speed: 1.0,
+      costPerSecond: 0.01,
+      energyPerMeter: 0.1,
+      energyPrice: 0.5,
+      fixedCost: 0,
+      margin: 0.2,
+      queueSurcharge: 0.1,
+      minBattery: 0,
+      clearingBand: [25, 75],
+      clearingWindow: 20,
+      minClearingPrices: 3,
+      ...options
+    };
+  }
+
+  price(context: BiddingContext): number | null {
+    const { task, device } = context;
+    const cost = this.cost(context);
+
+    // Skip tasks paying less than they cost
+    if (cost === null || (task.reward > 0 && cost > task.reward)) {
+      return null;
+    }
+
+    let price = cost * (1 + this.getMargin(task.type)) * (1 + this.options.queueSurcharge * device.queueLength);
+
+    // Neither far above nor far below what the market has been paying
+    const band = this.getClearingBand(context);
+    if (band) {
+      price = Math.max(cost, Math.min(band.high, Math.max(band.low, price)));
+    }
+
+    return task.reward > 0 ? Math.min(price, task.reward) : price;
+  }
+
+  getMargin(taskType: string): number {
+    return this.options.margin;
+  }
+
+  /**
+   * Recent clearing prices of the task type at the band's percentiles,
+   * undefined until there are enough of them
+   */
+  getClearingBand({ task, market }: BiddingContext): { low: number; high: number } | undefined {
+    const prices = (market.clearingPrices[task.type] ?? []).slice(-this.options.clearingWindow);
+    if (prices.length === 0 || prices.length < this.options.minClearingPrices) {
+      return undefined;
+    }
+
+    const sorted = [...prices].sort((a, b) => a - b);
+    const [low, high] = this.options.clearingBand;
+    return { low: percentile(sorted, low), high: percentile(sorted, high) };
+  }
+
+  /**
+   * What the task costs this device, or null if it can't take it
+   */
+  cost({ task, device, distance, routeDistance }: BiddingContext): number | null {
+    if (device.batteryLevel !== undefined && device.batteryLevel < this.options.minBattery) {
+      return null;
+    }
+
+    const meters = distance + (routeDistance ?? routeLength(task));
+    const seconds = meters / this.options.speed;
+    const energy = meters * this.options.energyPerMeter;
+
+    if (device.batteryLevel !== undefined && energy > device.batteryLevel) {
+      return null;
+    }
+
+    return this.options.fixedCost + seconds * this.options.costPerSecond + energy * this.options.energyPrice;
+  }
+}
+
+export interface AdaptiveOptions extends CostPlusOptions {
+  /** Share of auctions to aim to win, 0-1 */
+  targetWinRate?: number;
+  /** How far one outcome moves the margin */
+  learningRate?: number;
+  minMargin?: number;
+  maxMargin?: number;
+}
+
+/**
+ * Cost-plus pricing with a margin per task type that is tuned from
+ * outcomes: raised after a win, lowered after a loss, so it settles where
+ * the device wins `targetWinRate` of its auctions. The clearing band
+ * anchors it: the margin only moves the price within the band.
+ */
+export class AdaptiveStrategy extends CostPlusStrategy {
+  private margins: Map<string, number> = new Map();
+  private initialMargin: number;
+  private targetWinRate: number;
+  private learningRate: number;
+  private minMargin: number;
+  private maxMargin: number;
+
+  constructor(options: AdaptiveOptions = {}, name: string = 'adaptive') {
+    super(options, name);
+    this.initialMargin = options.margin ?? 0.2;
+    this.targetWinRate = options.targetWinRate ?? 0.5;
+    this.learningRate = options.learningRate ?? 0.05;
+    this.minMargin = options.minMargin ?? 0;
+    this.maxMargin = options.maxMargin ?? 1;
+  }
+
+  recordOutcome({ task, won }: BidOutcome): void {
+    const step = won ? this.learningRate * (1 - this.targetWinRate) : -this.learningRate * this.targetWinRate;
+    const margin = this.getMargin(task.type) + step;
+    this.margins.set(task.type, Math.max(this.minMargin, Math.min(this.maxMargin, margin)));
+  }
+
+  getMargin(taskType: string): number {
+    return this.margins.get(taskType) ?? this.initialMargin;
+  }
+}
+
+/**
+ * Stops driven within the task: from pickup to drop-off, or along its
+ * checkpoints
+ */
+export function getRouteStops(task: Task): Location[] {
+  const p = task.payload;
+  return p.checkpoints ?? (p.from && p.to ? [p.from, p.to] : []);
+}
+
+/**
+ * Straight-line meters between the task's route stops
+ */
+function routeLength(task: Task): number {
+  const points = getRouteStops(task);
+
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
@@ -1,11 +1,103 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
-import { Task, TaskStatus, TaskPriority, Location } from '../types';
+import { Task, TaskStatus, TaskPriority, TaskTransition, Location } from '../types';
+import { InvalidTaskTransitionError, TASK_TRANSITIONS, canTransition } from './TaskLifecycle';
+import { Clock, systemClock } from '../utils/clock';
+import { PathPlanner } from '../navigation/PathPlanner';
+import { Reservation, ReservationTable, RouteConflict } from '../navigation/ReservationTable';
 
 export interface CoordinationLayerConfig {
   deviceId: string;
   location?: Location;
   capabilities?: string[];
+  clock?: Clock;
+  /** Plans routes around obstacles and between floors */
+  planner?: PathPlanner;
+  /**
+   * Space-time reservations shared by the fleet. Routes are planned with
+   * its planner and wait or re-route around each other's.
+   */
+  reservations?: ReservationTable;
+}
+
+/**
+ * What to do when a workflow step fails:
+ * - `abort` - cancel the running steps and stop
+ * - `retry` - publish the step again, up to `maxRetries` times, then abort
+ * - `compensate` - cancel the running steps and publish the `compensation`
+ *   task of every completed step
+ */
+export type WorkflowFailurePolicy = 'abort' | 'retry' | 'compensate';
+
+export interface WorkflowTaskSpec {
+  type: string;
+  payload?: Record<string, any>;
+  maxPrice?: number;
+  /** Deadline relative to when the step's task is published (ms) */
+  timeout?: number;
+  priority?: TaskPriority;
+  requirements?: {
+    capabilities?: string[];
+    minReputation?: number;
+    maxDistance?: number;
+  };
+}
+
+export interface WorkflowStepSpec extends WorkflowTaskSpec {
+  /** Unique within the workflow */
+  id: string;
+  dependsOn?: string[];
+  onFailure?: WorkflowFailurePolicy;
+  maxRetries?: number;
+  /** Task that undoes this step if the workflow is compensated */
+  compensation?: WorkflowTaskSpec;
+}
+
+export interface WorkflowSpec {
+  name?: string;
+  steps: WorkflowStepSpec[];
+  /** Default for steps without their own policy (default: abort) */
+  onFailure?: WorkflowFailurePolicy;
+}
+
+export type WorkflowStatus = 'running' | 'completed' | 'aborted' | 'compensating' | 'compensated';
+
+export type WorkflowStepStatus = 'waiting' | 'active' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+export interface WorkflowStep {
+  id: string;
+  status: WorkflowStepStatus;
+  dependsOn: string[];
+  /** One task per attempt, latest last */
+  taskIds: string[];
+  output?: any;
+  compensationTaskId?: string;
+}
+
+export interface Workflow {
+  id: string;
+  name?: string;
+  status: WorkflowStatus;
+  spec: WorkflowSpec;
+  steps: Record<string, WorkflowStep>;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+interface WorkflowTaskLink {
+  workflowId: string;
+  stepId: string;
+  compensation: boolean;
+}
+
+export interface CoordinationSnapshot {
+  location?: Location;
+  capabilities: string[];
+  tasks: Task[];
+  queue: Task[];
+  routes: Route[];
+  history: Record<string, TaskTransition[]>;
+  workflows: Workflow[];
 }
 
 export class CoordinationLayer extends EventEmitter {
@@ -15,12 +107,38 @@ export class CoordinationLayer extends EventEmitter {
   private activeTasks: Map<string, Task> = new Map();
   private taskQueue: Task[] = [];
   private routes: Map<string, Route> = new Map();
+  private history: Map<string, TaskTransition[]> = new Map();
+  private workflows: Map<string, Workflow> = new Map();
+  private workflowTasks: Map<string, WorkflowTaskLink> = new Map();
+  private clock: Clock;
+  private planner?: PathPlanner;
+  private reservations?: ReservationTable;
 
   constructor(config: CoordinationLayerConfig) {
     super();
     this.deviceId = config.deviceId;
     this.location = config.location;
     this.capabilities = config.capabilities || [];
+    this.clock = config.clock ?? systemClock;
+    this.planner = config.planner;
+    this.reservations = config.reservations;
+
+    this.reservations?.on('route:conflict', (conflict: RouteConflict) => {
+      if (conflict.deviceId === this.deviceId) {
+        this.emit('route:conflict', conflict);
+      }
+    });
+    this.reservations?.on('reservation:updated', (reservation: Reservation) => {
+      const route = this.routes.get(reservation.routeId);
+      if (route && route.status === 'active') {
+        route.waypoints = reservation.waypoints;
+        route.currentWaypoint = 0;
+        route.departAt = reservation.departAt;
+        route.arriveAt = reservation.arriveAt;
+        route.estimatedDuration = Math.ceil(reservation.arriveAt - route.createdAt);
+        this.emit('route:updated', route);
+      }
+    });
   }
 
   async publishTask(params: {
@@ -49,14 +167,20 @@ export class CoordinationLayer extends EventEmitter {
       },
       reward: params.maxPrice || 0,
       deadline: params.deadline,
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.activeTasks.set(task.id, task);
+    this.record({ taskId: task.id, to: task.status, actor: this.deviceId, reason: 'published', timestamp: task.createdAt });
     this.emit('task:published', task);
     return task;
   }
 
+  /**
+   * Move a task to a new status. Throws InvalidTaskTransitionError if the
+   * lifecycle does not allow it. `metadata.actor` (default: this device)
+   * and `metadata.reason` are recorded in the task history.
+   */
   async updateTaskStatus(
     taskId: string,
     status: TaskStatus,
@@ -67,13 +191,14 @@ export class CoordinationLayer extends EventEmitter {
       throw new Error('Task not found');
     }
 
-    task.status = status;
+    this.transition(task, status, metadata);
 
     if (status === TaskStatus.COMPLETED) {
-      task.completedAt = Date.now();
+      task.completedAt = this.clock.now();
     }
 
     this.emit('task:updated', { task, metadata });
+    await this.advanceWorkflow(task, metadata);
   }
 
   async assignTask(taskId: string, deviceId: string): Promise<void> {
@@ -82,31 +207,74 @@ export class CoordinationLayer extends EventEmitter {
       throw new Error('Task not found');
     }
 
-    if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.BIDDING) {
-      throw new Error('Task is not available for assignment');
-    }
-
+    this.transition(task, TaskStatus.ASSIGNED, { assignedTo: deviceId });
     task.assignedTo = deviceId;
-    task.status = TaskStatus.ASSIGNED;
 
     this.emit('task:assigned', { task, deviceId });
   }
 
+  /**
+   * Track a task this device won from another publisher
+   */
+  trackTask(task: Task): void {
+    this.activeTasks.set(task.id, task);
+    this.record({ taskId: task.id, to: task.status, actor: task.publisherId, reason: 'tracked', timestamp: this.clock.now() });
+    this.emit('task:tracked', task);
+  }
+
+  /**
+   * Create a route through the waypoints. With a path planner the route
+   * follows the planned path between them, and the duration defaults to
+   * its travel time in milliseconds. With a reservation table the route
+   * is reserved first: if it conflicts with another robot's it may set off
+   * later (`departAt`) or take a different path, and `route:conflict` is
+   * emitted.
+   */
   async createRoute(params: {
     taskId: string;
     waypoints: Location[];
-    estimatedDuration: number;
+    estimatedDuration?: number;
     priority: TaskPriority;
   }): Promise<Route> {
+    const id = uuidv4();
+    const now = this.clock.now();
+    let waypoints = params.waypoints;
+    let estimatedDuration = params.estimatedDuration;
+    let reservation: Reservation | undefined;
+
+    if (this.reservations) {
+      reservation = this.reservations.reserve({
+        routeId: id,
+        deviceId: this.deviceId,
+        priority: params.priority,
+        stops: params.waypoints
+      });
+      waypoints = reservation.waypoints;
+      estimatedDuration = estimatedDuration ?? Math.ceil(reservation.arriveAt - now);
+    } else if (this.planner) {
+      const path = this.planner.planRoute(params.waypoints);
+      if (!path) {
+        throw new Error('No path through the route waypoints');
+      }
+      waypoints = path.waypoints;
+      estimatedDuration = estimatedDuration ?? Math.ceil(path.travelTime);
+    }
+
+    if (estimatedDuration === undefined) {
+      throw new Error('Estimated duration is required without a path planner');
+    }
+
     const route: Route = {
-      id: uuidv4(),
+      id,
       taskId: params.taskId,
       deviceId: this.deviceId,
-      waypoints: params.waypoints,
+      waypoints,
       currentWaypoint: 0,
-      estimatedDuration: params.estimatedDuration,
+      estimatedDuration,
       priority: params.priority,
-      createdAt: Date.now(),
+      createdAt: now,
+      departAt: reservation?.departAt,
+      arriveAt: reservation?.arriveAt,
       status: 'active'
     };
 
@@ -125,7 +293,8 @@ export class CoordinationLayer extends EventEmitter {
 
     if (waypointIndex >= route.waypoints.length - 1) {
       route.status = 'completed';
-      route.completedAt = Date.now();
+      route.completedAt = this.clock.now();
+      this.reservations?.release(routeId);
       this.emit('route:completed', route);
     } else {
       this.emit('route:updated', route);
@@ -144,14 +313,22 @@ export class CoordinationLayer extends EventEmitter {
     return Array.from(this.activeTasks.values()).filter(task => task.status === status);
   }
 
-  async cancelTask(taskId: string, reason?: string): Promise<void> {
+  async cancelTask(taskId: string, reason?: string, actor?: string): Promise<void> {
     const task = this.activeTasks.get(taskId);
     if (!task) {
       throw new Error('Task not found');
     }
 
-    task.status = TaskStatus.CANCELLED;
+    this.transition(task, TaskStatus.CANCELLED, { reason, actor });
     this.emit('task:cancelled', { task, reason });
+    await this.advanceWorkflow(task);
+  }
+
+  /**
+   * Every status change of a task, oldest first
+   */
+  getTaskHistory(taskId: string): TaskTransition[] {
+    return [...(this.history.get(taskId) ?? [])];
   }
 
   canExecuteTask(task: Task): boolean {
@@ -202,9 +379,342 @@ export class CoordinationLayer extends EventEmitter {
   getCapabilities(): string[] {
     return [...this.capabilities];
   }
+
+  // ==================== Workflows ====================
+
+  /**
+   * Start a workflow: a DAG of steps, each published as a task once all
+   * of its dependencies completed. A step's task payload gets the outputs
+   * of its dependencies under `inputs`, keyed by step ID. Emits
+   * `workflow:task` for every task it publishes.
+   */
+  async createWorkflow(spec: WorkflowSpec): Promise<Workflow> {
+    this.validateWorkflow(spec);
+
+    const workflow: Workflow = {
+      id: uuidv4(),
+      name: spec.name,
+      status: 'running',
+      spec,
+      steps: Object.fromEntries(spec.steps.map(step => [step.id, {
+        id: step.id,
+        status: 'waiting' as WorkflowStepStatus,
+        dependsOn: step.dependsOn ?? [],
+        taskIds: []
+      }])),
+      createdAt: this.clock.now()
+    };
+
+    this.workflows.set(workflow.id, workflow);
+    this.emit('workflow:created', workflow);
+
+    await this.startReadySteps(workflow);
+    return workflow;
+  }
+
+  getWorkflow(workflowId: string): Workflow | undefined {
+    return this.workflows.get(workflowId);
+  }
+
+  getWorkflows(): Workflow[] {
+    return Array.from(this.workflows.values());
+  }
+
+  /**
+   * The workflow a task was published for, if any
+   */
+  getTaskWorkflow(taskId: string): { workflow: Workflow; stepId: string } | undefined {
+    const link = this.workflowTasks.get(taskId);
+    const workflow = link && this.workflows.get(link.workflowId);
+    return workflow ? { workflow, stepId: link!.stepId } : undefined;
+  }
+
+  snapshot(): CoordinationSnapshot {
+    return {
+      location: this.location,
+      capabilities: [...this.capabilities],
+      tasks: Array.from(this.activeTasks.values()),
+      queue: [...this.taskQueue],
+      routes: Array.from(this.routes.values()),
+      history: Object.fromEntries(this.history),
+      workflows: Array.from(this.workflows.values())
+    };
+  }
+
+  restore(snapshot: CoordinationSnapshot): void {
+    this.location = snapshot.location;
+    this.capabilities = [...snapshot.capabilities];
+    this.activeTasks = new Map(snapshot.tasks.map(task => [task.id, task]));
+    this.taskQueue = [...snapshot.queue];
+    this.routes = new Map(snapshot.routes.map(route => [route.id, route]));
+    this.history = new Map(Object.entries(snapshot.history));
+    this.workflows = new Map(snapshot.workflows.map(workflow => [workflow.id, workflow]));
+
+    this.workflowTasks.clear();
+    for (const workflow of this.workflows.values()) {
+      for (const step of Object.values(workflow.steps)) {
+        for (const taskId of step.taskIds) {
+          this.workflowTasks.set(taskId, { workflowId: workflow.id, stepId: step.id, compensation: false });
+        }
+        if (step.compensationTaskId) {
+          this.workflowTasks.set(step.compensationTaskId, { workflowId: workflow.id, stepId: step.id, compensation: true });
+        }
+      }
+    }
+  }
+
+  private validateWorkflow(spec: WorkflowSpec): void {
+    if (spec.steps.length === 0) {
+      throw new Error('Workflow has no steps');
+    }
+
+    const ids = new Set<string>();
+    for (const step of spec.steps) {
+      if (ids.has(step.id)) {
+        throw new Error(`Duplicate workflow step: ${step.id}`);
+      }
+      ids.add(step.id);
+    }
+
+    for (const step of spec.steps) {
+      for (const dependency of step.dependsOn ?? []) {
+        if (!ids.has(dependency)) {
+          throw new Error(`Unknown workflow dependency: ${dependency}`);
+        }
+      }
+    }
+
+    // Kahn's algorithm: every step must become ready at some point
+    const remaining = new Map(spec.steps.map(step => [step.id, new Set(step.dependsOn ?? [])]));
+    let progressed = true;
+    while (remaining.size > 0 && progressed) {
+      progressed = false;
+      for (const [id, dependencies] of remaining) {
+        if (Array.from(dependencies).every(dependency => !remaining.has(dependency))) {
+          remaining.delete(id);
+          progressed = true;
+        }
+      }
+    }
+
+    if (remaining.size > 0) {
+      throw new Error('Workflow has a dependency cycle');
+    }
+  }
+
+  private getStepSpec(workflow: Workflow, stepId: string): WorkflowStepSpec {
+    return workflow.spec.steps.find(step => step.id === stepId)!;
+  }
+
+  private async startReadySteps(workflow: Workflow): Promise<void> {
+    const ready = Object.values(workflow.steps).filter(step =>
+      step.status === 'waiting' &&
+      step.dependsOn.every(dependency => workflow.steps[dependency].status === 'completed')
+    );
+
+    for (const step of ready) {
+      await this.publishStep(workflow, step);
+    }
+  }
+
+  private async publishStep(workflow: Workflow, step: WorkflowStep): Promise<Task> {
+    const spec = this.getStepSpec(workflow, step.id);
+    const payload = step.dependsOn.length > 0
+      ? { ...spec.payload, inputs: Object.fromEntries(step.dependsOn.map(id => [id, workflow.steps[id].output])) }
+      : { ...spec.payload };
+
+    const task = await this.publishWorkflowTask(spec, payload);
+    step.status = 'active';
+    step.taskIds.push(task.id);
+    this.workflowTasks.set(task.id, { workflowId: workflow.id, stepId: step.id, compensation: false });
+
+    this.emit('workflow:task', { workflow, stepId: step.id, task });
+    return task;
+  }
+
+  private publishWorkflowTask(spec: WorkflowTaskSpec, payload: Record<string, any>): Promise<Task> {
+    return this.publishTask({
+      type: spec.type,
+      payload,
+      maxPrice: spec.maxPrice,
+      deadline: spec.timeout !== undefined ? this.clock.now() + spec.timeout : undefined,
+      priority: spec.priority,
+      requirements: {
+        capabilities: spec.requirements?.capabilities || [],
+        minReputation: spec.requirements?.minReputation,
+        maxDistance: spec.requirements?.maxDistance
+      }
+    });
+  }
+
+  /**
+   * React to a status change of a task that belongs to a workflow
+   */
+  private async advanceWorkflow(task: Task, metadata?: Record<string, any>): Promise<void> {
+    const link = this.workflowTasks.get(task.id);
+    const workflow = link && this.workflows.get(link.workflowId);
+    if (!link || !workflow) {
+      return;
+    }
+
+    if (link.compensation) {
+      this.checkCompensated(workflow);
+      return;
+    }
+
+    const step = workflow.steps[link.stepId];
+    // Tasks of earlier attempts, or tasks the workflow cancelled itself
+    if (workflow.status !== 'running' || step.taskIds[step.taskIds.length - 1] !== task.id) {
+      return;
+    }
+
+    switch (task.status) {
+      case TaskStatus.COMPLETED:
+        step.status = 'completed';
+        step.output = metadata?.output;
+        this.emit('workflow:step:completed', { workflow, stepId: step.id, output: step.output });
+
+        if (Object.values(workflow.steps).every(s => s.status === 'completed')) {
+          this.finishWorkflow(workflow, 'completed');
+        } else {
+          await this.startReadySteps(workflow);
+        }
+        break;
+      case TaskStatus.FAILED:
+        await this.handleStepFailure(workflow, step, metadata?.reason);
+        break;
+      case TaskStatus.CANCELLED:
+        step.status = 'cancelled';
+        await this.abortWorkflow(workflow, 'step-cancelled');
+        break;
+    }
+  }
+
+  private async handleStepFailure(workflow: Workflow, step: WorkflowStep, reason?: string): Promise<void> {
+    const spec = this.getStepSpec(workflow, step.id);
+    const policy = spec.onFailure ?? workflow.spec.onFailure ?? 'abort';
+    this.emit('workflow:step:failed', { workflow, stepId: step.id, reason, policy });
+
+    if (policy === 'retry' && step.taskIds.length <= (spec.maxRetries ?? 1)) {
+      await this.publishStep(workflow, step);
+      return;
+    }
+
+    step.status = 'failed';
+    if (policy === 'compensate') {
+      await this.compensateWorkflow(workflow);
+    } else {
+      await this.abortWorkflow(workflow, 'step-failed');
+    }
+  }
+
+  private async abortWorkflow(workflow: Workflow, reason: string): Promise<void> {
+    workflow.status = 'aborted';
+    const cancelled = await this.stopSteps(workflow);
+    this.finishWorkflow(workflow, 'aborted', { reason, cancelled });
+  }
+
+  /**
+   * Undo the completed steps by publishing their compensation tasks; the
+   * workflow is compensated once all of them have finished
+   */
+  private async compensateWorkflow(workflow: Workflow): Promise<void> {
+    workflow.status = 'compensating';
+    const cancelled = await this.stopSteps(workflow);
+
+    const tasks: Task[] = [];
+    for (const step of Object.values(workflow.steps)) {
+      const compensation = this.getStepSpec(workflow, step.id).compensation;
+      if (step.status !== 'completed' || !compensation) {
+        continue;
+      }
+
+      const task = await this.publishWorkflowTask(compensation, {
+        ...compensation.payload,
+        compensates: { stepId: step.id, taskId: step.taskIds[step.taskIds.length - 1], output: step.output }
+      });
+      step.compensationTaskId = task.id;
+      this.workflowTasks.set(task.id, { workflowId: workflow.id, stepId: step.id, compensation: true });
+      tasks.push(task);
+    }
+
+    this.emit('workflow:compensating', { workflow, cancelled, tasks });
+    for (const task of tasks) {
+      this.emit('workflow:task', { workflow, stepId: this.workflowTasks.get(task.id)!.stepId, task });
+    }
+    this.checkCompensated(workflow);
+  }
+
+  /**
+   * Cancel the running steps and skip the ones that never started
+   */
+  private async stopSteps(workflow: Workflow): Promise<Task[]> {
+    const cancelled: Task[] = [];
+
+    for (const step of Object.values(workflow.steps)) {
+      if (step.status === 'waiting') {
+        step.status = 'skipped';
+      } else if (step.status === 'active') {
+        const task = this.activeTasks.get(step.taskIds[step.taskIds.length - 1]);
+        if (task && canTransition(task.status, TaskStatus.CANCELLED)) {
+          await this.cancelTask(task.id, `workflow-${workflow.status}`);
+          cancelled.push(task);
+        }
+        step.status = 'cancelled';
+      }
+    }
+
+    return cancelled;
+  }
+
+  private checkCompensated(workflow: Workflow): void {
+    if (workflow.status !== 'compensating') {
+      return;
+    }
+
+    const pending = Object.values(workflow.steps).some(step => {
+      const task = step.compensationTaskId ? this.activeTasks.get(step.compensationTaskId) : undefined;
+      return task !== undefined && TASK_TRANSITIONS[task.status].length > 0;
+    });
+
+    if (!pending) {
+      this.finishWorkflow(workflow, 'compensated');
+    }
+  }
+
+  private finishWorkflow(workflow: Workflow, status: WorkflowStatus, details: Record<string, any> = {}): void {
+    workflow.status = status;
+    workflow.finishedAt = this.clock.now();
+    this.emit(`workflow:${status}`, { workflow, ...details });
+  }
+
+  private transition(task: Task, to: TaskStatus, metadata: Record<string, any> = {}): void {
+    if (!canTransition(task.status, to)) {
+      throw new InvalidTaskTransitionError(task.id, task.status, to);
+    }
+
+    const { actor, reason, ...details } = metadata;
+    this.record({
+      taskId: task.id,
+      from: task.status,
+      to,
+      actor: actor ?? this.deviceId,
+      reason,
+      metadata: Object.keys(details).length > 0 ? details : undefined,
+      timestamp: this.clock.now()
+    });
+    task.status = to;
+  }
+
+  private record(transition: TaskTransition): void {
+    const history = this.history.get(transition.taskId) ?? [];
+    history.push(transition);
+    this.history.set(transition.taskId, history);
+    this.emit('task:transition', transition);
+  }
 }
 
-interface Route {
+export interface Route {
   id: string;
   taskId: string;
   deviceId: string;
@@ -213,6 +723,10 @@ interface Route {
   estimatedDuration: number;
   priority: TaskPriority;
   createdAt: number;
+  /** When the robot should set off, later than `createdAt` if it waits for another route */
+  departAt?: number;
+  /** When it is planned to reach the last waypoint */
+  arriveAt?: number;
   completedAt?: number;
   status: 'active' | 'paused' | 'completed' | 'failed';
 }
\ No newline at end of file
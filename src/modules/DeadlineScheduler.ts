@@ -0,0 +1,209 @@
+/**
+ * Deadline Scheduler
+ *
+ * Sweeps the tasks of a CoordinationLayer and enforces their deadlines.
+ * A task whose deadline is near emits `task:deadline-approaching` once.
+ * An overdue task is moved to a final state with reason `deadline-expired`:
+ * - CANCELLED if it was never assigned (nobody failed it)
+ * - FAILED if it was assigned, which counts as a failed task for the
+ *   assigned device's reputation and triggers its insurance handling
+ *
+ * Bids this device still holds on overdue tasks are withdrawn and the
+ * tasks are taken off the marketplace. Time comes from the configured
+ * Clock; `sweep()` can be called directly to enforce deadlines at a given
+ * moment.
+ *
+ * Events: `task:deadline-approaching`, `task:deadline-expired` and
+ * `bid:expired`.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { Task, TaskStatus } from '../types';
+import { CoordinationLayer } from './CoordinationLayer';
+import { TaskMarketplace } from './TaskMarketplace';
+import { ReputationRegistry } from './ReputationRegistry';
+import { InsuranceModule } from './InsuranceModule';
+import { isFinalStatus } from './TaskLifecycle';
+import { isDeadlineApproaching } from '../utils/helpers';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+export interface DeadlineSchedulerOptions {
+  /** Warn this long before a deadline (ms) */
+  warningThreshold?: number;
+  /** Time between sweeps while started (ms) */
+  sweepInterval?: number;
+}
+
+export interface DeadlineSchedulerConfig extends DeadlineSchedulerOptions {
+  coordination: CoordinationLayer;
+  marketplace?: TaskMarketplace;
+  reputation?: ReputationRegistry;
+  insurance?: InsuranceModule;
+  clock?: Clock;
+}
+
+export interface DeadlineExpiry {
+  task: Task;
+  /** Status before the deadline expired */
+  from: TaskStatus;
+  to: TaskStatus;
+  overdueBy: number;
+}
+
+export class DeadlineScheduler extends EventEmitter {
+  private coordination: CoordinationLayer;
+  private marketplace?: TaskMarketplace;
+  private reputation?: ReputationRegistry;
+  private insurance?: InsuranceModule;
+  private clock: Clock;
+  private warningThreshold: number;
+  private sweepInterval: number;
+  private warned: Set<string> = new Set();
+  private timer?: TimerHandle;
+  private sweeping?: Promise<DeadlineExpiry[]>;
+
+  constructor(config: DeadlineSchedulerConfig) {
+    super();
+    this.coordination = config.coordination;
+    this.marketplace = config.marketplace;
+    this.reputation = config.reputation;
+    this.insurance = config.insurance;
+    this.clock = config.clock ?? systemClock;
+    this.warningThreshold = config.warningThreshold ?? 300000;
+    this.sweepInterval = config.sweepInterval ?? 1000;
+  }
+
+  /**
+   * Sweep periodically until stopped
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = this.clock.setInterval(() => {
+      this.sweep().catch(error => this.emit('deadline:error', { error }));
+    }, this.sweepInterval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.clock.clearTimer(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Warn about approaching deadlines and expire overdue tasks and bids.
+   * Returns the tasks that expired. Overlapping calls share one sweep.
+   */
+  sweep(): Promise<DeadlineExpiry[]> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep().finally(() => {
+        this.sweeping = undefined;
+      });
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * Expire a single task now, whatever its deadline. Returns undefined if
+   * the task is unknown or already final.
+   */
+  async expire(taskId: string): Promise<DeadlineExpiry | undefined> {
+    const task = this.coordination.getTask(taskId);
+    if (!task || isFinalStatus(task.status)) {
+      return undefined;
+    }
+
+    const from = task.status;
+    const to = task.assignedTo ? TaskStatus.FAILED : TaskStatus.CANCELLED;
+    const reason = 'deadline-expired';
+
+    if (to === TaskStatus.CANCELLED) {
+      await this.coordination.cancelTask(task.id, reason);
+    } else {
+      await this.coordination.updateTaskStatus(task.id, to, { reason });
+    }
+    this.warned.delete(task.id);
+
+    await this.withdrawBids(task.id);
+    this.marketplace?.removeTask(task.id);
+
+    if (task.assignedTo) {
+      await this.reputation?.recordTaskCompletion({
+        deviceId: task.assignedTo,
+        taskId: task.id,
+        success: false
+      });
+      await this.insurance?.handleTaskCompletion(task, false);
+    }
+
+    const expiry: DeadlineExpiry = {
+      task,
+      from,
+      to,
+      overdueBy: task.deadline !== undefined ? Math.max(0, this.clock.now() - task.deadline) : 0
+    };
+    this.emit('task:deadline-expired', expiry);
+    return expiry;
+  }
+
+  private async runSweep(): Promise<DeadlineExpiry[]> {
+    const now = this.clock.now();
+    const expired: DeadlineExpiry[] = [];
+
+    for (const task of this.coordination.getActiveTasks()) {
+      if (task.deadline === undefined || isFinalStatus(task.status)) {
+        this.warned.delete(task.id);
+        continue;
+      }
+
+      if (task.deadline <= now) {
+        const expiry = await this.expire(task.id);
+        if (expiry) {
+          expired.push(expiry);
+        }
+      } else if (!this.warned.has(task.id) && isDeadlineApproaching(task.deadline, this.warningThreshold, now)) {
+        this.warned.add(task.id);
+        this.emit('task:deadline-approaching', { task, timeRemaining: task.deadline - now });
+      }
+    }
+
+    await this.expireMarketplace(now);
+    return expired;
+  }
+
+  /**
+   * Tasks this device only knows from the marketplace (e.g. ones it bid
+   * on) are not tracked by the coordination layer
+   */
+  private async expireMarketplace(now: number): Promise<void> {
+    if (!this.marketplace) {
+      return;
+    }
+
+    for (const task of await this.marketplace.getAvailableTasks()) {
+      if (task.deadline !== undefined && task.deadline <= now) {
+        await this.withdrawBids(task.id);
+        this.marketplace.removeTask(task.id);
+      }
+    }
+  }
+
+  private async withdrawBids(taskId: string): Promise<void> {
+    if (!this.marketplace) {
+      return;
+    }
+
+    for (const bid of this.marketplace.getActiveBids()) {
+      if (bid.taskId === taskId) {
+        await this.marketplace.withdrawBid(bid.id);
+        this.emit('bid:expired', bid);
+      }
+    }
+  }
+}
+
+export default DeadlineScheduler;
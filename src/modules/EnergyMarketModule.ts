@@ -1,5 +1,8 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
+import { Location } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+import { SpatialIndex } from '../utils/spatialIndex';
 
 export enum EnergySourceType {
   CHARGING_STATION = 'charging_station',
@@ -30,7 +33,7 @@ export interface EnergySource {
   id: string;
   ownerId: string;
   type: EnergySourceType;
-  location: { x: number; y: number; z?: number };
+  location: Location;
   capacity: number;
   currentOutput: number;
   pricePerKwh: number;
@@ -52,7 +55,7 @@ export interface EnergyOrder {
   maxPricePerKwh?: number;
   minPricePerKwh?: number;
   preferredSourceTypes?: EnergySourceType[];
-  location: { x: number; y: number };
+  location: Location;
   maxDistance?: number;
   urgency: 'low' | 'normal' | 'high' | 'critical';
   currentBatteryLevel: number;
@@ -122,6 +125,17 @@ export interface EnergyForecast {
   priceForecasts: Array<{ time: number; price: number }>;
 }
 
+export interface EnergyMarketSnapshot {
+  currentCharge: number;
+  sources: EnergySource[];
+  orders: EnergyOrder[];
+  sessions: ChargingSession[];
+  reservations: EnergyReservation[];
+  peerTransfers: PeerEnergyTransfer[];
+  priceHistory: Array<{ timestamp: number; price: number }>;
+  consumptionHistory: Array<{ timestamp: number; amount: number }>;
+}
+
 interface EnergyModuleConfig {
   deviceId: string;
   batteryCapacity: number;
@@ -129,6 +143,7 @@ interface EnergyModuleConfig {
   chargingEfficiency?: number;
   canTransferEnergy?: boolean;
   maxTransferRate?: number;
+  clock?: Clock;
 }
 
 export class EnergyMarketModule extends EventEmitter {
@@ -138,8 +153,10 @@ export class EnergyMarketModule extends EventEmitter {
   private chargingEfficiency: number;
   private canTransferEnergy: boolean;
   private maxTransferRate: number;
+  private clock: Clock;
 
   private energySources: Map<string, EnergySource> = new Map();
+  private sourceIndex: SpatialIndex<EnergySource> = new SpatialIndex({ cellSize: 50 });
   private orders: Map<string, EnergyOrder> = new Map();
   private sessions: Map<string, ChargingSession> = new Map();
   private reservations: Map<string, EnergyReservation> = new Map();
@@ -155,13 +172,14 @@ export class EnergyMarketModule extends EventEmitter {
     this.chargingEfficiency = config.chargingEfficiency || 0.95;
     this.canTransferEnergy = config.canTransferEnergy || false;
     this.maxTransferRate = config.maxTransferRate || 10; // kW
+    this.clock = config.clock ?? systemClock;
   }
 
   // === Energy Source Management ===
 
   registerEnergySource(params: {
     type: EnergySourceType;
-    location: { x: number; y: number; z?: number };
+    location: Location;
     capacity: number;
     pricePerKwh: number;
     connectorTypes: string[];
@@ -185,7 +203,7 @@ export class EnergyMarketModule extends EventEmitter {
       metadata: params.metadata
     };
 
-    this.energySources.set(source.id, source);
+    this.storeSource(source);
     this.emit('source:registered', source);
 
     return source;
@@ -208,7 +226,7 @@ export class EnergyMarketModule extends EventEmitter {
     const oldPrice = source.pricePerKwh;
     source.pricePerKwh = pricePerKwh;
 
-    this.priceHistory.push({ timestamp: Date.now(), price: pricePerKwh });
+    this.priceHistory.push({ timestamp: this.clock.now(), price: pricePerKwh });
     this.emit('source:price_changed', { sourceId, oldPrice, newPrice: pricePerKwh });
   }
 
@@ -218,7 +236,7 @@ export class EnergyMarketModule extends EventEmitter {
     energyAmount: number;
     maxPricePerKwh: number;
     preferredSourceTypes?: EnergySourceType[];
-    location: { x: number; y: number };
+    location: Location;
     maxDistance?: number;
     urgency?: 'low' | 'normal' | 'high' | 'critical';
     targetBatteryLevel?: number;
@@ -238,7 +256,7 @@ export class EnergyMarketModule extends EventEmitter {
       currentBatteryLevel: (this.currentCharge / this.batteryCapacity) * 100,
       targetBatteryLevel: params.targetBatteryLevel || 80,
       deadline: params.deadline,
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.orders.set(order.id, order);
@@ -272,7 +290,7 @@ export class EnergyMarketModule extends EventEmitter {
       urgency: 'normal',
       currentBatteryLevel: 100,
       targetBatteryLevel: 100,
-      createdAt: Date.now(),
+      createdAt: this.clock.now(),
       matchedSourceId: params.sourceId
     };
 
@@ -297,20 +315,20 @@ export class EnergyMarketModule extends EventEmitter {
   // === Order Matching ===
 
   findAvailableSources(params: {
-    location: { x: number; y: number };
+    location: Location;
     maxDistance?: number;
     minPower?: number;
     sourceTypes?: EnergySourceType[];
     connectorType?: string;
   }): EnergySource[] {
     const sources: EnergySource[] = [];
+    const candidates = params.maxDistance
+      ? this.sourceIndex.within(params.location, params.maxDistance).map(match => match.item)
+      : this.energySources.values();
 
-    for (const source of this.energySources.values()) {
+    for (const source of candidates) {
       if (source.status !== ChargingStationStatus.AVAILABLE) continue;
 
-      const distance = this.calculateDistance(params.location, source.location);
-      if (params.maxDistance && distance > params.maxDistance) continue;
-
       if (params.minPower && source.maxChargingPower < params.minPower) continue;
 
       if (params.sourceTypes && !params.sourceTypes.includes(source.type)) continue;
@@ -346,7 +364,7 @@ export class EnergyMarketModule extends EventEmitter {
     if (matchedSource) {
       order.status = EnergyOrderStatus.MATCHED;
       order.matchedSourceId = matchedSource.id;
-      order.matchedAt = Date.now();
+      order.matchedAt = this.clock.now();
       
       this.emit('order:matched', { order, source: matchedSource });
       return matchedSource;
@@ -373,7 +391,7 @@ export class EnergyMarketModule extends EventEmitter {
       orderId: order.id,
       sourceId: source.id,
       deviceId: order.deviceId,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       energyDelivered: 0,
       totalCost: 0,
       averagePower: 0,
@@ -403,7 +421,7 @@ export class EnergyMarketModule extends EventEmitter {
     session.totalCost = params.energyDelivered * source.pricePerKwh;
     session.peakPower = Math.max(session.peakPower, params.currentPower);
 
-    const duration = (Date.now() - session.startTime) / 3600000; // hours
+    const duration = (this.clock.now() - session.startTime) / 3600000; // hours
     session.averagePower = duration > 0 ? session.energyDelivered / duration : 0;
 
     // Update device charge
@@ -421,11 +439,11 @@ export class EnergyMarketModule extends EventEmitter {
     const source = this.energySources.get(session.sourceId);
 
     session.status = 'completed';
-    session.endTime = Date.now();
+    session.endTime = this.clock.now();
 
     if (order) {
       order.status = EnergyOrderStatus.COMPLETED;
-      order.completedAt = Date.now();
+      order.completedAt = this.clock.now();
     }
 
     if (source) {
@@ -435,7 +453,7 @@ export class EnergyMarketModule extends EventEmitter {
     }
 
     this.consumptionHistory.push({
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       amount: session.energyDelivered
     });
 
@@ -480,7 +498,7 @@ export class EnergyMarketModule extends EventEmitter {
     reservation.status = 'confirmed';
 
     const source = this.energySources.get(reservation.sourceId);
-    if (source && reservation.startTime <= Date.now()) {
+    if (source && reservation.startTime <= this.clock.now()) {
       source.status = ChargingStationStatus.RESERVED;
     }
 
@@ -533,7 +551,7 @@ export class EnergyMarketModule extends EventEmitter {
     if (transfer.toDeviceId !== this.deviceId) throw new Error('Not authorized');
 
     transfer.status = 'transferring';
-    transfer.startTime = Date.now();
+    transfer.startTime = this.clock.now();
 
     this.emit('peer_transfer:accepted', transfer);
   }
@@ -543,7 +561,7 @@ export class EnergyMarketModule extends EventEmitter {
     if (!transfer) throw new Error('Transfer not found');
 
     transfer.status = 'completed';
-    transfer.endTime = Date.now();
+    transfer.endTime = this.clock.now();
 
     // Update energy levels
     if (transfer.fromDeviceId === this.deviceId) {
@@ -564,7 +582,7 @@ export class EnergyMarketModule extends EventEmitter {
     const avgConsumption = this.calculateAverageConsumption();
     const priceForecasts: Array<{ time: number; price: number }> = [];
 
-    const now = Date.now();
+    const now = this.clock.now();
     const avgPrice = this.calculateAveragePrice();
 
     for (let i = 0; i < hoursAhead; i++) {
@@ -584,7 +602,7 @@ export class EnergyMarketModule extends EventEmitter {
 
     return {
       deviceId: this.deviceId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       predictedConsumption: avgConsumption * hoursAhead,
       predictedGeneration: 0,
       recommendedChargeTime: cheapestSlot.time,
@@ -639,7 +657,7 @@ export class EnergyMarketModule extends EventEmitter {
 
     // Can wait for cheaper prices
     if (batteryPercent > 40) {
-      const cheapestTime = new Date(forecast.recommendedChargeTime || Date.now());
+      const cheapestTime = new Date(forecast.recommendedChargeTime || this.clock.now());
       return {
         shouldChargeNow: false,
         reason: `Wait for cheaper prices at ${cheapestTime.toLocaleTimeString()}`
@@ -702,8 +720,41 @@ export class EnergyMarketModule extends EventEmitter {
     };
   }
 
+  // === Persistence ===
+
+  snapshot(): EnergyMarketSnapshot {
+    return {
+      currentCharge: this.currentCharge,
+      sources: Array.from(this.energySources.values()),
+      orders: Array.from(this.orders.values()),
+      sessions: Array.from(this.sessions.values()),
+      reservations: Array.from(this.reservations.values()),
+      peerTransfers: Array.from(this.peerTransfers.values()),
+      priceHistory: [...this.priceHistory],
+      consumptionHistory: [...this.consumptionHistory]
+    };
+  }
+
+  restore(snapshot: EnergyMarketSnapshot): void {
+    this.currentCharge = snapshot.currentCharge;
+    this.energySources = new Map();
+    this.sourceIndex.clear();
+    snapshot.sources.forEach(source => this.storeSource(source));
+    this.orders = new Map(snapshot.orders.map(order => [order.id, order]));
+    this.sessions = new Map(snapshot.sessions.map(session => [session.id, session]));
+    this.reservations = new Map(snapshot.reservations.map(reservation => [reservation.id, reservation]));
+    this.peerTransfers = new Map(snapshot.peerTransfers.map(transfer => [transfer.id, transfer]));
+    this.priceHistory = [...snapshot.priceHistory];
+    this.consumptionHistory = [...snapshot.consumptionHistory];
+  }
+
   // === Utilities ===
 
+  private storeSource(source: EnergySource): void {
+    this.energySources.set(source.id, source);
+    this.sourceIndex.insert(source.id, source.location, source);
+  }
+
   private calculateDistance(
     a: { x: number; y: number },
     b: { x: number; y: number }
@@ -735,7 +786,7 @@ export class EnergyMarketModule extends EventEmitter {
   // === External Data Sync ===
 
   importEnergySource(source: EnergySource): void {
-    this.energySources.set(source.id, source);
+    this.storeSource(source);
     this.emit('source:imported', source);
   }
 
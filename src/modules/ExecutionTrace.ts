@@ -0,0 +1,93 @@
+/**
+ * Execution Trace
+ *
+ * The steps of a task execution as a Merkle tree. Each leaf is a salted
+ * commitment to one step, so the root can be published in a proof
+ * without revealing any step, and a single step can be disclosed with
+ * `proveStep()` for an audit. The salts keep the other steps hidden even
+ * when they are easy to guess.
+ */
+
+import { createCommitment } from '../utils/crypto';
+import { MerkleTree, verifyMerkleProof } from '../utils/merkle';
+
+export interface ExecutionStep {
+  step: string;
+  result: any;
+  timestamp: number;
+}
+
+/**
+ * One disclosed step and the path from its leaf to the trace root
+ */
+export interface StepProof {
+  taskId: string;
+  index: number;
+  stepCount: number;
+  step: ExecutionStep;
+  /** Opens the step's leaf commitment */
+  salt: string;
+  siblings: string[];
+}
+
+export class ExecutionTrace {
+  readonly taskId: string;
+  private steps: ExecutionStep[];
+  private salts: string[];
+  private tree: MerkleTree;
+
+  constructor(taskId: string, steps: ExecutionStep[]) {
+    this.taskId = taskId;
+    this.steps = [...steps];
+    this.salts = [];
+
+    const leaves = this.steps.map((step, index) => {
+      const { commitment, salt } = createCommitment({ taskId, index, step });
+      this.salts.push(salt);
+      return commitment;
+    });
+    this.tree = new MerkleTree(leaves);
+  }
+
+  get root(): string {
+    return this.tree.root;
+  }
+
+  get length(): number {
+    return this.steps.length;
+  }
+
+  getSteps(): ExecutionStep[] {
+    return [...this.steps];
+  }
+
+  /**
+   * Disclose one step with its inclusion proof
+   */
+  proveStep(index: number): StepProof {
+    if (!Number.isInteger(index) || index < 0 || index >= this.steps.length) {
+      throw new Error(`Step index out of range: ${index}`);
+    }
+
+    return {
+      taskId: this.taskId,
+      index,
+      stepCount: this.steps.length,
+      step: this.steps[index],
+      salt: this.salts[index],
+      siblings: this.tree.getProof(index)
+    };
+  }
+
+  /**
+   * Check that a disclosed step is step `index` of the trace with this root
+   */
+  static verifyStep(root: string, index: number, proof: StepProof): boolean {
+    if (proof.index !== index || !Array.isArray(proof.siblings)) {
+      return false;
+    }
+
+    const leaf = createCommitment({ taskId: proof.taskId, index, step: proof.step }, proof.salt).commitment;
+    return verifyMerkleProof(root, leaf, index, proof.stepCount, proof.siblings);
+  }
+}
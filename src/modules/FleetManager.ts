@@ -1,16 +1,24 @@
 import EventEmitter from 'eventemitter3';
 import { FleetConfig, FleetMetrics, Task, Location } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+
+export interface FleetSnapshot {
+  devices: DeviceInfo[];
+  metrics: FleetMetrics;
+}
 
 export class FleetManager extends EventEmitter {
   private fleetId: string;
   private devices: Map<string, DeviceInfo> = new Map();
   private config: FleetConfig;
   private metrics: FleetMetrics;
+  private clock: Clock;
 
   constructor(config: FleetConfig) {
     super();
     this.fleetId = config.fleetId;
     this.config = config;
+    this.clock = config.clock ?? systemClock;
 
     for (const deviceId of config.devices) {
       this.devices.set(deviceId, {
@@ -203,6 +211,19 @@ export class FleetManager extends EventEmitter {
     return (avgUtilization * 0.6 + avgReputation / 5 * 0.4) * 100;
   }
 
+  snapshot(): FleetSnapshot {
+    return {
+      devices: Array.from(this.devices.values()).map(device => ({ ...device })),
+      metrics: { ...this.metrics }
+    };
+  }
+
+  restore(snapshot: FleetSnapshot): void {
+    this.devices = new Map(snapshot.devices.map(device => [device.deviceId, { ...device }]));
+    this.config.devices = snapshot.devices.map(device => device.deviceId);
+    this.metrics = { ...snapshot.metrics };
+  }
+
   private findBestDevice(task: Task): string | undefined {
     const availableDevices = Array.from(this.devices.entries())
       .filter(([_, device]) => device.status === 'idle' || device.currentLoad < 10)
@@ -231,7 +252,7 @@ export class FleetManager extends EventEmitter {
       totalTasksCompleted: totalTasks,
       totalRevenue,
       avgDeviceUtilization: avgUtilization,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -243,12 +264,12 @@ export class FleetManager extends EventEmitter {
       totalTasksCompleted: 0,
       totalRevenue: 0,
       avgDeviceUtilization: 0,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 }
 
-interface DeviceInfo {
+export interface DeviceInfo {
   deviceId: string;
   status: 'idle' | 'busy' | 'offline';
   currentLoad: number;
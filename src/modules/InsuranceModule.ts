@@ -8,6 +8,7 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
 import { Task, TaskStatus } from '../types';
+import { Clock, systemClock } from '../utils/clock';
 
 // ==================== Types ====================
 
@@ -188,11 +189,21 @@ export interface InsuranceQuote {
 
 // ==================== Insurance Module ====================
 
+export interface InsuranceSnapshot {
+  policies: InsurancePolicy[];
+  claims: InsuranceClaim[];
+  pools: InsurancePool[];
+  collaterals: Collateral[];
+  quotes: InsuranceQuote[];
+  riskHistory: Record<string, RiskAssessment[]>;
+}
+
 export interface InsuranceModuleConfig {
   deviceId: string;
   defaultPool?: string;
   autoInsure?: boolean;
   maxPremiumRate?: number;
+  clock?: Clock;
 }
 
 export class InsuranceModule extends EventEmitter {
@@ -204,11 +215,13 @@ export class InsuranceModule extends EventEmitter {
   private collaterals: Map<string, Collateral> = new Map();
   private quotes: Map<string, InsuranceQuote> = new Map();
   private riskHistory: Map<string, RiskAssessment[]> = new Map();
+  private clock: Clock;
 
   constructor(config: InsuranceModuleConfig) {
     super();
     this.deviceId = config.deviceId;
     this.config = config;
+    this.clock = config.clock ?? systemClock;
 
     // Create default fleet pool
     this.createDefaultPool();
@@ -245,7 +258,7 @@ export class InsuranceModule extends EventEmitter {
       premium,
       deductible,
       providerId,
-      validUntil: Date.now() + (params.duration || 3600000),
+      validUntil: this.clock.now() + (params.duration || 3600000),
       riskAssessment
     };
 
@@ -268,7 +281,7 @@ export class InsuranceModule extends EventEmitter {
     
     if (params.quoteId) {
       quote = this.quotes.get(params.quoteId);
-      if (!quote || Date.now() > quote.validUntil) {
+      if (!quote || this.clock.now() > quote.validUntil) {
         throw new Error('Quote expired or not found');
       }
     } else {
@@ -299,8 +312,8 @@ export class InsuranceModule extends EventEmitter {
       premium: quote.premium,
       deductible: quote.deductible,
       providerId: quote.providerId,
-      startTime: Date.now(),
-      endTime: Date.now() + 86400000, // 24 hours default
+      startTime: this.clock.now(),
+      endTime: this.clock.now() + 86400000, // 24 hours default
       terms: {
         coveredEvents: this.getCoveredEvents(quote.type),
         exclusions: ['intentional_damage', 'fraud', 'unauthorized_modification'],
@@ -311,7 +324,7 @@ export class InsuranceModule extends EventEmitter {
         autoApproveThreshold: quote.coverage * 0.1
       },
       status: 'active',
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     // Reserve funds in pool
@@ -346,7 +359,7 @@ export class InsuranceModule extends EventEmitter {
       pool.availableFunds += policy.coverage;
       
       // Partial refund if early cancellation
-      const elapsed = Date.now() - policy.startTime;
+      const elapsed = this.clock.now() - policy.startTime;
       const duration = policy.endTime - policy.startTime;
       const refundRatio = Math.max(0, 1 - elapsed / duration);
       const refund = Math.round(policy.premium * refundRatio * 0.8); // 80% of unused premium
@@ -392,7 +405,7 @@ export class InsuranceModule extends EventEmitter {
     }
 
     // Check waiting period
-    if (Date.now() - policy.startTime < policy.terms.waitingPeriod) {
+    if (this.clock.now() - policy.startTime < policy.terms.waitingPeriod) {
       throw new Error('Claim filed during waiting period');
     }
 
@@ -408,7 +421,7 @@ export class InsuranceModule extends EventEmitter {
       reason: params.reason,
       evidence: params.evidence || [],
       status: ClaimStatus.PENDING,
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.claims.set(claim.id, claim);
@@ -472,7 +485,7 @@ export class InsuranceModule extends EventEmitter {
 
     claim.status = ClaimStatus.APPROVED;
     claim.reviewNotes = notes;
-    claim.resolvedAt = Date.now();
+    claim.resolvedAt = this.clock.now();
 
     // Process payment
     await this.processClaimPayment(claim, policy);
@@ -488,7 +501,7 @@ export class InsuranceModule extends EventEmitter {
 
     claim.status = ClaimStatus.REJECTED;
     claim.reviewNotes = reason;
-    claim.resolvedAt = Date.now();
+    claim.resolvedAt = this.clock.now();
 
     // Release reserved funds
     const policy = this.policies.get(claim.policyId);
@@ -573,7 +586,7 @@ export class InsuranceModule extends EventEmitter {
         disputeWindow: 3600000, // 1 hour
         ...params.conditions
       },
-      lockedAt: Date.now()
+      lockedAt: this.clock.now()
     };
 
     this.collaterals.set(collateral.id, collateral);
@@ -593,7 +606,7 @@ export class InsuranceModule extends EventEmitter {
     }
 
     collateral.status = 'released';
-    collateral.releaseAt = Date.now();
+    collateral.releaseAt = this.clock.now();
 
     this.emit('collateral:released', { collateral, reason });
   }
@@ -609,7 +622,7 @@ export class InsuranceModule extends EventEmitter {
     }
 
     collateral.status = 'forfeited';
-    collateral.forfeitedAt = Date.now();
+    collateral.forfeitedAt = this.clock.now();
 
     this.emit('collateral:forfeited', { collateral, reason });
   }
@@ -653,7 +666,7 @@ export class InsuranceModule extends EventEmitter {
         deviceId: this.deviceId,
         contribution: params.initialFunds,
         share: 100,
-        joinedAt: Date.now(),
+        joinedAt: this.clock.now(),
         claimsMade: 0,
         claimsPaid: 0,
         reputation: 5.0
@@ -680,7 +693,7 @@ export class InsuranceModule extends EventEmitter {
         averageClaim: 0,
         profitability: 0
       },
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.pools.set(pool.id, pool);
@@ -712,7 +725,7 @@ export class InsuranceModule extends EventEmitter {
         deviceId: this.deviceId,
         contribution,
         share: 0, // Will be recalculated
-        joinedAt: Date.now(),
+        joinedAt: this.clock.now(),
         claimsMade: 0,
         claimsPaid: 0,
         reputation: 3.0
@@ -825,7 +838,7 @@ export class InsuranceModule extends EventEmitter {
         averageClaim: 0,
         profitability: 0
       },
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.pools.set(defaultPool.id, defaultPool);
@@ -905,7 +918,7 @@ export class InsuranceModule extends EventEmitter {
       recommendedPremium: Math.round(1000 * (1 + (totalScore - 50) / 100)),
       recommendedCoverage: Math.round(10000 * (1 - totalScore / 200)),
       recommendedCollateral: Math.round(500 * (1 + totalScore / 100)),
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
 
     // Store in history
@@ -966,6 +979,28 @@ export class InsuranceModule extends EventEmitter {
     }
   }
 
+  // ==================== Persistence ====================
+
+  snapshot(): InsuranceSnapshot {
+    return {
+      policies: Array.from(this.policies.values()),
+      claims: Array.from(this.claims.values()),
+      pools: Array.from(this.pools.values()),
+      collaterals: Array.from(this.collaterals.values()),
+      quotes: Array.from(this.quotes.values()),
+      riskHistory: Object.fromEntries(this.riskHistory)
+    };
+  }
+
+  restore(snapshot: InsuranceSnapshot): void {
+    this.policies = new Map(snapshot.policies.map(policy => [policy.id, policy]));
+    this.claims = new Map(snapshot.claims.map(claim => [claim.id, claim]));
+    this.pools = new Map(snapshot.pools.map(pool => [pool.id, pool]));
+    this.collaterals = new Map(snapshot.collaterals.map(collateral => [collateral.id, collateral]));
+    this.quotes = new Map(snapshot.quotes.map(quote => [quote.id, quote]));
+    this.riskHistory = new Map(Object.entries(snapshot.riskHistory));
+  }
+
   // ==================== Helpers ====================
 
   private getCoveredEvents(type: InsuranceType): string[] {
@@ -0,0 +1,80 @@
+/**
+ * Key Registry Module
+ *
+ * Maps device IDs to their Ed25519 public keys so signed payments and
+ * proofs can be verified. Keys are trusted on first use: once a device's
+ * key is known, a different key for the same device is rejected.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { verifySignature } from '../utils/crypto';
+
+export interface KeyRegistryConfig {
+  keys?: Record<string, string>;
+}
+
+export class KeyRegistry extends EventEmitter {
+  private keys: Map<string, string> = new Map();
+
+  constructor(config: KeyRegistryConfig = {}) {
+    super();
+
+    for (const [deviceId, publicKey] of Object.entries(config.keys ?? {})) {
+      this.register(deviceId, publicKey);
+    }
+  }
+
+  /**
+   * Register a device's public key. Returns false if the key was already
+   * known; throws if it conflicts with the registered key.
+   */
+  register(deviceId: string, publicKey: string): boolean {
+    const existing = this.keys.get(deviceId);
+
+    if (existing === publicKey) {
+      return false;
+    }
+
+    if (existing) {
+      this.emit('key:conflict', { deviceId, publicKey });
+      throw new Error('Public key conflicts with registered key');
+    }
+
+    this.keys.set(deviceId, publicKey);
+    this.emit('key:registered', { deviceId, publicKey });
+    return true;
+  }
+
+  getPublicKey(deviceId: string): string | undefined {
+    return this.keys.get(deviceId);
+  }
+
+  has(deviceId: string): boolean {
+    return this.keys.has(deviceId);
+  }
+
+  /**
+   * Known keys by device ID
+   */
+  snapshot(): Record<string, string> {
+    return Object.fromEntries(this.keys);
+  }
+
+  restore(snapshot: Record<string, string>): void {
+    this.keys = new Map(Object.entries(snapshot));
+  }
+
+  /**
+   * Verify a signature made by a device; unknown devices never verify
+   */
+  verify(deviceId: string, data: string, signature: string): boolean {
+    const publicKey = this.keys.get(deviceId);
+    if (!publicKey) {
+      return false;
+    }
+
+    return verifySignature(data, signature, publicKey);
+  }
+}
+
+export default KeyRegistry;
@@ -0,0 +1,255 @@
+/**
+ * Ledger Module
+ *
+ * Double-entry bookkeeping for device funds. Every balance change is a
+ * transaction that debits one account and credits another by the same
+ * amount, so the balances of all accounts always sum to zero. Each
+ * transaction records a reason and can carry an idempotency key, which
+ * makes replaying the same transaction (e.g. a payment) impossible.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { v4 as uuidv4 } from 'uuid';
+import { Clock, systemClock } from '../utils/clock';
+
+export interface LedgerAccountOptions {
+  /** External and counterparty accounts may go negative; wallets may not */
+  allowNegative?: boolean;
+}
+
+export interface LedgerEntry {
+  transactionId: string;
+  account: string;
+  counterAccount: string;
+  /** Positive for credits, negative for debits */
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  reference?: string;
+  timestamp: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;
+  reason: string;
+  reference?: string;
+  idempotencyKey?: string;
+  timestamp: number;
+}
+
+export interface LedgerStatement {
+  account: string;
+  from: number;
+  to: number;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  entries: LedgerEntry[];
+}
+
+export interface LedgerSnapshot {
+  accounts: Array<{ account: string; balance: number; allowNegative: boolean; entries: LedgerEntry[] }>;
+  transactions: LedgerTransaction[];
+}
+
+export interface LedgerConfig {
+  clock?: Clock;
+}
+
+interface LedgerAccount {
+  balance: number;
+  allowNegative: boolean;
+  entries: LedgerEntry[];
+}
+
+export class Ledger extends EventEmitter {
+  private accounts: Map<string, LedgerAccount> = new Map();
+  private transactions: LedgerTransaction[] = [];
+  private idempotencyKeys: Set<string> = new Set();
+  private clock: Clock;
+
+  constructor(config: LedgerConfig = {}) {
+    super();
+    this.clock = config.clock ?? systemClock;
+  }
+
+  /**
+   * Open an account; opening an existing account is a no-op
+   */
+  openAccount(account: string, options: LedgerAccountOptions = {}): void {
+    if (this.accounts.has(account)) {
+      return;
+    }
+
+    this.accounts.set(account, {
+      balance: 0,
+      allowNegative: options.allowNegative ?? false,
+      entries: []
+    });
+  }
+
+  hasAccount(account: string): boolean {
+    return this.accounts.has(account);
+  }
+
+  /**
+   * Move funds between two accounts. Throws on unknown accounts,
+   * insufficient funds or a reused idempotency key.
+   */
+  transfer(params: {
+    from: string;
+    to: string;
+    amount: number;
+    reason: string;
+    reference?: string;
+    idempotencyKey?: string;
+  }): LedgerTransaction {
+    if (!(params.amount > 0) || !Number.isFinite(params.amount)) {
+      throw new Error('Amount must be a positive number');
+    }
+
+    const debit = this.accounts.get(params.from);
+    const credit = this.accounts.get(params.to);
+    if (!debit || !credit) {
+      throw new Error('Account not found');
+    }
+
+    if (params.from === params.to) {
+      throw new Error('Cannot transfer to the same account');
+    }
+
+    if (params.idempotencyKey && this.idempotencyKeys.has(params.idempotencyKey)) {
+      throw new Error('Duplicate transaction');
+    }
+
+    if (!debit.allowNegative && debit.balance < params.amount) {
+      throw new Error('Insufficient balance');
+    }
+
+    const transaction: LedgerTransaction = {
+      id: uuidv4(),
+      from: params.from,
+      to: params.to,
+      amount: params.amount,
+      reason: params.reason,
+      reference: params.reference,
+      idempotencyKey: params.idempotencyKey,
+      timestamp: this.clock.now()
+    };
+
+    debit.balance -= params.amount;
+    credit.balance += params.amount;
+
+    debit.entries.push(this.createEntry(transaction, params.from, params.to, -params.amount, debit.balance));
+    credit.entries.push(this.createEntry(transaction, params.to, params.from, params.amount, credit.balance));
+
+    this.transactions.push(transaction);
+    if (params.idempotencyKey) {
+      this.idempotencyKeys.add(params.idempotencyKey);
+    }
+
+    this.emit('transaction:recorded', transaction);
+    return transaction;
+  }
+
+  hasTransaction(idempotencyKey: string): boolean {
+    return this.idempotencyKeys.has(idempotencyKey);
+  }
+
+  getBalance(account: string): number {
+    return this.accounts.get(account)?.balance ?? 0;
+  }
+
+  getEntries(account: string): LedgerEntry[] {
+    return [...(this.accounts.get(account)?.entries ?? [])];
+  }
+
+  getTransactions(): LedgerTransaction[] {
+    return [...this.transactions];
+  }
+
+  /**
+   * Entries of an account within a time range (inclusive), with the
+   * balances before and after the range
+   */
+  getStatement(account: string, from: number = 0, to: number = this.clock.now()): LedgerStatement {
+    const all = this.accounts.get(account)?.entries ?? [];
+    const before = all.filter(entry => entry.timestamp < from);
+    const entries = all.filter(entry => entry.timestamp >= from && entry.timestamp <= to);
+
+    const openingBalance = before.length > 0 ? before[before.length - 1].balanceAfter : 0;
+    const closingBalance = entries.length > 0 ? entries[entries.length - 1].balanceAfter : openingBalance;
+
+    return {
+      account,
+      from,
+      to,
+      openingBalance,
+      closingBalance,
+      totalCredits: entries.filter(e => e.amount > 0).reduce((sum, e) => sum + e.amount, 0),
+      totalDebits: entries.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0),
+      entries
+    };
+  }
+
+  /**
+   * Sum of all account balances; anything but zero means the books are broken
+   */
+  getTrialBalance(): number {
+    let total = 0;
+    for (const account of this.accounts.values()) {
+      total += account.balance;
+    }
+    return total;
+  }
+
+  snapshot(): LedgerSnapshot {
+    return {
+      accounts: Array.from(this.accounts.entries()).map(([account, state]) => ({
+        account,
+        balance: state.balance,
+        allowNegative: state.allowNegative,
+        entries: [...state.entries]
+      })),
+      transactions: [...this.transactions]
+    };
+  }
+
+  /**
+   * Replace all accounts and transactions with a snapshot
+   */
+  restore(snapshot: LedgerSnapshot): void {
+    this.accounts = new Map(snapshot.accounts.map(({ account, balance, allowNegative, entries }) =>
+      [account, { balance, allowNegative, entries: [...entries] }]
+    ));
+    this.transactions = [...snapshot.transactions];
+    this.idempotencyKeys = new Set(
+      this.transactions.filter(t => t.idempotencyKey).map(t => t.idempotencyKey!)
+    );
+  }
+
+  private createEntry(
+    transaction: LedgerTransaction,
+    account: string,
+    counterAccount: string,
+    amount: number,
+    balanceAfter: number
+  ): LedgerEntry {
+    return {
+      transactionId: transaction.id,
+      account,
+      counterAccount,
+      amount,
+      balanceAfter,
+      reason: transaction.reason,
+      reference: transaction.reference,
+      timestamp: transaction.timestamp
+    };
+  }
+}
+
+export default Ledger;
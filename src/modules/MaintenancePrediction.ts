@@ -8,6 +8,7 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
 import { Task, TaskPriority, TaskStatus } from '../types';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
 
 // ==================== Types ====================
 
@@ -256,12 +257,29 @@ export interface MaintenanceMetrics {
 
 // ==================== Maintenance Prediction Module ====================
 
+/**
+ * Plain-data form of the module state; maps nested in the inventory and
+ * service providers are stored as arrays and records
+ */
+export interface MaintenancePredictionSnapshot {
+  components: Component[];
+  maintenanceTasks: MaintenanceTask[];
+  alerts: HealthAlert[];
+  predictions: FailurePrediction[];
+  schedule: MaintenanceSchedule;
+  inventory: Omit<PartsInventory, 'parts'> & { parts: InventoryItem[] };
+  serviceProviders: Array<Omit<ServiceProvider, 'pricing'> & { pricing: Record<string, number> }>;
+  healthHistory: HealthReport[];
+  metrics: MaintenanceMetrics;
+}
+
 export interface MaintenancePredictionConfig {
   deviceId: string;
   reportInterval?: number;
   alertThreshold?: number;
   autoSchedule?: boolean;
   autoOrderParts?: boolean;
+  clock?: Clock;
 }
 
 export class MaintenancePrediction extends EventEmitter {
@@ -276,11 +294,13 @@ export class MaintenancePrediction extends EventEmitter {
   private serviceProviders: Map<string, ServiceProvider> = new Map();
   private healthHistory: HealthReport[] = [];
   private metrics: MaintenanceMetrics;
-  private monitoringInterval?: ReturnType<typeof setInterval>;
+  private monitoringInterval?: TimerHandle;
+  private clock: Clock;
 
   constructor(config: MaintenancePredictionConfig) {
     super();
     this.deviceId = config.deviceId;
+    this.clock = config.clock ?? systemClock;
     this.config = {
       reportInterval: 3600000,
       alertThreshold: 0.7,
@@ -312,13 +332,13 @@ export class MaintenancePrediction extends EventEmitter {
       manufacturer: params.manufacturer,
       model: params.model,
       serialNumber: params.serialNumber,
-      installedAt: Date.now(),
+      installedAt: this.clock.now(),
       expectedLifespan: params.expectedLifespan,
       currentOperatingHours: 0,
       maintenanceInterval: params.maintenanceInterval,
       healthScore: 100,
       status: HealthStatus.EXCELLENT,
-      metrics: { lastUpdated: Date.now() },
+      metrics: { lastUpdated: this.clock.now() },
       failureProbability: 0,
       degradationRate: this.calculateDegradationRate(params.expectedLifespan)
     };
@@ -338,7 +358,7 @@ export class MaintenancePrediction extends EventEmitter {
     component.metrics = {
       ...component.metrics,
       ...metrics,
-      lastUpdated: Date.now()
+      lastUpdated: this.clock.now()
     };
 
     this.analyzeComponentHealth(component);
@@ -367,12 +387,12 @@ export class MaintenancePrediction extends EventEmitter {
     }
 
     if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
+      this.clock.clearTimer(this.monitoringInterval);
     }
 
-    this.monitoringInterval = setInterval(() => {
+    this.monitoringInterval = this.clock.setInterval(() => {
       this.performHealthCheck();
-    }, this.config.reportInterval);
+    }, this.config.reportInterval!);
 
     this.performHealthCheck();
 
@@ -384,7 +404,7 @@ export class MaintenancePrediction extends EventEmitter {
 
   disableHealthMonitoring(): void {
     if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
+      this.clock.clearTimer(this.monitoringInterval);
       this.monitoringInterval = undefined;
     }
     this.emit('monitoring:disabled');
@@ -468,7 +488,7 @@ export class MaintenancePrediction extends EventEmitter {
     return {
       id: uuidv4(),
       deviceId: this.deviceId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       overallHealth,
       status: this.healthScoreToStatus(overallHealth),
       components: componentHealths,
@@ -519,7 +539,7 @@ export class MaintenancePrediction extends EventEmitter {
     }
 
     if (component.lastMaintenanceAt) {
-      const hoursSinceMaintenance = (Date.now() - component.lastMaintenanceAt) / 3600000;
+      const hoursSinceMaintenance = (this.clock.now() - component.lastMaintenanceAt) / 3600000;
       if (hoursSinceMaintenance > component.maintenanceInterval * 1.5) {
         healthPenalty += 15;
       } else if (hoursSinceMaintenance > component.maintenanceInterval) {
@@ -591,7 +611,7 @@ export class MaintenancePrediction extends EventEmitter {
     if (!component.lastMaintenanceAt) {
       return component.currentOperatingHours >= component.maintenanceInterval;
     }
-    const hoursSinceMaintenance = (Date.now() - component.lastMaintenanceAt) / 3600000;
+    const hoursSinceMaintenance = (this.clock.now() - component.lastMaintenanceAt) / 3600000;
     return hoursSinceMaintenance >= component.maintenanceInterval;
   }
 
@@ -599,7 +619,7 @@ export class MaintenancePrediction extends EventEmitter {
 
   private generateFailurePrediction(component: Component): FailurePrediction {
     const remainingLife = this.estimateRemainingLife(component);
-    const predictedFailureTime = Date.now() + remainingLife * 3600000;
+    const predictedFailureTime = this.clock.now() + remainingLife * 3600000;
 
     const severity = component.healthScore < 30 ? 'critical' :
                     component.healthScore < 50 ? 'high' :
@@ -674,7 +694,7 @@ export class MaintenancePrediction extends EventEmitter {
       reason: `Component health at ${component.healthScore}%, ${component.status} status`,
       estimatedDuration: this.estimateMaintenanceDuration(component),
       estimatedCost: this.estimateRepairCost(component),
-      deadline: priority === 'critical' ? Date.now() + 3600000 : undefined,
+      deadline: priority === 'critical' ? this.clock.now() + 3600000 : undefined,
       partsRequired: this.getRequiredParts(component)
     };
   }
@@ -798,7 +818,7 @@ export class MaintenancePrediction extends EventEmitter {
 
     if (this.isMaintenanceDue(component)) {
       const overdue = component.lastMaintenanceAt 
-        ? (Date.now() - component.lastMaintenanceAt) / 3600000 - component.maintenanceInterval
+        ? (this.clock.now() - component.lastMaintenanceAt) / 3600000 - component.maintenanceInterval
         : component.currentOperatingHours - component.maintenanceInterval;
       
       alerts.push(this.createAlert(
@@ -817,7 +837,7 @@ export class MaintenancePrediction extends EventEmitter {
       componentId,
       severity,
       message,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       acknowledged: false
     };
 
@@ -836,7 +856,7 @@ export class MaintenancePrediction extends EventEmitter {
   resolveAlert(alertId: string): void {
     const alert = this.alerts.get(alertId);
     if (alert) {
-      alert.resolvedAt = Date.now();
+      alert.resolvedAt = this.clock.now();
       this.emit('alert:resolved', alert);
     }
   }
@@ -890,7 +910,7 @@ export class MaintenancePrediction extends EventEmitter {
       assignedTo: params.assignTo,
       estimatedDuration: totalDuration,
       cost: totalCost,
-      createdAt: Date.now()
+      createdAt: this.clock.now()
     };
 
     this.maintenanceTasks.set(task.id, task);
@@ -921,7 +941,7 @@ export class MaintenancePrediction extends EventEmitter {
 
     const leadTime = 24 * 3600000;
     const scheduledAt = Math.max(
-      Date.now() + 3600000,
+      this.clock.now() + 3600000,
       prediction.predictedFailureTime - leadTime
     );
 
@@ -941,7 +961,7 @@ export class MaintenancePrediction extends EventEmitter {
     }
 
     task.status = MaintenanceStatus.IN_PROGRESS;
-    task.startedAt = Date.now();
+    task.startedAt = this.clock.now();
 
     this.emit('maintenance:started', task);
   }
@@ -964,14 +984,14 @@ export class MaintenancePrediction extends EventEmitter {
     }
 
     task.status = MaintenanceStatus.COMPLETED;
-    task.completedAt = Date.now();
+    task.completedAt = this.clock.now();
     task.actualDuration = (task.completedAt - (task.startedAt || task.scheduledAt)) / 60000;
     task.notes = results.notes;
 
     for (const componentId of task.components) {
       const component = this.components.get(componentId);
       if (component) {
-        component.lastMaintenanceAt = Date.now();
+        component.lastMaintenanceAt = this.clock.now();
         component.healthScore = Math.min(100, component.healthScore + 30);
         component.status = this.healthScoreToStatus(component.healthScore);
         component.failureProbability = this.calculateFailureProbability(component);
@@ -1017,7 +1037,7 @@ export class MaintenancePrediction extends EventEmitter {
 
   private findNextMaintenanceSlot(): number {
     const window = this.schedule.maintenanceWindow;
-    let candidate = Date.now() + 3600000;
+    let candidate = this.clock.now() + 3600000;
 
     for (let i = 0; i < 168; i++) { // Check next 7 days
       const date = new Date(candidate);
@@ -1049,13 +1069,13 @@ export class MaintenancePrediction extends EventEmitter {
     
     if (existing) {
       existing.quantity += quantity;
-      existing.lastRestocked = Date.now();
+      existing.lastRestocked = this.clock.now();
     } else {
       this.inventory.parts.set(part.partNumber, {
         part,
         quantity,
         location,
-        lastRestocked: Date.now(),
+        lastRestocked: this.clock.now(),
         reservedFor: []
       });
     }
@@ -1219,6 +1239,43 @@ export class MaintenancePrediction extends EventEmitter {
     this.emit('hours:recorded', { hours, totalComponents: this.components.size });
   }
 
+  // ==================== Persistence ====================
+
+  snapshot(): MaintenancePredictionSnapshot {
+    return {
+      components: Array.from(this.components.values()),
+      maintenanceTasks: Array.from(this.maintenanceTasks.values()),
+      alerts: Array.from(this.alerts.values()),
+      predictions: Array.from(this.predictions.values()),
+      schedule: this.schedule,
+      inventory: { ...this.inventory, parts: Array.from(this.inventory.parts.values()) },
+      serviceProviders: Array.from(this.serviceProviders.values())
+        .map(provider => ({ ...provider, pricing: Object.fromEntries(provider.pricing) })),
+      healthHistory: [...this.healthHistory],
+      metrics: { ...this.metrics }
+    };
+  }
+
+  /**
+   * Replace all state with a snapshot. Monitoring is not restarted.
+   */
+  restore(snapshot: MaintenancePredictionSnapshot): void {
+    this.components = new Map(snapshot.components.map(component => [component.id, component]));
+    this.maintenanceTasks = new Map(snapshot.maintenanceTasks.map(task => [task.id, task]));
+    this.alerts = new Map(snapshot.alerts.map(alert => [alert.id, alert]));
+    this.predictions = new Map(snapshot.predictions.map(prediction => [prediction.id, prediction]));
+    this.schedule = snapshot.schedule;
+    this.inventory = {
+      ...snapshot.inventory,
+      parts: new Map(snapshot.inventory.parts.map(item => [item.part.partNumber, item]))
+    };
+    this.serviceProviders = new Map(snapshot.serviceProviders.map(provider =>
+      [provider.id, { ...provider, pricing: new Map(Object.entries(provider.pricing)) }]
+    ));
+    this.healthHistory = [...snapshot.healthHistory];
+    this.metrics = { ...snapshot.metrics };
+  }
+
   // ==================== Initialization ====================
 
   private initializeSchedule(): MaintenanceSchedule {
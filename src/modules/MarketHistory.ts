@@ -0,0 +1,243 @@
+/**
+ * Market History
+ *
+ * Time series of closed auctions: what each task type and priority went
+ * for, how many devices bid and how long the task waited to be awarded.
+ * Queries summarize it as percentiles, moving averages and price curves,
+ * for bidding strategies and for operators setting task prices.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { TaskPriority } from '../types';
+
+export interface AuctionRecord {
+  taskId: string;
+  taskType: string;
+  priority: TaskPriority;
+  /** Clearing price */
+  price: number;
+  /** Maximum the publisher offered */
+  reward: number;
+  bidders: number;
+  /** Milliseconds from publishing to award */
+  timeToFill: number;
+  closedAt: number;
+}
+
+export interface MarketHistoryConfig {
+  /** Auctions kept, oldest dropped first */
+  maxRecords?: number;
+}
+
+export interface MarketHistoryQuery {
+  taskType?: string;
+  priority?: TaskPriority;
+  since?: number;
+  until?: number;
+}
+
+export interface PriceStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  /** Mean price as a share of the reward */
+  meanRewardRatio: number;
+  avgBidders: number;
+  avgTimeToFill: number;
+}
+
+export interface PricePoint {
+  start: number;
+  end: number;
+  count: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+export class MarketHistory extends EventEmitter {
+  private records: AuctionRecord[] = [];
+  private taskIds: Set<string> = new Set();
+  private maxRecords: number;
+
+  constructor(config: MarketHistoryConfig = {}) {
+    super();
+    this.maxRecords = config.maxRecords ?? 1000;
+  }
+
+  /**
+   * Add a closed auction. Returns false if the task was already recorded.
+   */
+  record(record: AuctionRecord): boolean {
+    if (this.taskIds.has(record.taskId)) {
+      return false;
+    }
+
+    // Records from peers can arrive late; keep the series in time order
+    let index = this.records.length;
+    while (index > 0 && this.records[index - 1].closedAt > record.closedAt) {
+      index--;
+    }
+    this.records.splice(index, 0, { ...record });
+    this.taskIds.add(record.taskId);
+
+    while (this.records.length > this.maxRecords) {
+      this.taskIds.delete(this.records.shift()!.taskId);
+    }
+
+    this.emit('auction:recorded', record);
+    return true;
+  }
+
+  /**
+   * Matching auctions, oldest first
+   */
+  getRecords(query: MarketHistoryQuery = {}): AuctionRecord[] {
+    return this.records
+      .filter(record =>
+        (query.taskType === undefined || record.taskType === query.taskType) &&
+        (query.priority === undefined || record.priority === query.priority) &&
+        (query.since === undefined || record.closedAt >= query.since) &&
+        (query.until === undefined || record.closedAt < query.until)
+      )
+      .map(record => ({ ...record }));
+  }
+
+  getTaskTypes(): string[] {
+    return Array.from(new Set(this.records.map(record => record.taskType)));
+  }
+
+  /**
+   * Clearing price percentiles (0-100), NaN when nothing matches
+   */
+  getPercentiles(percentiles: number[], query: MarketHistoryQuery = {}): number[] {
+    const prices = this.getRecords(query).map(record => record.price).sort((a, b) => a - b);
+    return percentiles.map(p => percentile(prices, p));
+  }
+
+  /**
+   * Summary of matching auctions, or undefined when there are none
+   */
+  getPriceStats(query: MarketHistoryQuery = {}): PriceStats | undefined {
+    const records = this.getRecords(query);
+    if (records.length === 0) {
+      return undefined;
+    }
+
+    const prices = records.map(record => record.price).sort((a, b) => a - b);
+    const paid = records.filter(record => record.reward > 0);
+
+    return {
+      count: records.length,
+      min: prices[0],
+      max: prices[prices.length - 1],
+      mean: mean(prices),
+      p25: percentile(prices, 25),
+      median: percentile(prices, 50),
+      p75: percentile(prices, 75),
+      p90: percentile(prices, 90),
+      meanRewardRatio: paid.length > 0 ? mean(paid.map(record => record.price / record.reward)) : 1,
+      avgBidders: mean(records.map(record => record.bidders)),
+      avgTimeToFill: mean(records.map(record => record.timeToFill))
+    };
+  }
+
+  /**
+   * Simple moving average of the clearing price over the last `window`
+   * auctions, one point per auction
+   */
+  getMovingAverage(window: number, query: MarketHistoryQuery = {}): Array<{ timestamp: number; price: number }> {
+    if (window < 1) {
+      throw new Error('Moving average window must be at least 1');
+    }
+
+    const records = this.getRecords(query);
+    const points: Array<{ timestamp: number; price: number }> = [];
+    let sum = 0;
+
+    records.forEach((record, i) => {
+      sum += record.price;
+      if (i >= window) {
+        sum -= records[i - window].price;
+      }
+      points.push({ timestamp: record.closedAt, price: sum / Math.min(i + 1, window) });
+    });
+
+    return points;
+  }
+
+  /**
+   * Clearing prices bucketed into `interval` ms periods, skipping empty ones
+   */
+  getPriceCurve(interval: number, query: MarketHistoryQuery = {}): PricePoint[] {
+    if (interval <= 0) {
+      throw new Error('Price curve interval must be positive');
+    }
+
+    const buckets = new Map<number, number[]>();
+    for (const record of this.getRecords(query)) {
+      const start = Math.floor(record.closedAt / interval) * interval;
+      const prices = buckets.get(start) || [];
+      prices.push(record.price);
+      buckets.set(start, prices);
+    }
+
+    return Array.from(buckets.entries()).map(([start, prices]) => {
+      prices.sort((a, b) => a - b);
+      return {
+        start,
+        end: start + interval,
+        count: prices.length,
+        mean: mean(prices),
+        median: percentile(prices, 50),
+        min: prices[0],
+        max: prices[prices.length - 1]
+      };
+    });
+  }
+
+  /**
+   * Average number of bidders per auction, the `competition` input of
+   * `calculateOptimalPrice()`
+   */
+  getCompetition(query: MarketHistoryQuery = {}): number {
+    const records = this.getRecords(query);
+    return records.length > 0 ? mean(records.map(record => record.bidders)) : 0;
+  }
+
+  snapshot(): AuctionRecord[] {
+    return this.records.map(record => ({ ...record }));
+  }
+
+  restore(snapshot: AuctionRecord[]): void {
+    this.records = snapshot
+      .map(record => ({ ...record }))
+      .sort((a, b) => a.closedAt - b.closedAt)
+      .slice(-this.maxRecords);
+    this.taskIds = new Set(this.records.map(record => record.taskId));
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Linear interpolation between the closest ranks of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
@@ -1,25 +1,85 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
 import { Payment } from '../types';
+import { DeviceKeys, canonicalJson, createDeviceKeys } from '../utils/crypto';
+import { KeyRegistry } from './KeyRegistry';
+import { Ledger, LedgerSnapshot, LedgerStatement } from './Ledger';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+/** Ledger account that funds enter from and leave to outside the network */
+export const EXTERNAL_ACCOUNT = 'external';
+
+export type EscrowStatus = 'locked' | 'released' | 'refunded';
+
+/**
+ * Funds a publisher holds back for a task until it is completed
+ */
+export interface Escrow {
+  taskId: string;
+  amount: number;
+  status: EscrowStatus;
+  lockedAt: number;
+  expiresAt?: number;
+  releasedTo?: string;
+  releasedAmount?: number;
+  settledAt?: number;
+}
+
+export interface PaymentModuleSnapshot {
+  ledger: LedgerSnapshot;
+  nextNonce: number;
+  seenNonces: Record<string, number[]>;
+  payments: Payment[];
+  channels: PaymentChannelSnapshot[];
+  escrows: Escrow[];
+}
 
 export interface PaymentModuleConfig {
   deviceId: string;
   privateKey: string;
   initialBalance?: number;
+  keyRegistry?: KeyRegistry;
+  ledger?: Ledger;
+  challengePeriod?: number;
+  clock?: Clock;
 }
 
 export class PaymentModule extends EventEmitter {
   private deviceId: string;
-  private privateKey: string;
-  private balance: number;
+  private keys: DeviceKeys;
+  private keyRegistry: KeyRegistry;
+  private ledger: Ledger;
+  private nextNonce: number = 0;
+  private seenNonces: Map<string, Set<number>> = new Map();
   private paymentHistory: Payment[] = [];
   private channels: Map<string, PaymentChannel> = new Map();
+  private escrows: Map<string, Escrow> = new Map();
+  private escrowTimers: Map<string, TimerHandle> = new Map();
+  private challengePeriod: number;
+  private disputeTimers: Map<string, TimerHandle> = new Map();
+  private clock: Clock;
 
   constructor(config: PaymentModuleConfig) {
     super();
     this.deviceId = config.deviceId;
-    this.privateKey = config.privateKey;
-    this.balance = config.initialBalance || 0;
+    this.keys = createDeviceKeys(config.privateKey);
+    this.keyRegistry = config.keyRegistry ?? new KeyRegistry();
+    this.keyRegistry.register(this.deviceId, this.keys.publicKey);
+
+    this.clock = config.clock ?? systemClock;
+    this.challengePeriod = config.challengePeriod ?? 60000;
+    this.ledger = config.ledger ?? new Ledger({ clock: this.clock });
+    this.ledger.openAccount(this.deviceId);
+    this.ledger.openAccount(EXTERNAL_ACCOUNT, { allowNegative: true });
+
+    if (config.initialBalance) {
+      this.ledger.transfer({
+        from: EXTERNAL_ACCOUNT,
+        to: this.deviceId,
+        amount: config.initialBalance,
+        reason: 'initial-balance'
+      });
+    }
   }
 
   async send(params: {
@@ -27,21 +87,21 @@ export class PaymentModule extends EventEmitter {
     amount: number;
     memo?: string;
   }): Promise<Payment> {
-    if (this.balance < params.amount) {
+    if (this.ledger.getBalance(this.deviceId) < params.amount) {
       throw new Error('Insufficient balance');
     }
 
-    const payment: Payment = {
-      id: uuidv4(),
+    const payment = this.createPayment(params);
+
+    this.openCounterparty(params.to);
+    this.ledger.transfer({
       from: this.deviceId,
       to: params.to,
       amount: params.amount,
-      memo: params.memo,
-      timestamp: Date.now(),
-      proof: this.generatePaymentProof(params)
-    };
-
-    this.balance -= params.amount;
+      reason: 'payment',
+      reference: payment.id,
+      idempotencyKey: `payment:${payment.id}`
+    });
     this.paymentHistory.push(payment);
 
     this.emit('payment:sent', payment);
@@ -49,57 +109,498 @@ export class PaymentModule extends EventEmitter {
     return payment;
   }
 
+  /**
+   * Credit a payment after checking its signature. Replays are rejected
+   * both by payment ID and by the sender's nonce.
+   */
   async receive(payment: Payment): Promise<void> {
     if (!this.verifyPaymentProof(payment)) {
       throw new Error('Invalid payment proof');
     }
 
-    this.balance += payment.amount;
+    if (payment.to !== this.deviceId) {
+      throw new Error('Payment is not addressed to this device');
+    }
+
+    if (this.ledger.hasTransaction(`payment:${payment.id}`)) {
+      throw new Error('Duplicate payment');
+    }
+
+    const nonces = this.seenNonces.get(payment.from) ?? new Set<number>();
+    if (payment.nonce === undefined || nonces.has(payment.nonce)) {
+      throw new Error('Payment nonce already used');
+    }
+
+    this.openCounterparty(payment.from);
+    this.ledger.transfer({
+      from: payment.from,
+      to: this.deviceId,
+      amount: payment.amount,
+      reason: 'payment',
+      reference: payment.id,
+      idempotencyKey: `payment:${payment.id}`
+    });
+
+    nonces.add(payment.nonce);
+    this.seenNonces.set(payment.from, nonces);
     this.paymentHistory.push(payment);
 
     this.emit('payment:received', payment);
   }
 
+  /**
+   * Open a two-party channel funded by this device. The counterparty
+   * must accept (countersign the opening state) before it can be used.
+   */
   async openChannel(params: {
     counterparty: string;
     initialDeposit: number;
     duration?: number;
+    challengePeriod?: number;
   }): Promise<PaymentChannel> {
-    if (this.balance < params.initialDeposit) {
+    if (this.ledger.getBalance(this.deviceId) < params.initialDeposit) {
       throw new Error('Insufficient balance for channel deposit');
     }
 
     const channel = new PaymentChannel({
       id: uuidv4(),
       participants: [this.deviceId, params.counterparty],
-      balance: params.initialDeposit,
+      deposits: { [this.deviceId]: params.initialDeposit, [params.counterparty]: 0 },
       duration: params.duration || 86400000,
-      createdAt: Date.now()
+      challengePeriod: params.challengePeriod ?? this.challengePeriod,
+      createdAt: this.clock.now(),
+      clock: this.clock
+    });
+
+    this.openCounterparty(params.counterparty);
+    this.ledger.openAccount(`channel:${channel.id}`);
+    this.ledger.transfer({
+      from: this.deviceId,
+      to: `channel:${channel.id}`,
+      amount: params.initialDeposit,
+      reason: 'channel-deposit',
+      reference: channel.id
+    });
+
+    channel.setPending(this.signState(channel.getState()));
+    this.channels.set(channel.id, channel);
+
+    return channel;
+  }
+
+  /**
+   * Join a channel opened by another device; returns the countersigned
+   * opening state to send back to the opener. Only the opener deposits.
+   */
+  acceptChannel(request: ChannelOpenRequest): ChannelState {
+    if (!request.participants.includes(this.deviceId) || this.channels.has(request.channelId)) {
+      throw new Error('Invalid channel open request');
+    }
+    if ((request.deposits[this.deviceId] ?? 0) !== 0) {
+      throw new Error('Channel open request assigns a deposit to this device');
+    }
+
+    const opener = request.participants.find(p => p !== this.deviceId)!;
+    const channel = new PaymentChannel({
+      id: request.channelId,
+      participants: request.participants,
+      deposits: request.deposits,
+      duration: request.duration,
+      challengePeriod: request.challengePeriod,
+      createdAt: request.createdAt,
+      clock: this.clock
     });
 
-    this.balance -= params.initialDeposit;
+    const opening = request.state;
+    if (opening.nonce !== 0 || !channel.isValidState(opening) || !this.hasSignature(opening, opener)) {
+      throw new Error('Invalid channel state');
+    }
+
+    this.openCounterparty(opener);
+    this.ledger.openAccount(`channel:${channel.id}`);
+    for (const participant of channel.participants) {
+      if (participant !== this.deviceId && channel.deposits[participant] > 0) {
+        this.ledger.transfer({
+          from: participant,
+          to: `channel:${channel.id}`,
+          amount: channel.deposits[participant],
+          reason: 'channel-deposit',
+          reference: channel.id
+        });
+      }
+    }
+
+    const signed = this.signState(opening);
+    channel.applyState(signed);
+    channel.status = 'open';
     this.channels.set(channel.id, channel);
 
     this.emit('channel:opened', channel);
+    return signed;
+  }
 
-    return channel;
+  /**
+   * Pay the counterparty through a channel; returns the new state signed
+   * by this device, which the counterparty has to countersign
+   */
+  payChannel(channelId: string, amount: number): ChannelState {
+    const channel = this.getOpenChannel(channelId);
+    const next = channel.nextState(this.deviceId, amount);
+
+    const signed = this.signState(next);
+    channel.setPending(signed);
+    return signed;
   }
 
-  async closeChannel(channelId: string): Promise<void> {
-    const channel = this.channels.get(channelId);
+  /**
+   * Countersign a state proposed by the counterparty. Only states that
+   * pay this device (or a final state that moves nothing) are accepted,
+   * and nonces must increase by exactly one.
+   */
+  receiveChannelUpdate(state: ChannelState): ChannelState {
+    const channel = this.channels.get(state.channelId);
+    if (!channel || channel.status !== 'open') {
+      throw new Error('Channel is not open');
+    }
+
+    const counterparty = channel.getCounterparty(this.deviceId);
+    const agreed = channel.getState();
+
+    if (state.nonce !== agreed.nonce + 1) {
+      throw new Error('Stale channel state');
+    }
+
+    const pending = channel.getPending();
+    if (pending && pending.nonce >= state.nonce) {
+      throw new Error('Conflicting channel update');
+    }
+
+    if (!channel.isValidState(state) || !this.hasSignature(state, counterparty)) {
+      throw new Error('Invalid channel state');
+    }
+
+    const received = state.balances[this.deviceId] - agreed.balances[this.deviceId];
+    if (received < 0 || (received === 0 && !state.final)) {
+      throw new Error('Channel update does not pay this device');
+    }
+
+    const signed = this.signState(state);
+    this.applyAgreedState(channel, signed);
+    return signed;
+  }
+
+  /**
+   * Record a state countersigned by the counterparty
+   */
+  receiveChannelState(state: ChannelState): void {
+    const channel = this.channels.get(state.channelId);
     if (!channel) {
       throw new Error('Channel not found');
     }
 
-    const settlement = channel.close();
-    this.balance += settlement;
+    if (!channel.isValidState(state) || !this.isFullySigned(channel, state)) {
+      throw new Error('Invalid channel state');
+    }
+
+    if (state.nonce <= channel.getState().nonce && channel.status !== 'pending') {
+      return;
+    }
+
+    if (channel.status === 'pending') {
+      channel.applyState(state);
+      channel.status = 'open';
+      this.emit('channel:opened', channel);
+      return;
+    }
+
+    this.applyAgreedState(channel, state);
+  }
+
+  /**
+   * Close cooperatively: propose a final state with the current balances.
+   * The channel settles once the counterparty countersigns it.
+   */
+  async closeChannel(channelId: string): Promise<ChannelState> {
+    const channel = this.getOpenChannel(channelId);
+
+    if (channel.getPending()) {
+      throw new Error('Channel has an unconfirmed update');
+    }
+
+    const signed = this.signState(channel.nextState(this.deviceId, 0, true));
+    channel.setPending(signed);
+    channel.status = 'closing';
+    return signed;
+  }
+
+  /**
+   * Close without the counterparty: submit the latest state both sides
+   * signed and settle it after the challenge period, unless a newer
+   * signed state is presented in the meantime.
+   */
+  forceCloseChannel(channelId: string): ChannelDispute {
+    const channel = this.channels.get(channelId);
+    if (!channel || channel.status === 'closed' || channel.status === 'pending') {
+      throw new Error('Channel is not open');
+    }
+
+    if (channel.status !== 'disputed') {
+      this.startDispute(channel, this.clock.now() + channel.challengePeriod);
+    }
+
+    return { state: channel.getState(), closesAt: channel.closesAt! };
+  }
+
+  /**
+   * The counterparty closed unilaterally. Adopts the submitted state if
+   * it is newer; returns our newer state if it is stale, as a challenge.
+   * The challenge period runs from when the dispute arrives, whatever
+   * `closesAt` the counterparty claims.
+   */
+  receiveChannelDispute(dispute: ChannelDispute): ChannelState | undefined {
+    const channel = this.channels.get(dispute.state.channelId);
+    if (!channel || channel.status === 'closed') {
+      throw new Error('Channel is not open');
+    }
+
+    if (!channel.isValidState(dispute.state) || !this.isFullySigned(channel, dispute.state)) {
+      throw new Error('Invalid channel state');
+    }
+
+    if (channel.status !== 'disputed') {
+      this.startDispute(channel, this.clock.now() + channel.challengePeriod);
+    }
+
+    if (dispute.state.nonce > channel.getState().nonce) {
+      channel.applyState(dispute.state);
+      return undefined;
+    }
+
+    return dispute.state.nonce < channel.getState().nonce ? channel.getState() : undefined;
+  }
+
+  /**
+   * Present a newer signed state during the challenge period
+   */
+  challengeChannel(state: ChannelState): boolean {
+    const channel = this.channels.get(state.channelId);
+    if (!channel || channel.status !== 'disputed') {
+      throw new Error('Channel is not in dispute');
+    }
+
+    if (this.clock.now() > channel.closesAt!) {
+      throw new Error('Challenge period has ended');
+    }
+
+    if (!channel.isValidState(state) || !this.isFullySigned(channel, state)) {
+      throw new Error('Invalid channel state');
+    }
+
+    if (state.nonce <= channel.getState().nonce) {
+      return false;
+    }
+
+    channel.applyState(state);
+    this.emit('channel:challenged', { channelId: channel.id, nonce: state.nonce });
+    return true;
+  }
+
+  /**
+   * Hold funds for a task. If `expiresAt` is given and the escrow is
+   * still locked by then, it is refunded automatically.
+   */
+  lockEscrow(taskId: string, amount: number, options: { expiresAt?: number } = {}): Escrow {
+    if (this.escrows.has(taskId)) {
+      throw new Error('Escrow already exists for task');
+    }
+
+    if (this.ledger.getBalance(this.deviceId) < amount) {
+      throw new Error('Insufficient balance for escrow');
+    }
+
+    this.ledger.openAccount(`escrow:${taskId}`);
+    this.ledger.transfer({
+      from: this.deviceId,
+      to: `escrow:${taskId}`,
+      amount,
+      reason: 'escrow-lock',
+      reference: taskId
+    });
+
+    const escrow: Escrow = {
+      taskId,
+      amount,
+      status: 'locked',
+      lockedAt: this.clock.now(),
+      expiresAt: options.expiresAt
+    };
+    this.escrows.set(taskId, escrow);
+    this.scheduleEscrowExpiry(escrow);
+
+    this.emit('escrow:locked', { ...escrow });
+    return { ...escrow };
+  }
+
+  /**
+   * Pay `amount` from a task's escrow to the worker and refund the rest.
+   * Returns the signed payment to deliver to the worker.
+   */
+  releaseEscrow(taskId: string, to: string, amount: number): Payment {
+    return this.releaseEscrowTo(taskId, [{ to, amount }])[0];
+  }
+
+  /**
+   * Pay several recipients from a task's escrow, e.g. the worker and its
+   * witnesses, and refund the rest. `releasedTo` records the first
+   * recipient and `releasedAmount` the total paid out.
+   */
+  releaseEscrowTo(taskId: string, payouts: Array<{ to: string; amount: number }>): Payment[] {
+    const escrow = this.getLockedEscrow(taskId);
+    const total = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+
+    if (payouts.length === 0 || payouts.some(payout => payout.amount <= 0) || total > escrow.amount) {
+      throw new Error('Release amount exceeds escrow');
+    }
+
+    const payments = payouts.map(({ to, amount }) => {
+      const payment = this.createPayment({ to, amount, memo: `Escrow release for task ${taskId}`, taskId });
+
+      this.openCounterparty(to);
+      this.ledger.transfer({
+        from: `escrow:${taskId}`,
+        to,
+        amount,
+        reason: 'escrow-release',
+        reference: payment.id,
+        idempotencyKey: `payment:${payment.id}`
+      });
+      this.paymentHistory.push(payment);
+      return payment;
+    });
+
+    if (escrow.amount > total) {
+      this.ledger.transfer({
+        from: `escrow:${taskId}`,
+        to: this.deviceId,
+        amount: escrow.amount - total,
+        reason: 'escrow-refund',
+        reference: taskId
+      });
+    }
+
+    this.settleEscrow(escrow, 'released', { releasedTo: payouts[0].to, releasedAmount: total });
+    for (const payment of payments) {
+      this.emit('payment:sent', payment);
+    }
+    return payments;
+  }
+
+  /**
+   * Return a task's escrowed funds to this device
+   */
+  refundEscrow(taskId: string, reason: string = 'refund'): Escrow {
+    const escrow = this.getLockedEscrow(taskId);
+
+    this.ledger.transfer({
+      from: `escrow:${taskId}`,
+      to: this.deviceId,
+      amount: escrow.amount,
+      reason: 'escrow-refund',
+      reference: taskId
+    });
+
+    this.settleEscrow(escrow, 'refunded');
+    this.emit('escrow:refunded', { ...escrow, reason });
+    return { ...escrow };
+  }
 
-    this.channels.delete(channelId);
-    this.emit('channel:closed', { channelId, settlement });
+  getEscrow(taskId: string): Escrow | undefined {
+    const escrow = this.escrows.get(taskId);
+    return escrow ? { ...escrow } : undefined;
+  }
+
+  getChannel(channelId: string): PaymentChannel | undefined {
+    return this.channels.get(channelId);
+  }
+
+  getChannels(): PaymentChannel[] {
+    return Array.from(this.channels.values());
+  }
+
+  /**
+   * Stop pending dispute and escrow timers
+   */
+  dispose(): void {
+    for (const timer of [...this.disputeTimers.values(), ...this.escrowTimers.values()]) {
+      this.clock.clearTimer(timer);
+    }
+    this.disputeTimers.clear();
+    this.escrowTimers.clear();
   }
 
   getBalance(): number {
-    return this.balance;
+    return this.ledger.getBalance(this.deviceId);
+  }
+
+  /**
+   * Wallet, payment history, channels and escrows as plain data
+   */
+  snapshot(): PaymentModuleSnapshot {
+    return {
+      ledger: this.ledger.snapshot(),
+      nextNonce: this.nextNonce,
+      seenNonces: Object.fromEntries(
+        Array.from(this.seenNonces.entries()).map(([deviceId, nonces]) => [deviceId, Array.from(nonces)])
+      ),
+      payments: [...this.paymentHistory],
+      channels: Array.from(this.channels.values()).map(channel => channel.snapshot()),
+      escrows: Array.from(this.escrows.values()).map(escrow => ({ ...escrow }))
+    };
+  }
+
+  /**
+   * Replace all state with a snapshot. Escrow expiries and channel
+   * disputes that were pending are scheduled again; any that passed
+   * while the device was down settle right away.
+   */
+  restore(snapshot: PaymentModuleSnapshot): void {
+    this.dispose();
+
+    this.ledger.restore(snapshot.ledger);
+    this.nextNonce = snapshot.nextNonce;
+    this.seenNonces = new Map(
+      Object.entries(snapshot.seenNonces).map(([deviceId, nonces]) => [deviceId, new Set(nonces)])
+    );
+    this.paymentHistory = [...snapshot.payments];
+    this.channels = new Map(snapshot.channels.map(s => [s.id, PaymentChannel.fromSnapshot(s, this.clock)]));
+    this.escrows = new Map(snapshot.escrows.map(escrow => [escrow.taskId, { ...escrow }]));
+
+    for (const escrow of this.escrows.values()) {
+      if (escrow.status === 'locked') {
+        this.scheduleEscrowExpiry(escrow);
+      }
+    }
+
+    for (const channel of this.channels.values()) {
+      if (channel.status === 'disputed' && channel.closesAt !== undefined) {
+        this.scheduleSettlement(channel, channel.closesAt);
+      }
+    }
+  }
+
+  /**
+   * Every change to this device's balance between two timestamps
+   */
+  getStatement(from?: number, to?: number): LedgerStatement {
+    return this.ledger.getStatement(this.deviceId, from, to);
+  }
+
+  getLedger(): Ledger {
+    return this.ledger;
+  }
+
+  getPublicKey(): string {
+    return this.keys.publicKey;
   }
 
   getHistory(limit?: number): Payment[] {
@@ -108,89 +609,430 @@ export class PaymentModule extends EventEmitter {
       : [...this.paymentHistory];
   }
 
-  addFunds(amount: number): void {
-    this.balance += amount;
-    this.emit('balance:updated', this.balance);
+  addFunds(amount: number, reason: string = 'deposit'): void {
+    this.ledger.transfer({ from: EXTERNAL_ACCOUNT, to: this.deviceId, amount, reason });
+    this.emit('balance:updated', this.getBalance());
   }
 
-  private generatePaymentProof(params: {
-    to: string;
-    amount: number;
-    memo?: string;
-  }): string {
-    const proofData = {
+  /**
+   * The signed fields of a payment; the proof is an Ed25519 signature
+   * over this encoding by the sender's device key
+   */
+  private encodePayment(payment: Payment): string {
+    return canonicalJson({
+      id: payment.id,
+      from: payment.from,
+      to: payment.to,
+      amount: payment.amount,
+      memo: payment.memo,
+      taskId: payment.taskId,
+      nonce: payment.nonce,
+      timestamp: payment.timestamp
+    });
+  }
+
+  private createPayment(params: { to: string; amount: number; memo?: string; taskId?: string }): Payment {
+    const payment: Payment = {
+      id: uuidv4(),
       from: this.deviceId,
       to: params.to,
       amount: params.amount,
-      timestamp: Date.now(),
-      signature: this.sign(`${params.to}:${params.amount}`)
+      memo: params.memo,
+      taskId: params.taskId,
+      nonce: ++this.nextNonce,
+      timestamp: this.clock.now()
     };
+    payment.proof = this.keys.sign(this.encodePayment(payment));
+    return payment;
+  }
 
-    return Buffer.from(JSON.stringify(proofData)).toString('base64');
+  private getLockedEscrow(taskId: string): Escrow {
+    const escrow = this.escrows.get(taskId);
+    if (!escrow) {
+      throw new Error('Escrow not found');
+    }
+    if (escrow.status !== 'locked') {
+      throw new Error('Escrow is already settled');
+    }
+    return escrow;
   }
 
-  private verifyPaymentProof(payment: Payment): boolean {
-    try {
-      if (!payment.proof) return false;
-      
-      const proofData = JSON.parse(
-        Buffer.from(payment.proof, 'base64').toString()
-      );
-
-      return proofData.from === payment.from &&
-             proofData.to === payment.to &&
-             proofData.amount === payment.amount;
-    } catch {
-      return false;
+  private scheduleEscrowExpiry(escrow: Escrow): void {
+    if (escrow.expiresAt === undefined) {
+      return;
+    }
+
+    const timer = this.clock.setTimeout(() => {
+      this.refundEscrow(escrow.taskId, 'expired');
+      this.emit('escrow:expired', { ...escrow });
+    }, Math.max(0, escrow.expiresAt - this.clock.now()));
+    timer.unref();
+    this.escrowTimers.set(escrow.taskId, timer);
+  }
+
+  private settleEscrow(escrow: Escrow, status: EscrowStatus, details: Partial<Escrow> = {}): void {
+    Object.assign(escrow, details, { status, settledAt: this.clock.now() });
+
+    const timer = this.escrowTimers.get(escrow.taskId);
+    if (timer) {
+      this.clock.clearTimer(timer);
+      this.escrowTimers.delete(escrow.taskId);
+    }
+  }
+
+  private getOpenChannel(channelId: string): PaymentChannel {
+    const channel = this.channels.get(channelId);
+    if (!channel) {
+      throw new Error('Channel not found');
+    }
+    if (channel.status !== 'open') {
+      throw new Error('Channel is not open');
+    }
+    return channel;
+  }
+
+  private signState(state: ChannelState): ChannelState {
+    return {
+      ...state,
+      signatures: { ...state.signatures, [this.deviceId]: this.keys.sign(PaymentChannel.encodeState(state)) }
+    };
+  }
+
+  private hasSignature(state: ChannelState, deviceId: string): boolean {
+    const signature = state.signatures[deviceId];
+    return !!signature && this.keyRegistry.verify(deviceId, PaymentChannel.encodeState(state), signature);
+  }
+
+  private isFullySigned(channel: PaymentChannel, state: ChannelState): boolean {
+    return channel.participants.every(participant => this.hasSignature(state, participant));
+  }
+
+  private applyAgreedState(channel: PaymentChannel, state: ChannelState): void {
+    const previous = channel.getState();
+    channel.applyState(state);
+
+    const [a, b] = channel.participants;
+    const delta = state.balances[b] - previous.balances[b];
+    if (delta !== 0) {
+      this.emit('channel:payment', {
+        channelId: channel.id,
+        from: delta > 0 ? a : b,
+        to: delta > 0 ? b : a,
+        amount: Math.abs(delta),
+        nonce: state.nonce
+      });
+    }
+
+    if (state.final) {
+      this.settleChannel(channel);
+    }
+  }
+
+  private startDispute(channel: PaymentChannel, closesAt: number): void {
+    channel.status = 'disputed';
+    channel.closesAt = closesAt;
+    this.scheduleSettlement(channel, closesAt);
+
+    this.emit('channel:closing', { channelId: channel.id, closesAt, nonce: channel.getState().nonce });
+  }
+
+  private scheduleSettlement(channel: PaymentChannel, closesAt: number): void {
+    const timer = this.clock.setTimeout(() => this.settleChannel(channel), Math.max(0, closesAt - this.clock.now()));
+    timer.unref();
+    this.disputeTimers.set(channel.id, timer);
+  }
+
+  /**
+   * Pay out the latest agreed balances from the channel account
+   */
+  private settleChannel(channel: PaymentChannel): void {
+    if (channel.status === 'closed') {
+      return;
+    }
+
+    const timer = this.disputeTimers.get(channel.id);
+    if (timer) {
+      this.clock.clearTimer(timer);
+      this.disputeTimers.delete(channel.id);
     }
+
+    const state = channel.getState();
+    const account = `channel:${channel.id}`;
+
+    for (const participant of channel.participants) {
+      const amount = state.balances[participant];
+      if (amount > 0) {
+        this.ledger.transfer({
+          from: account,
+          to: participant,
+          amount,
+          reason: participant === this.deviceId ? 'channel-close' : 'channel-settlement',
+          reference: channel.id
+        });
+      }
+    }
+
+    channel.status = 'closed';
+    this.emit('channel:closed', { channelId: channel.id, balances: { ...state.balances }, nonce: state.nonce });
   }
 
-  private sign(data: string): string {
-    return Buffer.from(`${this.privateKey}:${data}`).toString('base64');
+  /**
+   * Other devices' accounts mirror what we owe or received from them
+   */
+  private openCounterparty(deviceId: string): void {
+    this.ledger.openAccount(deviceId, { allowNegative: true });
   }
+
+  private verifyPaymentProof(payment: Payment): boolean {
+    if (!payment.proof) return false;
+
+    return this.keyRegistry.verify(payment.from, this.encodePayment(payment), payment.proof);
+  }
+}
+
+export type ChannelStatus = 'pending' | 'open' | 'closing' | 'disputed' | 'closed';
+
+/**
+ * A numbered split of the channel funds. A state is binding once both
+ * participants have signed it; a higher nonce always supersedes a lower one.
+ */
+export interface ChannelState {
+  channelId: string;
+  nonce: number;
+  balances: Record<string, number>;
+  final: boolean;
+  signatures: Record<string, string>;
+}
+
+export interface ChannelOpenRequest {
+  channelId: string;
+  participants: string[];
+  deposits: Record<string, number>;
+  duration: number;
+  challengePeriod: number;
+  createdAt: number;
+  state: ChannelState;
+}
+
+export interface ChannelDispute {
+  state: ChannelState;
+  closesAt: number;
 }
 
+export interface PaymentChannelSnapshot {
+  id: string;
+  participants: string[];
+  deposits: Record<string, number>;
+  duration: number;
+  challengePeriod: number;
+  createdAt: number;
+  status: ChannelStatus;
+  closesAt?: number;
+  state: ChannelState;
+  pending?: ChannelState;
+  transactions: Array<{ from: string; amount: number; nonce: number; timestamp: number }>;
+}
+
+/**
+ * Two-party payment channel. Holds the latest state signed by both
+ * participants and, at most, one newer state awaiting countersignature.
+ * Signing and verification are done by the PaymentModule.
+ */
 export class PaymentChannel {
   id: string;
   participants: string[];
-  balance: number;
+  deposits: Record<string, number>;
   duration: number;
+  challengePeriod: number;
   createdAt: number;
-  private transactions: Array<{ amount: number; timestamp: number }> = [];
+  status: ChannelStatus = 'pending';
+  closesAt?: number;
+  private state: ChannelState;
+  private pending?: ChannelState;
+  private transactions: Array<{ from: string; amount: number; nonce: number; timestamp: number }> = [];
+  private clock: Clock;
 
   constructor(params: {
     id: string;
     participants: string[];
-    balance: number;
+    deposits: Record<string, number>;
     duration: number;
+    challengePeriod: number;
     createdAt: number;
+    clock?: Clock;
   }) {
+    if (params.participants.length !== 2) {
+      throw new Error('A channel needs exactly two participants');
+    }
+
     this.id = params.id;
     this.participants = params.participants;
-    this.balance = params.balance;
+    this.deposits = { ...params.deposits };
     this.duration = params.duration;
+    this.challengePeriod = params.challengePeriod;
     this.createdAt = params.createdAt;
+    this.clock = params.clock ?? systemClock;
+    this.state = {
+      channelId: params.id,
+      nonce: 0,
+      balances: { ...params.deposits },
+      final: false,
+      signatures: {}
+    };
+  }
+
+  /**
+   * The signed fields of a channel state
+   */
+  static encodeState(state: ChannelState): string {
+    return canonicalJson({
+      channelId: state.channelId,
+      nonce: state.nonce,
+      balances: state.balances,
+      final: state.final
+    });
+  }
+
+  getBalance(deviceId: string): number {
+    return this.state.balances[deviceId] ?? 0;
+  }
+
+  getCounterparty(deviceId: string): string {
+    return this.participants.find(p => p !== deviceId)!;
   }
 
-  transact(amount: number): void {
-    if (this.balance < amount) {
+  getState(): ChannelState {
+    return { ...this.state, balances: { ...this.state.balances }, signatures: { ...this.state.signatures } };
+  }
+
+  getPending(): ChannelState | undefined {
+    return this.pending;
+  }
+
+  getTotal(): number {
+    return this.participants.reduce((sum, p) => sum + (this.deposits[p] ?? 0), 0);
+  }
+
+  /**
+   * Build the next (unsigned) state in which `payer` pays `amount` to the
+   * other participant, on top of the newest state this side has signed
+   */
+  nextState(payer: string, amount: number, final: boolean = false): ChannelState {
+    if (amount < 0 || (amount === 0 && !final)) {
+      throw new Error('Amount must be positive');
+    }
+
+    const base = this.pending ?? this.state;
+    if (base.final) {
+      throw new Error('Channel is closing');
+    }
+
+    const payee = this.getCounterparty(payer);
+    if (base.balances[payer] < amount) {
       throw new Error('Insufficient channel balance');
     }
 
-    this.balance -= amount;
-    this.transactions.push({ amount, timestamp: Date.now() });
+    return {
+      channelId: this.id,
+      nonce: base.nonce + 1,
+      balances: {
+        ...base.balances,
+        [payer]: base.balances[payer] - amount,
+        [payee]: base.balances[payee] + amount
+      },
+      final,
+      signatures: {}
+    };
+  }
+
+  setPending(state: ChannelState): void {
+    this.pending = state;
+  }
+
+  /**
+   * Check that a state belongs to this channel and conserves its funds
+   */
+  isValidState(state: ChannelState): boolean {
+    const accounts = Object.keys(state.balances);
+    const total = accounts.reduce((sum, p) => sum + state.balances[p], 0);
+
+    return state.channelId === this.id &&
+      Number.isInteger(state.nonce) &&
+      accounts.length === 2 &&
+      this.participants.every(p => typeof state.balances[p] === 'number' && state.balances[p] >= 0) &&
+      Math.abs(total - this.getTotal()) < 1e-9;
+  }
+
+  /**
+   * Adopt a state both participants signed; older states are ignored
+   */
+  applyState(state: ChannelState): void {
+    if (state.nonce < this.state.nonce) {
+      return;
+    }
+
+    const [a, b] = this.participants;
+    const delta = state.balances[b] - this.state.balances[b];
+    if (delta !== 0) {
+      this.transactions.push({
+        from: delta > 0 ? a : b,
+        amount: Math.abs(delta),
+        nonce: state.nonce,
+        timestamp: this.clock.now()
+      });
+    }
+
+    this.state = { ...state, balances: { ...state.balances }, signatures: { ...state.signatures } };
+    if (this.pending && this.pending.nonce <= state.nonce) {
+      this.pending = undefined;
+    }
   }
 
-  close(): number {
-    return this.balance;
+  snapshot(): PaymentChannelSnapshot {
+    return {
+      id: this.id,
+      participants: [...this.participants],
+      deposits: { ...this.deposits },
+      duration: this.duration,
+      challengePeriod: this.challengePeriod,
+      createdAt: this.createdAt,
+      status: this.status,
+      closesAt: this.closesAt,
+      state: this.getState(),
+      pending: this.pending,
+      transactions: [...this.transactions]
+    };
+  }
+
+  static fromSnapshot(snapshot: PaymentChannelSnapshot, clock?: Clock): PaymentChannel {
+    const channel = new PaymentChannel({ ...snapshot, clock });
+    channel.status = snapshot.status;
+    channel.closesAt = snapshot.closesAt;
+    channel.state = snapshot.state;
+    channel.pending = snapshot.pending;
+    channel.transactions = [...snapshot.transactions];
+    return channel;
+  }
+
+  toOpenRequest(): ChannelOpenRequest {
+    return {
+      channelId: this.id,
+      participants: [...this.participants],
+      deposits: { ...this.deposits },
+      duration: this.duration,
+      challengePeriod: this.challengePeriod,
+      createdAt: this.createdAt,
+      state: this.pending ?? this.getState()
+    };
   }
 
   getStats() {
     return {
       totalTransactions: this.transactions.length,
       totalVolume: this.transactions.reduce((sum, tx) => sum + tx.amount, 0),
-      remainingBalance: this.balance,
-      age: Date.now() - this.createdAt
+      balances: { ...this.state.balances },
+      nonce: this.state.nonce,
+      age: this.clock.now() - this.createdAt
     };
   }
-}
\ No newline at end of file
+}
@@ -7,12 +7,14 @@
 
 import EventEmitter from 'eventemitter3';
 import { ReputationScore } from '../types';
+import { Clock, systemClock } from '../utils/clock';
 
 export interface ReputationRegistryConfig {
   deviceId: string;
   initialReputation?: number;
   decayRate?: number;
   minRatingsForScore?: number;
+  clock?: Clock;
 }
 
 export interface RatingEntry {
@@ -25,18 +27,25 @@ export interface RatingEntry {
   weight: number;
 }
 
+export interface ReputationSnapshot {
+  scores: ReputationScore[];
+  ratings: Record<string, RatingEntry[]>;
+}
+
 export class ReputationRegistry extends EventEmitter {
   private deviceId: string;
   private scores: Map<string, ReputationScore> = new Map();
   private ratings: Map<string, RatingEntry[]> = new Map();
   private decayRate: number;
   private minRatingsForScore: number;
+  private clock: Clock;
 
   constructor(config: ReputationRegistryConfig) {
     super();
     this.deviceId = config.deviceId;
     this.decayRate = config.decayRate ?? 0.01;
     this.minRatingsForScore = config.minRatingsForScore ?? 3;
+    this.clock = config.clock ?? systemClock;
 
     // Initialize own reputation
     this.initializeReputation(config.deviceId, config.initialReputation ?? 3.0);
@@ -72,12 +81,12 @@ export class ReputationRegistry extends EventEmitter {
     }
 
     const ratingEntry: RatingEntry = {
-      id: `rating-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      id: `rating-${this.clock.now()}-${Math.random().toString(36).slice(2)}`,
       fromDeviceId: params.fromDeviceId,
       toDeviceId: params.toDeviceId,
       rating: params.rating,
       taskId: params.taskId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       weight: params.weight ?? 1.0
     };
 
@@ -134,7 +143,7 @@ export class ReputationRegistry extends EventEmitter {
     currentScore.score = Math.min(5, Math.max(0, 
       baseScore * 0.7 + currentScore.averageRating * 0.3 + performanceModifier
     ));
-    currentScore.lastUpdated = Date.now();
+    currentScore.lastUpdated = this.clock.now();
 
     this.scores.set(params.deviceId, currentScore);
     this.emit('reputation:updated', currentScore);
@@ -159,6 +168,15 @@ export class ReputationRegistry extends EventEmitter {
       .slice(0, limit);
   }
 
+  /**
+   * Current score of a device. Devices without a record have the neutral
+   * starting score.
+   */
+  getReputation(deviceId: string): number {
+    const score = this.scores.get(deviceId);
+    return score ? this.applyDecay(score).score : 3.0;
+  }
+
   /**
    * Check if device meets minimum reputation requirement
    */
@@ -205,7 +223,7 @@ export class ReputationRegistry extends EventEmitter {
     }
 
     // Recent ratings have more weight
-    const now = Date.now();
+    const now = this.clock.now();
     const weightedSum = ratings.reduce((sum, r) => {
       const age = (now - r.timestamp) / (1000 * 60 * 60 * 24); // days
       const timeWeight = Math.exp(-this.decayRate * age);
@@ -244,7 +262,7 @@ export class ReputationRegistry extends EventEmitter {
     }
 
     currentScore.score = Math.min(5, Math.max(0, currentScore.score));
-    currentScore.lastUpdated = Date.now();
+    currentScore.lastUpdated = this.clock.now();
 
     this.scores.set(deviceId, currentScore);
     this.emit('reputation:updated', currentScore);
@@ -254,7 +272,7 @@ export class ReputationRegistry extends EventEmitter {
    * Apply time decay to reputation score
    */
   private applyDecay(score: ReputationScore): ReputationScore {
-    const daysSinceUpdate = (Date.now() - score.lastUpdated) / (1000 * 60 * 60 * 24);
+    const daysSinceUpdate = (this.clock.now() - score.lastUpdated) / (1000 * 60 * 60 * 24);
     
     if (daysSinceUpdate < 1) {
       return score;
@@ -280,11 +298,14 @@ export class ReputationRegistry extends EventEmitter {
       successfulTasks: 0,
       failedTasks: 0,
       averageRating: initialScore,
-      lastUpdated: Date.now()
+      lastUpdated: this.clock.now()
     };
 
     this.scores.set(deviceId, score);
-    this.ratings.set(deviceId, []);
+    // Keep a rating that arrived before the device was known
+    if (!this.ratings.has(deviceId)) {
+      this.ratings.set(deviceId, []);
+    }
   }
 
   /**
@@ -303,11 +324,26 @@ export class ReputationRegistry extends EventEmitter {
       trustLevel: this.getTrustLevel(deviceId),
       totalRatings: ratings.length,
       recentRatings: ratings.filter(r => 
-        Date.now() - r.timestamp < 7 * 24 * 60 * 60 * 1000
+        this.clock.now() - r.timestamp < 7 * 24 * 60 * 60 * 1000
       ).length
     };
   }
 
+  /**
+   * Scores and rating history of every known device
+   */
+  snapshot(): ReputationSnapshot {
+    return {
+      scores: Array.from(this.scores.values()).map(score => ({ ...score })),
+      ratings: Object.fromEntries(this.ratings)
+    };
+  }
+
+  restore(snapshot: ReputationSnapshot): void {
+    this.scores = new Map(snapshot.scores.map(score => [score.deviceId, { ...score }]));
+    this.ratings = new Map(Object.entries(snapshot.ratings));
+  }
+
   /**
    * Report suspicious activity
    */
@@ -323,7 +359,7 @@ export class ReputationRegistry extends EventEmitter {
     const score = this.scores.get(params.targetId);
     if (score) {
       score.score = Math.max(0, score.score - 0.5);
-      score.lastUpdated = Date.now();
+      score.lastUpdated = this.clock.now();
       this.emit('reputation:updated', score);
     }
   }
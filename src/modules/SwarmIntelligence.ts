@@ -8,6 +8,7 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
 import { Location, Task, TaskPriority } from '../types';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
 
 // ==================== Types ====================
 
@@ -47,6 +48,7 @@ export interface SwarmConfig {
   objective: SwarmObjective;
   parameters?: AlgorithmParameters;
   timeout?: number;
+  clock?: Clock;
 }
 
 export interface SwarmObjective {
@@ -155,6 +157,8 @@ export class Swarm extends EventEmitter {
   private sharedKnowledge: Map<string, any> = new Map();
   private formationPositions: Map<string, Location> = new Map();
   private metrics: SwarmMetrics;
+  private clock: Clock;
+  private decayTimer?: TimerHandle;
 
   constructor(config: SwarmConfig) {
     super();
@@ -162,6 +166,7 @@ export class Swarm extends EventEmitter {
     this.taskId = config.taskId;
     this.config = config;
     this.leaderId = config.leaderId;
+    this.clock = config.clock ?? systemClock;
     this.metrics = this.initializeMetrics();
 
     // Start pheromone decay timer
@@ -185,7 +190,7 @@ export class Swarm extends EventEmitter {
       location,
       velocity: { vx: 0, vy: 0 },
       state: 'active',
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
       contribution: 0
     };
 
@@ -243,7 +248,7 @@ export class Swarm extends EventEmitter {
     if (velocity) {
       member.velocity = velocity;
     }
-    member.lastUpdate = Date.now();
+    member.lastUpdate = this.clock.now();
 
     this.emit('member:updated', { deviceId, location, velocity });
   }
@@ -302,13 +307,13 @@ export class Swarm extends EventEmitter {
     });
 
     action.status = 'executing';
-    action.startTime = Date.now();
+    action.startTime = this.clock.now();
 
     this.emit('action:started', action);
 
     // Set timeout if specified
     if (options.timeout) {
-      setTimeout(() => {
+      this.clock.setTimeout(() => {
         if (action.status === 'executing') {
           action.status = 'failed';
           this.emit('action:timeout', action);
@@ -757,8 +762,8 @@ export class Swarm extends EventEmitter {
       strength,
       type,
       createdBy: deviceId,
-      createdAt: Date.now(),
-      expiresAt: Date.now() + lifetime
+      createdAt: this.clock.now(),
+      expiresAt: this.clock.now() + lifetime
     };
 
     this.pheromones.set(trail.id, trail);
@@ -793,8 +798,8 @@ export class Swarm extends EventEmitter {
     const decayInterval = 5000; // Every 5 seconds
     const decayRate = this.config.parameters?.pheromoneDecay || 0.1;
 
-    setInterval(() => {
-      const now = Date.now();
+    this.decayTimer = this.clock.setInterval(() => {
+      const now = this.clock.now();
       
       for (const [id, trail] of this.pheromones) {
         // Remove expired trails
@@ -823,7 +828,7 @@ export class Swarm extends EventEmitter {
       type,
       from: this.leaderId || 'swarm',
       content,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       ttl: 3
     };
 
@@ -840,7 +845,7 @@ export class Swarm extends EventEmitter {
       from: this.leaderId || 'swarm',
       to,
       content,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       ttl: 1
     };
 
@@ -906,6 +911,10 @@ export class Swarm extends EventEmitter {
     });
 
     this.state = SwarmState.DISSOLVED;
+    if (this.decayTimer) {
+      this.clock.clearTimer(this.decayTimer);
+      this.decayTimer = undefined;
+    }
     this.emit('swarm:dissolved', { swarmId: this.id });
   }
 
@@ -980,7 +989,7 @@ export class Swarm extends EventEmitter {
       objectiveProgress: 0,
       averageContribution: 0,
       formationAccuracy: 0,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -998,7 +1007,7 @@ export class Swarm extends EventEmitter {
         ? members.reduce((sum, m) => sum + m.contribution, 0) / members.length 
         : 0,
       formationAccuracy: this.getFormationAccuracy(),
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
 
     this.emit('metrics:updated', this.metrics);
@@ -1052,6 +1061,7 @@ export interface SwarmIntelligenceConfig {
   deviceId: string;
   maxSwarms?: number;
   defaultAlgorithm?: SwarmAlgorithm;
+  clock?: Clock;
 }
 
 export class SwarmIntelligence extends EventEmitter {
@@ -1059,12 +1069,14 @@ export class SwarmIntelligence extends EventEmitter {
   private swarms: Map<string, Swarm> = new Map();
   private maxSwarms: number;
   private defaultAlgorithm: SwarmAlgorithm;
+  private clock: Clock;
 
   constructor(config: SwarmIntelligenceConfig) {
     super();
     this.deviceId = config.deviceId;
     this.maxSwarms = config.maxSwarms || 5;
     this.defaultAlgorithm = config.defaultAlgorithm || SwarmAlgorithm.ANT_COLONY;
+    this.clock = config.clock ?? systemClock;
   }
 
   async formSwarm(params: {
@@ -1090,7 +1102,8 @@ export class SwarmIntelligence extends EventEmitter {
       leaderId: this.deviceId,
       objective: params.objective,
       parameters: params.parameters,
-      timeout: params.timeout
+      timeout: params.timeout,
+      clock: this.clock
     };
 
     const swarm = new Swarm(config);
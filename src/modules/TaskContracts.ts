@@ -0,0 +1,94 @@
+/**
+ * Task Contracts
+ *
+ * A task type's `payloadSchema` and `resultSchema` are its contract: the
+ * publisher checks payloads against it when publishing, executors check
+ * them before bidding and before they start work, and the result of a
+ * proof is checked before it is paid. `defineTaskType()` keeps the
+ * schemas' literal types, so `PayloadOf` and `ResultOf` give executors
+ * typed payloads instead of casts.
+ */
+
+import { Task, TaskDefinition } from '../types';
+import { FromSchema, SchemaError, validateSchema } from '../utils/schema';
+
+export type TaskValidationTarget = 'payload' | 'result' | 'maxPrice';
+
+/**
+ * Thrown when a task payload, result or price breaks the contract of its type
+ */
+export class TaskValidationError extends Error {
+  readonly taskType: string;
+  readonly target: TaskValidationTarget;
+  readonly errors: SchemaError[];
+
+  constructor(taskType: string, target: TaskValidationTarget, errors: SchemaError[]) {
+    super(`Invalid ${target} for task type: ${taskType} (${errors.map(error => error.message).join('; ')})`);
+    this.name = 'TaskValidationError';
+    this.taskType = taskType;
+    this.target = target;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Schema of a `Location` in a payload
+ */
+export const LOCATION_SCHEMA = {
+  type: 'object',
+  required: ['x', 'y'],
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    z: { type: 'number' },
+    floor: { type: 'integer' },
+    area: { type: 'string' }
+  }
+} as const;
+
+/**
+ * Payload of tasks of a definition's type
+ */
+export type PayloadOf<D> = D extends { payloadSchema: infer S } ? FromSchema<S> : Record<string, any>;
+
+/**
+ * Result of proofs for tasks of a definition's type
+ */
+export type ResultOf<D> = D extends { resultSchema: infer S } ? FromSchema<S> : any;
+
+/**
+ * A task of a definition's type, with a typed payload
+ */
+export type TypedTask<D> = Omit<Task, 'payload'> & { payload: PayloadOf<D> };
+
+/**
+ * Declare a task type with its literal types intact, so `PayloadOf` and
+ * `ResultOf` can be derived from it
+ */
+export function defineTaskType<const D extends TaskDefinition>(definition: D): D {
+  return definition;
+}
+
+export function validatePayload(definition: TaskDefinition, payload: unknown): SchemaError[] {
+  return definition.payloadSchema ? validateSchema(payload, definition.payloadSchema, '$.payload') : [];
+}
+
+export function validateResult(definition: TaskDefinition, result: unknown): SchemaError[] {
+  return definition.resultSchema ? validateSchema(result, definition.resultSchema, '$.result') : [];
+}
+
+/**
+ * The payload of a task, checked against the contract of its type.
+ * Throws `TaskValidationError` if it breaks it.
+ */
+export function readPayload<D extends TaskDefinition>(task: Task, definition: D): PayloadOf<D> {
+  if (task.type !== definition.type) {
+    throw new Error(`Task ${task.id} is of type ${task.type}, not ${definition.type}`);
+  }
+
+  const errors = validatePayload(definition, task.payload);
+  if (errors.length > 0) {
+    throw new TaskValidationError(definition.type, 'payload', errors);
+  }
+  return task.payload as PayloadOf<D>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Task Lifecycle
+ *
+ * The legal status transitions of a task. A task is published as PENDING,
+ * may go through an auction (BIDDING, back to PENDING if nobody bid), is
+ * ASSIGNED to one device and ends COMPLETED, FAILED or CANCELLED. Final
+ * states never change again.
+ */
+
+import { TaskStatus } from '../types';
+
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.PENDING]: [TaskStatus.BIDDING, TaskStatus.ASSIGNED, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.BIDDING]: [TaskStatus.PENDING, TaskStatus.ASSIGNED, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.ASSIGNED]: [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.IN_PROGRESS]: [TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.COMPLETED]: [],
+  [TaskStatus.FAILED]: [],
+  [TaskStatus.CANCELLED]: []
+};
+
+/**
+ * Thrown when a task is moved to a status it cannot reach from its
+ * current one
+ */
+export class InvalidTaskTransitionError extends Error {
+  readonly taskId: string;
+  readonly from: TaskStatus;
+  readonly to: TaskStatus;
+
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus) {
+    super(`Invalid task transition from ${from} to ${to}`);
+    this.name = 'InvalidTaskTransitionError';
+    this.taskId = taskId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+export function isFinalStatus(status: TaskStatus): boolean {
+  return TASK_TRANSITIONS[status].length === 0;
+}
@@ -1,12 +1,32 @@
 import EventEmitter from 'eventemitter3';
 import { v4 as uuidv4 } from 'uuid';
-import { Task, Bid, TaskFilter, BidStrategy, TaskStatus, Location } from '../types';
+import { Task, Bid, BundleBid, TaskFilter, BidStrategy, TaskStatus, Location } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+import { calculateDistance } from '../utils/helpers';
+import { SpatialIndex } from '../utils/spatialIndex';
+import { PathPlanner } from '../navigation/PathPlanner';
+import { BiddingContext, BiddingStrategy, RewardShareStrategy, getRouteStops } from './BiddingStrategy';
+import { AuctionRecord, MarketHistory } from './MarketHistory';
+
+export interface BiddingOptions {
+  /** Registered next to the built-in `competitive`, `conservative`, `aggressive` and `auto` */
+  strategies?: BiddingStrategy[];
+  /** Strategy for `auto` bids that don't name one; `auto` by default */
+  defaultStrategy?: string;
+  /** Closed auctions kept in the market history */
+  historySize?: number;
+}
 
-export interface TaskMarketplaceConfig {
+export interface TaskMarketplaceConfig extends BiddingOptions {
   deviceId: string;
   location?: Location;
   reputation?: number;
   capabilities?: string[];
+  clock?: Clock;
+  /** Grid cell edge of the task index in meters, default 10 */
+  indexCellSize?: number;
+  /** Measures distances along paths instead of straight lines */
+  planner?: PathPlanner;
 }
 
 export class TaskMarketplace extends EventEmitter {
@@ -15,8 +35,18 @@ export class TaskMarketplace extends EventEmitter {
   private reputation: number;
   private capabilities: string[];
   private availableTasks: Map<string, Task> = new Map();
+  private taskIndex: SpatialIndex<Task>;
+  private planner?: PathPlanner;
   private activeBids: Map<string, Bid> = new Map();
+  private activeBundleBids: Map<string, BundleBid> = new Map();
   private wonBids: Map<string, Task> = new Map();
+  private batteryLevel?: number;
+  private queueLength: number = 0;
+  private strategies: Map<string, BiddingStrategy> = new Map();
+  private defaultStrategy: string;
+  private bidStrategies: Map<string, BiddingStrategy> = new Map();
+  private history: MarketHistory;
+  private clock: Clock;
 
   constructor(config: TaskMarketplaceConfig) {
     super();
@@ -24,10 +54,38 @@ export class TaskMarketplace extends EventEmitter {
     this.location = config.location;
     this.reputation = config.reputation || 3.0;
     this.capabilities = config.capabilities || [];
+    this.history = new MarketHistory({ maxRecords: config.historySize });
+    this.clock = config.clock ?? systemClock;
+    this.taskIndex = new SpatialIndex({ cellSize: config.indexCellSize });
+    this.planner = config.planner;
+
+    for (const name of ['competitive', 'conservative', 'aggressive', 'auto'] as const) {
+      this.registerStrategy(new RewardShareStrategy(name));
+    }
+    for (const strategy of config.strategies || []) {
+      this.registerStrategy(strategy);
+    }
+    this.defaultStrategy = 'auto';
+    this.setDefaultStrategy(config.defaultStrategy ?? 'auto');
   }
 
   async getAvailableTasks(filter?: TaskFilter): Promise<Task[]> {
-    let tasks = Array.from(this.availableTasks.values());
+    // Tasks without a location are left out when filtering by distance
+    let tasks = filter?.maxDistance !== undefined && this.location
+      ? this.getTasksNear(this.location, filter.maxDistance)
+      : Array.from(this.availableTasks.values());
+
+    // Paths are never shorter than the straight line the index measures
+    if (filter?.maxDistance !== undefined && this.location && this.planner) {
+      tasks = tasks.filter(t => this.calculateDistance(t) <= filter.maxDistance!);
+    }
+
+    // Skip tasks that only take bids from devices closer than this one
+    if (this.location) {
+      tasks = tasks.filter(t =>
+        t.requirements.maxDistance === undefined || this.calculateDistance(t) <= t.requirements.maxDistance
+      );
+    }
 
     if (!filter) {
       return tasks;
@@ -81,9 +139,24 @@ export class TaskMarketplace extends EventEmitter {
       throw new Error('Task is not accepting bids');
     }
 
-    const price = params.price === 'auto'
-      ? this.calculateOptimalPrice(task, params.strategy)
-      : params.price;
+    const distance = this.location ? this.calculateDistance(task) : undefined;
+    if (distance === Infinity) {
+      throw new Error('No path to the task location');
+    }
+
+    let strategy: BiddingStrategy | undefined;
+    let price: number;
+
+    if (params.price === 'auto') {
+      strategy = this.getStrategy(params.strategy);
+      const quoted = await strategy.price(this.getBiddingContext(task));
+      if (quoted === null) {
+        throw new Error(`Bidding strategy ${strategy.name} declined the task`);
+      }
+      price = quoted;
+    } else {
+      price = params.price;
+    }
 
     const bid: Bid = {
       id: uuidv4(),
@@ -92,16 +165,106 @@ export class TaskMarketplace extends EventEmitter {
       price,
       estimatedDuration: params.estimatedDuration,
       reputation: this.reputation,
-      distance: this.location ? this.calculateDistance(task) : undefined,
-      timestamp: Date.now()
+      distance,
+      timestamp: this.clock.now()
     };
 
     this.activeBids.set(bid.id, bid);
+    if (strategy) {
+      this.bidStrategies.set(bid.id, strategy);
+    }
     this.emit('bid:submitted', bid);
 
     return bid;
   }
 
+  /**
+   * Bid on several tasks of the same publisher as an all-or-nothing
+   * bundle: either every task is awarded to this device or none is.
+   */
+  async submitBundleBid(
+    taskIds: string[],
+    params: {
+      price: number;
+      estimatedDuration: number;
+    }
+  ): Promise<BundleBid> {
+    if (new Set(taskIds).size < 2 || new Set(taskIds).size !== taskIds.length) {
+      throw new Error('A bundle must contain at least two distinct tasks');
+    }
+
+    const tasks = taskIds.map(taskId => {
+      const task = this.availableTasks.get(taskId);
+      if (!task) {
+        throw new Error('Task not found');
+      }
+      if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.BIDDING) {
+        throw new Error('Task is not accepting bids');
+      }
+      return task;
+    });
+
+    if (tasks.some(task => task.publisherId !== tasks[0].publisherId)) {
+      throw new Error('Bundled tasks must share a publisher');
+    }
+
+    const bundle: BundleBid = {
+      id: uuidv4(),
+      taskIds: [...taskIds],
+      deviceId: this.deviceId,
+      price: params.price,
+      estimatedDuration: params.estimatedDuration,
+      reputation: this.reputation,
+      timestamp: this.clock.now()
+    };
+
+    this.activeBundleBids.set(bundle.id, bundle);
+    this.emit('bundle:submitted', bundle);
+
+    return bundle;
+  }
+
+  /**
+   * Price a task with a bidding strategy without bidding; null if the
+   * strategy would skip it
+   */
+  async quote(taskId: string, strategyName?: string): Promise<number | null> {
+    const task = this.availableTasks.get(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const strategy = this.getStrategy(strategyName);
+    const context = this.getBiddingContext(task);
+
+    // A task with no path to it is skipped, not priced at infinity
+    if (context.distance === Infinity || context.routeDistance === Infinity) {
+      return null;
+    }
+    return strategy.price(context);
+  }
+
+  registerStrategy(strategy: BiddingStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+    this.emit('strategy:registered', strategy);
+  }
+
+  /**
+   * Use a registered strategy for `auto` bids that don't name one
+   */
+  setDefaultStrategy(name: string): void {
+    this.getStrategy(name);
+    this.defaultStrategy = name;
+  }
+
+  getStrategy(name: string = this.defaultStrategy): BiddingStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown bidding strategy: ${name}`);
+    }
+    return strategy;
+  }
+
   async withdrawBid(bidId: string): Promise<void> {
     const bid = this.activeBids.get(bidId);
     if (!bid) {
@@ -109,11 +272,16 @@ export class TaskMarketplace extends EventEmitter {
     }
 
     this.activeBids.delete(bidId);
+    this.bidStrategies.delete(bidId);
     this.emit('bid:withdrawn', bid);
   }
 
-  async handleBidWon(taskId: string): Promise<void> {
-    const task = this.availableTasks.get(taskId);
+  /**
+   * Handle winning a task. The publisher's copy of the task can be passed
+   * in case the assignment already reached this marketplace via gossip.
+   */
+  async handleBidWon(taskId: string, assignedTask?: Task): Promise<void> {
+    const task = this.availableTasks.get(taskId) ?? assignedTask;
     if (!task) {
       throw new Error('Task not found');
     }
@@ -122,34 +290,126 @@ export class TaskMarketplace extends EventEmitter {
     task.status = TaskStatus.ASSIGNED;
 
     this.wonBids.set(taskId, task);
-    this.availableTasks.delete(taskId);
+    this.deleteTask(taskId);
 
     for (const [bidId, bid] of this.activeBids.entries()) {
       if (bid.taskId === taskId) {
         this.activeBids.delete(bidId);
+        this.recordOutcome(bid, task, true);
       }
     }
+    this.dropBundleBids(taskId, false);
 
     this.emit('bid:won', task);
   }
 
+  async handleBidLost(taskId: string): Promise<void> {
+    const lost = Array.from(this.activeBids.values()).filter(bid => bid.taskId === taskId);
+
+    for (const bid of lost) {
+      this.activeBids.delete(bid.id);
+      this.recordOutcome(bid, this.availableTasks.get(taskId), false);
+      this.emit('bid:lost', bid);
+    }
+    this.dropBundleBids(taskId, true);
+  }
+
   addTask(task: Task): void {
-    this.availableTasks.set(task.id, task);
+    this.storeTask(task);
     this.emit('task:available', task);
   }
 
+  /**
+   * Signal a change (e.g. status) to a task that is already listed
+   */
+  updateTask(task: Task): void {
+    if (!this.availableTasks.has(task.id)) {
+      return;
+    }
+
+    this.storeTask(task);
+    this.emit('task:updated', task);
+  }
+
+  /**
+   * Record that a task was assigned to a device and withdraw it from
+   * the open market. Bids this device placed on it are dropped (and
+   * reported lost if another device won).
+   */
+  markAssigned(taskId: string, deviceId: string): void {
+    const task = this.availableTasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    task.assignedTo = deviceId;
+    task.status = TaskStatus.ASSIGNED;
+    this.deleteTask(taskId);
+
+    for (const [bidId, bid] of this.activeBids.entries()) {
+      if (bid.taskId === taskId) {
+        this.activeBids.delete(bidId);
+        this.recordOutcome(bid, task, deviceId === this.deviceId);
+        if (deviceId !== this.deviceId) {
+          this.emit('bid:lost', bid);
+        }
+      }
+    }
+    this.dropBundleBids(taskId, deviceId !== this.deviceId);
+
+    this.emit('task:assigned', { task, deviceId });
+  }
+
+  /**
+   * Withdraw a task from the open market, e.g. once it is cancelled. Bids
+   * this device placed on it can no longer win and are reported lost.
+   */
   removeTask(taskId: string): void {
     const task = this.availableTasks.get(taskId);
     if (task) {
-      this.availableTasks.delete(taskId);
+      this.deleteTask(taskId);
+      for (const [bidId, bid] of this.activeBids.entries()) {
+        if (bid.taskId === taskId) {
+          this.activeBids.delete(bidId);
+          this.bidStrategies.delete(bidId);
+          this.emit('bid:lost', bid);
+        }
+      }
+      this.dropBundleBids(taskId, true);
       this.emit('task:removed', task);
     }
   }
 
+  getTask(taskId: string): Task | undefined {
+    return this.availableTasks.get(taskId);
+  }
+
+  /**
+   * Available tasks within `radius` meters of a location on the same floor,
+   * nearest first. Pass `area` to stay within one area of the floor.
+   */
+  getTasksNear(location: Location, radius: number, area?: string): Task[] {
+    return this.taskIndex.within(location, radius, { area }).map(match => match.item);
+  }
+
+  /**
+   * The `k` available tasks nearest to a location on the same floor
+   */
+  getNearestTasks(location: Location, k: number, options: { area?: string; maxDistance?: number; type?: string } = {}): Task[] {
+    const { type, ...query } = options;
+    return this.taskIndex
+      .nearest(location, k, { ...query, filter: type ? (task => task.type === type) : undefined })
+      .map(match => match.item);
+  }
+
   getActiveBids(): Bid[] {
     return Array.from(this.activeBids.values());
   }
 
+  getActiveBundleBids(): BundleBid[] {
+    return Array.from(this.activeBundleBids.values());
+  }
+
   getWonTasks(): Task[] {
     return Array.from(this.wonBids.values());
   }
@@ -164,54 +424,118 @@ export class TaskMarketplace extends EventEmitter {
     this.emit('location:updated', location);
   }
 
-  private calculateOptimalPrice(task: Task, strategy?: BidStrategy): number {
-    const basePrice = task.reward * 0.8;
-
-    switch (strategy) {
-      case 'aggressive':
-        return basePrice * 0.7;
-      case 'conservative':
-        return basePrice * 1.2;
-      case 'competitive':
-        return basePrice;
-      case 'auto':
-      default:
-        let multiplier = 1.0;
-        
-        if (this.reputation > 4.0) {
-          multiplier *= 1.1;
-        } else if (this.reputation < 3.0) {
-          multiplier *= 0.9;
-        }
+  updateBatteryLevel(level: number): void {
+    this.batteryLevel = level;
+  }
 
-        if (this.location) {
-          const distance = this.calculateDistance(task);
-          if (distance < 10) {
-            multiplier *= 0.95;
-          } else if (distance > 50) {
-            multiplier *= 1.1;
-          }
-        }
+  /**
+   * Number of tasks this device won and has not finished yet
+   */
+  updateQueueLength(length: number): void {
+    this.queueLength = length;
+  }
 
-        return basePrice * multiplier;
+  /**
+   * Add a closed auction to the market history. Returns false if it was
+   * already recorded.
+   */
+  recordAuction(record: AuctionRecord): boolean {
+    return this.history.record(record);
+  }
+
+  getMarketHistory(): MarketHistory {
+    return this.history;
+  }
+
+  /**
+   * Recent clearing prices of a task type, oldest first
+   */
+  getClearingPrices(taskType: string): number[] {
+    return this.history.getRecords({ taskType }).map(record => record.price);
+  }
+
+  private getBiddingContext(task: Task): BiddingContext {
+    return {
+      task,
+      device: {
+        location: this.location,
+        batteryLevel: this.batteryLevel,
+        queueLength: this.queueLength,
+        reputation: this.reputation
+      },
+      distance: this.calculateDistance(task),
+      routeDistance: this.calculateRouteDistance(task),
+      market: {
+        clearingPrices: Object.fromEntries(
+          this.history.getTaskTypes().map(type => [type, this.getClearingPrices(type)])
+        )
+      }
+    };
+  }
+
+  /**
+   * Tell the strategy that priced a bid how its auction went
+   */
+  private recordOutcome(bid: Bid, task: Task | undefined, won: boolean): void {
+    const strategy = this.bidStrategies.get(bid.id);
+    this.bidStrategies.delete(bid.id);
+
+    if (strategy?.recordOutcome && task) {
+      strategy.recordOutcome({ task, price: bid.price, won });
     }
   }
 
-  private calculateDistance(task: Task): number {
-    if (!this.location) {
-      return 0;
+  /**
+   * Drop bundle bids that include a task which is no longer open
+   */
+  private dropBundleBids(taskId: string, lost: boolean): void {
+    for (const [bundleId, bundle] of this.activeBundleBids.entries()) {
+      if (bundle.taskIds.includes(taskId)) {
+        this.activeBundleBids.delete(bundleId);
+        if (lost) {
+          this.emit('bundle:lost', bundle);
+        }
+      }
+    }
+  }
+
+  private storeTask(task: Task): void {
+    this.availableTasks.set(task.id, task);
+
+    const location = getTaskLocation(task);
+    if (location) {
+      this.taskIndex.insert(task.id, location, task);
+    } else {
+      this.taskIndex.remove(task.id);
     }
+  }
 
-    const taskLocation = task.payload.location as Location | undefined;
-    if (!taskLocation) {
+  private deleteTask(taskId: string): void {
+    this.availableTasks.delete(taskId);
+    this.taskIndex.remove(taskId);
+  }
+
+  private calculateDistance(task: Task): number {
+    const taskLocation = getTaskLocation(task);
+    if (!this.location || !taskLocation) {
       return 0;
     }
 
-    const dx = this.location.x - taskLocation.x;
-    const dy = this.location.y - taskLocation.y;
-    const dz = (this.location.z || 0) - (taskLocation.z || 0);
+    return this.planner
+      ? this.planner.distance(this.location, taskLocation)
+      : calculateDistance(this.location, taskLocation);
+  }
 
-    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  /**
+   * Meters along the planned path between the task's stops, undefined
+   * without a planner
+   */
+  private calculateRouteDistance(task: Task): number | undefined {
+    const stops = getRouteStops(task);
+    if (!this.planner || stops.length < 2) {
+      return undefined;
+    }
+    return this.planner.planRoute(stops)?.distance ?? Infinity;
   }
 
   getMarketStats() {
@@ -224,6 +548,7 @@ export class TaskMarketplace extends EventEmitter {
         : 0,
       activeBids: this.activeBids.size,
       wonTasks: this.wonBids.size,
+      auctions: this.history.getPriceStats(),
       tasksByPriority: {
         critical: tasks.filter(t => t.priority === 'critical').length,
         high: tasks.filter(t => t.priority === 'high').length,
@@ -232,4 +557,12 @@ export class TaskMarketplace extends EventEmitter {
       }
     };
   }
+}
+
+/**
+ * Where a task starts: its `location`, or the pickup point of a transport
+ */
+function getTaskLocation(task: Task): Location | undefined {
+  const location = task.payload.location ?? task.payload.from;
+  return typeof location?.x === 'number' && typeof location?.y === 'number' ? location : undefined;
 }
\ No newline at end of file
@@ -1,54 +1,163 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Proof } from '../types';
+import {
+  DeviceKeys,
+  canonicalJson,
+  createCommitment,
+  createDeviceKeys,
+  hashValue,
+  verifyCommitment
+} from '../utils/crypto';
+import { KeyRegistry } from './KeyRegistry';
+import { ExecutionStep, ExecutionTrace, StepProof } from './ExecutionTrace';
+import { Clock, systemClock } from '../utils/clock';
 
 export interface TaskVerificationConfig {
   deviceId?: string;
   zkEnabled?: boolean;
+  privateKey?: string;
+  keyRegistry?: KeyRegistry;
+  clock?: Clock;
+}
+
+/**
+ * Decoded `proofData` of a commitment proof (`zkEnabled`). The result is
+ * committed with a salt, so the proof alone doesn't reveal it.
+ */
+interface CommitmentProofData {
+  scheme: 'sha256-commitment';
+  taskId: string;
+  commitment: string;
+  parametersHash: string;
+  timestamp: number;
+}
+
+/**
+ * Decoded `proofData` of a hash proof: the result hash is unsalted
+ */
+interface HashProofData {
+  scheme: 'sha256';
+  taskId: string;
+  resultHash: string;
+  parametersHash: string;
+  timestamp: number;
+}
+
+/**
+ * Decoded execution proof: the root of the step tree, not the steps
+ */
+interface ExecutionProofData {
+  scheme: 'merkle-sha256';
+  taskId: string;
+  root: string;
+  stepCount: number;
+  duration: number;
+  resultHash: string;
 }
 
 export class TaskVerificationModule {
   private deviceId?: string;
   private zkEnabled: boolean;
+  private keys?: DeviceKeys;
+  private keyRegistry?: KeyRegistry;
   private proofCache: Map<string, Proof> = new Map();
+  private salts: Map<string, string> = new Map();
+  private traces: Map<string, ExecutionTrace> = new Map();
+  private clock: Clock;
 
   constructor(config: TaskVerificationConfig = {}) {
     this.deviceId = config.deviceId;
     this.zkEnabled = config.zkEnabled !== false;
+    this.keys = config.privateKey ? createDeviceKeys(config.privateKey) : undefined;
+    this.keyRegistry = config.keyRegistry;
+    this.clock = config.clock ?? systemClock;
+
+    if (this.keys && this.keyRegistry && this.deviceId) {
+      this.keyRegistry.register(this.deviceId, this.keys.publicKey);
+    }
   }
 
+  /**
+   * Prove a task result. The result is committed to, and disclosed only
+   * if `output` is given: then the proof also carries the commitment's
+   * salt. Otherwise the salt stays here until `getSalt()` reveals it, e.g.
+   * in a dispute. With `steps` the proof also carries the root of their
+   * execution trace (`traceRoot`), and `proveStep()` discloses them one by
+   * one.
+   */
   async generateProof(params: {
     taskId: string;
     result: any;
     parameters: Record<string, any>;
     deviceId?: string;
+    output?: any;
+    steps?: ExecutionStep[];
   }): Promise<Proof> {
     const deviceId = params.deviceId || this.deviceId;
     if (!deviceId) {
       throw new Error('Device ID is required');
     }
 
-    const proofData = this.zkEnabled
-      ? await this.generateZKProof(params)
-      : this.generateSimpleProof(params);
+    const id = uuidv4();
+    let proofData: string;
+    let salt: string | undefined;
+    if (this.zkEnabled) {
+      const commitment = createCommitment(params.result);
+      proofData = this.generateZKProof(params, commitment.commitment);
+      salt = commitment.salt;
+      this.salts.set(id, salt);
+    } else {
+      proofData = this.generateSimpleProof(params);
+    }
 
     const proof: Proof = {
-      id: uuidv4(),
+      id,
       taskId: params.taskId,
       deviceId,
       proofData,
-      timestamp: Date.now(),
-      verified: false
+      timestamp: this.clock.now(),
+      verified: false,
+      output: params.output,
+      salt: params.output !== undefined ? salt : undefined
     };
 
+    if (params.steps) {
+      const trace = new ExecutionTrace(params.taskId, params.steps);
+      this.traces.set(params.taskId, trace);
+      proof.traceRoot = trace.root;
+    }
+
+    // Proofs can only be signed for this device's own work
+    if (this.keys && deviceId === this.deviceId) {
+      proof.signature = this.keys.sign(this.encodeProof(proof));
+    }
+
     this.proofCache.set(proof.id, proof);
     return proof;
   }
 
-  async verifyProof(proof: Proof): Promise<boolean> {
+  /**
+   * Verify a proof's signature (with a key registry) and that its
+   * commitment opens to the result: `result` if given, else the disclosed
+   * `output`. Without either there is nothing to open the commitment
+   * against, and the proof does not verify.
+   */
+  async verifyProof(proof: Proof, result: any = proof.output, salt: string | undefined = proof.salt): Promise<boolean> {
+    if (result === undefined) {
+      return false;
+    }
+
     try {
+      // With a key registry, only proofs signed by the claimed device count
+      if (this.keyRegistry) {
+        if (!proof.signature || !this.keyRegistry.verify(proof.deviceId, this.encodeProof(proof), proof.signature)) {
+          return false;
+        }
+      }
+
       const isValid = this.zkEnabled
-        ? await this.verifyZKProof(proof)
-        : this.verifySimpleProof(proof);
+        ? this.verifyZKProof(proof, result, salt)
+        : this.verifySimpleProof(proof, result);
 
       if (isValid) {
         const cachedProof = this.proofCache.get(proof.id);
@@ -64,36 +173,114 @@ export class TaskVerificationModule {
     }
   }
 
+  /**
+   * Verify a proof submitted for a specific task by the device it was
+   * assigned to, e.g. before releasing escrowed payment. The commitment
+   * must open to `expected.result`, or to the disclosed `output`. With
+   * `expected.parameters` the proof must also have been made for those
+   * task parameters.
+   */
+  async verifyTaskProof(
+    proof: Proof,
+    expected: { taskId: string; deviceId?: string; result?: any; salt?: string; parameters?: Record<string, any> }
+  ): Promise<boolean> {
+    if (proof.taskId !== expected.taskId || !expected.deviceId || proof.deviceId !== expected.deviceId) {
+      return false;
+    }
+    if (expected.parameters !== undefined && this.getParametersHash(proof) !== hashValue(expected.parameters)) {
+      return false;
+    }
+
+    const result = expected.result !== undefined ? expected.result : proof.output;
+    return this.verifyProof(proof, result, expected.salt ?? proof.salt);
+  }
+
+  /**
+   * Salt of one of this module's commitment proofs, to open its commitment
+   * for a verifier
+   */
+  getSalt(proofId: string): string | undefined {
+    return this.salts.get(proofId);
+  }
+
+  /**
+   * Build the execution trace of a task and encode its summary: the Merkle
+   * root of the steps, their count and duration, and the hash of the final
+   * result. The steps themselves stay here for `proveStep()`.
+   */
   async generateExecutionProof(params: {
     taskId: string;
-    steps: Array<{ step: string; result: any; timestamp: number }>;
+    steps: ExecutionStep[];
     finalResult: any;
   }): Promise<string> {
-    const executionTrace = {
+    const trace = new ExecutionTrace(params.taskId, params.steps);
+    this.traces.set(params.taskId, trace);
+
+    const proofData: ExecutionProofData = {
+      scheme: 'merkle-sha256',
       taskId: params.taskId,
-      steps: params.steps,
-      finalResult: params.finalResult,
-      totalSteps: params.steps.length,
+      root: trace.root,
+      stepCount: params.steps.length,
       duration: params.steps.length > 0
         ? params.steps[params.steps.length - 1].timestamp - params.steps[0].timestamp
         : 0,
-      hash: this.hashData(JSON.stringify(params))
+      resultHash: hashValue(params.finalResult)
     };
 
-    return Buffer.from(JSON.stringify(executionTrace)).toString('base64');
+    return Buffer.from(canonicalJson(proofData)).toString('base64');
   }
 
-  async verifyExecutionProof(proofData: string): Promise<boolean> {
+  /**
+   * Check that an execution proof is well formed and, if given, that it
+   * ends in the expected result. Steps are checked one at a time with
+   * `verifyStep()`.
+   */
+  async verifyExecutionProof(proofData: string, finalResult?: any): Promise<boolean> {
     try {
-      const trace = JSON.parse(Buffer.from(proofData, 'base64').toString());
-      const recomputedHash = this.hashData(
-        JSON.stringify({
-          taskId: trace.taskId,
-          steps: trace.steps,
-          finalResult: trace.finalResult
-        })
-      );
-      return recomputedHash === trace.hash;
+      const trace = JSON.parse(Buffer.from(proofData, 'base64').toString()) as ExecutionProofData;
+      if (trace.scheme !== 'merkle-sha256' || typeof trace.root !== 'string' || !Number.isInteger(trace.stepCount)) {
+        return false;
+      }
+      return finalResult === undefined || hashValue(finalResult) === trace.resultHash;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Root of the execution proof's step tree, to check steps against
+   */
+  getExecutionRoot(proofData: string): string | undefined {
+    try {
+      const trace = JSON.parse(Buffer.from(proofData, 'base64').toString()) as ExecutionProofData;
+      return trace.scheme === 'merkle-sha256' ? trace.root : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  getExecutionTrace(taskId: string): ExecutionTrace | undefined {
+    return this.traces.get(taskId);
+  }
+
+  /**
+   * Disclose step `index` of a task's execution trace with its inclusion
+   * proof
+   */
+  proveStep(taskId: string, index: number): StepProof {
+    const trace = this.traces.get(taskId);
+    if (!trace) {
+      throw new Error(`No execution trace for task: ${taskId}`);
+    }
+    return trace.proveStep(index);
+  }
+
+  /**
+   * Check a disclosed step against the root of its trace
+   */
+  verifyStep(root: string, index: number, proof: StepProof): boolean {
+    try {
+      return ExecutionTrace.verifyStep(root, index, proof);
     } catch {
       return false;
     }
@@ -107,41 +294,36 @@ export class TaskVerificationModule {
     this.proofCache.clear();
   }
 
-  private async generateZKProof(params: {
-    taskId: string;
-    result: any;
-    parameters: Record<string, any>;
-  }): Promise<string> {
-    const commitment = this.hashData(JSON.stringify(params.result));
-    const witness = this.hashData(
-      JSON.stringify({
-        taskId: params.taskId,
-        parameters: params.parameters,
-        timestamp: Date.now()
-      })
-    );
-
-    const zkProof = {
+  private encodeProof(proof: Proof): string {
+    return canonicalJson({
+      id: proof.id,
+      taskId: proof.taskId,
+      deviceId: proof.deviceId,
+      proofData: proof.proofData,
+      timestamp: proof.timestamp,
+      output: proof.output,
+      salt: proof.salt,
+      traceRoot: proof.traceRoot
+    });
+  }
+
+  private generateZKProof(params: { taskId: string; parameters: Record<string, any> }, commitment: string): string {
+    const proofData: CommitmentProofData = {
+      scheme: 'sha256-commitment',
+      taskId: params.taskId,
       commitment,
-      witness,
-      publicInputs: {
-        taskId: params.taskId,
-        timestamp: Date.now()
-      },
-      proof: this.generateProofString(commitment, witness)
+      parametersHash: hashValue(params.parameters),
+      timestamp: this.clock.now()
     };
-
-    return Buffer.from(JSON.stringify(zkProof)).toString('base64');
+    return Buffer.from(canonicalJson(proofData)).toString('base64');
   }
 
-  private async verifyZKProof(proof: Proof): Promise<boolean> {
-    try {
-      const zkProof = JSON.parse(Buffer.from(proof.proofData, 'base64').toString());
-      const expectedProof = this.generateProofString(zkProof.commitment, zkProof.witness);
-      return zkProof.proof === expectedProof && zkProof.publicInputs.taskId === proof.taskId;
-    } catch {
+  private verifyZKProof(proof: Proof, result: any, salt?: string): boolean {
+    const proofData = this.decodeProofData<CommitmentProofData>(proof, 'sha256-commitment');
+    if (!proofData) {
       return false;
     }
+    return salt !== undefined && verifyCommitment(proofData.commitment, result, salt);
   }
 
   private generateSimpleProof(params: {
@@ -149,35 +331,43 @@ export class TaskVerificationModule {
     result: any;
     parameters: Record<string, any>;
   }): string {
-    const proofData = {
+    const proofData: HashProofData = {
+      scheme: 'sha256',
       taskId: params.taskId,
-      resultHash: this.hashData(JSON.stringify(params.result)),
-      parametersHash: this.hashData(JSON.stringify(params.parameters)),
-      timestamp: Date.now()
+      resultHash: hashValue(params.result),
+      parametersHash: hashValue(params.parameters),
+      timestamp: this.clock.now()
     };
-    return Buffer.from(JSON.stringify(proofData)).toString('base64');
+    return Buffer.from(canonicalJson(proofData)).toString('base64');
   }
 
-  private verifySimpleProof(proof: Proof): boolean {
-    try {
-      const proofData = JSON.parse(Buffer.from(proof.proofData, 'base64').toString());
-      return proofData.taskId === proof.taskId && proofData.timestamp > 0;
-    } catch {
+  private verifySimpleProof(proof: Proof, result: any): boolean {
+    const proofData = this.decodeProofData<HashProofData>(proof, 'sha256');
+    if (!proofData) {
       return false;
     }
+    return proofData.resultHash === hashValue(result);
   }
 
-  private hashData(data: string): string {
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(36);
+  /**
+   * Hash of the task parameters the proof was made for
+   */
+  private getParametersHash(proof: Proof): string | undefined {
+    const proofData = this.zkEnabled
+      ? this.decodeProofData<CommitmentProofData>(proof, 'sha256-commitment')
+      : this.decodeProofData<HashProofData>(proof, 'sha256');
+    return proofData?.parametersHash;
   }
 
-  private generateProofString(commitment: string, witness: string): string {
-    return this.hashData(`${commitment}:${witness}`);
+  /**
+   * The proof's data if it is of the scheme and for the proof's task
+   */
+  private decodeProofData<T extends { scheme: string; taskId: string }>(proof: Proof, scheme: T['scheme']): T | undefined {
+    try {
+      const proofData = JSON.parse(Buffer.from(proof.proofData, 'base64').toString()) as T;
+      return proofData.scheme === scheme && proofData.taskId === proof.taskId ? proofData : undefined;
+    } catch {
+      return undefined;
+    }
   }
-}
\ No newline at end of file
+}
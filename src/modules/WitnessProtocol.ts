@@ -0,0 +1,442 @@
+/**
+ * Witness Protocol
+ *
+ * Third-party attestation for tasks whose `VerificationRules` require
+ * witnesses. The publisher asks nearby devices to witness the work,
+ * recruits the most trusted and closest of those that offer, and collects
+ * their signed attestations of what they observed. A task's proof only
+ * counts once a quorum of witnesses has confirmed it.
+ *
+ * This module keeps the state of both sides; `AutoGridOS` carries the
+ * requests, offers and attestations over the network.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { Location, Task, VerificationRules } from '../types';
+import { DeviceKeys, canonicalJson, createDeviceKeys } from '../utils/crypto';
+import { calculateDistance } from '../utils/helpers';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import { KeyRegistry } from './KeyRegistry';
+import { ReputationRegistry } from './ReputationRegistry';
+
+export interface WitnessProtocolConfig {
+  deviceId: string;
+  /** Signs this device's attestations */
+  privateKey?: string;
+  /** Verifies attestation signatures */
+  keyRegistry?: KeyRegistry;
+  /** Ranks candidates by trust level */
+  reputation?: ReputationRegistry;
+  clock?: Clock;
+  /** Milliseconds to wait for offers before recruiting, default 2000 */
+  recruitWindow?: number;
+}
+
+/**
+ * What a witness recorded while the work was done
+ */
+export interface WitnessObservation {
+  observation: Record<string, any>;
+  confirmed: boolean;
+}
+
+export interface WitnessOptions {
+  recruitWindow?: number;
+  /**
+   * Observe the work once recruited as a witness. Devices without it
+   * don't volunteer.
+   */
+  observe?: (request: WitnessRequest) => WitnessObservation | Promise<WitnessObservation>;
+}
+
+/**
+ * Sent to nearby devices when a task that requires witnesses is assigned
+ */
+export interface WitnessRequest {
+  taskId: string;
+  task: Task;
+  publisherId: string;
+  executorId: string;
+  location?: Location;
+  radius: number;
+}
+
+export interface WitnessOffer {
+  taskId: string;
+  deviceId: string;
+  location?: Location;
+}
+
+/**
+ * A witness's signed account of what it observed
+ */
+export interface Attestation {
+  taskId: string;
+  witnessId: string;
+  executorId: string;
+  /** Sensor data the witness recorded */
+  observation: Record<string, any>;
+  /** Whether the observation confirms the work */
+  confirmed: boolean;
+  location?: Location;
+  observedAt: number;
+  signature?: string;
+}
+
+export type WitnessSessionStatus = 'recruiting' | 'observing' | 'reached' | 'failed';
+
+export interface WitnessSession {
+  taskId: string;
+  executorId: string;
+  location?: Location;
+  radius: number;
+  quorum: number;
+  witnessCount: number;
+  /** Share of the task reward per confirming witness */
+  reward: number;
+  offers: WitnessOffer[];
+  witnesses: string[];
+  attestations: Attestation[];
+  status: WitnessSessionStatus;
+  openedAt: number;
+}
+
+const TRUST_RANK: Record<string, number> = {
+  verified: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  untrusted: 0
+};
+
+export class WitnessProtocol extends EventEmitter {
+  private deviceId: string;
+  private keys?: DeviceKeys;
+  private keyRegistry?: KeyRegistry;
+  private reputation?: ReputationRegistry;
+  private clock: Clock;
+  private recruitWindow: number;
+  private sessions: Map<string, WitnessSession> = new Map();
+  private timers: Map<string, TimerHandle> = new Map();
+  private watching: Map<string, WitnessRequest> = new Map();
+
+  constructor(config: WitnessProtocolConfig) {
+    super();
+    this.deviceId = config.deviceId;
+    this.keys = config.privateKey ? createDeviceKeys(config.privateKey) : undefined;
+    this.keyRegistry = config.keyRegistry;
+    this.reputation = config.reputation;
+    this.clock = config.clock ?? systemClock;
+    this.recruitWindow = config.recruitWindow ?? 2000;
+
+    if (this.keys && this.keyRegistry) {
+      this.keyRegistry.register(this.deviceId, this.keys.publicKey);
+    }
+  }
+
+  // ==================== Publisher side ====================
+
+  /**
+   * Start recruiting witnesses for an assigned task. Candidates are
+   * recruited once `witnessCount` have offered or the recruit window ends.
+   */
+  open(task: Task, rules: VerificationRules): WitnessRequest {
+    if (!task.assignedTo) {
+      throw new Error('Task is not assigned');
+    }
+    if (this.sessions.has(task.id)) {
+      throw new Error(`Witnesses already requested for task: ${task.id}`);
+    }
+    if (!this.reputation) {
+      throw new Error('Recruiting witnesses requires a reputation registry');
+    }
+
+    const { quorum, witnessCount, radius, reward } = getWitnessSettings(rules);
+    const session: WitnessSession = {
+      taskId: task.id,
+      executorId: task.assignedTo,
+      location: getWitnessLocation(task),
+      radius,
+      quorum,
+      witnessCount,
+      reward,
+      offers: [],
+      witnesses: [],
+      attestations: [],
+      status: 'recruiting',
+      openedAt: this.clock.now()
+    };
+    this.sessions.set(task.id, session);
+    this.timers.set(task.id, this.clock.setTimeout(() => this.recruit(task.id), this.recruitWindow));
+
+    return {
+      taskId: task.id,
+      task,
+      publisherId: task.publisherId,
+      executorId: session.executorId,
+      location: session.location,
+      radius: session.radius
+    };
+  }
+
+  /**
+   * Record a device's offer to witness. The executor, the publisher and
+   * devices out of range can't witness.
+   */
+  offer(offer: WitnessOffer): boolean {
+    const session = this.sessions.get(offer.taskId);
+    if (!session || session.status !== 'recruiting') {
+      return false;
+    }
+    if (offer.deviceId === session.executorId || offer.deviceId === this.deviceId) {
+      return false;
+    }
+    if (session.offers.some(existing => existing.deviceId === offer.deviceId)) {
+      return false;
+    }
+    if (!this.inRange(session, offer.location)) {
+      return false;
+    }
+
+    session.offers.push(offer);
+    if (session.offers.length >= session.witnessCount) {
+      this.recruit(offer.taskId);
+    }
+    return true;
+  }
+
+  /**
+   * Recruit the best ranked candidates that offered
+   */
+  recruit(taskId: string): string[] {
+    const session = this.sessions.get(taskId);
+    if (!session || session.status !== 'recruiting') {
+      return session?.witnesses ?? [];
+    }
+    this.clearTimer(taskId);
+
+    session.witnesses = this.rankCandidates(session.offers, session.location)
+      .slice(0, session.witnessCount)
+      .map(offer => offer.deviceId);
+
+    if (session.witnesses.length < session.quorum) {
+      this.fail(session, 'not-enough-witnesses');
+      return session.witnesses;
+    }
+
+    session.status = 'observing';
+    this.emit('witness:recruited', { taskId, witnesses: [...session.witnesses] });
+    return [...session.witnesses];
+  }
+
+  /**
+   * Candidates by trust level, then distance to the task, then device ID
+   */
+  rankCandidates(offers: WitnessOffer[], location?: Location): WitnessOffer[] {
+    const trust = (offer: WitnessOffer) =>
+      this.reputation ? TRUST_RANK[this.reputation.getTrustLevel(offer.deviceId)] : 0;
+    const distance = (offer: WitnessOffer) =>
+      location && offer.location ? calculateDistance(location, offer.location) : Infinity;
+
+    return [...offers].sort((a, b) =>
+      trust(b) - trust(a) ||
+      distance(a) - distance(b) ||
+      a.deviceId.localeCompare(b.deviceId)
+    );
+  }
+
+  /**
+   * Accept an attestation from a recruited witness. With a key registry
+   * it must be signed by that witness. Emits `witness:quorum` once enough
+   * witnesses confirmed the work, or `witness:failed` once that can no
+   * longer happen.
+   */
+  addAttestation(attestation: Attestation): boolean {
+    const session = this.sessions.get(attestation.taskId);
+    if (!session || session.status !== 'observing') {
+      return false;
+    }
+    if (!session.witnesses.includes(attestation.witnessId) || attestation.executorId !== session.executorId) {
+      return false;
+    }
+    if (session.attestations.some(existing => existing.witnessId === attestation.witnessId)) {
+      return false;
+    }
+    if (this.keyRegistry && !this.verifyAttestation(attestation)) {
+      return false;
+    }
+
+    session.attestations.push(attestation);
+    this.emit('witness:attested', attestation);
+
+    const confirmed = session.attestations.filter(entry => entry.confirmed).length;
+    const outstanding = session.witnesses.length - session.attestations.length;
+    if (confirmed >= session.quorum) {
+      session.status = 'reached';
+      this.emit('witness:quorum', { taskId: session.taskId, attestations: this.getConfirmations(session.taskId) });
+    } else if (confirmed + outstanding < session.quorum) {
+      this.fail(session, 'quorum-not-reached');
+    }
+    return true;
+  }
+
+  verifyAttestation(attestation: Attestation): boolean {
+    return attestation.signature !== undefined &&
+      this.keyRegistry !== undefined &&
+      this.keyRegistry.verify(attestation.witnessId, encodeAttestation(attestation), attestation.signature);
+  }
+
+  hasQuorum(taskId: string): boolean {
+    return this.sessions.get(taskId)?.status === 'reached';
+  }
+
+  /**
+   * Attestations that confirmed the work
+   */
+  getConfirmations(taskId: string): Attestation[] {
+    return (this.sessions.get(taskId)?.attestations ?? []).filter(attestation => attestation.confirmed);
+  }
+
+  getSession(taskId: string): WitnessSession | undefined {
+    const session = this.sessions.get(taskId);
+    return session ? { ...session, offers: [...session.offers], witnesses: [...session.witnesses], attestations: [...session.attestations] } : undefined;
+  }
+
+  /**
+   * Forget a task's session, e.g. once it is paid or cancelled
+   */
+  close(taskId: string): void {
+    this.clearTimer(taskId);
+    this.sessions.delete(taskId);
+    this.watching.delete(taskId);
+  }
+
+  // ==================== Witness side ====================
+
+  /**
+   * Whether this device, at `location`, is close enough to witness
+   */
+  canWitness(request: WitnessRequest, location?: Location): boolean {
+    if (request.executorId === this.deviceId || request.publisherId === this.deviceId) {
+      return false;
+    }
+    return !request.location || !location ||
+      ((request.location.floor ?? 0) === (location.floor ?? 0) && calculateDistance(request.location, location) <= request.radius);
+  }
+
+  /**
+   * Offer to witness a task, remembering the request in case the
+   * publisher recruits this device
+   */
+  volunteer(request: WitnessRequest, location?: Location): WitnessOffer | undefined {
+    if (!this.canWitness(request, location)) {
+      return undefined;
+    }
+
+    this.watching.set(request.taskId, request);
+    return { taskId: request.taskId, deviceId: this.deviceId, location };
+  }
+
+  /**
+   * A request this device volunteered for
+   */
+  getRequest(taskId: string): WitnessRequest | undefined {
+    return this.watching.get(taskId);
+  }
+
+  /**
+   * Sign an attestation of what this device observed
+   */
+  attest(params: {
+    taskId: string;
+    executorId: string;
+    observation: Record<string, any>;
+    confirmed: boolean;
+    location?: Location;
+  }): Attestation {
+    const attestation: Attestation = {
+      taskId: params.taskId,
+      witnessId: this.deviceId,
+      executorId: params.executorId,
+      observation: params.observation,
+      confirmed: params.confirmed,
+      location: params.location,
+      observedAt: this.clock.now()
+    };
+    if (this.keys) {
+      attestation.signature = this.keys.sign(encodeAttestation(attestation));
+    }
+    return attestation;
+  }
+
+  /**
+   * Stop pending recruit timers
+   */
+  dispose(): void {
+    for (const taskId of Array.from(this.timers.keys())) {
+      this.clearTimer(taskId);
+    }
+  }
+
+  private inRange(session: WitnessSession, location?: Location): boolean {
+    if (!session.location) {
+      return true;
+    }
+    if (!location || (location.floor ?? 0) !== (session.location.floor ?? 0)) {
+      return false;
+    }
+    return calculateDistance(session.location, location) <= session.radius;
+  }
+
+  private fail(session: WitnessSession, reason: string): void {
+    session.status = 'failed';
+    this.emit('witness:failed', { taskId: session.taskId, reason });
+  }
+
+  private clearTimer(taskId: string): void {
+    const timer = this.timers.get(taskId);
+    if (timer) {
+      this.clock.clearTimer(timer);
+      this.timers.delete(taskId);
+    }
+  }
+}
+
+/**
+ * The witness settings of verification rules, with defaults applied.
+ * Throws if witnesses could be owed more than the task reward.
+ */
+export function getWitnessSettings(rules: VerificationRules): {
+  quorum: number;
+  witnessCount: number;
+  radius: number;
+  reward: number;
+} {
+  const quorum = rules.witnessQuorum ?? 2;
+  const witnessCount = Math.max(quorum, rules.witnessCount ?? quorum + 1);
+  const reward = rules.witnessReward ?? 0.05;
+
+  if (!Number.isInteger(quorum) || quorum < 1) {
+    throw new Error('witnessQuorum must be a positive integer');
+  }
+  if (!(reward >= 0)) {
+    throw new Error('witnessReward must not be negative');
+  }
+  if (witnessCount * reward > 1) {
+    throw new Error(`${witnessCount} witnesses at a witnessReward of ${reward} would be owed more than the task reward`);
+  }
+  return { quorum, witnessCount, radius: rules.witnessRadius ?? 50, reward };
+}
+
+function encodeAttestation(attestation: Attestation): string {
+  const { signature, ...signed } = attestation;
+  return canonicalJson(signed);
+}
+
+/**
+ * Where the work can be observed: the task's location, or its drop-off
+ */
+function getWitnessLocation(task: Task): Location | undefined {
+  const location = task.payload?.location ?? task.payload?.to ?? task.payload?.from;
+  return location && typeof location.x === 'number' && typeof location.y === 'number' ? location : undefined;
+}
@@ -0,0 +1,243 @@
+/**
+ * Facility Map
+ *
+ * Occupancy grid per floor of a building: shelving, walls and other
+ * obstacles block cells, doors block them while closed, and elevators,
+ * stairs and ramps connect the floors. `PathPlanner` searches it for paths.
+ * Coordinates are meters from the floor's corner at (0, 0).
+ */
+
+import EventEmitter from 'eventemitter3';
+import { Location } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FloorPlan {
+  floor: number;
+  /** Meters along x */
+  width: number;
+  /** Meters along y */
+  height: number;
+  /** Areas robots can't pass, such as shelving and walls */
+  obstacles?: Rect[];
+}
+
+export type ConnectorKind = 'elevator' | 'stairs' | 'ramp';
+
+export interface FloorConnector {
+  id: string;
+  kind: ConnectorKind;
+  /** Where the connector is entered, one stop per floor it serves */
+  stops: Location[];
+  /** Milliseconds before a ride starts, e.g. waiting for the elevator */
+  waitTime?: number;
+  /** Milliseconds per floor travelled */
+  timePerFloor?: number;
+}
+
+export interface Door {
+  id: string;
+  floor: number;
+  area: Rect;
+  open?: boolean;
+}
+
+export interface FacilityMapConfig {
+  floors: FloorPlan[];
+  connectors?: FloorConnector[];
+  doors?: Door[];
+  /** Meters per grid cell, default 0.5 */
+  resolution?: number;
+}
+
+export interface GridCell {
+  floor: number;
+  cx: number;
+  cy: number;
+}
+
+const FREE = 0;
+const OBSTACLE = 1;
+const CLOSED_DOOR = 2;
+
+interface FloorGrid {
+  plan: FloorPlan;
+  columns: number;
+  rows: number;
+  cells: Uint8Array;
+}
+
+export class FacilityMap extends EventEmitter {
+  readonly resolution: number;
+  private floors: Map<number, FloorGrid> = new Map();
+  private connectors: Map<string, FloorConnector> = new Map();
+  private doors: Map<string, Door> = new Map();
+
+  constructor(config: FacilityMapConfig) {
+    super();
+    this.resolution = config.resolution ?? 0.5;
+    if (this.resolution <= 0) {
+      throw new Error('Map resolution must be positive');
+    }
+
+    for (const plan of config.floors) {
+      const columns = Math.ceil(plan.width / this.resolution);
+      const rows = Math.ceil(plan.height / this.resolution);
+      this.floors.set(plan.floor, { plan, columns, rows, cells: new Uint8Array(columns * rows) });
+      for (const obstacle of plan.obstacles || []) {
+        this.fill(plan.floor, obstacle, () => OBSTACLE);
+      }
+    }
+
+    for (const connector of config.connectors || []) {
+      this.addConnector(connector);
+    }
+    for (const door of config.doors || []) {
+      this.addDoor(door);
+    }
+  }
+
+  getFloors(): number[] {
+    return Array.from(this.floors.keys()).sort((a, b) => a - b);
+  }
+
+  hasFloor(floor: number): boolean {
+    return this.floors.has(floor);
+  }
+
+  /**
+   * Columns and rows of a floor's grid
+   */
+  getGridSize(floor: number): { columns: number; rows: number } {
+    const grid = this.getGrid(floor);
+    return { columns: grid.columns, rows: grid.rows };
+  }
+
+  /**
+   * Mark an area as blocked (e.g. new shelving) or clear it again
+   */
+  setBlocked(floor: number, area: Rect, blocked: boolean = true): void {
+    this.fill(floor, area, cell => (blocked ? OBSTACLE : cell === OBSTACLE ? FREE : cell));
+    this.emit('map:changed', { floor, area, blocked });
+  }
+
+  /**
+   * Add a door. Its area is passable while it is open, even where it
+   * cuts through a wall.
+   */
+  addDoor(door: Door): void {
+    const open = door.open ?? true;
+    this.getGrid(door.floor);
+    this.doors.set(door.id, { ...door, open });
+    this.fill(door.floor, door.area, () => (open ? FREE : CLOSED_DOOR));
+  }
+
+  setDoorOpen(doorId: string, open: boolean): void {
+    const door = this.doors.get(doorId);
+    if (!door) {
+      throw new Error(`Unknown door: ${doorId}`);
+    }
+
+    door.open = open;
+    this.fill(door.floor, door.area, () => (open ? FREE : CLOSED_DOOR));
+    this.emit('door:changed', { doorId, open });
+  }
+
+  getDoors(): Door[] {
+    return Array.from(this.doors.values()).map(door => ({ ...door }));
+  }
+
+  addConnector(connector: FloorConnector): void {
+    for (const stop of connector.stops) {
+      if (!this.toCell(stop)) {
+        throw new Error(`Connector ${connector.id} stops outside the map`);
+      }
+    }
+    this.connectors.set(connector.id, connector);
+  }
+
+  /**
+   * Connectors, or only those stopping on a floor
+   */
+  getConnectors(floor?: number): FloorConnector[] {
+    return Array.from(this.connectors.values()).filter(connector =>
+      floor === undefined || connector.stops.some(stop => (stop.floor ?? 0) === floor)
+    );
+  }
+
+  /**
+   * Whether a robot can stand at this location
+   */
+  isFree(location: Location): boolean {
+    const cell = this.toCell(location);
+    return cell !== undefined && this.isCellFree(cell.floor, cell.cx, cell.cy);
+  }
+
+  isCellFree(floor: number, cx: number, cy: number): boolean {
+    const grid = this.floors.get(floor);
+    if (!grid || cx < 0 || cy < 0 || cx >= grid.columns || cy >= grid.rows) {
+      return false;
+    }
+    return grid.cells[cy * grid.columns + cx] === FREE;
+  }
+
+  /**
+   * Grid cell of a location, undefined if it is off the map
+   */
+  toCell(location: Location): GridCell | undefined {
+    const floor = location.floor ?? 0;
+    const grid = this.floors.get(floor);
+    if (!grid) {
+      return undefined;
+    }
+
+    const cx = Math.floor(location.x / this.resolution);
+    const cy = Math.floor(location.y / this.resolution);
+    if (cx < 0 || cy < 0 || cx >= grid.columns || cy >= grid.rows) {
+      return undefined;
+    }
+    return { floor, cx, cy };
+  }
+
+  /**
+   * Center of a grid cell
+   */
+  toLocation(cell: GridCell): Location {
+    return {
+      x: (cell.cx + 0.5) * this.resolution,
+      y: (cell.cy + 0.5) * this.resolution,
+      floor: cell.floor
+    };
+  }
+
+  private getGrid(floor: number): FloorGrid {
+    const grid = this.floors.get(floor);
+    if (!grid) {
+      throw new Error(`Unknown floor: ${floor}`);
+    }
+    return grid;
+  }
+
+  /**
+   * Apply a change to every cell the area overlaps
+   */
+  private fill(floor: number, area: Rect, change: (cell: number) => number): void {
+    const grid = this.getGrid(floor);
+    const minX = Math.max(0, Math.floor(area.x / this.resolution));
+    const minY = Math.max(0, Math.floor(area.y / this.resolution));
+    const maxX = Math.min(grid.columns, Math.ceil((area.x + area.width) / this.resolution));
+    const maxY = Math.min(grid.rows, Math.ceil((area.y + area.height) / this.resolution));
+
+    for (let cy = minY; cy < maxY; cy++) {
+      for (let cx = minX; cx < maxX; cx++) {
+        const i = cy * grid.columns + cx;
+        grid.cells[i] = change(grid.cells[i]);
+      }
+    }
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * Path Planner
+ *
+ * A* search over a `FacilityMap`: eight-way moves between free cells
+ * (never cutting the corner of an obstacle), plus rides on elevators,
+ * stairs and ramps between floors. Costs are travel time, so a long
+ * elevator wait can lose to a nearby ramp. Paths come back as the corner
+ * waypoints a robot drives through, with their length and travel time.
+ */
+
+import { Location } from '../types';
+import { estimateTaskDuration } from '../utils/helpers';
+import { FacilityMap, FloorConnector, GridCell } from './FacilityMap';
+
+export interface PathPlannerConfig {
+  map: FacilityMap;
+  /** Meters per second, default 1 */
+  speed?: number;
+  /** How far (meters) a blocked start or goal may be moved to a free cell, default 1 */
+  snapDistance?: number;
+}
+
+export interface PlannedPath {
+  /** Start, corners, connector stops and goal */
+  waypoints: Location[];
+  /** Meters driven, not counting rides between floors */
+  distance: number;
+  /** Milliseconds, including rides between floors */
+  travelTime: number;
+  /** Milliseconds spent waiting for and riding connectors */
+  connectorTime: number;
+  /** Connectors used, in order */
+  connectors: string[];
+  /** Milliseconds from setting off until each waypoint is reached */
+  times: number[];
+}
+
+interface Hop {
+  to: number;
+  cost: number;
+  connector: FloorConnector;
+}
+
+const NEIGHBOURS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+export class PathPlanner {
+  private map: FacilityMap;
+  private speed: number;
+  private snapDistance: number;
+
+  constructor(config: PathPlannerConfig) {
+    this.map = config.map;
+    this.speed = config.speed ?? 1;
+    this.snapDistance = config.snapDistance ?? 1;
+    if (this.speed <= 0) {
+      throw new Error('Speed must be positive');
+    }
+  }
+
+  getMap(): FacilityMap {
+    return this.map;
+  }
+
+  /**
+   * Shortest path by travel time, or null if the goal can't be reached.
+   * Cells for which `avoid` returns true are treated as blocked.
+   */
+  plan(
+    from: Location,
+    to: Location,
+    speed: number = this.speed,
+    avoid?: (cell: GridCell) => boolean
+  ): PlannedPath | null {
+    const start = this.snap(from);
+    const goal = this.snap(to);
+    if (!start || !goal) {
+      return null;
+    }
+
+    const cells = this.search(start, goal, speed, avoid);
+    if (!cells) {
+      return null;
+    }
+
+    const waypoints: Location[] = [];
+    const times: number[] = [];
+    const connectors: string[] = [];
+    let connectorTime = 0;
+
+    const add = (point: Location, rideTime: number = 0) => {
+      const prev = waypoints[waypoints.length - 1];
+      if (!prev) {
+        waypoints.push(point);
+        times.push(0);
+        return;
+      }
+      if ((prev.floor ?? 0) !== (point.floor ?? 0)) {
+        waypoints.push(point);
+        times.push(times[times.length - 1] + rideTime);
+      } else if (prev.x !== point.x || prev.y !== point.y) {
+        waypoints.push(point);
+        times.push(times[times.length - 1] + (Math.hypot(point.x - prev.x, point.y - prev.y) / speed) * 1000);
+      }
+    };
+
+    add({ ...from, floor: from.floor ?? 0 });
+    for (let i = 1; i < cells.length; i++) {
+      const [prev, cell, next] = [cells[i - 1], cells[i], cells[i + 1]];
+      if (cell.hop) {
+        connectors.push(cell.hop.connector.id);
+        connectorTime += cell.hop.cost;
+        add(this.map.toLocation(prev));
+        add(this.map.toLocation(cell), cell.hop.cost);
+        continue;
+      }
+      if (!next || next.hop) {
+        continue;
+      }
+      // Keep the corners: cells where the direction changes
+      if (cell.cx - prev.cx !== next.cx - cell.cx || cell.cy - prev.cy !== next.cy - cell.cy) {
+        add(this.map.toLocation(cell));
+      }
+    }
+    add({ ...to, floor: to.floor ?? 0 });
+
+    const distance = pathLength(waypoints);
+    return {
+      waypoints,
+      distance,
+      travelTime: (distance / speed) * 1000 + connectorTime,
+      connectorTime,
+      connectors,
+      times
+    };
+  }
+
+  /**
+   * Path through several stops in order, or null if a leg can't be driven
+   */
+  planRoute(
+    stops: Location[],
+    speed: number = this.speed,
+    avoid?: (cell: GridCell) => boolean
+  ): PlannedPath | null {
+    if (stops.length === 0) {
+      return null;
+    }
+
+    const route: PlannedPath = {
+      waypoints: [stops[0]],
+      distance: 0,
+      travelTime: 0,
+      connectorTime: 0,
+      connectors: [],
+      times: [0]
+    };
+    for (let i = 1; i < stops.length; i++) {
+      const leg = this.plan(stops[i - 1], stops[i], speed, avoid);
+      if (!leg) {
+        return null;
+      }
+      route.waypoints.push(...leg.waypoints.slice(1));
+      route.times.push(...leg.times.slice(1).map(time => route.travelTime + time));
+      route.distance += leg.distance;
+      route.travelTime += leg.travelTime;
+      route.connectorTime += leg.connectorTime;
+      route.connectors.push(...leg.connectors);
+    }
+    return route;
+  }
+
+  /**
+   * Meters driven along the path, Infinity if there is none
+   */
+  distance(from: Location, to: Location): number {
+    return this.plan(from, to)?.distance ?? Infinity;
+  }
+
+  /**
+   * Milliseconds along the path, Infinity if there is none
+   */
+  travelTime(from: Location, to: Location, speed?: number): number {
+    return this.plan(from, to, speed)?.travelTime ?? Infinity;
+  }
+
+  /**
+   * `estimateTaskDuration()` over the path through the stops: seconds of
+   * travel times complexity, plus a 10% buffer. Infinity if a leg can't
+   * be driven.
+   */
+  estimateTaskDuration(stops: Location[], complexity: number = 1, speed?: number): number {
+    const route = this.planRoute(stops, speed);
+    return route ? estimateTaskDuration(route.travelTime / 1000, complexity) : Infinity;
+  }
+
+  /**
+   * The location's cell, or the nearest free cell within `snapDistance`
+   */
+  private snap(location: Location): GridCell | undefined {
+    const cell = this.map.toCell(location);
+    if (!cell) {
+      return undefined;
+    }
+    if (this.map.isCellFree(cell.floor, cell.cx, cell.cy)) {
+      return cell;
+    }
+
+    const reach = Math.floor(this.snapDistance / this.map.resolution);
+    let best: GridCell | undefined;
+    let bestDistance = Infinity;
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dy = -reach; dy <= reach; dy++) {
+        const d = Math.hypot(dx, dy);
+        if (d <= reach && d < bestDistance && this.map.isCellFree(cell.floor, cell.cx + dx, cell.cy + dy)) {
+          best = { floor: cell.floor, cx: cell.cx + dx, cy: cell.cy + dy };
+          bestDistance = d;
+        }
+      }
+    }
+    return best;
+  }
+
+  private search(
+    start: GridCell,
+    goal: GridCell,
+    speed: number,
+    avoid?: (cell: GridCell) => boolean
+  ): Array<GridCell & { hop?: Hop }> | null {
+    // Every cell of every floor gets one index: floor offset + row * columns + column
+    const floors = this.map.getFloors();
+    const offsets: number[] = [];
+    const columns: number[] = [];
+    let total = 0;
+    for (const floor of floors) {
+      const size = this.map.getGridSize(floor);
+      offsets.push(total);
+      columns.push(size.columns);
+      total += size.columns * size.rows;
+    }
+
+    const index = (cell: GridCell) => {
+      const f = floors.indexOf(cell.floor);
+      return offsets[f] + cell.cy * columns[f] + cell.cx;
+    };
+    const cellAt = (i: number): GridCell => {
+      let f = 0;
+      while (f + 1 < floors.length && offsets[f + 1] <= i) {
+        f++;
+      }
+      const local = i - offsets[f];
+      return { floor: floors[f], cx: local % columns[f], cy: Math.floor(local / columns[f]) };
+    };
+
+    const hops = this.connectorHops(index);
+    const stepTime = (this.map.resolution / speed) * 1000;
+    const heuristic = (cell: GridCell) => {
+      if (cell.floor !== goal.floor) {
+        return 0;
+      }
+      // Octile distance: the exact cost with no obstacles in the way
+      const dx = Math.abs(cell.cx - goal.cx);
+      const dy = Math.abs(cell.cy - goal.cy);
+      return (Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)) * stepTime;
+    };
+
+    const cost = new Float64Array(total).fill(Infinity);
+    const cameFrom = new Int32Array(total).fill(-1);
+    const hopTo = new Map<number, Hop>();
+    const closed = new Uint8Array(total);
+    const open = new MinHeap();
+
+    const startIndex = index(start);
+    const goalIndex = index(goal);
+    cost[startIndex] = 0;
+    open.push(startIndex, heuristic(start));
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goalIndex) {
+        break;
+      }
+      if (closed[current]) {
+        continue;
+      }
+      closed[current] = 1;
+
+      const cell = cellAt(current);
+      const relax = (next: number, stepCost: number, nextCell: GridCell, hop?: Hop) => {
+        const candidate = cost[current] + stepCost;
+        if (candidate < cost[next]) {
+          cost[next] = candidate;
+          cameFrom[next] = current;
+          if (hop) {
+            hopTo.set(next, hop);
+          } else {
+            hopTo.delete(next);
+          }
+          open.push(next, candidate + heuristic(nextCell));
+        }
+      };
+
+      for (const [dx, dy] of NEIGHBOURS) {
+        const cx = cell.cx + dx;
+        const cy = cell.cy + dy;
+        if (!this.map.isCellFree(cell.floor, cx, cy) || (avoid && avoid({ floor: cell.floor, cx, cy }))) {
+          continue;
+        }
+        // No squeezing diagonally past the corner of an obstacle
+        if (dx !== 0 && dy !== 0 &&
+          (!this.map.isCellFree(cell.floor, cell.cx + dx, cell.cy) || !this.map.isCellFree(cell.floor, cell.cx, cell.cy + dy))) {
+          continue;
+        }
+        const next = { floor: cell.floor, cx, cy };
+        relax(index(next), dx !== 0 && dy !== 0 ? stepTime * Math.SQRT2 : stepTime, next);
+      }
+
+      for (const hop of hops.get(current) || []) {
+        const target = cellAt(hop.to);
+        if (!avoid || !avoid(target)) {
+          relax(hop.to, hop.cost, target, hop);
+        }
+      }
+    }
+
+    if (cost[goalIndex] === Infinity) {
+      return null;
+    }
+
+    const path: Array<GridCell & { hop?: Hop }> = [];
+    for (let i = goalIndex; i !== -1; i = cameFrom[i]) {
+      path.unshift({ ...cellAt(i), hop: hopTo.get(i) });
+    }
+    return path;
+  }
+
+  /**
+   * Rides between every pair of stops of each connector, keyed by the
+   * cell they start from
+   */
+  private connectorHops(index: (cell: GridCell) => number): Map<number, Hop[]> {
+    const hops = new Map<number, Hop[]>();
+
+    for (const connector of this.map.getConnectors()) {
+      const waitTime = connector.waitTime ?? (connector.kind === 'elevator' ? 15000 : 0);
+      const timePerFloor = connector.timePerFloor ?? 5000;
+
+      for (const from of connector.stops) {
+        for (const to of connector.stops) {
+          const fromFloor = from.floor ?? 0;
+          const toFloor = to.floor ?? 0;
+          if (fromFloor === toFloor) {
+            continue;
+          }
+
+          const key = index(this.map.toCell(from)!);
+          const list = hops.get(key) || [];
+          list.push({
+            to: index(this.map.toCell(to)!),
+            cost: waitTime + Math.abs(toFloor - fromFloor) * timePerFloor,
+            connector
+          });
+          hops.set(key, list);
+        }
+      }
+    }
+
+    return hops;
+  }
+}
+
+/**
+ * Meters driven between consecutive waypoints on the same floor
+ */
+function pathLength(waypoints: Location[]): number {
+  let length = 0;
+  for (let i = 1; i < waypoints.length; i++) {
+    const [a, b] = [waypoints[i - 1], waypoints[i]];
+    if ((a.floor ?? 0) === (b.floor ?? 0)) {
+      length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+  }
+  return length;
+}
+
+/**
+ * Binary heap of node indices by priority
+ */
+class MinHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number): void {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) {
+        break;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Reservation Table
+ *
+ * Space-time reservations of `FacilityMap` cells shared by a fleet. Every
+ * route reserves the cells along its planned path for the time it passes
+ * them, with a clearance before and after so robots don't meet head-on in
+ * an aisle. A route that would cross a reservation of an equal or higher
+ * priority route, or of one already under way, makes way: it waits at its
+ * start or takes another path, whichever arrives first. Lower priority
+ * routes that haven't set off yet are re-planned around it instead.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { Location, TaskPriority } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+import { GridCell } from './FacilityMap';
+import { PathPlanner, PlannedPath } from './PathPlanner';
+
+export interface ReservationTableConfig {
+  /** Plans the paths routes reserve */
+  planner: PathPlanner;
+  clock?: Clock;
+  /** Milliseconds a cell stays reserved before and after a robot passes it, default 1000 */
+  clearance?: number;
+  /** Milliseconds a robot holds the cell it stops in, default 5000 */
+  dwellTime?: number;
+  /** Milliseconds between the departure times tried when waiting, default 1000 */
+  waitStep?: number;
+  /** Longest wait (ms) tried before waiting for every conflicting route to pass, default 60000 */
+  maxWait?: number;
+}
+
+export interface ReservationRequest {
+  routeId: string;
+  deviceId: string;
+  priority: TaskPriority;
+  /** Stops the route drives through, in order */
+  stops: Location[];
+  /** Meters per second, defaults to the planner's */
+  speed?: number;
+}
+
+export interface Reservation {
+  routeId: string;
+  deviceId: string;
+  priority: TaskPriority;
+  stops: Location[];
+  /** The planned path the reservation covers */
+  waypoints: Location[];
+  /** When the robot sets off from the first waypoint */
+  departAt: number;
+  /** When it reaches the last one */
+  arriveAt: number;
+}
+
+/**
+ * How the route making way resolved a conflict:
+ * - `wait` - it sets off later
+ * - `reroute` - it takes a path around the other route
+ */
+export type ConflictResolution = 'wait' | 'reroute';
+
+export interface RouteConflict {
+  routeId: string;
+  deviceId: string;
+  priority: TaskPriority;
+  otherRouteId: string;
+  otherDeviceId: string;
+  otherPriority: TaskPriority;
+  /** Center of the first cell both routes need */
+  location: Location;
+  /** When they would have met */
+  at: number;
+  /** Set on `route:conflict` events */
+  resolution?: ConflictResolution;
+  /** Milliseconds the route now waits before setting off */
+  delay?: number;
+}
+
+interface Slot {
+  key: string;
+  cell: GridCell;
+  from: number;
+  to: number;
+}
+
+interface Schedule {
+  waypoints: Location[];
+  departAt: number;
+  arriveAt: number;
+  slots: Slot[];
+}
+
+interface Entry extends Reservation {
+  slots: Slot[];
+  speed?: number;
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.LOW]: 1,
+  [TaskPriority.NORMAL]: 2,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.CRITICAL]: 4
+};
+
+export class ReservationTable extends EventEmitter {
+  private planner: PathPlanner;
+  private clock: Clock;
+  private clearance: number;
+  private dwellTime: number;
+  private waitStep: number;
+  private maxWait: number;
+  private reservations: Map<string, Entry> = new Map();
+  private cells: Map<string, Set<string>> = new Map();
+
+  constructor(config: ReservationTableConfig) {
+    super();
+    this.planner = config.planner;
+    this.clock = config.clock ?? systemClock;
+    this.clearance = config.clearance ?? 1000;
+    this.dwellTime = config.dwellTime ?? 5000;
+    this.waitStep = config.waitStep ?? 1000;
+    this.maxWait = config.maxWait ?? 60000;
+    if (this.waitStep <= 0) {
+      throw new Error('Wait step must be positive');
+    }
+  }
+
+  getPlanner(): PathPlanner {
+    return this.planner;
+  }
+
+  /**
+   * Plan and reserve a route, replacing any earlier reservation under the
+   * same ID. Conflicts it has to resolve are emitted as `route:conflict`;
+   * lower priority routes it displaces are re-planned and emitted as
+   * `reservation:updated`.
+   */
+  reserve(request: ReservationRequest): Reservation {
+    return this.place(request, []);
+  }
+
+  /**
+   * Free the cells a route reserved
+   */
+  release(routeId: string): boolean {
+    const entry = this.reservations.get(routeId);
+    if (!entry) {
+      return false;
+    }
+
+    for (const slot of entry.slots) {
+      const routes = this.cells.get(slot.key);
+      routes?.delete(routeId);
+      if (routes && routes.size === 0) {
+        this.cells.delete(slot.key);
+      }
+    }
+    this.reservations.delete(routeId);
+    return true;
+  }
+
+  getReservation(routeId: string): Reservation | undefined {
+    const entry = this.reservations.get(routeId);
+    return entry ? this.toReservation(entry) : undefined;
+  }
+
+  getReservations(): Reservation[] {
+    return Array.from(this.reservations.values()).map(entry => this.toReservation(entry));
+  }
+
+  /**
+   * Pairs of reservations that need the same cell at the same time, once
+   * per pair; only those involving `routeId` if given
+   */
+  findConflicts(routeId?: string): RouteConflict[] {
+    const entries = routeId !== undefined
+      ? [this.reservations.get(routeId)].filter((entry): entry is Entry => entry !== undefined)
+      : Array.from(this.reservations.values());
+
+    const conflicts: RouteConflict[] = [];
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      for (const conflict of this.conflicts(entry, entry.slots, () => true)) {
+        const pair = [conflict.routeId, conflict.otherRouteId].sort().join('|');
+        if (!seen.has(pair)) {
+          seen.add(pair);
+          conflicts.push(conflict);
+        }
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Drop reservations whose last cell has been cleared
+   */
+  prune(): void {
+    const now = this.clock.now();
+    for (const entry of Array.from(this.reservations.values())) {
+      const last = entry.slots[entry.slots.length - 1];
+      if (!last || last.to + this.clearance < now) {
+        this.release(entry.routeId);
+      }
+    }
+  }
+
+  /**
+   * Reserve a route. `displacedBy` are conflicts with the routes it was
+   * displaced by, reported along with the ones it runs into itself.
+   */
+  private place(request: ReservationRequest, displacedBy: RouteConflict[]): Reservation {
+    this.release(request.routeId);
+    this.prune();
+
+    const now = this.clock.now();
+    const path = this.planner.planRoute(request.stops, request.speed);
+    if (!path) {
+      throw new Error('No path through the route waypoints');
+    }
+
+    const entry: Entry = {
+      routeId: request.routeId,
+      deviceId: request.deviceId,
+      priority: request.priority,
+      stops: request.stops,
+      speed: request.speed,
+      waypoints: [],
+      departAt: now,
+      arriveAt: now,
+      slots: []
+    };
+    Object.assign(entry, this.resolve(entry, path, now, displacedBy));
+
+    this.reservations.set(entry.routeId, entry);
+    for (const slot of entry.slots) {
+      const routes = this.cells.get(slot.key) || new Set();
+      routes.add(entry.routeId);
+      this.cells.set(slot.key, routes);
+    }
+
+    // Routes that haven't set off and rank below this one make way for it
+    const displaced = this.findConflicts(entry.routeId).filter(conflict =>
+      !this.blocks(this.reservations.get(conflict.otherRouteId)!, entry.priority, now)
+    );
+    for (const conflict of displaced) {
+      const other = this.reservations.get(conflict.otherRouteId);
+      if (other) {
+        this.emit('reservation:updated', this.place({
+          routeId: other.routeId,
+          deviceId: other.deviceId,
+          priority: other.priority,
+          stops: other.stops,
+          speed: other.speed
+        }, [reverse(conflict)]));
+      }
+    }
+
+    return this.toReservation(entry);
+  }
+
+  /**
+   * Schedule the route so it conflicts with no route it has to make way for
+   */
+  private resolve(entry: Entry, path: PlannedPath, now: number, displacedBy: RouteConflict[]): Schedule {
+    const blocking = (other: Entry) => this.blocks(other, entry.priority, now);
+    const direct = this.schedule(path, now);
+    const conflicts = this.conflicts(entry, direct.slots, blocking);
+    if (conflicts.length === 0) {
+      return direct;
+    }
+    for (const conflict of displacedBy) {
+      if (!conflicts.some(found => found.otherRouteId === conflict.otherRouteId)) {
+        conflicts.push(conflict);
+      }
+    }
+
+    const candidates: Array<{ schedule: Schedule; resolution: ConflictResolution }> = [];
+
+    for (let delay = this.waitStep; delay <= this.maxWait; delay += this.waitStep) {
+      const later = this.schedule(path, now + delay);
+      if (this.conflicts(entry, later.slots, blocking).length === 0) {
+        candidates.push({ schedule: later, resolution: 'wait' });
+        break;
+      }
+    }
+
+    // Around every cell the conflicting routes reserved
+    const avoided = new Set<string>();
+    for (const conflict of conflicts) {
+      for (const slot of this.reservations.get(conflict.otherRouteId)!.slots) {
+        avoided.add(slot.key);
+      }
+    }
+    const detour = this.planner.planRoute(entry.stops, entry.speed, cell => avoided.has(cellKey(cell)));
+    if (detour) {
+      const around = this.schedule(detour, now);
+      if (this.conflicts(entry, around.slots, blocking).length === 0) {
+        candidates.push({ schedule: around, resolution: 'reroute' });
+      }
+    }
+
+    if (candidates.length === 0) {
+      // Wait until every route it has to make way for has cleared its cells
+      let clear = now;
+      for (const slot of direct.slots) {
+        for (const routeId of this.cells.get(slot.key) || []) {
+          const other = this.reservations.get(routeId)!;
+          if (routeId !== entry.routeId && blocking(other)) {
+            for (const taken of other.slots) {
+              if (taken.key === slot.key) {
+                clear = Math.max(clear, taken.to + this.clearance);
+              }
+            }
+          }
+        }
+      }
+      candidates.push({ schedule: this.schedule(path, clear + 1), resolution: 'wait' });
+    }
+
+    const best = candidates.reduce((a, b) => (b.schedule.arriveAt < a.schedule.arriveAt ? b : a));
+    for (const conflict of conflicts) {
+      this.emit('route:conflict', {
+        ...conflict,
+        resolution: best.resolution,
+        delay: best.schedule.departAt - now
+      });
+    }
+    return best.schedule;
+  }
+
+  /**
+   * Whether a route of `priority` has to make way for `other`: it ranks at
+   * least as high or is already under way
+   */
+  private blocks(other: Entry, priority: TaskPriority, now: number): boolean {
+    return PRIORITY_RANK[other.priority] >= PRIORITY_RANK[priority] || other.departAt <= now;
+  }
+
+  /**
+   * First conflict with each other reservation `include` accepts
+   */
+  private conflicts(entry: Entry, slots: Slot[], include: (other: Entry) => boolean): RouteConflict[] {
+    const found = new Map<string, RouteConflict>();
+
+    for (const slot of slots) {
+      for (const routeId of this.cells.get(slot.key) || []) {
+        const other = this.reservations.get(routeId)!;
+        if (routeId === entry.routeId || found.has(routeId) || !include(other)) {
+          continue;
+        }
+
+        const taken = other.slots.find(candidate =>
+          candidate.key === slot.key &&
+          slot.from < candidate.to + this.clearance &&
+          candidate.from < slot.to + this.clearance
+        );
+        if (taken) {
+          found.set(routeId, {
+            routeId: entry.routeId,
+            deviceId: entry.deviceId,
+            priority: entry.priority,
+            otherRouteId: other.routeId,
+            otherDeviceId: other.deviceId,
+            otherPriority: other.priority,
+            location: this.planner.getMap().toLocation(slot.cell),
+            at: Math.max(slot.from, taken.from)
+          });
+        }
+      }
+    }
+
+    return Array.from(found.values());
+  }
+
+  /**
+   * The cells the path passes and when, setting off at `departAt`
+   */
+  private schedule(path: PlannedPath, departAt: number): Schedule {
+    const map = this.planner.getMap();
+    const step = map.resolution / 2;
+    const slots: Slot[] = [];
+
+    const enter = (point: Location, time: number) => {
+      const cell = map.toCell(point);
+      if (!cell) {
+        return;
+      }
+      const key = cellKey(cell);
+      const last = slots[slots.length - 1];
+      if (last && last.key === key) {
+        last.to = time;
+        return;
+      }
+      if (last) {
+        last.to = time;
+      }
+      slots.push({ key, cell, from: time, to: time });
+    };
+
+    const { waypoints, times } = path;
+    enter(waypoints[0], departAt);
+    for (let i = 1; i < waypoints.length; i++) {
+      const [a, b] = [waypoints[i - 1], waypoints[i]];
+      const [start, end] = [departAt + times[i - 1], departAt + times[i]];
+      if ((a.floor ?? 0) !== (b.floor ?? 0)) {
+        // Riding between floors: the stop it left is held until it arrives
+        enter(b, end);
+        continue;
+      }
+
+      const samples = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step));
+      for (let s = 1; s <= samples; s++) {
+        const t = s / samples;
+        enter({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, floor: b.floor }, start + (end - start) * t);
+      }
+    }
+
+    const arriveAt = departAt + path.travelTime;
+    if (slots.length > 0) {
+      slots[slots.length - 1].to = arriveAt + this.dwellTime;
+    }
+    return { waypoints, departAt, arriveAt, slots };
+  }
+
+  private toReservation(entry: Entry): Reservation {
+    return {
+      routeId: entry.routeId,
+      deviceId: entry.deviceId,
+      priority: entry.priority,
+      stops: entry.stops,
+      waypoints: entry.waypoints,
+      departAt: entry.departAt,
+      arriveAt: entry.arriveAt
+    };
+  }
+}
+
+/**
+ * The same conflict seen from the other route
+ */
+function reverse(conflict: RouteConflict): RouteConflict {
+  return {
+    ...conflict,
+    routeId: conflict.otherRouteId,
+    deviceId: conflict.otherDeviceId,
+    priority: conflict.otherPriority,
+    otherRouteId: conflict.routeId,
+    otherDeviceId: conflict.deviceId,
+    otherPriority: conflict.priority
+  };
+}
+
+function cellKey(cell: GridCell): string {
+  return `${cell.floor}:${cell.cx},${cell.cy}`;
+}
@@ -0,0 +1,143 @@
+/**
+ * In-Memory Transport
+ *
+ * In-process transport for tests and single-host simulations.
+ * Transports attached to the same InMemoryNetwork can see each other.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { NetworkMessage, NetworkTransport } from './NetworkTransport';
+
+export class InMemoryNetwork {
+  private nodes: Map<string, InMemoryTransport> = new Map();
+
+  register(transport: InMemoryTransport): void {
+    if (this.nodes.has(transport.deviceId)) {
+      throw new Error(`Device already registered on network: ${transport.deviceId}`);
+    }
+
+    for (const peer of this.nodes.values()) {
+      peer.notifyPeer('peer:connected', transport.deviceId);
+      transport.notifyPeer('peer:connected', peer.deviceId);
+    }
+
+    this.nodes.set(transport.deviceId, transport);
+  }
+
+  unregister(transport: InMemoryTransport): void {
+    if (this.nodes.get(transport.deviceId) !== transport) {
+      return;
+    }
+
+    this.nodes.delete(transport.deviceId);
+    for (const peer of this.nodes.values()) {
+      peer.notifyPeer('peer:disconnected', transport.deviceId);
+    }
+  }
+
+  getNodeIds(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  /**
+   * Deliver a message to its recipient, or to every other node if it
+   * has no recipient. Payloads are serialized so that instances never
+   * share object references.
+   */
+  async deliver(message: NetworkMessage): Promise<boolean> {
+    const wire = JSON.stringify(message);
+    await Promise.resolve();
+
+    if (message.to) {
+      const target = this.nodes.get(message.to);
+      if (!target) {
+        return false;
+      }
+      target.receive(JSON.parse(wire));
+      return true;
+    }
+
+    for (const node of Array.from(this.nodes.values())) {
+      if (node.deviceId !== message.from) {
+        node.receive(JSON.parse(wire));
+      }
+    }
+    return true;
+  }
+}
+
+export interface InMemoryTransportConfig {
+  deviceId: string;
+  network?: InMemoryNetwork;
+}
+
+export class InMemoryTransport extends EventEmitter implements NetworkTransport {
+  readonly deviceId: string;
+  private network: InMemoryNetwork;
+  private running: boolean = false;
+  private peers: Set<string> = new Set();
+
+  constructor(config: InMemoryTransportConfig) {
+    super();
+    this.deviceId = config.deviceId;
+    this.network = config.network ?? new InMemoryNetwork();
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.network.register(this);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    this.network.unregister(this);
+    this.peers.clear();
+  }
+
+  async send(message: NetworkMessage): Promise<void> {
+    if (!this.running) {
+      throw new Error('Transport is not running');
+    }
+
+    const delivered = await this.network.deliver(message);
+    if (!delivered) {
+      this.emit('message:dropped', message);
+    }
+  }
+
+  getPeers(): string[] {
+    return Array.from(this.peers);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /** @internal Called by InMemoryNetwork */
+  receive(message: NetworkMessage): void {
+    if (!this.running) {
+      return;
+    }
+    this.emit('message', message);
+  }
+
+  /** @internal Called by InMemoryNetwork */
+  notifyPeer(event: 'peer:connected' | 'peer:disconnected', peerId: string): void {
+    if (event === 'peer:connected') {
+      this.peers.add(peerId);
+    } else {
+      this.peers.delete(peerId);
+    }
+    this.emit(event, peerId);
+  }
+}
+
+export default InMemoryTransport;
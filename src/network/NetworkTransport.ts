@@ -0,0 +1,37 @@
+/**
+ * Network Transport
+ *
+ * Pluggable transport abstraction used by AutoGridOS to exchange
+ * tasks, bids, payments and reputation events with other devices.
+ */
+
+import EventEmitter from 'eventemitter3';
+
+export interface NetworkMessage<T = any> {
+  id: string;
+  type: string;
+  from: string;
+  to?: string;
+  payload: T;
+  timestamp: number;
+}
+
+/**
+ * A transport delivers messages between devices.
+ *
+ * Messages without a `to` field are broadcast to every connected peer.
+ * Implementations emit:
+ * - `message` - a message addressed to this device (or broadcast) arrived
+ * - `peer:connected` / `peer:disconnected` - peer membership changed
+ * - `message:dropped` - a directed message could not be delivered
+ */
+export interface NetworkTransport extends EventEmitter {
+  readonly deviceId: string;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  send(message: NetworkMessage): Promise<void>;
+  getPeers(): string[];
+  isRunning(): boolean;
+}
+
+export default NetworkTransport;
@@ -0,0 +1,496 @@
+/**
+ * Task Gossip Protocol
+ *
+ * Spreads task availability, removal and assignment changes between
+ * TaskMarketplace instances. Every change is versioned per task; peers
+ * relay updates they have not seen before (bounded by a hop limit and a
+ * message TTL) and run anti-entropy sync so late joiners catch up.
+ *
+ * Only a task's publisher changes it: records are signed by the device
+ * they originate from, and peers apply them only when that device is the
+ * task's publisher.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { v4 as uuidv4 } from 'uuid';
+import { Task, TaskStatus } from '../types';
+import { TaskMarketplace } from '../modules/TaskMarketplace';
+import { KeyRegistry } from '../modules/KeyRegistry';
+import { NetworkMessage, NetworkTransport } from './NetworkTransport';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import { DeviceKeys, canonicalJson, createDeviceKeys } from '../utils/crypto';
+
+export interface TaskRecord {
+  task: Task;
+  version: number;
+  origin: string;
+  removed: boolean;
+  updatedAt: number;
+  /** Ed25519 signature of the origin device */
+  signature?: string;
+}
+
+export interface GossipEnvelope {
+  messageId: string;
+  origin: string;
+  hops: number;
+  expiresAt: number;
+  record: TaskRecord;
+}
+
+export interface TaskDigestEntry {
+  taskId: string;
+  version: number;
+  origin: string;
+}
+
+export interface TaskGossipOptions {
+  maxHops?: number;
+  messageTtl?: number;
+  recordTtl?: number;
+  seenCacheSize?: number;
+  syncInterval?: number;
+}
+
+export interface TaskGossipConfig extends TaskGossipOptions {
+  deviceId: string;
+  transport: NetworkTransport;
+  marketplace: TaskMarketplace;
+  /** Signs the records of this device's tasks */
+  privateKey?: string;
+  /** Verifies the records of other devices' tasks */
+  keyRegistry?: KeyRegistry;
+  clock?: Clock;
+}
+
+export class TaskGossip extends EventEmitter {
+  private deviceId: string;
+  private transport: NetworkTransport;
+  private marketplace: TaskMarketplace;
+  private keys?: DeviceKeys;
+  private keyRegistry?: KeyRegistry;
+  private maxHops: number;
+  private messageTtl: number;
+  private recordTtl: number;
+  private seenCacheSize: number;
+  private syncInterval: number;
+  private records: Map<string, TaskRecord> = new Map();
+  private seen: Map<string, number> = new Map();
+  private syncTimer?: TimerHandle;
+  private clock: Clock;
+  private applyingRemote: boolean = false;
+  private running: boolean = false;
+
+  constructor(config: TaskGossipConfig) {
+    super();
+    this.deviceId = config.deviceId;
+    this.transport = config.transport;
+    this.marketplace = config.marketplace;
+    this.keys = config.privateKey ? createDeviceKeys(config.privateKey) : undefined;
+    this.keyRegistry = config.keyRegistry;
+    this.maxHops = config.maxHops ?? 6;
+    this.messageTtl = config.messageTtl ?? 60000;
+    this.recordTtl = config.recordTtl ?? 3600000;
+    this.seenCacheSize = config.seenCacheSize ?? 10000;
+    this.syncInterval = config.syncInterval ?? 30000;
+    this.clock = config.clock ?? systemClock;
+
+    this.setupMarketplaceEvents();
+    this.setupTransportEvents();
+  }
+
+  /**
+   * Start gossiping and request a full sync from connected peers
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    if (this.syncInterval > 0) {
+      this.syncTimer = this.clock.setInterval(() => {
+        this.sync().catch(error => this.emit('gossip:error', error));
+      }, this.syncInterval);
+      this.syncTimer.unref();
+    }
+
+    await this.sync();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.syncTimer) {
+      this.clock.clearTimer(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  /**
+   * Anti-entropy: send a digest of known task versions so peers can
+   * push back anything newer (or anything this device has never seen)
+   */
+  async sync(peerId?: string): Promise<void> {
+    if (!this.running || !this.transport.isRunning()) {
+      return;
+    }
+
+    this.purgeExpiredRecords();
+    await this.send('gossip:digest', { entries: this.getDigest(), reply: false }, peerId);
+  }
+
+  getRecord(taskId: string): TaskRecord | undefined {
+    return this.records.get(taskId);
+  }
+
+  getDigest(): TaskDigestEntry[] {
+    return Array.from(this.records.values()).map(record => ({
+      taskId: record.task.id,
+      version: record.version,
+      origin: record.origin
+    }));
+  }
+
+  // ==================== Local Changes ====================
+
+  private setupMarketplaceEvents(): void {
+    this.marketplace.on('task:available', (task: Task) => {
+      this.recordLocalChange(task, false);
+    });
+
+    this.marketplace.on('task:updated', (task: Task) => {
+      this.recordLocalChange(task, false);
+    });
+
+    this.marketplace.on('task:removed', (task: Task) => {
+      this.recordLocalChange(task, true);
+    });
+
+    this.marketplace.on('task:assigned', ({ task }: { task: Task }) => {
+      this.recordLocalChange(task, false);
+    });
+
+    this.marketplace.on('bid:won', (task: Task) => {
+      this.recordLocalChange(task, false);
+    });
+  }
+
+  private recordLocalChange(task: Task, removed: boolean): void {
+    // Peers only take changes to a task from its publisher
+    if (this.applyingRemote || task.publisherId !== this.deviceId) {
+      return;
+    }
+
+    const current = this.records.get(task.id);
+    this.publish(task, removed, (current?.version ?? 0) + 1);
+  }
+
+  private publish(task: Task, removed: boolean, version: number): void {
+    const record: TaskRecord = {
+      task: { ...task },
+      version,
+      origin: this.deviceId,
+      removed,
+      updatedAt: this.clock.now()
+    };
+    if (this.keys) {
+      record.signature = this.keys.sign(encodeRecord(record));
+    }
+
+    this.records.set(task.id, record);
+
+    if (!this.running) {
+      return;
+    }
+
+    const envelope: GossipEnvelope = {
+      messageId: uuidv4(),
+      origin: this.deviceId,
+      hops: 0,
+      expiresAt: this.clock.now() + this.messageTtl,
+      record
+    };
+
+    this.markSeen(envelope.messageId, envelope.expiresAt);
+    this.send('gossip:task', envelope).catch(error => this.emit('gossip:error', error));
+  }
+
+  // ==================== Remote Changes ====================
+
+  private setupTransportEvents(): void {
+    this.transport.on('message', (message: NetworkMessage) => {
+      if (!this.running || message.from === this.deviceId) {
+        return;
+      }
+
+      // A malformed message from a peer is skipped, never thrown
+      try {
+        this.handleMessage(message);
+      } catch (error) {
+        this.emit('gossip:error', error);
+      }
+    });
+
+    this.transport.on('peer:connected', (peerId: string) => {
+      this.sync(peerId).catch(error => this.emit('gossip:error', error));
+    });
+  }
+
+  private handleMessage(message: NetworkMessage): void {
+    const payload = message.payload;
+
+    switch (message.type) {
+      case 'gossip:task':
+        if (!isEnvelope(payload)) {
+          throw new Error('Malformed gossip envelope');
+        }
+        this.handleEnvelope(payload);
+        break;
+      case 'gossip:digest':
+        if (!isObject(payload) || !Array.isArray(payload.entries) || !payload.entries.every(isDigestEntry)) {
+          throw new Error('Malformed gossip digest');
+        }
+        this.handleDigest(message.from, { entries: payload.entries, reply: payload.reply === true });
+        break;
+      case 'gossip:records':
+        if (!isObject(payload) || !Array.isArray(payload.records)) {
+          throw new Error('Malformed gossip records');
+        }
+        for (const record of payload.records) {
+          if (isRecord(record)) {
+            this.applyRecord(record);
+          }
+        }
+        break;
+    }
+  }
+
+  private handleEnvelope(envelope: GossipEnvelope): void {
+    if (this.seen.has(envelope.messageId)) {
+      this.emit('gossip:duplicate', envelope.messageId);
+      return;
+    }
+
+    this.markSeen(envelope.messageId, envelope.expiresAt);
+
+    if (envelope.expiresAt < this.clock.now()) {
+      this.emit('gossip:expired', envelope.messageId);
+      return;
+    }
+
+    // Forged records are neither applied nor relayed
+    if (!this.applyRecord(envelope.record)) {
+      return;
+    }
+
+    if (envelope.hops + 1 < this.maxHops) {
+      this.send('gossip:task', { ...envelope, hops: envelope.hops + 1 })
+        .catch(error => this.emit('gossip:error', error));
+    }
+  }
+
+  private handleDigest(peerId: string, digest: { entries: TaskDigestEntry[]; reply: boolean }): void {
+    const remote = new Map(digest.entries.map(entry => [entry.taskId, entry]));
+
+    const newer = Array.from(this.records.values()).filter(record => {
+      const entry = remote.get(record.task.id);
+      return !entry || this.compare(record, entry) > 0;
+    });
+
+    if (newer.length > 0) {
+      this.send('gossip:records', { records: newer }, peerId)
+        .catch(error => this.emit('gossip:error', error));
+    }
+
+    if (digest.reply) {
+      return;
+    }
+
+    const missing = digest.entries.some(entry => {
+      const local = this.records.get(entry.taskId);
+      return !local || this.compare(local, entry) < 0;
+    });
+
+    if (missing) {
+      this.send('gossip:digest', { entries: this.getDigest(), reply: true }, peerId)
+        .catch(error => this.emit('gossip:error', error));
+    }
+  }
+
+  /**
+   * Apply a record from a peer unless this device has it already. Returns
+   * false if it is not from the task's publisher.
+   */
+  private applyRecord(record: TaskRecord): boolean {
+    if (!this.isFromPublisher(record)) {
+      this.supersede(record);
+      this.emit('gossip:rejected', record);
+      return false;
+    }
+
+    const current = this.records.get(record.task.id);
+    if (current && this.compare(current, record) >= 0) {
+      return true;
+    }
+
+    this.records.set(record.task.id, record);
+    this.applyingRemote = true;
+
+    try {
+      const task = { ...record.task };
+
+      if (record.removed) {
+        this.marketplace.removeTask(task.id);
+      } else if (task.status === TaskStatus.PENDING || task.status === TaskStatus.BIDDING) {
+        if (this.marketplace.getTask(task.id)) {
+          this.marketplace.updateTask(task);
+        } else {
+          this.marketplace.addTask(task);
+        }
+      } else if (task.assignedTo) {
+        this.marketplace.markAssigned(task.id, task.assignedTo);
+      } else {
+        this.marketplace.removeTask(task.id);
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+
+    this.emit('gossip:applied', record);
+    return true;
+  }
+
+  /**
+   * Whether a record comes from the publisher of its task: its origin, and
+   * with a key registry its signature, must be the publisher's, and it may
+   * not hand a known task to another publisher. This device's own tasks
+   * only change here.
+   */
+  private isFromPublisher(record: TaskRecord): boolean {
+    const { task } = record;
+    const known = this.records.get(task.id)?.task ?? this.marketplace.getTask(task.id);
+
+    if (record.origin !== task.publisherId || task.publisherId === this.deviceId) {
+      return false;
+    }
+    if (known && known.publisherId !== task.publisherId) {
+      return false;
+    }
+    if (!this.keyRegistry) {
+      return true;
+    }
+    return record.signature !== undefined &&
+      this.keyRegistry.verify(record.origin, encodeRecord(record), record.signature);
+  }
+
+  /**
+   * A publisher restored from storage counts versions from scratch, so
+   * peers may still hold an older state of its task under a higher
+   * version: republish the current state above it
+   */
+  private supersede(record: TaskRecord): void {
+    const current = this.records.get(record.task.id);
+    if (record.origin === this.deviceId && current?.origin === this.deviceId && this.compare(current, record) < 0) {
+      this.publish(current.task, current.removed, record.version + 1);
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * Order two versions of a task; origin breaks ties deterministically
+   */
+  private compare(a: { version: number; origin: string }, b: { version: number; origin: string }): number {
+    if (a.version !== b.version) {
+      return a.version - b.version;
+    }
+    return a.origin < b.origin ? -1 : a.origin > b.origin ? 1 : 0;
+  }
+
+  private markSeen(messageId: string, expiresAt: number): void {
+    this.seen.set(messageId, expiresAt);
+
+    if (this.seen.size > this.seenCacheSize) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest !== undefined) {
+        this.seen.delete(oldest);
+      }
+    }
+  }
+
+  private purgeExpiredRecords(): void {
+    const cutoff = this.clock.now() - this.recordTtl;
+
+    for (const [taskId, record] of this.records.entries()) {
+      const open = !record.removed &&
+        (record.task.status === TaskStatus.PENDING || record.task.status === TaskStatus.BIDDING);
+      if (!open && record.updatedAt < cutoff) {
+        this.records.delete(taskId);
+      }
+    }
+
+    const now = this.clock.now();
+    for (const [messageId, expiresAt] of this.seen.entries()) {
+      if (expiresAt < now) {
+        this.seen.delete(messageId);
+      }
+    }
+  }
+
+  private async send(type: string, payload: any, to?: string): Promise<void> {
+    await this.transport.send({
+      id: uuidv4(),
+      type,
+      from: this.deviceId,
+      to,
+      payload,
+      timestamp: this.clock.now()
+    });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecord(value: unknown): value is TaskRecord {
+  return isObject(value) &&
+    isObject(value.task) &&
+    typeof value.task.id === 'string' &&
+    typeof value.task.publisherId === 'string' &&
+    Number.isFinite(value.version) &&
+    typeof value.origin === 'string' &&
+    typeof value.removed === 'boolean' &&
+    Number.isFinite(value.updatedAt);
+}
+
+function isEnvelope(value: unknown): value is GossipEnvelope {
+  return isObject(value) &&
+    typeof value.messageId === 'string' &&
+    Number.isInteger(value.hops) &&
+    Number.isFinite(value.expiresAt) &&
+    isRecord(value.record);
+}
+
+function isDigestEntry(value: unknown): value is TaskDigestEntry {
+  return isObject(value) &&
+    typeof value.taskId === 'string' &&
+    Number.isFinite(value.version) &&
+    typeof value.origin === 'string';
+}
+
+/**
+ * The signed part of a record
+ */
+function encodeRecord(record: TaskRecord): string {
+  return canonicalJson({
+    task: record.task,
+    version: record.version,
+    origin: record.origin,
+    removed: record.removed,
+    updatedAt: record.updatedAt
+  });
+}
+
+export default TaskGossip;
@@ -0,0 +1,316 @@
+/**
+ * TCP Transport
+ *
+ * Network transport for real deployments. Devices listen on a TCP port
+ * and dial the configured nodes; messages are exchanged as
+ * newline-delimited JSON. When `encryption` is enabled the same protocol
+ * runs over TLS.
+ */
+
+import EventEmitter from 'eventemitter3';
+import * as net from 'net';
+import * as tls from 'tls';
+import { v4 as uuidv4 } from 'uuid';
+import { NetworkConfig } from '../types';
+import { NetworkMessage, NetworkTransport } from './NetworkTransport';
+
+export interface TcpTransportConfig extends NetworkConfig {
+  deviceId: string;
+  host?: string;
+  reconnectInterval?: number;
+  /** Bytes a peer may send without a newline before it is disconnected, default 1 MiB */
+  maxMessageSize?: number;
+  tls?: {
+    key: string | Buffer;
+    cert: string | Buffer;
+    ca?: string | Buffer | Array<string | Buffer>;
+    rejectUnauthorized?: boolean;
+  };
+}
+
+const HELLO = 'transport:hello';
+
+export class TcpTransport extends EventEmitter implements NetworkTransport {
+  readonly deviceId: string;
+  private config: TcpTransportConfig;
+  private server?: net.Server;
+  private sockets: Set<net.Socket> = new Set();
+  private peers: Map<string, net.Socket> = new Map();
+  private reconnectTimers: Set<NodeJS.Timeout> = new Set();
+  private running: boolean = false;
+
+  constructor(config: TcpTransportConfig) {
+    super();
+    this.deviceId = config.deviceId;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    if (this.config.encryption && !this.config.tls) {
+      throw new Error('TLS credentials are required when encryption is enabled');
+    }
+
+    this.running = true;
+
+    if (this.config.port !== undefined) {
+      await this.listen(this.config.port);
+    }
+
+    const addresses = new Set([
+      ...(this.config.bootstrapNodes || []),
+      ...this.config.nodes
+    ]);
+
+    await Promise.all(Array.from(addresses).map(address => this.dial(address)));
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+
+    for (const timer of this.reconnectTimers) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    this.peers.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = undefined;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  async send(message: NetworkMessage): Promise<void> {
+    if (!this.running) {
+      throw new Error('Transport is not running');
+    }
+
+    if (message.to) {
+      const socket = this.peers.get(message.to);
+      if (!socket) {
+        this.emit('message:dropped', message);
+        return;
+      }
+      this.write(socket, message);
+      return;
+    }
+
+    for (const socket of this.peers.values()) {
+      this.write(socket, message);
+    }
+  }
+
+  getPeers(): string[] {
+    return Array.from(this.peers.keys());
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Port the server is listening on (useful when configured with port 0)
+   */
+  getPort(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  private listen(port: number): Promise<void> {
+    const onConnection = (socket: net.Socket) => this.attach(socket);
+    const options = this.config.tls;
+
+    this.server = this.config.encryption && options
+      ? tls.createServer({
+          key: options.key,
+          cert: options.cert,
+          ca: options.ca,
+          requestCert: !!options.ca,
+          rejectUnauthorized: options.rejectUnauthorized ?? !!options.ca
+        }, onConnection)
+      : net.createServer(onConnection);
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, this.config.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  private dial(address: string): Promise<void> {
+    const [host, portText] = address.includes(':')
+      ? [address.slice(0, address.lastIndexOf(':')), address.slice(address.lastIndexOf(':') + 1)]
+      : [address, String(this.config.port ?? 0)];
+    const port = Number(portText);
+    const options = this.config.tls;
+
+    return new Promise(resolve => {
+      const socket = this.config.encryption && options
+        ? tls.connect({
+            host,
+            port,
+            key: options.key,
+            cert: options.cert,
+            ca: options.ca,
+            rejectUnauthorized: options.rejectUnauthorized ?? true
+          })
+        : net.connect({ host, port });
+
+      const connectEvent = this.config.encryption ? 'secureConnect' : 'connect';
+
+      socket.once(connectEvent, () => {
+        this.attach(socket, address);
+        resolve();
+      });
+
+      socket.once('error', (error) => {
+        if (!this.sockets.has(socket)) {
+          this.emit('transport:error', { address, error });
+          this.scheduleReconnect(address);
+          resolve();
+        }
+      });
+    });
+  }
+
+  private scheduleReconnect(address: string): void {
+    if (!this.running || !this.config.reconnectInterval) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.reconnectTimers.delete(timer);
+      if (this.running) {
+        void this.dial(address);
+      }
+    }, this.config.reconnectInterval);
+    this.reconnectTimers.add(timer);
+  }
+
+  private attach(socket: net.Socket, dialedAddress?: string): void {
+    this.sockets.add(socket);
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    let peerId: string | undefined;
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line.trim()) continue;
+
+        let message: unknown;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          message = undefined;
+        }
+        if (!isMessage(message)) {
+          this.emit('transport:error', { peerId, error: new Error('Malformed message') });
+          continue;
+        }
+
+        if (message.type === HELLO) {
+          // A socket speaks for one device, named once
+          if (peerId !== undefined) {
+            continue;
+          }
+
+          // The device's traffic stays on the socket it already has
+          const existing = this.peers.get(message.from);
+          if (existing && existing !== socket && !existing.destroyed) {
+            this.emit('transport:error', { peerId: message.from, error: new Error('Device is already connected') });
+            buffer = '';
+            socket.destroy();
+            return;
+          }
+
+          peerId = message.from;
+          this.peers.set(peerId, socket);
+          this.emit('peer:connected', peerId);
+          continue;
+        }
+
+        // Messages only count as from the device that said hello on this socket
+        if (peerId === undefined || message.from !== peerId) {
+          this.emit('transport:error', { peerId, error: new Error('Message from unidentified sender') });
+          continue;
+        }
+
+        if (message.to && message.to !== this.deviceId) {
+          continue;
+        }
+
+        this.emit('message', message);
+      }
+
+      // What is left is an unfinished line
+      if (buffer.length > (this.config.maxMessageSize ?? 1024 * 1024)) {
+        this.emit('transport:error', { peerId, error: new Error('Message too large') });
+        buffer = '';
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error) => {
+      this.emit('transport:error', { peerId, error });
+    });
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      if (peerId && this.peers.get(peerId) === socket) {
+        this.peers.delete(peerId);
+        this.emit('peer:disconnected', peerId);
+      }
+      if (dialedAddress) {
+        this.scheduleReconnect(dialedAddress);
+      }
+    });
+
+    this.write(socket, {
+      id: uuidv4(),
+      type: HELLO,
+      from: this.deviceId,
+      payload: {},
+      timestamp: Date.now()
+    });
+  }
+
+  private write(socket: net.Socket, message: NetworkMessage): void {
+    if (!socket.destroyed) {
+      socket.write(JSON.stringify(message) + '\n');
+    }
+  }
+}
+
+/**
+ * Whether a parsed line has the fields every message is routed by
+ */
+function isMessage(value: unknown): value is NetworkMessage {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as NetworkMessage).type === 'string' &&
+    typeof (value as NetworkMessage).from === 'string';
+}
+
+export default TcpTransport;
@@ -0,0 +1,740 @@
+/**
+ * Fleet Simulator
+ *
+ * Runs a fleet of warehouse and service robots through the full
+ * marketplace loop on virtual time: a dispatcher publishes tasks as they
+ * arrive, robots bid with a pricing strategy, the auction awards, the
+ * robot adapters execute and submit proofs, and the dispatcher pays and
+ * rates them. Hours of operation run in seconds and the same seed always
+ * gives the same run, so pricing strategies and fleet sizes can be
+ * compared before buying any hardware.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { AutoGridOS } from '../core/AutoGridOS';
+import { FleetManager } from '../modules/FleetManager';
+import { WarehouseCapability, WarehouseRobotAdapter } from '../adapters/WarehouseRobotAdapter';
+import { ServiceCapability, ServiceRobotAdapter, ServiceType } from '../adapters/ServiceRobotAdapter';
+import { InMemoryNetwork, InMemoryTransport } from '../network/InMemoryTransport';
+import { AuctionResult } from '../modules/AuctionEngine';
+import { BiddingStrategy } from '../modules/BiddingStrategy';
+import { DeadlineExpiry } from '../modules/DeadlineScheduler';
+import { BidStrategy, DeviceType, FleetMetrics, Payment, Proof, Task, TaskPriority, TaskStatus } from '../types';
+import { TimerHandle, VirtualClock } from '../utils/clock';
+
+export type Distribution =
+  | { kind: 'constant'; value: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'exponential'; mean: number }
+  | { kind: 'normal'; mean: number; stdDev: number };
+
+export interface SimulationMap {
+  /** Meters along x */
+  width: number;
+  /** Meters along y */
+  height: number;
+  floors: number;
+}
+
+export type RobotKind = 'warehouse' | 'service';
+
+export interface BidContext {
+  task: Task;
+  deviceId: string;
+  kind: RobotKind;
+  /** Meters from the robot to where the task starts */
+  distance: number;
+  /** Seconds, from the distance and the robot's speed */
+  estimatedDuration: number;
+  batteryLevel: number;
+  reputation: number;
+}
+
+/**
+ * The name of a built-in bid strategy, a `BiddingStrategy` (shared by the
+ * robots of a group), or a function returning the price to bid (capped at
+ * the task's reward) or undefined to pass
+ */
+export type PricingStrategy = BidStrategy | BiddingStrategy | ((context: BidContext) => number | undefined);
+
+export interface RobotGroupSpec {
+  kind: RobotKind;
+  count: number;
+  /** Defaults to every capability the kind's task types need */
+  capabilities?: Array<WarehouseCapability | ServiceCapability>;
+  pricing?: PricingStrategy;
+  /** Device ids are `${idPrefix}-${n}`, `${kind}-${n}` by default */
+  idPrefix?: string;
+  serviceType?: ServiceType;
+  maxSpeed?: number;
+  batteryCapacity?: number;
+}
+
+export type PayloadGenerator = (random: () => number, map: SimulationMap) => Record<string, any>;
+
+export interface TaskArrivalSpec {
+  type: string;
+  /** Milliseconds between two arrivals */
+  interval: Distribution;
+  reward: Distribution;
+  /** Milliseconds from arrival; 30 minutes by default */
+  deadline?: number;
+  priority?: TaskPriority;
+  /** Defaults to a generator for the built-in task types */
+  payload?: PayloadGenerator;
+}
+
+export interface FleetSimulatorConfig {
+  robots: RobotGroupSpec[];
+  arrivals: TaskArrivalSpec[];
+  /** Milliseconds of virtual time to simulate */
+  duration: number;
+  map?: Partial<SimulationMap>;
+  fleetId?: string;
+  seed?: number;
+  /** Funds of the dispatcher publishing the tasks */
+  budget?: number;
+  biddingWindow?: number;
+  /** Milliseconds between two reputation samples; hourly by default */
+  sampleInterval?: number;
+  /** Rating (0-5) the dispatcher gives for a task verified `elapsed` ms after it was published */
+  rate?: (task: Task, elapsed: number) => number;
+  clock?: VirtualClock;
+}
+
+export interface TaskCounts {
+  published: number;
+  assigned: number;
+  completed: number;
+  /** Awarded, but not completed in time */
+  failed: number;
+  /** Nobody bid before the auction closed */
+  unassigned: number;
+}
+
+export interface RobotReport {
+  deviceId: string;
+  kind: RobotKind;
+  tasksCompleted: number;
+  tasksFailed: number;
+  revenue: number;
+  /** Share of the simulated time spent on tasks, 0-1 */
+  utilization: number;
+  /** Meters driven */
+  distance: number;
+  /** Percentage points of battery drained */
+  batteryUsed: number;
+  /** batteryUsed as a share of the battery capacity */
+  energyUsed: number;
+  charges: number;
+  reputation: number;
+}
+
+export interface ReputationSample {
+  timestamp: number;
+  scores: Record<string, number>;
+}
+
+export interface FleetSimulationReport {
+  startTime: number;
+  endTime: number;
+  metrics: FleetMetrics;
+  tasks: TaskCounts;
+  robots: RobotReport[];
+  reputation: ReputationSample[];
+}
+
+interface SimulatedRobot {
+  deviceId: string;
+  kind: RobotKind;
+  adapter: WarehouseRobotAdapter | ServiceRobotAdapter;
+  os: AutoGridOS;
+  pricing: PricingStrategy;
+  speed: number;
+  batteryCapacity: number;
+  busySince?: number;
+  busyTime: number;
+  pendingBid?: string;
+  tasksFailed: number;
+  distance: number;
+  lastBattery: number;
+  batteryUsed: number;
+  charges: number;
+}
+
+const TASK_TYPES: Record<RobotKind, string[]> = {
+  warehouse: ['transport', 'picking', 'sorting'],
+  service: ['delivery', 'cleaning', 'patrol', 'interaction']
+};
+
+const DEFAULT_CAPABILITIES: Record<RobotKind, Array<WarehouseCapability | ServiceCapability>> = {
+  warehouse: ['transport', 'picking', 'sorting'],
+  service: ['navigation', 'delivery', 'cleaning', 'patrol', 'customer-interaction']
+};
+
+export class FleetSimulator extends EventEmitter {
+  private config: FleetSimulatorConfig;
+  private clock: VirtualClock;
+  private map: SimulationMap;
+  private random: () => number;
+  private network: InMemoryNetwork = new InMemoryNetwork();
+  private dispatcher: AutoGridOS;
+  private fleet: FleetManager;
+  private robots: Map<string, SimulatedRobot> = new Map();
+  private payloads: Map<TaskArrivalSpec, PayloadGenerator> = new Map();
+
+  private tasks: Map<string, Task> = new Map();
+  private openAuctions: Set<string> = new Set();
+  private counts: TaskCounts = { published: 0, assigned: 0, completed: 0, failed: 0, unassigned: 0 };
+  private taskTimes: number[] = [];
+  private samples: ReputationSample[] = [];
+  private timers: TimerHandle[] = [];
+  private startTime: number = 0;
+  private running: boolean = false;
+
+  constructor(config: FleetSimulatorConfig) {
+    super();
+    this.config = config;
+    this.clock = config.clock ?? new VirtualClock();
+    this.map = { width: 100, height: 100, floors: 1, ...config.map };
+    this.random = createRandom(config.seed ?? 1);
+
+    for (const arrival of config.arrivals) {
+      this.payloads.set(arrival, arrival.payload ?? defaultPayload(arrival.type));
+    }
+
+    this.dispatcher = new AutoGridOS({
+      deviceId: 'dispatcher',
+      deviceType: DeviceType.CUSTOM,
+      privateKey: 'dispatcher-key',
+      capabilities: [],
+      initialBalance: config.budget ?? 1000000,
+      transport: new InMemoryTransport({ deviceId: 'dispatcher', network: this.network }),
+      auction: { biddingWindow: config.biddingWindow ?? 5000 },
+      clock: this.clock
+    });
+
+    const deviceIds: string[] = [];
+    for (const group of config.robots) {
+      for (let i = 1; i <= group.count; i++) {
+        const robot = this.createRobot(group, `${group.idPrefix ?? group.kind}-${i}`);
+        this.robots.set(robot.deviceId, robot);
+        deviceIds.push(robot.deviceId);
+      }
+    }
+
+    this.fleet = new FleetManager({
+      fleetId: config.fleetId ?? 'simulated-fleet',
+      devices: deviceIds,
+      allowInternalMarket: false,
+      allowTaskSwapping: false,
+      allowResourceSharing: false,
+      dynamicPricing: false,
+      clock: this.clock
+    });
+
+    this.registerTaskTypes();
+    this.setupDispatcher();
+  }
+
+  /**
+   * Simulate the configured duration and report on it
+   */
+  async run(): Promise<FleetSimulationReport> {
+    if (this.running) {
+      throw new Error('Simulation already running');
+    }
+    this.running = true;
+
+    try {
+      await this.dispatcher.connect();
+      for (const robot of this.robots.values()) {
+        await robot.adapter.start();
+      }
+      // Let the devices exchange keys before the first task
+      await this.clock.advance(0);
+
+      this.startTime = this.clock.now();
+      for (const arrival of this.config.arrivals) {
+        this.scheduleArrival(arrival);
+      }
+      await this.sampleReputation();
+      this.timers.push(this.clock.setInterval(() => {
+        this.sampleReputation().catch(error => this.emit('simulation:error', { error }));
+      }, this.config.sampleInterval ?? 3600000));
+
+      await this.clock.advanceTo(this.startTime + this.config.duration);
+
+      for (const timer of this.timers) {
+        this.clock.clearTimer(timer);
+      }
+      this.timers = [];
+      if (this.samples[this.samples.length - 1].timestamp < this.clock.now()) {
+        await this.sampleReputation();
+      }
+
+      return await this.report();
+    } finally {
+      for (const robot of this.robots.values()) {
+        await robot.adapter.stop();
+      }
+      await this.dispatcher.disconnect();
+      this.running = false;
+    }
+  }
+
+  getClock(): VirtualClock {
+    return this.clock;
+  }
+
+  getDispatcher(): AutoGridOS {
+    return this.dispatcher;
+  }
+
+  getRobots(): Array<WarehouseRobotAdapter | ServiceRobotAdapter> {
+    return Array.from(this.robots.values()).map(robot => robot.adapter);
+  }
+
+  // ==================== Private Methods ====================
+
+  private createRobot(group: RobotGroupSpec, deviceId: string): SimulatedRobot {
+    const floor = group.kind === 'service' ? randomFloor(this.random, this.map) : 1;
+    const common = {
+      deviceId,
+      privateKey: `${deviceId}-key`,
+      initialLocation: { ...randomPoint(this.random, this.map), floor },
+      batteryCapacity: group.batteryCapacity,
+      transport: new InMemoryTransport({ deviceId, network: this.network }),
+      clock: this.clock
+    };
+
+    const adapter = group.kind === 'warehouse'
+      ? new WarehouseRobotAdapter({
+        ...common,
+        warehouseId: this.config.fleetId ?? 'simulated-fleet',
+        capabilities: (group.capabilities ?? DEFAULT_CAPABILITIES.warehouse) as WarehouseCapability[]
+      })
+      : new ServiceRobotAdapter({
+        ...common,
+        serviceType: group.serviceType ?? 'delivery',
+        capabilities: (group.capabilities ?? DEFAULT_CAPABILITIES.service) as ServiceCapability[],
+        maxSpeed: group.maxSpeed
+      });
+
+    const robot: SimulatedRobot = {
+      deviceId,
+      kind: group.kind,
+      adapter,
+      os: adapter.getOS(),
+      pricing: group.pricing ?? 'auto',
+      // The warehouse adapter drives at a fixed 10 m/s
+      speed: group.kind === 'warehouse' ? 10 : group.maxSpeed ?? 1.5,
+      batteryCapacity: group.batteryCapacity ?? (group.kind === 'warehouse' ? 10000 : 8000),
+      busyTime: 0,
+      tasksFailed: 0,
+      distance: 0,
+      lastBattery: 100,
+      batteryUsed: 0,
+      charges: 0
+    };
+
+    if (typeof robot.pricing === 'object') {
+      robot.os.registerBiddingStrategy(robot.pricing);
+    }
+
+    this.trackRobot(robot);
+    return robot;
+  }
+
+  private trackRobot(robot: SimulatedRobot): void {
+    const { adapter, os } = robot;
+
+    os.on('task:available', () => this.offerWork(robot));
+    os.on('bid:expired', () => this.clearBid(robot));
+
+    adapter.on('task:assigned', () => {
+      robot.pendingBid = undefined;
+      robot.busySince = this.clock.now();
+    });
+
+    adapter.on('task:completed', () => this.finishWork(robot));
+    adapter.on('task:failed', () => {
+      robot.tasksFailed++;
+      this.finishWork(robot);
+    });
+
+    adapter.on('payment:received', (payment: Payment) => {
+      const task = payment.taskId ? this.tasks.get(payment.taskId) : undefined;
+      if (task) {
+        this.fleet.recordCompletion(robot.deviceId, task, payment.amount);
+      }
+    });
+
+    // Battery levels only ever drop while working and rise while charging
+    const trackBattery = ({ batteryLevel }: { batteryLevel: number }) => {
+      robot.batteryUsed += Math.max(0, robot.lastBattery - batteryLevel);
+      robot.lastBattery = batteryLevel;
+    };
+    adapter.on('navigation:started', ({ distance }: { distance: number }) => {
+      robot.distance += distance;
+    });
+    adapter.on('navigation:completed', trackBattery);
+    adapter.on('charging:progress', trackBattery);
+    adapter.on('charging:completed', () => robot.charges++);
+  }
+
+  /**
+   * Arrivals of a type the dispatcher has no definition for get a plain
+   * one, so it can publish them
+   */
+  private registerTaskTypes(): void {
+    const known = new Set(this.dispatcher.getTaskTypes().map(definition => definition.type));
+    for (const { type } of this.config.arrivals) {
+      if (!known.has(type)) {
+        known.add(type);
+        this.dispatcher.registerTaskType({
+          type,
+          requiredCapabilities: [],
+          verificationRules: { requireProof: true, requireWitness: false },
+          pricing: { basePrice: 0, variableFactors: [] }
+        });
+      }
+    }
+  }
+
+  private setupDispatcher(): void {
+    this.dispatcher.on('auction:opened', ({ taskId }) => this.openAuctions.add(taskId));
+
+    this.dispatcher.on('auction:closed', (result: AuctionResult) => {
+      this.openAuctions.delete(result.taskId);
+
+      if (result.winner) {
+        this.counts.assigned++;
+      } else {
+        this.counts.unassigned++;
+        this.dispatcher.cancelTask(result.taskId, 'no-bids')
+          .catch(error => this.emit('simulation:error', { error }));
+        this.emit('task:unassigned', this.tasks.get(result.taskId));
+      }
+
+      // Losers are free to bid on something else
+      for (const robot of this.robots.values()) {
+        if (robot.pendingBid === result.taskId && robot.deviceId !== result.winner?.deviceId) {
+          this.clearBid(robot);
+        }
+      }
+    });
+
+    this.dispatcher.on('proof:verified', (proof: Proof) => {
+      const task = this.tasks.get(proof.taskId);
+      if (!task) {
+        return;
+      }
+
+      const elapsed = this.clock.now() - task.createdAt;
+      this.counts.completed++;
+      this.taskTimes.push(elapsed);
+      this.emit('task:completed', { task, deviceId: proof.deviceId, elapsed });
+
+      const rating = (this.config.rate ?? defaultRating)(task, elapsed);
+      this.dispatcher.rateDevice(proof.deviceId, rating, task.id)
+        .catch(error => this.emit('simulation:error', { error }));
+    });
+
+    this.dispatcher.on('task:deadline-expired', ({ task, to }: DeadlineExpiry) => {
+      if (task.publisherId === 'dispatcher' && to === TaskStatus.FAILED) {
+        this.counts.failed++;
+      }
+    });
+  }
+
+  private scheduleArrival(arrival: TaskArrivalSpec): void {
+    const delay = Math.max(0, sampleDistribution(arrival.interval, this.random));
+
+    this.timers.push(this.clock.setTimeout(() => {
+      this.publish(arrival).catch(error => this.emit('simulation:error', { error }));
+      this.scheduleArrival(arrival);
+    }, delay));
+  }
+
+  private async publish(arrival: TaskArrivalSpec): Promise<void> {
+    const payload = this.payloads.get(arrival)!(this.random, this.map);
+    const reward = Math.max(0, Math.round(sampleDistribution(arrival.reward, this.random) * 100) / 100);
+
+    const task = await this.dispatcher.publishTask({
+      type: arrival.type,
+      payload,
+      maxPrice: reward,
+      deadline: this.clock.now() + (arrival.deadline ?? 1800000),
+      priority: arrival.priority
+    });
+
+    this.tasks.set(task.id, task);
+    this.counts.published++;
+    this.emit('task:published', task);
+  }
+
+  /**
+   * Bid on the oldest open task the robot can do, one bid at a time so a
+   * robot never wins two tasks at once
+   */
+  private async offerWork(robot: SimulatedRobot): Promise<void> {
+    if (robot.busySince !== undefined || robot.pendingBid) {
+      return;
+    }
+
+    const tasks = (await robot.os.getAvailableTasks())
+      .filter(task => this.openAuctions.has(task.id) && TASK_TYPES[robot.kind].includes(task.type))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const task of tasks) {
+      if (robot.busySince !== undefined || robot.pendingBid) {
+        return;
+      }
+
+      const price = await this.price(robot, task);
+      if (price === undefined) {
+        continue;
+      }
+
+      robot.pendingBid = task.id;
+      try {
+        await robot.os.submitBid(task.id, {
+          price: typeof price === 'number' ? Math.min(price, task.reward) : 'auto',
+          strategy: typeof price === 'number' ? undefined : price,
+          estimatedDuration: this.estimateDuration(robot, task)
+        });
+        return;
+      } catch (error) {
+        robot.pendingBid = undefined;
+      }
+    }
+  }
+
+  private async price(robot: SimulatedRobot, task: Task): Promise<number | BidStrategy | undefined> {
+    if (typeof robot.pricing === 'object') {
+      return robot.pricing.name;
+    }
+    if (typeof robot.pricing !== 'function') {
+      return robot.pricing;
+    }
+
+    return robot.pricing({
+      task,
+      deviceId: robot.deviceId,
+      kind: robot.kind,
+      distance: this.distanceTo(robot, task),
+      estimatedDuration: this.estimateDuration(robot, task),
+      batteryLevel: robot.adapter.getStatus().batteryLevel,
+      reputation: await robot.os.getReputation()
+    });
+  }
+
+  private clearBid(robot: SimulatedRobot): void {
+    robot.pendingBid = undefined;
+    this.offerWork(robot).catch(error => this.emit('simulation:error', { error }));
+  }
+
+  private finishWork(robot: SimulatedRobot): void {
+    if (robot.busySince !== undefined) {
+      robot.busyTime += this.clock.now() - robot.busySince;
+      robot.busySince = undefined;
+    }
+    this.offerWork(robot).catch(error => this.emit('simulation:error', { error }));
+  }
+
+  private distanceTo(robot: SimulatedRobot, task: Task): number {
+    const from = robot.os.getLocation();
+    const p = task.payload;
+    const to = p.from ?? p.location ?? p.destination ?? p.zones?.[0] ?? p.checkpoints?.[0];
+    if (!from || !to) {
+      return 0;
+    }
+    return Math.hypot(to.x - from.x, to.y - from.y);
+  }
+
+  private estimateDuration(robot: SimulatedRobot, task: Task): number {
+    return Math.ceil(this.distanceTo(robot, task) / robot.speed);
+  }
+
+  private async sampleReputation(): Promise<void> {
+    const sample: ReputationSample = { timestamp: this.clock.now(), scores: {} };
+    for (const robot of this.robots.values()) {
+      sample.scores[robot.deviceId] = await robot.os.getReputation();
+    }
+
+    this.samples.push(sample);
+    this.emit('reputation:sampled', sample);
+  }
+
+  private async report(): Promise<FleetSimulationReport> {
+    const endTime = this.clock.now();
+    const duration = Math.max(1, endTime - this.startTime);
+
+    const robots: RobotReport[] = [];
+    for (const robot of this.robots.values()) {
+      const busyTime = robot.busyTime + (robot.busySince !== undefined ? endTime - robot.busySince : 0);
+      const device = this.fleet.getDeviceInfo(robot.deviceId)!;
+      const batteryUsed = robot.batteryUsed + Math.max(0, robot.lastBattery - robot.adapter.getStatus().batteryLevel);
+
+      robots.push({
+        deviceId: robot.deviceId,
+        kind: robot.kind,
+        tasksCompleted: device.tasksCompleted,
+        tasksFailed: robot.tasksFailed,
+        revenue: device.totalRevenue,
+        utilization: Math.min(1, busyTime / duration),
+        distance: robot.distance,
+        batteryUsed,
+        energyUsed: batteryUsed / 100 * robot.batteryCapacity,
+        charges: robot.charges,
+        reputation: await robot.os.getReputation()
+      });
+    }
+
+    const metrics: FleetMetrics = {
+      ...this.fleet.getMetrics(),
+      efficiency: this.counts.published > 0 ? this.counts.completed / this.counts.published * 100 : 0,
+      avgTaskTime: this.taskTimes.length > 0
+        ? this.taskTimes.reduce((sum, time) => sum + time, 0) / this.taskTimes.length
+        : 0,
+      avgDeviceUtilization: robots.length > 0
+        ? robots.reduce((sum, robot) => sum + robot.utilization, 0) / robots.length
+        : 0
+    };
+
+    const report: FleetSimulationReport = {
+      startTime: this.startTime,
+      endTime,
+      metrics,
+      tasks: { ...this.counts },
+      robots,
+      reputation: this.samples
+    };
+
+    this.emit('simulation:completed', report);
+    return report;
+  }
+}
+
+/**
+ * Draw a value from a distribution using `random` for uniform [0, 1) numbers
+ */
+export function sampleDistribution(distribution: Distribution, random: () => number): number {
+  switch (distribution.kind) {
+    case 'constant':
+      return distribution.value;
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'exponential':
+      return -distribution.mean * Math.log(1 - random());
+    case 'normal': {
+      // Box-Muller
+      const u = 1 - random();
+      const v = random();
+      return distribution.mean + distribution.stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+  }
+}
+
+/**
+ * Seeded uniform [0, 1) generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomPoint(random: () => number, map: SimulationMap): { x: number; y: number } {
+  return {
+    x: Math.round(random() * map.width),
+    y: Math.round(random() * map.height)
+  };
+}
+
+function randomFloor(random: () => number, map: SimulationMap): number {
+  return 1 + Math.floor(random() * map.floors);
+}
+
+function randomId(random: () => number, prefix: string): string {
+  return `${prefix}-${Math.floor(random() * 1e6)}`;
+}
+
+/**
+ * Full marks when done in the first half of the deadline window, down to 3
+ * at the deadline
+ */
+function defaultRating(task: Task, elapsed: number): number {
+  const window = (task.deadline ?? task.createdAt + elapsed) - task.createdAt;
+  if (window <= 0) {
+    return 5;
+  }
+  return Math.max(3, Math.min(5, 5 - 4 * (elapsed / window - 0.5)));
+}
+
+function defaultPayload(type: string): PayloadGenerator {
+  switch (type) {
+    case 'transport':
+      return (random, map) => ({
+        from: { ...randomPoint(random, map), floor: 1 },
+        to: { ...randomPoint(random, map), floor: 1 },
+        items: [randomId(random, 'item')],
+        weight: Math.round(5 + random() * 45)
+      });
+    case 'picking':
+      return (random, map) => ({
+        orderId: randomId(random, 'order'),
+        items: Array.from({ length: 1 + Math.floor(random() * 5) }, () => ({ id: randomId(random, 'item') })),
+        location: { ...randomPoint(random, map), floor: 1 }
+      });
+    case 'sorting':
+      return (random, map) => ({
+        items: Array.from({ length: 1 + Math.floor(random() * 10) }, () => ({ id: randomId(random, 'item') })),
+        categories: ['outbound'],
+        location: { ...randomPoint(random, map), floor: 1 }
+      });
+    case 'delivery':
+      return (random, map) => {
+        const floor = randomFloor(random, map);
+        return {
+          orderId: randomId(random, 'order'),
+          items: [{ id: randomId(random, 'item'), name: 'parcel', quantity: 1 }],
+          destination: { room: `${floor}${String(Math.floor(random() * 50)).padStart(2, '0')}`, floor, ...randomPoint(random, map) }
+        };
+      };
+    case 'cleaning':
+      return (random, map) => ({
+        areaId: randomId(random, 'area'),
+        cleaningType: (['routine', 'deep', 'spot'] as const)[Math.floor(random() * 3)],
+        zones: Array.from({ length: 1 + Math.floor(random() * 3) }, () => ({
+          ...randomPoint(random, map),
+          width: 2 + Math.round(random() * 3),
+          height: 2 + Math.round(random() * 3)
+        })),
+        priority: 'normal'
+      });
+    case 'patrol':
+      return (random, map) => ({
+        checkpoints: Array.from({ length: 2 + Math.floor(random() * 3) }, () => ({
+          ...randomPoint(random, map),
+          floor: randomFloor(random, map)
+        })),
+        reportAnomalies: true
+      });
+    case 'interaction':
+      return (random, map) => ({
+        type: 'assistance',
+        location: { ...randomPoint(random, map), floor: randomFloor(random, map) }
+      });
+    default:
+      throw new Error(`No default payload for task type: ${type}`);
+  }
+}
+
+export default FleetSimulator;
@@ -0,0 +1,209 @@
+/**
+ * File Storage
+ *
+ * Durable storage backed by an append-only log of newline-delimited JSON
+ * records. Every write appends a record and is flushed to disk before it
+ * resolves, so a device that loses power comes back with everything it
+ * had written. On open the log is replayed; a record torn by a crash
+ * mid-write is dropped. The log is rewritten with only the live values
+ * once enough records have been superseded.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StorageAdapter } from './StorageAdapter';
+
+export interface FileStorageConfig {
+  path: string;
+  /** Superseded records tolerated before the log is compacted */
+  compactThreshold?: number;
+  /** Flush each write to disk before resolving */
+  fsync?: boolean;
+}
+
+interface LogRecord {
+  op: 'set' | 'delete';
+  key: string;
+  value?: any;
+}
+
+export class FileStorage implements StorageAdapter {
+  private path: string;
+  private compactThreshold: number;
+  private fsync: boolean;
+  private values: Map<string, string> = new Map();
+  private handle?: fs.FileHandle;
+  private opening?: Promise<void>;
+  private queue: Promise<void> = Promise.resolve();
+  private staleRecords: number = 0;
+
+  constructor(config: FileStorageConfig) {
+    this.path = config.path;
+    this.compactThreshold = config.compactThreshold ?? 1000;
+    this.fsync = config.fsync ?? true;
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    await this.open();
+    const value = this.values.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  async set<T = any>(key: string, value: T): Promise<void> {
+    await this.open();
+    const serialized = JSON.stringify(value);
+    if (serialized === undefined) {
+      throw new Error('Value is not serializable');
+    }
+
+    if (this.values.has(key)) {
+      this.staleRecords++;
+    }
+    this.values.set(key, serialized);
+
+    await this.append(`{"op":"set","key":${JSON.stringify(key)},"value":${serialized}}\n`);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.open();
+    if (!this.values.delete(key)) {
+      return;
+    }
+
+    // Both the old value and the tombstone are dead weight in the log
+    this.staleRecords += 2;
+    await this.append(JSON.stringify({ op: 'delete', key }) + '\n');
+  }
+
+  async keys(): Promise<string[]> {
+    await this.open();
+    return Array.from(this.values.keys());
+  }
+
+  /**
+   * Rewrite the log so it holds one record per live key
+   */
+  async compact(): Promise<void> {
+    await this.open();
+    await this.enqueue(() => this.rewrite());
+  }
+
+  async close(): Promise<void> {
+    if (!this.opening) {
+      return;
+    }
+
+    await this.opening;
+    await this.queue;
+    await this.handle?.close();
+    this.handle = undefined;
+    this.opening = undefined;
+    this.values.clear();
+  }
+
+  private open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.load();
+    }
+    return this.opening;
+  }
+
+  /**
+   * Replay the log into memory
+   */
+  private async load(): Promise<void> {
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const lines = content.split('\n');
+    // Anything after the last newline is a record that never finished writing
+    const torn = lines.pop() !== '';
+
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Corrupt storage log at line ${index + 1}: ${this.path}`);
+      }
+
+      if (this.values.has(record.key)) {
+        this.staleRecords++;
+      }
+
+      if (record.op === 'delete') {
+        this.values.delete(record.key);
+        this.staleRecords++;
+      } else {
+        this.values.set(record.key, JSON.stringify(record.value));
+      }
+    });
+
+    if (torn) {
+      await this.rewrite();
+    } else {
+      this.handle = await fs.open(this.path, 'a');
+    }
+  }
+
+  private async append(data: string): Promise<void> {
+    await this.enqueue(async () => {
+      await this.handle!.appendFile(data, 'utf8');
+      if (this.fsync) {
+        await this.handle!.sync();
+      }
+    });
+
+    if (this.staleRecords >= this.compactThreshold) {
+      await this.enqueue(() => this.rewrite());
+    }
+  }
+
+  /**
+   * Writes run one at a time, in order; a failed write rejects its own
+   * caller without blocking the ones after it
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(write);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Write the live values to a temporary file and swap it in, so the log
+   * is never left half-written
+   */
+  private async rewrite(): Promise<void> {
+    const temp = `${this.path}.tmp`;
+    const data = Array.from(this.values.entries())
+      .map(([key, value]) => `{"op":"set","key":${JSON.stringify(key)},"value":${value}}\n`)
+      .join('');
+
+    const file = await fs.open(temp, 'w');
+    try {
+      await file.writeFile(data, 'utf8');
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    await this.handle?.close();
+    await fs.rename(temp, this.path);
+    this.handle = await fs.open(this.path, 'a');
+    this.staleRecords = 0;
+  }
+}
+
+export default FileStorage;
@@ -0,0 +1,36 @@
+/**
+ * Memory Storage
+ *
+ * In-process storage for tests and simulations. Values are serialized on
+ * the way in and out so that callers never share object references with
+ * what is stored, just like with a real backend.
+ */
+
+import { StorageAdapter } from './StorageAdapter';
+
+export class MemoryStorage implements StorageAdapter {
+  private values: Map<string, string> = new Map();
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const value = this.values.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  async set<T = any>(key: string, value: T): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.values.keys());
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+export default MemoryStorage;
@@ -0,0 +1,46 @@
+/**
+ * Storage Adapter
+ *
+ * Pluggable key-value storage used to keep module state across restarts.
+ * Values are plain JSON data; modules convert their state to and from
+ * snapshots with `snapshot()` and `restore()`.
+ */
+
+export interface StorageAdapter {
+  get<T = any>(key: string): Promise<T | undefined>;
+  set<T = any>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * A module whose state can be written to storage and read back
+ */
+export interface Persistable<T = any> {
+  snapshot(): T;
+  restore(snapshot: T): void;
+}
+
+/**
+ * Write a module's current state under `key`
+ */
+export async function saveSnapshot<T>(storage: StorageAdapter, key: string, module: Persistable<T>): Promise<void> {
+  await storage.set(key, module.snapshot());
+}
+
+/**
+ * Restore a module from the state stored under `key`. Returns false and
+ * leaves the module untouched if nothing was stored.
+ */
+export async function loadSnapshot<T>(storage: StorageAdapter, key: string, module: Persistable<T>): Promise<boolean> {
+  const snapshot = await storage.get<T>(key);
+  if (snapshot === undefined) {
+    return false;
+  }
+
+  module.restore(snapshot);
+  return true;
+}
+
+export default StorageAdapter;
@@ -2,6 +2,9 @@
  * Core type definitions for AutoGrid OS
  */
 
+import type { Clock } from '../utils/clock';
+import type { JsonSchema } from '../utils/schema';
+
 export enum DeviceType {
   WAREHOUSE = 'warehouse',
   MEDICAL = 'medical',
@@ -29,6 +32,13 @@ export enum TaskPriority {
   CRITICAL = 'critical'
 }
 
+export enum AuctionFormat {
+  FIRST_PRICE = 'first-price',
+  VICKREY = 'vickrey',
+  ENGLISH = 'english',
+  DUTCH = 'dutch'
+}
+
 export interface DeviceConfig {
   deviceId: string;
   deviceType: DeviceType;
@@ -61,6 +71,21 @@ export interface Task {
   completedAt?: number;
 }
 
+/**
+ * One entry in a task's audit trail. The first entry of a task has no
+ * `from` status.
+ */
+export interface TaskTransition {
+  taskId: string;
+  from?: TaskStatus;
+  to: TaskStatus;
+  /** Device that caused the change */
+  actor: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  timestamp: number;
+}
+
 export interface TaskRequirements {
   capabilities: string[];
   minReputation?: number;
@@ -79,12 +104,24 @@ export interface Bid {
   timestamp: number;
 }
 
+export interface BundleBid {
+  id: string;
+  taskIds: string[];
+  deviceId: string;
+  price: number;
+  estimatedDuration: number;
+  reputation: number;
+  timestamp: number;
+}
+
 export interface Payment {
   id: string;
   from: string;
   to: string;
   amount: number;
   memo?: string;
+  taskId?: string;
+  nonce?: number;
   timestamp: number;
   proof?: string;
 }
@@ -96,6 +133,13 @@ export interface Proof {
   proofData: string;
   timestamp: number;
   verified: boolean;
+  signature?: string;
+  /** Result disclosed to the publisher, e.g. to feed later workflow steps */
+  output?: any;
+  /** Opens the result commitment in `proofData`; disclosed along with `output` */
+  salt?: string;
+  /** Merkle root of the execution steps; steps are disclosed one by one */
+  traceRoot?: string;
 }
 
 export interface ReputationScore {
@@ -115,28 +159,46 @@ export interface FleetConfig {
   allowTaskSwapping: boolean;
   allowResourceSharing: boolean;
   dynamicPricing: boolean;
+  clock?: Clock;
 }
 
 export interface TaskDefinition {
   type: string;
-  requiredCapabilities: string[];
+  requiredCapabilities: readonly string[];
   verificationRules: VerificationRules;
   pricing: PricingRules;
+  /** Checked against the payload of every task of this type when it is published and bid on */
+  payloadSchema?: JsonSchema;
+  /** Checked against the result of every proof for a task of this type */
+  resultSchema?: JsonSchema;
   description?: string;
 }
 
 export interface VerificationRules {
   requireProof: boolean;
+  /** Proofs count only once a quorum of witnesses attests to the work */
   requireWitness: boolean;
   minReputation?: number;
   timeout?: number;
+  /** Confirming attestations needed, default 2 */
+  witnessQuorum?: number;
+  /** Witnesses recruited, default one more than the quorum */
+  witnessCount?: number;
+  /** Meters from the task location witnesses may be, default 50 */
+  witnessRadius?: number;
+  /** Share of the task reward paid to each confirming witness, default 0.05 */
+  witnessReward?: number;
 }
 
 export interface PricingRules {
   basePrice: number;
-  variableFactors: string[];
+  variableFactors: readonly string[];
   minPrice?: number;
   maxPrice?: number;
+  auctionFormat?: AuctionFormat;
+  bidIncrement?: number;
+  priceStep?: number;
+  priceStepInterval?: number;
 }
 
 export interface NetworkConfig {
@@ -174,6 +236,7 @@ export type TaskFilter = {
   capabilities?: string[];
 };
 
-export type BidStrategy = 'competitive' | 'conservative' | 'aggressive' | 'auto';
+/** A built-in strategy or the name of a registered `BiddingStrategy` */
+export type BidStrategy = 'competitive' | 'conservative' | 'aggressive' | 'auto' | (string & {});
 
 export type EventCallback<T = any> = (data: T) => void | Promise<void>;
@@ -0,0 +1,158 @@
+/**
+ * Clock
+ *
+ * Source of time and timers for every module that acts on time, so the
+ * same code runs on the wall clock in production and on virtual time in
+ * tests and simulations.
+ *
+ * `systemClock` uses `Date.now()` and Node timers. `VirtualClock` only
+ * moves when told to: `advance(ms)` fires the due timers in order and lets
+ * the async work they start settle before firing the next one, so a
+ * 24-hour shift runs in milliseconds and always the same way.
+ */
+
+export interface TimerHandle {
+  /** Don't keep the process alive for this timer */
+  unref(): TimerHandle;
+}
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a timeout or an interval */
+  clearTimer(timer: TimerHandle): void;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearTimer: (timer) => clearTimeout(timer as NodeJS.Timeout),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+interface VirtualTimer extends TimerHandle {
+  id: number;
+  at: number;
+  interval?: number;
+  callback: () => void;
+}
+
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId: number = 0;
+
+  constructor(startTime: number = Date.now()) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.schedule(callback, ms);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    // A zero interval would never let time move on
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  clearTimer(timer: TimerHandle): void {
+    const index = this.timers.indexOf(timer as VirtualTimer);
+    if (index !== -1) {
+      this.timers.splice(index, 1);
+    }
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise(resolve => this.setTimeout(resolve, ms));
+  }
+
+  /**
+   * Move time forward, firing every timer that comes due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    await this.advanceTo(this.time + ms);
+  }
+
+  async advanceTo(time: number): Promise<void> {
+    await settle();
+
+    while (this.timers.length > 0 && this.timers[0].at <= time) {
+      const timer = this.timers.shift()!;
+      this.time = Math.max(this.time, timer.at);
+
+      if (timer.interval !== undefined) {
+        timer.at += timer.interval;
+        this.insert(timer);
+      }
+
+      timer.callback();
+      await settle();
+    }
+
+    this.time = Math.max(this.time, time);
+  }
+
+  /**
+   * Fire timers until none are left, e.g. to let a sequence of sleeps run
+   * to completion. Intervals never run out, hence the limit.
+   */
+  async runAll(maxTimers: number = 10000): Promise<void> {
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= maxTimers) {
+        throw new Error(`VirtualClock still has timers after ${maxTimers} fired`);
+      }
+      await this.advanceTo(this.timers[0].at);
+    }
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  getPendingTimers(): number {
+    return this.timers.length;
+  }
+
+  private schedule(callback: () => void, ms: number, interval?: number): VirtualTimer {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      at: this.time + Math.max(0, ms),
+      interval,
+      callback,
+      unref: () => timer
+    };
+    this.insert(timer);
+    return timer;
+  }
+
+  /**
+   * Keep timers ordered by due time, then by creation
+   */
+  private insert(timer: VirtualTimer): void {
+    let low = 0;
+    let high = this.timers.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      const other = this.timers[mid];
+      if (other.at < timer.at || (other.at === timer.at && other.id < timer.id)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.timers.splice(low, 0, timer);
+  }
+}
+
+/**
+ * Let promise chains started by a timer run until they wait on something
+ */
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,132 @@
+/**
+ * Ed25519 device keys, SHA-256 hashes and commitments built on Node's
+ * crypto module
+ */
+
+import {
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+  timingSafeEqual,
+  verify
+} from 'crypto';
+
+// DER prefix of a PKCS#8 Ed25519 private key; the 32-byte seed follows
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+// DER prefix of an SPKI Ed25519 public key; the 32-byte key follows
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface DeviceKeys {
+  /** Raw 32-byte public key, base64 encoded */
+  publicKey: string;
+  sign(data: string): string;
+}
+
+/**
+ * Derive a deterministic Ed25519 key pair from a device secret. The
+ * secret is hashed into the 32-byte seed, so any string can be used.
+ */
+export function createDeviceKeys(secret: string): DeviceKeys {
+  const seed = createHash('sha256').update(secret).digest();
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+
+  const spki = createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+
+  return {
+    publicKey: spki.subarray(ED25519_SPKI_PREFIX.length).toString('base64'),
+    sign: (data: string) => signData(data, privateKey)
+  };
+}
+
+/**
+ * Verify a base64 Ed25519 signature against a base64 raw public key
+ */
+export function verifySignature(data: string, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'base64')]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, Buffer.from(data), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Deterministic JSON encoding (sorted keys, no undefined values) so that
+ * signer and verifier hash exactly the same bytes
+ */
+export function canonicalJson(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * SHA-256 digest of a string, hex encoded
+ */
+export function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * SHA-256 over the canonical JSON encoding of a value, so equal values
+ * hash the same whatever their key order
+ */
+export function hashValue(value: any): string {
+  return sha256(canonicalJson(value ?? null));
+}
+
+export interface Commitment {
+  /** SHA-256 of the salt and the canonical encoding of the value, hex encoded */
+  commitment: string;
+  /** Random 32 bytes, hex encoded; disclosing it opens the commitment */
+  salt: string;
+}
+
+/**
+ * Commit to a value. The commitment binds the value, and the random salt
+ * keeps it hidden (even a guessable one, like `{ ok: true }`) until the
+ * salt is disclosed.
+ */
+export function createCommitment(value: any, salt: string = randomBytes(32).toString('hex')): Commitment {
+  return { commitment: sha256(`${salt}:${canonicalJson(value ?? null)}`), salt };
+}
+
+/**
+ * Check that a commitment opens to the value with the salt
+ */
+export function verifyCommitment(commitment: string, value: any, salt: string): boolean {
+  if (typeof commitment !== 'string' || typeof salt !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(createCommitment(value, salt).commitment, 'hex');
+  const actual = Buffer.from(commitment, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function signData(data: string, privateKey: KeyObject): string {
+  return sign(null, Buffer.from(data), privateKey).toString('base64');
+}
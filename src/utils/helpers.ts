@@ -3,9 +3,12 @@
  */
 
 import { Location } from '../types';
+import { sha256 } from './crypto';
+import { JsonSchema, validateSchema } from './schema';
 
 /**
- * Calculate Euclidean distance between two locations
+ * Calculate Euclidean distance between two locations. Ignores walls and
+ * floors; `PathPlanner.distance()` measures the path a robot drives.
  */
 export function calculateDistance(loc1: Location, loc2: Location): number {
   const dx = loc1.x - loc2.x;
@@ -64,7 +67,8 @@ export function getPriorityWeight(priority: string): number {
 }
 
 /**
- * Estimate task duration based on distance and complexity
+ * Estimate task duration based on distance and complexity. For routes on
+ * a facility map use `PathPlanner.estimateTaskDuration()`.
  */
 export function estimateTaskDuration(
   distance: number,
@@ -110,34 +114,26 @@ export function calculateOptimalPrice(params: {
 }
 
 /**
- * Validate task payload structure
+ * Validate task payload structure against a list of required fields or a
+ * JSON schema. `validateSchema()` tells what is wrong.
  */
-export function validateTaskPayload(payload: any, requiredFields: string[]): boolean {
-  if (typeof payload !== 'object' || payload === null) {
-    return false;
-  }
-  
-  return requiredFields.every(field => field in payload);
+export function validateTaskPayload(payload: any, schema: string[] | JsonSchema): boolean {
+  const objectSchema: JsonSchema = Array.isArray(schema) ? { required: schema } : schema;
+  return validateSchema(payload, { type: 'object', ...objectSchema }).length === 0;
 }
 
 /**
- * Create a simple hash for data integrity
+ * SHA-256 hash of a string for data integrity, hex encoded
  */
 export function simpleHash(data: string): string {
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
+  return sha256(data);
 }
 
 /**
  * Check if task deadline is approaching
  */
-export function isDeadlineApproaching(deadline: number, thresholdMs: number = 300000): boolean {
-  const timeRemaining = deadline - Date.now();
+export function isDeadlineApproaching(deadline: number, thresholdMs: number = 300000, now: number = Date.now()): boolean {
+  const timeRemaining = deadline - now;
   return timeRemaining > 0 && timeRemaining <= thresholdMs;
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Merkle Tree
+ *
+ * Binary SHA-256 hash tree over a list of leaf hashes. The root commits to
+ * every leaf, and an inclusion proof for one leaf is the sibling hash at
+ * each level up to the root, so a verifier checks a leaf without seeing
+ * the others. An odd node at the end of a level is carried up unchanged
+ * rather than paired with a copy of itself.
+ */
+
+import { sha256 } from './crypto';
+
+export class MerkleTree {
+  private levels: string[][];
+
+  /**
+   * @param leaves Leaf hashes, hex encoded
+   */
+  constructor(leaves: string[]) {
+    this.levels = [[...leaves]];
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const level = this.levels[this.levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+      }
+      this.levels.push(next);
+    }
+  }
+
+  get size(): number {
+    return this.levels[0].length;
+  }
+
+  /**
+   * Root hash; the hash of nothing for an empty tree
+   */
+  get root(): string {
+    return this.levels[this.levels.length - 1][0] ?? sha256('');
+  }
+
+  /**
+   * Sibling hashes from the leaf up to the root
+   */
+  getProof(index: number): string[] {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new Error(`Leaf index out of range: ${index}`);
+    }
+
+    const siblings: string[] = [];
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) {
+        siblings.push(level[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return siblings;
+  }
+}
+
+/**
+ * Check that `leaf` is leaf `index` of the `size`-leaf tree with this root
+ */
+export function verifyMerkleProof(root: string, leaf: string, index: number, size: number, siblings: string[]): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= size) {
+    return false;
+  }
+
+  let hash = leaf;
+  let used = 0;
+  for (let count = size; count > 1; count = Math.ceil(count / 2)) {
+    // The last node of an odd level has no sibling
+    if (index % 2 === 0 && index + 1 >= count) {
+      index = Math.floor(index / 2);
+      continue;
+    }
+    const sibling = siblings[used++];
+    if (sibling === undefined) {
+      return false;
+    }
+    hash = index % 2 === 0 ? hashNode(hash, sibling) : hashNode(sibling, hash);
+    index = Math.floor(index / 2);
+  }
+
+  return used === siblings.length && hash === root;
+}
+
+function hashNode(left: string, right: string): string {
+  return sha256(`node:${left}:${right}`);
+}
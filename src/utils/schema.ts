@@ -0,0 +1,179 @@
+/**
+ * JSON Schema
+ *
+ * The subset of JSON Schema that task types describe their payloads and
+ * results with, a validator that reports every violation with the path of
+ * the offending value, and `FromSchema`, the TypeScript type a schema
+ * describes.
+ */
+
+import { canonicalJson } from './crypto';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  /** Whether, or as what, properties not listed in `properties` are allowed */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+/**
+ * One way a value violates a schema
+ */
+export interface SchemaError {
+  /** Path of the offending value, e.g. `$.items[2].id` */
+  path: string;
+  /** Schema keyword that failed */
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Every way `value` violates `schema`; empty if it is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (keyword: string, message: string, at: string = path) =>
+    errors.push({ path: at, keyword, message: `${at} ${message}` });
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(type => matchesType(value, type))) {
+      fail('type', `must be ${types.join(' or ')}`);
+      return errors;
+    }
+  }
+
+  if (schema.const !== undefined && canonicalJson(value) !== canonicalJson(schema.const)) {
+    fail('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => canonicalJson(option) === canonicalJson(value))) {
+    fail('enum', `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail('maximum', `must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail('minLength', `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail('maxLength', `must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail('pattern', `must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail('minItems', `must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail('maxItems', `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined) {
+        fail('required', 'is required', `${path}.${field}`);
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      if (fieldValue === undefined) {
+        continue;
+      }
+      if (properties[field]) {
+        errors.push(...validateSchema(fieldValue, properties[field], `${path}.${field}`));
+      } else if (schema.additionalProperties === false) {
+        fail('additionalProperties', 'is not allowed', `${path}.${field}`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(fieldValue, schema.additionalProperties, `${path}.${field}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ==================== Type inference ====================
+
+type PrimitiveOf<T> =
+  T extends 'string' ? string :
+  T extends 'number' | 'integer' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'null' ? null :
+  T extends 'array' ? unknown[] :
+  T extends 'object' ? Record<string, unknown> :
+  unknown;
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type ObjectOf<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> } &
+      (S extends { additionalProperties: false } ? {} : { [key: string]: unknown })
+    >
+  : Record<string, unknown>;
+
+/**
+ * The type of the values a schema accepts. Declare the schema `as const`
+ * (or through `defineTaskType()`) so its literals aren't widened.
+ */
+export type FromSchema<S> =
+  S extends { const: infer C } ? C :
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'object' } | { properties: object } ? ObjectOf<S> :
+  S extends { type: 'array' } ? (S extends { items: infer I } ? FromSchema<I>[] : unknown[]) :
+  S extends { type: readonly (infer T)[] } ? PrimitiveOf<T> :
+  S extends { type: infer T } ? PrimitiveOf<T> :
+  unknown;
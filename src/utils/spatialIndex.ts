@@ -0,0 +1,230 @@
+/**
+ * Spatial Index
+ *
+ * Uniform grid over the floor plan for radius and k-nearest queries, so a
+ * lookup only visits the cells around the query point instead of scanning
+ * every entry. Each floor has its own grid: entries on another floor are
+ * never near. Queries can also be limited to one named area.
+ */
+
+import { Location } from '../types';
+import { calculateDistance } from './helpers';
+
+export interface SpatialIndexOptions {
+  /** Grid cell edge in meters; roughly the typical query radius works best */
+  cellSize?: number;
+}
+
+export interface SpatialQueryOptions<T> {
+  /** Only entries in this area */
+  area?: string;
+  filter?: (item: T) => boolean;
+}
+
+export interface SpatialMatch<T> {
+  id: string;
+  item: T;
+  location: Location;
+  distance: number;
+}
+
+interface Entry<T> {
+  id: string;
+  item: T;
+  location: Location;
+  cell: string;
+}
+
+interface FloorGrid {
+  cells: Map<string, Set<string>>;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export class SpatialIndex<T> {
+  private cellSize: number;
+  private entries: Map<string, Entry<T>> = new Map();
+  private floors: Map<number, FloorGrid> = new Map();
+
+  constructor(options: SpatialIndexOptions = {}) {
+    this.cellSize = options.cellSize ?? 10;
+    if (this.cellSize <= 0) {
+      throw new Error('Cell size must be positive');
+    }
+  }
+
+  /**
+   * Add an entry, or move it if the ID is already indexed
+   */
+  insert(id: string, location: Location, item: T): void {
+    this.remove(id);
+
+    const cx = this.toCell(location.x);
+    const cy = this.toCell(location.y);
+    const cell = `${cx},${cy}`;
+    const floor = location.floor ?? 0;
+
+    let grid = this.floors.get(floor);
+    if (!grid) {
+      grid = { cells: new Map(), minX: cx, maxX: cx, minY: cy, maxY: cy };
+      this.floors.set(floor, grid);
+    }
+    grid.minX = Math.min(grid.minX, cx);
+    grid.maxX = Math.max(grid.maxX, cx);
+    grid.minY = Math.min(grid.minY, cy);
+    grid.maxY = Math.max(grid.maxY, cy);
+
+    const ids = grid.cells.get(cell) || new Set();
+    ids.add(id);
+    grid.cells.set(cell, ids);
+
+    this.entries.set(id, { id, item, location, cell });
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    const floor = entry.location.floor ?? 0;
+    const grid = this.floors.get(floor)!;
+    const ids = grid.cells.get(entry.cell)!;
+    ids.delete(id);
+    if (ids.size === 0) {
+      grid.cells.delete(entry.cell);
+    }
+    if (grid.cells.size === 0) {
+      this.floors.delete(floor);
+    }
+
+    this.entries.delete(id);
+    return true;
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.item;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.floors.clear();
+  }
+
+  /**
+   * Entries within `radius` of the location on the same floor, nearest first
+   */
+  within(location: Location, radius: number, options: SpatialQueryOptions<T> = {}): SpatialMatch<T>[] {
+    const grid = this.floors.get(location.floor ?? 0);
+    if (!grid || radius < 0) {
+      return [];
+    }
+
+    const matches: SpatialMatch<T>[] = [];
+    const minX = Math.max(grid.minX, this.toCell(location.x - radius));
+    const maxX = Math.min(grid.maxX, this.toCell(location.x + radius));
+    const minY = Math.max(grid.minY, this.toCell(location.y - radius));
+    const maxY = Math.min(grid.maxY, this.toCell(location.y + radius));
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        this.collect(grid, cx, cy, location, options, matches, radius);
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Up to `k` entries nearest to the location on the same floor, searching
+   * outward ring by ring and stopping once no closer entry can remain
+   */
+  nearest(
+    location: Location,
+    k: number,
+    options: SpatialQueryOptions<T> & { maxDistance?: number } = {}
+  ): SpatialMatch<T>[] {
+    const grid = this.floors.get(location.floor ?? 0);
+    if (!grid || k <= 0) {
+      return [];
+    }
+
+    const maxDistance = options.maxDistance ?? Infinity;
+    const cx = this.toCell(location.x);
+    const cy = this.toCell(location.y);
+    const maxRing = Math.max(
+      cx - grid.minX, grid.maxX - cx,
+      cy - grid.minY, grid.maxY - cy
+    );
+
+    const matches: SpatialMatch<T>[] = [];
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let x = cx - ring; x <= cx + ring; x++) {
+        for (let y = cy - ring; y <= cy + ring; y++) {
+          // Only the cells on the edge of this ring are new
+          if (Math.abs(x - cx) === ring || Math.abs(y - cy) === ring) {
+            this.collect(grid, x, y, location, options, matches, maxDistance);
+          }
+        }
+      }
+
+      // Cells beyond this ring are at least `ring` cells away
+      const reach = ring * this.cellSize;
+      if (reach >= maxDistance) {
+        break;
+      }
+      if (matches.length >= k) {
+        matches.sort((a, b) => a.distance - b.distance);
+        if (matches[k - 1].distance <= reach) {
+          break;
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance).slice(0, k);
+  }
+
+  private collect(
+    grid: FloorGrid,
+    cx: number,
+    cy: number,
+    location: Location,
+    options: SpatialQueryOptions<T>,
+    matches: SpatialMatch<T>[],
+    radius: number
+  ): void {
+    const ids = grid.cells.get(`${cx},${cy}`);
+    if (!ids) {
+      return;
+    }
+
+    for (const id of ids) {
+      const entry = this.entries.get(id)!;
+      if (options.area !== undefined && entry.location.area !== options.area) {
+        continue;
+      }
+      if (options.filter && !options.filter(entry.item)) {
+        continue;
+      }
+
+      const distance = calculateDistance(location, entry.location);
+      if (distance <= radius) {
+        matches.push({ id, item: entry.item, location: entry.location, distance });
+      }
+    }
+  }
+
+  private toCell(coordinate: number): number {
+    return Math.floor(coordinate / this.cellSize);
+  }
+}
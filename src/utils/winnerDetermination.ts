@@ -0,0 +1,142 @@
+/**
+ * Winner determination for combinatorial (bundle) task auctions
+ */
+
+import { BundleBid } from '../types';
+
+export type WinnerDeterminationMethod = 'greedy' | 'exact' | 'auto';
+
+export interface WinnerDeterminationResult {
+  allocation: BundleBid[];
+  totalPrice: number;
+  surplus: number;
+  unallocated: string[];
+  method: 'greedy' | 'exact';
+}
+
+/**
+ * Select a conflict-free set of bundle bids (no task awarded twice) that
+ * maximizes the publisher's surplus: the rewards of the covered tasks
+ * minus the prices paid. Single-task bids are one-task bundles.
+ *
+ * `greedy` ranks bids by surplus per task; `exact` runs branch-and-bound
+ * and is optimal but exponential; `auto` uses exact for small instances.
+ */
+export function solveWinnerDetermination(
+  bids: BundleBid[],
+  taskRewards: Map<string, number>,
+  options: { method?: WinnerDeterminationMethod; exactLimit?: number } = {}
+): WinnerDeterminationResult {
+  const method = options.method ?? 'auto';
+  const exactLimit = options.exactLimit ?? 20;
+
+  const candidates = bids
+    .filter(bid => bid.taskIds.length > 0 && bid.taskIds.every(id => taskRewards.has(id)))
+    .map(bid => ({ bid, surplus: bundleSurplus(bid, taskRewards) }))
+    .filter(candidate => candidate.surplus >= 0)
+    .sort((a, b) =>
+      b.surplus / b.bid.taskIds.length - a.surplus / a.bid.taskIds.length ||
+      a.bid.price - b.bid.price ||
+      a.bid.timestamp - b.bid.timestamp ||
+      a.bid.deviceId.localeCompare(b.bid.deviceId)
+    );
+
+  const useExact = method === 'exact' || (method === 'auto' && candidates.length <= exactLimit);
+  const chosen = useExact
+    ? branchAndBound(candidates)
+    : greedy(candidates);
+
+  const covered = new Set(chosen.flatMap(c => c.bid.taskIds));
+
+  return {
+    allocation: chosen.map(c => c.bid),
+    totalPrice: chosen.reduce((sum, c) => sum + c.bid.price, 0),
+    surplus: chosen.reduce((sum, c) => sum + c.surplus, 0),
+    unallocated: Array.from(taskRewards.keys()).filter(id => !covered.has(id)),
+    method: useExact ? 'exact' : 'greedy'
+  };
+}
+
+/**
+ * Split a bundle price across its tasks in proportion to their rewards
+ */
+export function splitBundlePrice(bid: BundleBid, taskRewards: Map<string, number>): Map<string, number> {
+  const total = bid.taskIds.reduce((sum, id) => sum + (taskRewards.get(id) || 0), 0);
+  const shares = new Map<string, number>();
+
+  for (const taskId of bid.taskIds) {
+    const weight = total > 0 ? (taskRewards.get(taskId) || 0) / total : 1 / bid.taskIds.length;
+    shares.set(taskId, bid.price * weight);
+  }
+
+  return shares;
+}
+
+interface Candidate {
+  bid: BundleBid;
+  surplus: number;
+}
+
+function bundleSurplus(bid: BundleBid, taskRewards: Map<string, number>): number {
+  return bid.taskIds.reduce((sum, id) => sum + (taskRewards.get(id) || 0), 0) - bid.price;
+}
+
+function conflicts(bid: BundleBid, taken: Set<string>): boolean {
+  return bid.taskIds.some(id => taken.has(id));
+}
+
+function greedy(candidates: Candidate[]): Candidate[] {
+  const taken = new Set<string>();
+  const chosen: Candidate[] = [];
+
+  for (const candidate of candidates) {
+    if (!conflicts(candidate.bid, taken)) {
+      chosen.push(candidate);
+      candidate.bid.taskIds.forEach(id => taken.add(id));
+    }
+  }
+
+  return chosen;
+}
+
+function branchAndBound(candidates: Candidate[]): Candidate[] {
+  // Seed with the greedy solution so pruning starts early
+  let best = greedy(candidates);
+  let bestSurplus = best.reduce((sum, c) => sum + c.surplus, 0);
+
+  // remaining[i] = total surplus of candidates i..n, an optimistic bound
+  const remaining = new Array(candidates.length + 1).fill(0);
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    remaining[i] = remaining[i + 1] + candidates[i].surplus;
+  }
+
+  const chosen: Candidate[] = [];
+  const taken = new Set<string>();
+
+  const search = (index: number, surplus: number): void => {
+    if (surplus + remaining[index] <= bestSurplus) {
+      return;
+    }
+
+    if (index === candidates.length) {
+      best = [...chosen];
+      bestSurplus = surplus;
+      return;
+    }
+
+    const candidate = candidates[index];
+
+    if (!conflicts(candidate.bid, taken)) {
+      chosen.push(candidate);
+      candidate.bid.taskIds.forEach(id => taken.add(id));
+      search(index + 1, surplus + candidate.surplus);
+      candidate.bid.taskIds.forEach(id => taken.delete(id));
+      chosen.pop();
+    }
+
+    search(index + 1, surplus);
+  };
+
+  search(0, 0);
+  return best;
+}
@@ -0,0 +1,325 @@
+import {
+  AuctionEngine,
+  AuctionFormat,
+  AutoGridOS,
+  Bid,
+  CoordinationLayer,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  Task,
+  TaskStatus
+} from '../src';
+
+function createBid(overrides: Partial<Bid>): Bid {
+  return {
+    id: `bid-${overrides.deviceId}`,
+    taskId: 'task-1',
+    deviceId: 'robot',
+    price: 100,
+    estimatedDuration: 60,
+    reputation: 3,
+    timestamp: 1000,
+    ...overrides
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('AuctionEngine', () => {
+  let coordination: CoordinationLayer;
+  let engine: AuctionEngine;
+  let task: Task;
+
+  beforeEach(async () => {
+    coordination = new CoordinationLayer({ deviceId: 'publisher' });
+    engine = new AuctionEngine({ coordination, biddingWindow: 60000 });
+    task = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 200 });
+  });
+
+  afterEach(() => {
+    engine.dispose();
+  });
+
+  it('should move the task to BIDDING when an auction opens', async () => {
+    await engine.openAuction(task.id);
+    expect(coordination.getTask(task.id)?.status).toBe(TaskStatus.BIDDING);
+  });
+
+  it('should award the best scoring bid and assign the task', async () => {
+    await engine.openAuction(task.id);
+    engine.submitBid(createBid({ taskId: task.id, deviceId: 'cheap', price: 80 }));
+    engine.submitBid(createBid({ taskId: task.id, deviceId: 'pricey', price: 180 }));
+
+    const result = await engine.closeAuction(task.id);
+
+    expect(result.winner?.deviceId).toBe('cheap');
+    expect(result.losers.map(b => b.deviceId)).toEqual(['pricey']);
+    expect(coordination.getTask(task.id)?.assignedTo).toBe('cheap');
+    expect(coordination.getTask(task.id)?.status).toBe(TaskStatus.ASSIGNED);
+  });
+
+  it('should respect custom scoring weights', async () => {
+    const byReputation = new AuctionEngine({
+      coordination,
+      weights: { price: 0, reputation: 1, distance: 0, duration: 0 }
+    });
+    await byReputation.openAuction(task.id);
+    byReputation.submitBid(createBid({ taskId: task.id, deviceId: 'cheap', price: 80, reputation: 2 }));
+    byReputation.submitBid(createBid({ taskId: task.id, deviceId: 'trusted', price: 150, reputation: 4.8 }));
+
+    const result = await byReputation.closeAuction(task.id);
+    expect(result.winner?.deviceId).toBe('trusted');
+  });
+
+  it('should judge bidders by the publisher\'s view of their reputation', async () => {
+    const reputations: Record<string, number> = { liar: 1, trusted: 4.5 };
+    const checked = new AuctionEngine({ coordination, reputationOf: deviceId => reputations[deviceId] });
+    const gated = await coordination.publishTask({
+      type: 'transport',
+      payload: {},
+      maxPrice: 200,
+      requirements: { capabilities: [], minReputation: 4 }
+    });
+    await checked.openAuction(gated.id);
+    const rejected = jest.fn();
+    checked.on('auction:bid-rejected', rejected);
+
+    expect(checked.submitBid(createBid({ taskId: gated.id, deviceId: 'liar', price: 80, reputation: 5 }))).toBe(false);
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'insufficient-reputation' }));
+    expect(checked.submitBid(createBid({ taskId: gated.id, deviceId: 'trusted', price: 150, reputation: 0 }))).toBe(true);
+    checked.dispose();
+  });
+
+  it('should reject bids above the task reward', async () => {
+    await engine.openAuction(task.id);
+    const rejected = jest.fn();
+    engine.on('auction:bid-rejected', rejected);
+
+    expect(engine.submitBid(createBid({ taskId: task.id, price: 500 }))).toBe(false);
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'price-above-reward' }));
+  });
+
+  it('should reject bids whose numbers are not finite and non-negative', async () => {
+    await engine.openAuction(task.id);
+    const rejected = jest.fn();
+    engine.on('auction:bid-rejected', rejected);
+
+    expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'nan', price: NaN }))).toBe(false);
+    expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'text', price: '1' as any }))).toBe(false);
+    expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'forever', estimatedDuration: Infinity }))).toBe(false);
+    expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'nowhere', distance: -1 }))).toBe(false);
+    expect(rejected.mock.calls.map(([event]) => event.reason))
+      .toEqual(['invalid-price', 'invalid-price', 'invalid-duration', 'invalid-distance']);
+
+    engine.submitBid(createBid({ taskId: task.id, deviceId: 'honest', price: 150 }));
+    expect((await engine.closeAuction(task.id)).winner?.deviceId).toBe('honest');
+  });
+
+  it('should return the task to PENDING when nobody bids', async () => {
+    await engine.openAuction(task.id);
+    const result = await engine.closeAuction(task.id);
+
+    expect(result.winner).toBeUndefined();
+    expect(coordination.getTask(task.id)?.status).toBe(TaskStatus.PENDING);
+  });
+
+  it('should close automatically when the bidding window elapses', async () => {
+    jest.useFakeTimers();
+    try {
+      await engine.openAuction(task.id, { biddingWindow: 1000 });
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'solo' }));
+
+      const closed = new Promise(resolve => engine.once('auction:closed', resolve));
+      jest.advanceTimersByTime(1000);
+
+      await expect(closed).resolves.toEqual(expect.objectContaining({ taskId: task.id }));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('auction formats', () => {
+    it('should break score ties deterministically', async () => {
+      await engine.openAuction(task.id);
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'robot-b', timestamp: 1000 }));
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'robot-a', timestamp: 1000 }));
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'robot-c', timestamp: 900 }));
+
+      const ranked = engine.rankBids(engine.getAuction(task.id)!);
+      expect(ranked.map(b => b.deviceId)).toEqual(['robot-c', 'robot-a', 'robot-b']);
+    });
+
+    it('should pay the winner its own bid in a first-price auction', async () => {
+      await engine.openAuction(task.id, { format: AuctionFormat.FIRST_PRICE });
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'a', price: 90 }));
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'b', price: 120 }));
+
+      const result = await engine.closeAuction(task.id);
+      expect(result.price).toBe(90);
+    });
+
+    it('should pay the runner-up price in a Vickrey auction', async () => {
+      await engine.openAuction(task.id, { format: AuctionFormat.VICKREY });
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'a', price: 90 }));
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'b', price: 120 }));
+
+      const result = await engine.closeAuction(task.id);
+      expect(result.winner?.deviceId).toBe('a');
+      expect(result.price).toBe(120);
+    });
+
+    it('should pay the task reward to an unopposed Vickrey bidder', async () => {
+      await engine.openAuction(task.id, { format: AuctionFormat.VICKREY });
+      engine.submitBid(createBid({ taskId: task.id, deviceId: 'a', price: 90 }));
+
+      const result = await engine.closeAuction(task.id);
+      expect(result.price).toBe(200);
+    });
+
+    it('should enforce the bid increment in an English auction', async () => {
+      await engine.openAuction(task.id, { format: AuctionFormat.ENGLISH, bidIncrement: 10 });
+
+      expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'a', price: 150 }))).toBe(true);
+      expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'b', price: 145 }))).toBe(false);
+      expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'b', price: 140 }))).toBe(true);
+
+      const result = await engine.closeAuction(task.id);
+      expect(result.winner?.deviceId).toBe('b');
+      expect(result.price).toBe(140);
+    });
+
+    it('should descend the Dutch clock to the reserve and sell to the first taker', async () => {
+      jest.useFakeTimers();
+      try {
+        const prices: number[] = [];
+        engine.on('auction:price', ({ price }) => prices.push(price));
+
+        await engine.openAuction(task.id, {
+          format: AuctionFormat.DUTCH,
+          reservePrice: 150,
+          priceStep: 20,
+          priceStepInterval: 100
+        });
+
+        jest.advanceTimersByTime(500);
+        expect(prices).toEqual([180, 160, 150]);
+        expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'late', price: 170 }))).toBe(false);
+
+        const closed = new Promise<any>(resolve => engine.once('auction:closed', resolve));
+        expect(engine.submitBid(createBid({ taskId: task.id, deviceId: 'taker', price: 140 }))).toBe(true);
+
+        const result = await closed;
+        expect(result.winner.deviceId).toBe('taker');
+        expect(result.price).toBe(150);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('through AutoGridOS', () => {
+    let network: InMemoryNetwork;
+    let devices: AutoGridOS[];
+
+    function createDevice(deviceId: string): AutoGridOS {
+      const device = new AutoGridOS({
+        deviceId,
+        deviceType: DeviceType.WAREHOUSE,
+        privateKey: `${deviceId}-key`,
+        capabilities: ['transport'],
+        transport: new InMemoryTransport({ deviceId, network })
+      });
+      devices.push(device);
+      return device;
+    }
+
+    beforeEach(() => {
+      network = new InMemoryNetwork();
+      devices = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(devices.map(d => d.disconnect()));
+    });
+
+    it('should notify the winner and the losers', async () => {
+      const publisher = createDevice('publisher');
+      const winner = createDevice('worker-a');
+      const loser = createDevice('worker-b');
+      await Promise.all(devices.map(d => d.connect()));
+
+      const task = await publisher.publishTask({
+        type: 'transport',
+        payload: { from: 'A', to: 'B' },
+        maxPrice: 300
+      });
+      await flush();
+
+      await winner.submitBid(task.id, { price: 150, estimatedDuration: 60 });
+      await loser.submitBid(task.id, { price: 250, estimatedDuration: 60 });
+      await flush();
+
+      const assigned = new Promise<Task>(resolve => winner.once('task:assigned', resolve));
+      const lost = new Promise(resolve => loser.once('bid:lost', resolve));
+
+      const result = await publisher.closeAuction(task.id);
+      expect(result.winner?.deviceId).toBe('worker-a');
+
+      expect((await assigned).id).toBe(task.id);
+      await lost;
+      expect(loser.getActiveBids()).toHaveLength(0);
+      expect(winner.getActiveTasks().map(t => t.id)).toContain(task.id);
+
+      await flush();
+      expect(await loser.getAvailableTasks()).toHaveLength(0);
+    });
+
+    it('should ignore bids and awards sent in another device\'s name', async () => {
+      const publisher = createDevice('publisher');
+      const worker = createDevice('worker-a');
+      await Promise.all(devices.map(d => d.connect()));
+      const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+      await mallory.start();
+      const forge = (type: string, payload: any, to?: string) =>
+        mallory.send({ id: type, type, from: 'mallory', to, payload, timestamp: 0 });
+
+      const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 300 });
+      await flush();
+      const bid = await worker.submitBid(task.id, { price: 150, estimatedDuration: 60 });
+      await flush();
+
+      await forge('bid:submitted', { ...bid, id: 'forged', price: 299 }, 'publisher');
+      await forge('bid:lost', { taskId: task.id }, 'worker-a');
+      await forge('bid:won', { task: { ...task, id: 'fake-task', assignedTo: 'worker-a' }, bid }, 'worker-a');
+      await flush();
+
+      expect(worker.getActiveBids()).toHaveLength(1);
+      expect(worker.getActiveTasks().map(t => t.id)).not.toContain('fake-task');
+      const result = await publisher.closeAuction(task.id);
+      expect(result.winner).toEqual(expect.objectContaining({ id: bid.id, price: 150 }));
+      await mallory.stop();
+    });
+
+    it('should use the auction format of the task definition', async () => {
+      const publisher = createDevice('publisher');
+      await publisher.connect();
+
+      publisher.registerTaskType({
+        type: 'urgent-delivery',
+        requiredCapabilities: ['transport'],
+        verificationRules: { requireProof: true, requireWitness: false },
+        pricing: { basePrice: 100, variableFactors: [], auctionFormat: AuctionFormat.VICKREY }
+      });
+
+      const opened = new Promise<any>(resolve => publisher.once('auction:opened', resolve));
+      await publisher.publishTask({ type: 'urgent-delivery', payload: {}, maxPrice: 100 });
+
+      expect((await opened).format).toBe(AuctionFormat.VICKREY);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { AutoGridOS, DeviceType, Task, Payment } from '../src';
+import { AutoGridOS, DeviceType, Task, TaskStatus, Payment, validateTaskPayload } from '../src';
 
 describe('AutoGridOS', () => {
   let robot: AutoGridOS;
@@ -12,6 +12,10 @@ describe('AutoGridOS', () => {
     });
   });
 
+  afterEach(async () => {
+    await robot.disconnect();
+  });
+
   describe('initialization', () => {
     it('should create a device with correct configuration', () => {
       const config = robot.getConfig();
@@ -208,7 +212,68 @@ describe('AutoGridOS', () => {
       };
 
       robot.registerTaskType(taskDefinition);
-      expect(true).toBe(true);
+      expect(robot.getTaskTypes().map(definition => definition.type))
+        .toEqual(['transport', 'picking', 'sorting', 'inspection', 'custom-task']);
+    });
+
+    describe('publishing', () => {
+      beforeEach(async () => {
+        await robot.connect();
+        robot.registerTaskType({
+          type: 'cold-chain',
+          requiredCapabilities: ['refrigeration'],
+          verificationRules: { requireProof: true, requireWitness: false, minReputation: 3.5 },
+          pricing: { basePrice: 300, variableFactors: [], minPrice: 200, maxPrice: 400 },
+          payloadSchema: {
+            type: 'object',
+            required: ['to', 'temperature'],
+            properties: { to: { type: 'object' }, temperature: { type: 'number' } }
+          }
+        });
+      });
+
+      const payload = { to: { x: 1, y: 2 }, temperature: 4 };
+
+      it('should only publish registered task types', async () => {
+        await expect(robot.publishTask({ type: 'welding', payload: {}, maxPrice: 100 }))
+          .rejects.toThrow('Unknown task type: welding');
+        await expect(robot.publishWorkflow({ steps: [{ id: 'a', type: 'welding' }] }))
+          .rejects.toThrow('Unknown task type: welding');
+      });
+
+      it('should check the payload against the schema of the type', async () => {
+        await expect(robot.publishTask({ type: 'cold-chain', payload: { to: { x: 1, y: 2 } }, maxPrice: 300 }))
+          .rejects.toThrow('Invalid payload for task type: cold-chain');
+        await expect(robot.publishTask({ type: 'cold-chain', payload: { ...payload, temperature: 'cold' }, maxPrice: 300 }))
+          .rejects.toThrow('Invalid payload for task type: cold-chain');
+
+        expect(validateTaskPayload({ a: 1 }, ['a'])).toBe(true);
+        expect(validateTaskPayload([], [])).toBe(false);
+      });
+
+      it('should apply the capabilities, reputation and price range of the type', async () => {
+        const task = await robot.publishTask({
+          type: 'cold-chain',
+          payload,
+          maxPrice: 900,
+          requirements: { capabilities: ['lift'], minReputation: 3 }
+        });
+
+        expect(task.requirements).toEqual(expect.objectContaining({ capabilities: ['refrigeration', 'lift'], minReputation: 3.5 }));
+        expect(task.reward).toBe(400);
+        await expect(robot.publishTask({ type: 'cold-chain', payload, maxPrice: 50 }))
+          .rejects.toThrow('Invalid maxPrice for task type: cold-chain ($.maxPrice must be at least 200)');
+        expect(robot.getBalance()).toBe(600);
+      });
+
+      it('should not complete a task that requires a proof without one', async () => {
+        const task = await robot.publishTask({ type: 'cold-chain', payload, maxPrice: 300 });
+
+        await expect(robot.updateTaskStatus(task.id, TaskStatus.COMPLETED))
+          .rejects.toThrow('Task type cold-chain requires a proof; use submitProof()');
+        await expect(robot.updateTaskStatus(task.id, TaskStatus.COMPLETED, { proofId: 'made-up' }))
+          .rejects.toThrow('Task type cold-chain requires a proof; use submitProof()');
+      });
     });
   });
 });
\ No newline at end of file
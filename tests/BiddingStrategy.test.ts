@@ -0,0 +1,297 @@
+import {
+  AdaptiveStrategy,
+  AutoGridOS,
+  BiddingContext,
+  BiddingStrategy,
+  CoordinationLayer,
+  CostPlusStrategy,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  Task,
+  TaskPriority,
+  TaskMarketplace
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+async function createTask(maxPrice: number, payload: Record<string, any> = {}): Promise<Task> {
+  return new CoordinationLayer({ deviceId: 'publisher' }).publishTask({ type: 'transport', payload, maxPrice });
+}
+
+function createContext(
+  task: Task,
+  overrides: Partial<BiddingContext['device']> = {},
+  distance: number = 0,
+  clearingPrices: Record<string, number[]> = {}
+): BiddingContext {
+  return {
+    task,
+    device: { queueLength: 0, reputation: 3, ...overrides },
+    distance,
+    market: { clearingPrices }
+  };
+}
+
+describe('CostPlusStrategy', () => {
+  const strategy = new CostPlusStrategy({ speed: 2, costPerSecond: 0.1, energyPerMeter: 0.1, energyPrice: 1, margin: 0.5 });
+
+  it('should price travel time and energy plus the margin', async () => {
+    // 20 m to the pickup, 80 m to the drop-off: 50 s and 10 battery points
+    const task = await createTask(100, { from: { x: 0, y: 0 }, to: { x: 80, y: 0 } });
+
+    expect(strategy.cost(createContext(task, {}, 20))).toBeCloseTo(15);
+    expect(strategy.price(createContext(task, {}, 20))).toBeCloseTo(22.5);
+    // 10% more per queued task
+    expect(strategy.price(createContext(task, { queueLength: 2 }, 20))).toBeCloseTo(27);
+  });
+
+  it('should never bid above the reward and skip tasks that do not pay', async () => {
+    const task = await createTask(20, { from: { x: 0, y: 0 }, to: { x: 80, y: 0 } });
+    const unprofitable = await createTask(10, { from: { x: 0, y: 0 }, to: { x: 80, y: 0 } });
+
+    expect(strategy.price(createContext(task, {}, 20))).toBe(20);
+    expect(strategy.price(createContext(unprofitable, {}, 20))).toBeNull();
+  });
+
+  it('should skip tasks the battery cannot cover', async () => {
+    const task = await createTask(100, { from: { x: 0, y: 0 }, to: { x: 80, y: 0 } });
+
+    expect(strategy.price(createContext(task, { batteryLevel: 50 }, 20))).not.toBeNull();
+    expect(strategy.price(createContext(task, { batteryLevel: 5 }, 20))).toBeNull();
+    expect(new CostPlusStrategy({ minBattery: 60 }).price(createContext(task, { batteryLevel: 50 }))).toBeNull();
+  });
+
+  it('should keep its price within the recent clearing prices but above cost', async () => {
+    const task = await createTask(100, { from: { x: 0, y: 0 }, to: { x: 80, y: 0 } });
+    const priced = (transport: number[]) => strategy.price(createContext(task, {}, 20, { transport }));
+
+    // Cost 15, 22.5 with the margin
+    expect(priced([40, 50])).toBeCloseTo(22.5);
+    expect(priced([40, 50, 60, 70])).toBeCloseTo(47.5);
+    expect(priced([18, 19, 20, 21])).toBeCloseTo(20.25);
+    expect(priced([10, 12, 14])).toBeCloseTo(15);
+    // Only the latest 20 count
+    expect(priced([...Array(20).fill(90), ...Array(20).fill(20)])).toBeCloseTo(20);
+  });
+});
+
+describe('AdaptiveStrategy', () => {
+  it('should raise the margin after wins and lower it after losses', async () => {
+    const strategy = new AdaptiveStrategy({ margin: 0.2, learningRate: 0.1, targetWinRate: 0.5 });
+    const task = await createTask(100);
+
+    strategy.recordOutcome({ task, price: 10, won: true });
+    expect(strategy.getMargin('transport')).toBeCloseTo(0.25);
+
+    strategy.recordOutcome({ task, price: 10, won: false });
+    strategy.recordOutcome({ task, price: 10, won: false });
+    expect(strategy.getMargin('transport')).toBeCloseTo(0.15);
+    expect(strategy.getMargin('picking')).toBe(0.2);
+
+    for (let i = 0; i < 10; i++) {
+      strategy.recordOutcome({ task, price: 10, won: false });
+    }
+    expect(strategy.getMargin('transport')).toBe(0);
+  });
+
+  it('should settle just below a competitor that always bids the same', async () => {
+    const strategy = new AdaptiveStrategy({ speed: 1, costPerSecond: 1, energyPerMeter: 0, margin: 1, learningRate: 0.02 });
+    const task = await createTask(1000);
+    const context = createContext(task, {}, 100);
+    const competitor = 150;
+
+    for (let i = 0; i < 200; i++) {
+      const price = strategy.price(context)!;
+      strategy.recordOutcome({ task, price, won: price < competitor });
+    }
+
+    // Cost is 100: the margin hovers around the 50% the competitor leaves
+    expect(strategy.getMargin('transport')).toBeGreaterThan(0.45);
+    expect(strategy.getMargin('transport')).toBeLessThan(0.52);
+  });
+
+  it('should not undercut the market however low its margin falls', async () => {
+    const strategy = new AdaptiveStrategy({ speed: 1, costPerSecond: 1, energyPerMeter: 0, margin: 0.5, learningRate: 0.1 });
+    const task = await createTask(1000);
+    const context = createContext(task, {}, 100, { transport: [170, 150, 160, 190] });
+
+    for (let i = 0; i < 20; i++) {
+      strategy.recordOutcome({ task, price: strategy.price(context)!, won: false });
+    }
+
+    expect(strategy.getMargin('transport')).toBe(0);
+    expect(strategy.price(context)).toBeCloseTo(157.5);
+    expect(strategy.price({ ...context, market: { clearingPrices: {} } })).toBe(100);
+  });
+});
+
+describe('TaskMarketplace bidding strategies', () => {
+  let marketplace: TaskMarketplace;
+
+  beforeEach(() => {
+    marketplace = new TaskMarketplace({ deviceId: 'worker', location: { x: 0, y: 0 } });
+  });
+
+  it('should price auto bids with the named or default strategy', async () => {
+    const task = await createTask(100);
+    marketplace.addTask(task);
+    marketplace.registerStrategy({ name: 'half', price: ({ task }) => task.reward / 2 });
+
+    expect((await marketplace.submitBid(task.id, { price: 'auto', estimatedDuration: 60 })).price).toBeCloseTo(80 * 0.95);
+    expect((await marketplace.submitBid(task.id, { price: 'auto', estimatedDuration: 60, strategy: 'half' })).price).toBe(50);
+
+    marketplace.setDefaultStrategy('half');
+    expect(await marketplace.quote(task.id)).toBe(50);
+    expect(() => marketplace.setDefaultStrategy('missing')).toThrow('Unknown bidding strategy: missing');
+  });
+
+  it('should refuse to bid when the strategy skips the task', async () => {
+    const task = await createTask(100);
+    marketplace.addTask(task);
+    marketplace.registerStrategy({ name: 'never', price: () => null });
+
+    expect(await marketplace.quote(task.id, 'never')).toBeNull();
+    await expect(marketplace.submitBid(task.id, { price: 'auto', estimatedDuration: 60, strategy: 'never' }))
+      .rejects.toThrow('Bidding strategy never declined the task');
+    expect(marketplace.getActiveBids()).toEqual([]);
+  });
+
+  it('should give strategies the device state and market history', async () => {
+    const price = jest.fn().mockReturnValue(10);
+    marketplace.registerStrategy({ name: 'spy', price });
+    marketplace.updateBatteryLevel(42);
+    marketplace.updateQueueLength(2);
+    marketplace.recordAuction({ taskId: 'a', taskType: 'transport', priority: TaskPriority.NORMAL, price: 70, reward: 100, bidders: 2, timeToFill: 5000, closedAt: 1 });
+    marketplace.recordAuction({ taskId: 'b', taskType: 'transport', priority: TaskPriority.NORMAL, price: 65, reward: 100, bidders: 3, timeToFill: 5000, closedAt: 2 });
+
+    const task = await createTask(100, { from: { x: 3, y: 4 } });
+    marketplace.addTask(task);
+    await marketplace.quote(task.id, 'spy');
+
+    expect(price).toHaveBeenCalledWith({
+      task,
+      device: { location: { x: 0, y: 0 }, batteryLevel: 42, queueLength: 2, reputation: 3 },
+      distance: 5,
+      market: { clearingPrices: { transport: [70, 65] } }
+    });
+  });
+
+  it('should report the outcome of each bid to the strategy that priced it', async () => {
+    const strategy: BiddingStrategy = { name: 'learner', price: () => 40, recordOutcome: jest.fn() };
+    marketplace.registerStrategy(strategy);
+
+    const won = await createTask(100);
+    const lost = await createTask(100);
+    marketplace.addTask(won);
+    marketplace.addTask(lost);
+    await marketplace.submitBid(won.id, { price: 'auto', estimatedDuration: 60, strategy: 'learner' });
+    await marketplace.submitBid(lost.id, { price: 'auto', estimatedDuration: 60, strategy: 'learner' });
+    await marketplace.submitBid(lost.id, { price: 30, estimatedDuration: 60 });
+
+    await marketplace.handleBidWon(won.id);
+    marketplace.markAssigned(lost.id, 'rival');
+
+    expect(strategy.recordOutcome).toHaveBeenCalledTimes(2);
+    expect(strategy.recordOutcome).toHaveBeenCalledWith({ task: won, price: 40, won: true });
+    expect(strategy.recordOutcome).toHaveBeenCalledWith({ task: lost, price: 40, won: false });
+  });
+});
+
+describe('bidding strategies through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let devices: AutoGridOS[];
+
+  function createDevice(deviceId: string): AutoGridOS {
+    const device = new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    });
+    devices.push(device);
+    return device;
+  }
+
+  beforeEach(() => {
+    network = new InMemoryNetwork();
+    devices = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(devices.map(d => d.disconnect()));
+  });
+
+  it('should share clearing prices and track the queue after an award', async () => {
+    const publisher = createDevice('publisher');
+    const winner = createDevice('winner');
+    const rival = createDevice('rival');
+    await Promise.all(devices.map(d => d.connect()));
+    await flush();
+
+    const strategy = new AdaptiveStrategy({ margin: 0.2 });
+    winner.registerBiddingStrategy(strategy, true);
+
+    const task = await publisher.publishTask({ type: 'transport', payload: { from: { x: 0, y: 0 }, to: { x: 10, y: 0 } }, maxPrice: 100 });
+    await flush();
+    await winner.submitBid(task.id, { price: 'auto', estimatedDuration: 60 });
+    await rival.submitBid(task.id, { price: 90, estimatedDuration: 60 });
+    await flush();
+    const result = await publisher.closeAuction(task.id);
+    await flush();
+
+    expect(result.winner?.deviceId).toBe('winner');
+    for (const device of devices) {
+      expect(device.getClearingPrices('transport')).toEqual([result.price]);
+    }
+    expect(strategy.getMargin('transport')).toBeGreaterThan(0.2);
+
+    // The won task now counts against the winner's queue
+    const spy = jest.fn().mockReturnValue(null);
+    winner.registerBiddingStrategy({ name: 'spy', price: spy });
+    const next = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    await flush();
+    await winner.quoteTask(next.id, 'spy');
+    expect(spy.mock.calls[0][0].device.queueLength).toBe(1);
+  });
+
+  it('should only record clearing prices from the publisher of the task', async () => {
+    const publisher = createDevice('publisher');
+    const robot = createDevice('robot');
+    await Promise.all(devices.map(d => d.connect()));
+    const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+    await mallory.start();
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    await flush();
+
+    const record = {
+      taskId: task.id,
+      taskType: 'transport',
+      priority: task.priority,
+      price: 1,
+      reward: 100,
+      bidders: 1,
+      timeToFill: 0,
+      closedAt: 0
+    };
+    let sent = 0;
+    const clear = (from: string, payload: any) => (from === 'mallory' ? mallory : (publisher as any).transport)
+      .send({ id: `cleared-${sent++}`, type: 'auction:cleared', from, payload, timestamp: 0 });
+    await clear('mallory', record);
+    await clear('publisher', { ...record, price: 0 });
+    await clear('publisher', { ...record, bidders: 0 });
+    await clear('publisher', { ...record, taskId: 'unknown' });
+    await flush();
+    expect(robot.getClearingPrices('transport')).toEqual([]);
+
+    await clear('publisher', { ...record, price: 80 });
+    await flush();
+    expect(robot.getClearingPrices('transport')).toEqual([80]);
+    await mallory.stop();
+  });
+});
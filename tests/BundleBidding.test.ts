@@ -0,0 +1,259 @@
+import {
+  AuctionEngine,
+  AuctionFormat,
+  AutoGridOS,
+  Bid,
+  BundleBid,
+  CoordinationLayer,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  Task,
+  solveWinnerDetermination,
+  splitBundlePrice
+} from '../src';
+
+function createBundle(overrides: Partial<BundleBid>): BundleBid {
+  return {
+    id: `bundle-${overrides.deviceId}`,
+    taskIds: [],
+    deviceId: 'robot',
+    price: 100,
+    estimatedDuration: 60,
+    reputation: 3,
+    timestamp: 1000,
+    ...overrides
+  };
+}
+
+function createBid(overrides: Partial<Bid>): Bid {
+  return {
+    id: `bid-${overrides.deviceId}`,
+    taskId: 'task-1',
+    deviceId: 'robot',
+    price: 100,
+    estimatedDuration: 60,
+    reputation: 3,
+    timestamp: 1000,
+    ...overrides
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('winner determination', () => {
+  const rewards = new Map([['a', 100], ['b', 100], ['c', 100]]);
+
+  it('should never award a task twice', () => {
+    const result = solveWinnerDetermination([
+      createBundle({ deviceId: 'x', taskIds: ['a', 'b'], price: 120 }),
+      createBundle({ deviceId: 'y', taskIds: ['b', 'c'], price: 110 }),
+      createBundle({ deviceId: 'z', taskIds: ['a'], price: 70 })
+    ], rewards);
+
+    const awarded = result.allocation.flatMap(bid => bid.taskIds);
+    expect(new Set(awarded).size).toBe(awarded.length);
+  });
+
+  it('should find the optimal allocation where greedy does not', () => {
+    // Greedy takes the best single first, which blocks the full bundle
+    const bids = [
+      createBundle({ deviceId: 'single', taskIds: ['a'], price: 5 }),
+      createBundle({ deviceId: 'all', taskIds: ['a', 'b', 'c'], price: 20 })
+    ];
+
+    const greedy = solveWinnerDetermination(bids, rewards, { method: 'greedy' });
+    const exact = solveWinnerDetermination(bids, rewards, { method: 'exact' });
+
+    expect(greedy.allocation.map(bid => bid.deviceId)).toEqual(['single']);
+    expect(exact.method).toBe('exact');
+    expect(exact.allocation.map(bid => bid.deviceId)).toEqual(['all']);
+    expect(exact.surplus).toBe(280);
+  });
+
+  it('should leave tasks unallocated rather than overpay', () => {
+    const result = solveWinnerDetermination([
+      createBundle({ deviceId: 'x', taskIds: ['a', 'b'], price: 250 })
+    ], rewards);
+
+    expect(result.allocation).toHaveLength(0);
+    expect(result.unallocated.sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should split a bundle price in proportion to task rewards', () => {
+    const shares = splitBundlePrice(
+      createBundle({ taskIds: ['a', 'b'], price: 90 }),
+      new Map([['a', 100], ['b', 200]])
+    );
+
+    expect(shares.get('a')).toBe(30);
+    expect(shares.get('b')).toBe(60);
+  });
+});
+
+describe('AuctionEngine bundles', () => {
+  let coordination: CoordinationLayer;
+  let engine: AuctionEngine;
+  let first: Task;
+  let second: Task;
+
+  beforeEach(async () => {
+    coordination = new CoordinationLayer({ deviceId: 'publisher' });
+    engine = new AuctionEngine({ coordination, biddingWindow: 60000 });
+    first = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    second = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 200 });
+    await engine.openAuction(first.id);
+    await engine.openAuction(second.id);
+  });
+
+  afterEach(() => {
+    engine.dispose();
+  });
+
+  it('should award every task of a winning bundle', async () => {
+    engine.submitBid(createBid({ taskId: first.id, deviceId: 'single', price: 90 }));
+    engine.submitBid(createBid({ taskId: second.id, deviceId: 'single', price: 180 }));
+    engine.submitBundleBid(createBundle({ deviceId: 'bundler', taskIds: [first.id, second.id], price: 210 }));
+
+    const result = await engine.closeAuction(first.id);
+
+    expect(result.winner?.deviceId).toBe('bundler');
+    expect(result.bundleId).toBe('bundle-bundler');
+    expect(result.price).toBe(70);
+    expect(engine.getResult(second.id)?.price).toBe(140);
+    expect(coordination.getTask(second.id)?.assignedTo).toBe('bundler');
+  });
+
+  it('should prefer single bids when they are cheaper than the bundle', async () => {
+    engine.submitBid(createBid({ taskId: first.id, deviceId: 'single', price: 50 }));
+    engine.submitBid(createBid({ taskId: second.id, deviceId: 'other', price: 100 }));
+    engine.submitBundleBid(createBundle({ deviceId: 'bundler', taskIds: [first.id, second.id], price: 250 }));
+
+    await engine.closeAuction(second.id);
+
+    expect(engine.getResult(first.id)?.winner?.deviceId).toBe('single');
+    expect(engine.getResult(second.id)?.winner?.deviceId).toBe('other');
+    expect(engine.getResult(second.id)?.losers.map(b => b.deviceId)).toEqual(['bundler']);
+  });
+
+  it('should reject bundles on open-outcry auctions', async () => {
+    const english = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    await engine.openAuction(english.id, { format: AuctionFormat.ENGLISH });
+    const rejected = jest.fn();
+    engine.on('bundle:rejected', rejected);
+
+    expect(engine.submitBundleBid(createBundle({ taskIds: [first.id, english.id], price: 50 }))).toBe(false);
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'bundle-format-unsupported' }));
+  });
+
+  it('should reject bundles whose numbers are not finite and non-negative', () => {
+    const rejected = jest.fn();
+    engine.on('bundle:rejected', rejected);
+
+    expect(engine.submitBundleBid(createBundle({ taskIds: [first.id, second.id], price: NaN }))).toBe(false);
+    expect(engine.submitBundleBid(createBundle({ taskIds: [first.id, second.id], estimatedDuration: -5 }))).toBe(false);
+    expect(rejected.mock.calls.map(([event]) => event.reason)).toEqual(['invalid-price', 'invalid-duration']);
+  });
+
+  it('should wait for the last linked bidding window', async () => {
+    jest.useFakeTimers();
+    try {
+      const early = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      const late = await coordination.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      await engine.openAuction(early.id, { biddingWindow: 1000 });
+      await engine.openAuction(late.id, { biddingWindow: 3000 });
+      engine.submitBundleBid(createBundle({ taskIds: [early.id, late.id], price: 150 }));
+
+      jest.advanceTimersByTime(1000);
+      expect(engine.getAuction(early.id)?.status).toBe('open');
+
+      const closedIds: string[] = [];
+      const closed = new Promise(resolve => engine.on('auction:closed', result => {
+        closedIds.push(result.taskId);
+        if (closedIds.length === 2) resolve(closedIds);
+      }));
+      jest.advanceTimersByTime(2000);
+      await closed;
+
+      expect(engine.getResult(early.id)?.winner?.deviceId).toBe('robot');
+      expect(engine.getResult(late.id)?.winner?.deviceId).toBe('robot');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('through AutoGridOS', () => {
+    let network: InMemoryNetwork;
+    let devices: AutoGridOS[];
+
+    function createDevice(deviceId: string): AutoGridOS {
+      const device = new AutoGridOS({
+        deviceId,
+        deviceType: DeviceType.WAREHOUSE,
+        privateKey: `${deviceId}-key`,
+        capabilities: ['transport'],
+        transport: new InMemoryTransport({ deviceId, network })
+      });
+      devices.push(device);
+      return device;
+    }
+
+    beforeEach(() => {
+      network = new InMemoryNetwork();
+      devices = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(devices.map(d => d.disconnect()));
+    });
+
+    it('should assign both tasks to the bundle bidder and notify the loser', async () => {
+      const publisher = createDevice('publisher');
+      const bundler = createDevice('bundler');
+      const single = createDevice('single');
+      await Promise.all(devices.map(d => d.connect()));
+
+      const a = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      const b = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      await flush();
+
+      await bundler.submitBundleBid([a.id, b.id], { price: 120, estimatedDuration: 60 });
+      await single.submitBid(a.id, { price: 90, estimatedDuration: 60 });
+      await flush();
+
+      const lost = new Promise(resolve => single.once('bid:lost', resolve));
+      await publisher.closeAuction(a.id);
+      await lost;
+      await flush();
+
+      expect(bundler.getActiveTasks().map(t => t.id).sort()).toEqual([a.id, b.id].sort());
+      expect(bundler.getActiveBundleBids()).toHaveLength(0);
+      expect(single.getActiveBids()).toHaveLength(0);
+    });
+
+    it('should drop a bundle once one of its tasks goes to another device', async () => {
+      const publisher = createDevice('publisher');
+      const bundler = createDevice('bundler');
+      const single = createDevice('single');
+      await Promise.all(devices.map(d => d.connect()));
+
+      const a = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      const b = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+      await flush();
+
+      await bundler.submitBundleBid([a.id, b.id], { price: 190, estimatedDuration: 60 });
+      await single.submitBid(a.id, { price: 50, estimatedDuration: 60 });
+      await flush();
+
+      const bundleLost = new Promise<BundleBid>(resolve => bundler.once('bundle:lost', resolve));
+      await publisher.closeAuction(a.id);
+
+      expect((await bundleLost).taskIds).toEqual([a.id, b.id]);
+      expect(bundler.getActiveBundleBids()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  CoordinationLayer,
+  MaintenancePrediction,
+  SwarmAlgorithm,
+  SwarmIntelligence,
+  VirtualClock,
+  WarehouseRobotAdapter
+} from '../src';
+
+const HOUR = 3600000;
+
+describe('VirtualClock', () => {
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+  });
+
+  it('should fire timers in due order and only when advanced', async () => {
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('late'), 300);
+    clock.setTimeout(() => fired.push('early'), 100);
+    const cancelled = clock.setTimeout(() => fired.push('cancelled'), 200);
+    clock.clearTimer(cancelled);
+
+    expect(fired).toEqual([]);
+    await clock.advance(250);
+    expect(fired).toEqual(['early']);
+    expect(clock.now()).toBe(250);
+
+    await clock.advance(50);
+    expect(fired).toEqual(['early', 'late']);
+  });
+
+  it('should repeat intervals until cleared', async () => {
+    let ticks = 0;
+    const interval = clock.setInterval(() => ticks++, 1000);
+
+    await clock.advance(5500);
+    expect(ticks).toBe(5);
+
+    clock.clearTimer(interval);
+    await clock.advance(5000);
+    expect(ticks).toBe(5);
+    expect(clock.getPendingTimers()).toBe(0);
+  });
+
+  it('should let chains of sleeps run within one advance', async () => {
+    const wakeups: number[] = [];
+    const worker = (async () => {
+      for (let i = 0; i < 3; i++) {
+        await clock.sleep(1000);
+        wakeups.push(clock.now());
+      }
+    })();
+
+    await clock.advance(3000);
+    await worker;
+
+    expect(wakeups).toEqual([1000, 2000, 3000]);
+  });
+});
+
+describe('simulated shift', () => {
+  it('should run a 24-hour warehouse shift on virtual time', async () => {
+    const clock = new VirtualClock(Date.UTC(2024, 0, 1, 6));
+    const shiftEnd = clock.now() + 24 * HOUR;
+
+    const robot = new WarehouseRobotAdapter({
+      deviceId: 'bot-1',
+      privateKey: 'bot-1-key',
+      warehouseId: 'wh-1',
+      capabilities: ['transport'],
+      initialLocation: { x: 0, y: 0, floor: 1 },
+      clock
+    });
+    const maintenance = new MaintenancePrediction({ deviceId: 'bot-1', clock });
+    const swarms = new SwarmIntelligence({ deviceId: 'bot-1', clock });
+    const dispatcher = new CoordinationLayer({ deviceId: 'dispatcher', clock });
+
+    let charges = 0;
+    robot.on('charging:completed', () => charges++);
+    maintenance.enableHealthMonitoring({ reportInterval: HOUR });
+
+    const swarm = await swarms.formSwarm({
+      taskId: 'patrol',
+      minDevices: 1,
+      algorithm: SwarmAlgorithm.ANT_COLONY,
+      objective: { type: 'patrol' }
+    });
+    let trailsGone = 0;
+    swarm.on('pheromone:expired', () => trailsGone++);
+    swarm.on('pheromone:faded', () => trailsGone++);
+    swarm.depositPheromone('bot-1', [{ x: 0, y: 0 }], 'success');
+
+    const task = await dispatcher.publishTask({
+      type: 'transport',
+      payload: { from: { x: 0, y: 0 }, to: { x: 300, y: 400 }, items: ['pallet'], weight: 10 },
+      maxPrice: 100
+    });
+
+    let deliveries = 0;
+    const shift = (async () => {
+      while (clock.now() < shiftEnd) {
+        await robot.executeTransport(task);
+        deliveries++;
+      }
+    })();
+
+    await clock.advanceTo(shiftEnd);
+    maintenance.disableHealthMonitoring();
+    await swarm.dissolve();
+    // Let the delivery in progress at the end of the shift finish
+    await clock.runAll();
+    await shift;
+
+    // 1000 m per round trip at 10 m/s, plus charging stops
+    expect(deliveries).toBeGreaterThan(700);
+    expect(deliveries).toBeLessThan(864);
+    expect(charges).toBeGreaterThan(0);
+    expect(maintenance.snapshot().healthHistory).toHaveLength(25);
+    expect(trailsGone).toBe(1);
+  });
+});
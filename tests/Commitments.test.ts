@@ -0,0 +1,86 @@
+import {
+  KeyRegistry,
+  TaskVerificationModule,
+  createCommitment,
+  hashValue,
+  simpleHash,
+  verifyCommitment
+} from '../src';
+
+describe('hashes and commitments', () => {
+  it('should hash values by their canonical encoding', () => {
+    expect(hashValue({ a: 1, b: [1, 2] })).toBe(hashValue({ b: [1, 2], a: 1 }));
+    expect(hashValue({ a: 1 })).not.toBe(hashValue({ a: 2 }));
+    expect(hashValue({ a: 1 })).toMatch(/^[0-9a-f]{64}$/);
+    // Strings that collided under the old 32-bit hash
+    expect(simpleHash('Aa')).not.toBe(simpleHash('BB'));
+  });
+
+  it('should hide the value until the salt is disclosed', () => {
+    const first = createCommitment({ ok: true });
+    const second = createCommitment({ ok: true });
+
+    expect(first.commitment).not.toBe(second.commitment);
+    expect(verifyCommitment(first.commitment, { ok: true }, first.salt)).toBe(true);
+    expect(verifyCommitment(first.commitment, { ok: false }, first.salt)).toBe(false);
+    expect(verifyCommitment(first.commitment, { ok: true }, second.salt)).toBe(false);
+    expect(verifyCommitment('not-hex', { ok: true }, first.salt)).toBe(false);
+  });
+});
+
+describe('TaskVerificationModule commitments', () => {
+  const result = { delivered: 12, damaged: 0 };
+  let registry: KeyRegistry;
+  let worker: TaskVerificationModule;
+  let verifier: TaskVerificationModule;
+
+  beforeEach(() => {
+    registry = new KeyRegistry();
+    worker = new TaskVerificationModule({ deviceId: 'worker', privateKey: 'worker-key', keyRegistry: registry });
+    verifier = new TaskVerificationModule({ deviceId: 'verifier', privateKey: 'verifier-key', keyRegistry: registry });
+  });
+
+  it('should verify a disclosed result against the commitment', async () => {
+    const proof = await worker.generateProof({ taskId: 'task-1', result, parameters: { items: 12 }, output: result });
+    const expected = { taskId: 'task-1', deviceId: 'worker' };
+
+    expect(proof.salt).toBe(worker.getSalt(proof.id));
+    expect(await verifier.verifyTaskProof(proof, expected)).toBe(true);
+    expect(await verifier.verifyTaskProof(proof, { ...expected, result: { delivered: 11, damaged: 0 } })).toBe(false);
+    expect(await verifier.verifyProof(proof, { damaged: 0, delivered: 12 })).toBe(true);
+    expect(await verifier.verifyTaskProof(proof, { ...expected, parameters: { items: 12 } })).toBe(true);
+    expect(await verifier.verifyTaskProof(proof, { ...expected, parameters: { items: 13 } })).toBe(false);
+  });
+
+  it('should keep an undisclosed result hidden until the salt is revealed', async () => {
+    const proof = await worker.generateProof({ taskId: 'task-1', result, parameters: {} });
+    const expected = { taskId: 'task-1', deviceId: 'worker', result };
+
+    expect(proof.salt).toBeUndefined();
+    expect(Buffer.from(proof.proofData, 'base64').toString()).not.toContain('delivered');
+    expect(await verifier.verifyTaskProof(proof, { taskId: 'task-1', deviceId: 'worker' })).toBe(false);
+    expect(await verifier.verifyTaskProof(proof, expected)).toBe(false);
+    expect(await verifier.verifyTaskProof(proof, { ...expected, salt: worker.getSalt(proof.id) })).toBe(true);
+  });
+
+  it('should not verify a proof without a result to open its commitment against', async () => {
+    const proof = await worker.generateProof({ taskId: 'task-1', result, parameters: {} });
+    const forged = { ...proof, id: 'forged', proofData: Buffer.from(JSON.stringify({ scheme: 'sha256-commitment', taskId: 'task-1' })).toString('base64') };
+    const open = new TaskVerificationModule({ deviceId: 'verifier' });
+
+    expect(await worker.verifyProof(proof)).toBe(false);
+    expect(worker.getProof(proof.id)?.verified).toBe(false);
+    expect(await open.verifyProof(forged)).toBe(false);
+    expect(await worker.verifyProof(proof, result, worker.getSalt(proof.id))).toBe(true);
+    expect(worker.getProof(proof.id)?.verified).toBe(true);
+  });
+
+  it('should check unsalted result hashes with commitments disabled', async () => {
+    const hashing = new TaskVerificationModule({ deviceId: 'worker', zkEnabled: false });
+    const proof = await hashing.generateProof({ taskId: 'task-1', result, parameters: {} });
+
+    expect(await hashing.verifyProof(proof, result)).toBe(true);
+    expect(await hashing.verifyProof(proof, { delivered: 0 })).toBe(false);
+    expect(await hashing.verifyProof({ ...proof, taskId: 'task-2' }, result)).toBe(false);
+  });
+});
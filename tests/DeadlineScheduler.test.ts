@@ -0,0 +1,129 @@
+import {
+  AutoGridOS,
+  CoordinationLayer,
+  DeadlineScheduler,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  InsuranceModule,
+  ReputationRegistry,
+  TaskMarketplace,
+  TaskStatus,
+  VirtualClock
+} from '../src';
+
+describe('DeadlineScheduler', () => {
+  let clock: VirtualClock;
+  let coordination: CoordinationLayer;
+  let marketplace: TaskMarketplace;
+  let reputation: ReputationRegistry;
+  let insurance: InsuranceModule;
+  let scheduler: DeadlineScheduler;
+
+  beforeEach(() => {
+    clock = new VirtualClock(1_000_000);
+    coordination = new CoordinationLayer({ deviceId: 'publisher', clock });
+    marketplace = new TaskMarketplace({ deviceId: 'publisher', capabilities: ['transport'] });
+    reputation = new ReputationRegistry({ deviceId: 'publisher' });
+    insurance = new InsuranceModule({ deviceId: 'publisher' });
+    scheduler = new DeadlineScheduler({
+      coordination,
+      marketplace,
+      reputation,
+      insurance,
+      clock,
+      warningThreshold: 1000
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should warn once when a deadline is approaching', async () => {
+    const task = await coordination.publishTask({ type: 'transport', payload: {}, deadline: clock.now() + 5000 });
+    const approaching = jest.fn();
+    scheduler.on('task:deadline-approaching', approaching);
+
+    await scheduler.sweep();
+    expect(approaching).not.toHaveBeenCalled();
+
+    await clock.advance(4500);
+    await scheduler.sweep();
+    await scheduler.sweep();
+
+    expect(approaching).toHaveBeenCalledTimes(1);
+    expect(approaching).toHaveBeenCalledWith({ task, timeRemaining: 500 });
+  });
+
+  it('should fail an overdue assigned task and penalize the assignee', async () => {
+    const task = await coordination.publishTask({ type: 'transport', payload: {}, deadline: clock.now() + 5000 });
+    await coordination.assignTask(task.id, 'worker');
+    const handled = jest.spyOn(insurance, 'handleTaskCompletion');
+
+    await clock.advance(6000);
+    const expired = await scheduler.sweep();
+
+    expect(expired).toEqual([expect.objectContaining({ from: TaskStatus.ASSIGNED, to: TaskStatus.FAILED, overdueBy: 1000 })]);
+    expect(coordination.getTaskHistory(task.id).pop()).toEqual(expect.objectContaining({ reason: 'deadline-expired' }));
+    expect((await reputation.getScore('worker'))?.failedTasks).toBe(1);
+    expect(handled).toHaveBeenCalledWith(task, false);
+
+    // Already final: nothing left to do
+    expect(await scheduler.sweep()).toEqual([]);
+  });
+
+  it('should cancel an overdue task nobody was assigned', async () => {
+    const task = await coordination.publishTask({ type: 'transport', payload: {}, deadline: clock.now() + 5000 });
+
+    scheduler.start();
+    await clock.advance(5000);
+
+    expect(coordination.getTask(task.id)?.status).toBe(TaskStatus.CANCELLED);
+  });
+
+  it('should withdraw bids on overdue marketplace tasks', async () => {
+    const task = await new CoordinationLayer({ deviceId: 'other' })
+      .publishTask({ type: 'transport', payload: {}, maxPrice: 100, deadline: clock.now() + 5000 });
+    marketplace.addTask(task);
+    const bid = await marketplace.submitBid(task.id, { price: 80, estimatedDuration: 60 });
+    const expiredBid = jest.fn();
+    scheduler.on('bid:expired', expiredBid);
+
+    await clock.advance(5000);
+    await scheduler.sweep();
+
+    expect(expiredBid).toHaveBeenCalledWith(bid);
+    expect(marketplace.getActiveBids()).toEqual([]);
+    expect(marketplace.getTask(task.id)).toBeUndefined();
+  });
+});
+
+describe('deadlines through AutoGridOS', () => {
+  it('should settle the insurance of a task whose deadline expires', async () => {
+    const clock = new VirtualClock(1_000_000);
+    const network = new InMemoryNetwork();
+    const insurance = new InsuranceModule({ deviceId: 'publisher', clock });
+    const handled = jest.spyOn(insurance, 'handleTaskCompletion');
+    const [publisher, worker] = ['publisher', 'worker'].map(deviceId => new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network }),
+      insurance: deviceId === 'publisher' ? insurance : undefined,
+      clock
+    }));
+    await Promise.all([publisher.connect(), worker.connect()]);
+
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 200, deadline: clock.now() + 5000 });
+    await clock.advance(0);
+    await worker.submitBid(task.id, { price: 150, estimatedDuration: 60 });
+    await clock.advance(0);
+    await publisher.closeAuction(task.id);
+    await clock.advance(6000);
+
+    expect(handled).toHaveBeenCalledWith(expect.objectContaining({ id: task.id, assignedTo: 'worker' }), false);
+    await Promise.all([publisher.disconnect(), worker.disconnect()]);
+  });
+});
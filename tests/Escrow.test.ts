@@ -0,0 +1,248 @@
+import {
+  AutoGridOS,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  KeyRegistry,
+  Payment,
+  PaymentModule,
+  Task,
+  TaskStatus
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('PaymentModule escrow', () => {
+  let publisher: PaymentModule;
+  let worker: PaymentModule;
+
+  beforeEach(() => {
+    const registry = new KeyRegistry();
+    publisher = new PaymentModule({ deviceId: 'publisher', privateKey: 'publisher-key', initialBalance: 500, keyRegistry: registry });
+    worker = new PaymentModule({ deviceId: 'worker', privateKey: 'worker-key', keyRegistry: registry });
+  });
+
+  afterEach(() => {
+    publisher.dispose();
+  });
+
+  it('should hold funds until released and refund the remainder', async () => {
+    publisher.lockEscrow('task-1', 200);
+    expect(publisher.getBalance()).toBe(300);
+
+    const payment = publisher.releaseEscrow('task-1', 'worker', 150);
+    await worker.receive(payment);
+
+    expect(publisher.getBalance()).toBe(350);
+    expect(worker.getBalance()).toBe(150);
+    expect(publisher.getEscrow('task-1')).toEqual(expect.objectContaining({
+      status: 'released',
+      releasedTo: 'worker',
+      releasedAmount: 150
+    }));
+    expect(publisher.getLedger().getTrialBalance()).toBe(0);
+  });
+
+  it('should split a release between several recipients', () => {
+    publisher.lockEscrow('task-1', 200);
+
+    const payments = publisher.releaseEscrowTo('task-1', [{ to: 'worker', amount: 150 }, { to: 'witness', amount: 10 }]);
+
+    expect(payments.map(payment => [payment.to, payment.amount])).toEqual([['worker', 150], ['witness', 10]]);
+    expect(publisher.getBalance()).toBe(340);
+    expect(publisher.getEscrow('task-1')).toEqual(expect.objectContaining({ releasedTo: 'worker', releasedAmount: 160 }));
+    expect(() => publisher.releaseEscrowTo('task-1', [{ to: 'worker', amount: 1 }])).toThrow('already settled');
+  });
+
+  it('should release an escrow only once', () => {
+    publisher.lockEscrow('task-1', 200);
+    publisher.releaseEscrow('task-1', 'worker', 150);
+
+    expect(() => publisher.releaseEscrow('task-1', 'worker', 150)).toThrow('already settled');
+    expect(() => publisher.refundEscrow('task-1')).toThrow('already settled');
+  });
+
+  it('should not lock more than the available balance', () => {
+    expect(() => publisher.lockEscrow('task-1', 600)).toThrow('Insufficient balance for escrow');
+  });
+
+  it('should refund automatically when the escrow expires', () => {
+    jest.useFakeTimers();
+    try {
+      const expired = jest.fn();
+      publisher.on('escrow:expired', expired);
+      publisher.lockEscrow('task-1', 200, { expiresAt: Date.now() + 1000 });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(expired).toHaveBeenCalled();
+      expect(publisher.getBalance()).toBe(500);
+      expect(publisher.getEscrow('task-1')?.status).toBe('refunded');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('task escrow through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let devices: AutoGridOS[];
+  let publisher: AutoGridOS;
+  let worker: AutoGridOS;
+
+  function createDevice(deviceId: string): AutoGridOS {
+    const device = new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    });
+    devices.push(device);
+    return device;
+  }
+
+  async function awardTask(maxPrice: number, price: number, deadline?: number): Promise<Task> {
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice, deadline });
+    await flush();
+    await worker.submitBid(task.id, { price, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+    return task;
+  }
+
+  beforeEach(async () => {
+    network = new InMemoryNetwork();
+    devices = [];
+    publisher = createDevice('publisher');
+    worker = createDevice('worker');
+    await Promise.all(devices.map(d => d.connect()));
+    await flush();
+  });
+
+  afterEach(async () => {
+    await Promise.all(devices.map(d => d.disconnect()));
+  });
+
+  it('should lock the reward when a task is published', async () => {
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 300 });
+
+    expect(publisher.getBalance()).toBe(700);
+    expect(publisher.getEscrow(task.id)?.status).toBe('locked');
+  });
+
+  it('should refuse to publish a task it cannot pay for', async () => {
+    await expect(publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 5000 }))
+      .rejects.toThrow('Insufficient balance for escrow');
+  });
+
+  it('should pay the winning bid on a verified proof and refund the rest', async () => {
+    const task = await awardTask(300, 200);
+
+    const paid = new Promise<Payment>(resolve => worker.once('payment:received', resolve));
+    await worker.submitProof(task.id, { delivered: true });
+
+    expect((await paid).amount).toBe(200);
+    expect(worker.getBalance()).toBe(1200);
+    expect(publisher.getBalance()).toBe(800);
+    expect(publisher.getEscrow(task.id)?.status).toBe('released');
+  });
+
+  it('should not pay for a proof submitted after the timeout of the task type', async () => {
+    publisher.registerTaskType({
+      type: 'transport',
+      requiredCapabilities: ['transport'],
+      verificationRules: { requireProof: true, requireWitness: false, timeout: 1 },
+      pricing: { basePrice: 100, variableFactors: [] }
+    });
+    const task = await awardTask(300, 200);
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const rejected = new Promise<any>(resolve => publisher.once('proof:rejected', resolve));
+    await worker.submitProof(task.id, { delivered: true });
+
+    expect((await rejected).reason).toBe('proof-timeout');
+    expect(publisher.getEscrow(task.id)?.status).toBe('locked');
+  });
+
+  it('should not pay for a proof from another device', async () => {
+    const task = await awardTask(300, 200);
+    const intruder = createDevice('intruder');
+    await intruder.connect();
+    await flush();
+
+    // A correctly signed proof, but not from the device the task was awarded to
+    const proof = await (intruder as any).verification.generateProof({
+      taskId: task.id,
+      result: { delivered: true },
+      parameters: {}
+    });
+    const rejected = new Promise<any>(resolve => publisher.once('proof:rejected', resolve));
+    await (intruder as any).sendTo('publisher', 'proof:submitted', proof);
+
+    expect((await rejected).reason).toBe('invalid-proof');
+    expect(publisher.getEscrow(task.id)?.status).toBe('locked');
+  });
+
+  it('should refund the full amount and notify the worker on cancel', async () => {
+    const task = await awardTask(300, 200);
+
+    const cancelled = new Promise<any>(resolve => worker.once('task:cancelled', resolve));
+    await publisher.cancelTask(task.id, 'no longer needed');
+
+    expect((await cancelled).reason).toBe('no longer needed');
+    expect(publisher.getBalance()).toBe(1000);
+    expect(publisher.getEscrow(task.id)?.status).toBe('refunded');
+  });
+
+  it('should only let the publisher cancel an assigned task', async () => {
+    const task = await awardTask(300, 200);
+    const intruder = createDevice('intruder');
+    await intruder.connect();
+
+    await (intruder as any).sendTo('worker', 'task:cancelled', { taskId: task.id, reason: 'stolen' });
+    await flush();
+
+    expect(worker.getTaskHistory(task.id).map(transition => transition.to)).not.toContain(TaskStatus.CANCELLED);
+  });
+
+  it('should refund the escrow when a published task fails', async () => {
+    const task = await awardTask(300, 200);
+
+    const cancelled = new Promise<any>(resolve => worker.once('task:cancelled', resolve));
+    await publisher.updateTaskStatus(task.id, TaskStatus.FAILED, { reason: 'blocked-aisle' });
+
+    expect(publisher.getEscrow(task.id)?.status).toBe('refunded');
+    expect(publisher.getBalance()).toBe(1000);
+    expect((await cancelled).reason).toBe('blocked-aisle');
+  });
+
+  it('should notify bidders when an open task is cancelled', async () => {
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 300 });
+    await flush();
+    await worker.submitBid(task.id, { price: 200, estimatedDuration: 60 });
+    await flush();
+
+    const lost = new Promise(resolve => worker.once('bid:lost', resolve));
+    await publisher.cancelTask(task.id);
+    await lost;
+
+    expect(worker.getActiveBids()).toHaveLength(0);
+    await expect(publisher.closeAuction(task.id)).rejects.toThrow('cancelled');
+  });
+
+  it('should fail the task and refund when the deadline passes', async () => {
+    const task = await awardTask(300, 200, Date.now() + 50);
+
+    const cancelled = new Promise<any>(resolve => worker.once('task:cancelled', resolve));
+
+    expect((await cancelled).reason).toBe('deadline-expired');
+    expect(publisher.getBalance()).toBe(1000);
+    expect(publisher.getEscrow(task.id)?.status).toBe('refunded');
+  });
+});
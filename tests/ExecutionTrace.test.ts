@@ -0,0 +1,127 @@
+import {
+  AutoGridOS,
+  DeviceType,
+  ExecutionStep,
+  ExecutionTrace,
+  InMemoryNetwork,
+  InMemoryTransport,
+  MerkleTree,
+  Proof,
+  TaskVerificationModule,
+  sha256,
+  verifyMerkleProof
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function steps(count: number): ExecutionStep[] {
+  return Array.from({ length: count }, (_, i) => ({ step: `scan-${i}`, result: { shelf: `B${i}` }, timestamp: 1000 + i }));
+}
+
+describe('MerkleTree', () => {
+  it('should prove every leaf of trees of any size', () => {
+    for (let size = 1; size <= 9; size++) {
+      const leaves = Array.from({ length: size }, (_, i) => sha256(`leaf-${i}`));
+      const tree = new MerkleTree(leaves);
+
+      for (let i = 0; i < size; i++) {
+        const siblings = tree.getProof(i);
+        expect(verifyMerkleProof(tree.root, leaves[i], i, size, siblings)).toBe(true);
+        // Wrong position, wrong leaf or a tampered path
+        expect(verifyMerkleProof(tree.root, leaves[i], (i + 1) % size, size, siblings)).toBe(size === 1);
+        expect(verifyMerkleProof(tree.root, sha256('other'), i, size, siblings)).toBe(false);
+        if (siblings.length > 0) {
+          expect(verifyMerkleProof(tree.root, leaves[i], i, size, [sha256('forged'), ...siblings.slice(1)])).toBe(false);
+          expect(verifyMerkleProof(tree.root, leaves[i], i, size, siblings.slice(1))).toBe(false);
+        }
+      }
+    }
+    expect(() => new MerkleTree([]).getProof(0)).toThrow('Leaf index out of range: 0');
+  });
+});
+
+describe('ExecutionTrace', () => {
+  it('should disclose single steps against the root', () => {
+    const trace = new ExecutionTrace('task-1', steps(5));
+    const proof = trace.proveStep(3);
+
+    expect(proof.step).toEqual({ step: 'scan-3', result: { shelf: 'B3' }, timestamp: 1003 });
+    expect(proof.siblings).toHaveLength(3);
+    expect(ExecutionTrace.verifyStep(trace.root, 3, proof)).toBe(true);
+    expect(ExecutionTrace.verifyStep(trace.root, 2, proof)).toBe(false);
+    expect(ExecutionTrace.verifyStep(trace.root, 3, { ...proof, step: { ...proof.step, result: { shelf: 'B9' } } })).toBe(false);
+    expect(ExecutionTrace.verifyStep(trace.root, 3, { ...proof, taskId: 'task-2' })).toBe(false);
+    expect(() => trace.proveStep(5)).toThrow('Step index out of range: 5');
+  });
+
+  it('should not reveal the other steps', () => {
+    // Same steps, fresh salts: nothing in a proof links to the step contents
+    const first = new ExecutionTrace('task-1', steps(4));
+    const second = new ExecutionTrace('task-1', steps(4));
+    expect(first.root).not.toBe(second.root);
+
+    const proof = JSON.stringify(first.proveStep(0));
+    expect(proof).toContain('B0');
+    expect(proof).not.toMatch(/B[123]/);
+  });
+});
+
+describe('execution proofs', () => {
+  it('should publish only the root and summary', async () => {
+    const worker = new TaskVerificationModule({ deviceId: 'worker' });
+    const proofData = await worker.generateExecutionProof({ taskId: 'task-1', steps: steps(6), finalResult: { scanned: 6 } });
+    const decoded = Buffer.from(proofData, 'base64').toString();
+
+    expect(decoded).not.toContain('scan-');
+    expect(JSON.parse(decoded)).toMatchObject({ stepCount: 6, duration: 5 });
+    expect(await worker.verifyExecutionProof(proofData, { scanned: 6 })).toBe(true);
+    expect(await worker.verifyExecutionProof(proofData, { scanned: 5 })).toBe(false);
+    expect(await worker.verifyExecutionProof('not a proof')).toBe(false);
+
+    const root = worker.getExecutionRoot(proofData)!;
+    const auditor = new TaskVerificationModule();
+    expect(auditor.verifyStep(root, 4, worker.proveStep('task-1', 4))).toBe(true);
+    expect(auditor.verifyStep(root, 4, worker.proveStep('task-1', 5))).toBe(false);
+    expect(() => auditor.proveStep('task-1', 0)).toThrow('No execution trace for task: task-1');
+  });
+
+  it('should carry the trace root in task proofs', async () => {
+    const network = new InMemoryNetwork();
+    const [publisher, worker] = ['publisher', 'worker'].map(deviceId => new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['scan'],
+      transport: new InMemoryTransport({ deviceId, network })
+    }));
+    publisher.registerTaskType({
+      type: 'scan',
+      requiredCapabilities: ['scan'],
+      verificationRules: { requireProof: true, requireWitness: false },
+      pricing: { basePrice: 50, variableFactors: [] }
+    });
+    await Promise.all([publisher.connect(), worker.connect()]);
+    await flush();
+
+    const task = await publisher.publishTask({ type: 'scan', payload: {}, maxPrice: 100 });
+    await flush();
+    await worker.submitBid(task.id, { price: 50, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+
+    const verified = new Promise<Proof>(resolve => publisher.once('proof:verified', resolve));
+    await worker.submitProof(task.id, { scanned: 3 }, steps(3));
+    const proof = await verified;
+
+    expect(proof.traceRoot).toMatch(/^[0-9a-f]{64}$/);
+    expect(publisher.verifyStep(proof.traceRoot!, 1, worker.proveStep(task.id, 1))).toBe(true);
+    expect(publisher.verifyStep(proof.traceRoot!, 1, { ...worker.proveStep(task.id, 1), step: steps(3)[2] })).toBe(false);
+
+    await Promise.all([publisher.disconnect(), worker.disconnect()]);
+  });
+});
@@ -0,0 +1,126 @@
+import { AdaptiveStrategy, FleetSimulator, FleetSimulatorConfig, VirtualClock, sampleDistribution } from '../src';
+
+const HOUR = 3600000;
+
+function createConfig(overrides: Partial<FleetSimulatorConfig> = {}): FleetSimulatorConfig {
+  return {
+    seed: 7,
+    duration: HOUR,
+    robots: [
+      { kind: 'warehouse', count: 2 },
+      { kind: 'service', count: 1 }
+    ],
+    arrivals: [
+      { type: 'transport', interval: { kind: 'exponential', mean: 60000 }, reward: { kind: 'uniform', min: 50, max: 150 } },
+      { type: 'delivery', interval: { kind: 'exponential', mean: 600000 }, reward: { kind: 'constant', value: 80 } }
+    ],
+    clock: new VirtualClock(Date.UTC(2024, 0, 1, 8)),
+    ...overrides
+  };
+}
+
+describe('FleetSimulator', () => {
+  it('should run tasks through the market and report on the fleet', async () => {
+    const simulator = new FleetSimulator(createConfig());
+    const errors = jest.fn();
+    simulator.on('simulation:error', errors);
+
+    const report = await simulator.run();
+
+    expect(errors).not.toHaveBeenCalled();
+    expect(report.endTime - report.startTime).toBe(HOUR);
+    expect(report.tasks.published).toBeGreaterThan(40);
+    expect(report.tasks.completed).toBeGreaterThan(0);
+    expect(report.metrics.totalTasksCompleted).toBe(report.tasks.completed);
+    expect(report.metrics.efficiency).toBeCloseTo(report.tasks.completed / report.tasks.published * 100);
+    expect(report.metrics.avgTaskTime).toBeGreaterThan(0);
+
+    // Every robot kind got work, drove, drained its battery and was paid
+    for (const kind of ['warehouse', 'service']) {
+      const robots = report.robots.filter(robot => robot.kind === kind);
+      expect(robots.some(robot => robot.tasksCompleted > 0)).toBe(true);
+    }
+    for (const robot of report.robots.filter(robot => robot.tasksCompleted > 0)) {
+      expect(robot.revenue).toBeGreaterThan(0);
+      expect(robot.distance).toBeGreaterThan(0);
+      expect(robot.batteryUsed).toBeGreaterThan(0);
+      expect(robot.utilization).toBeGreaterThan(0);
+    }
+    expect(report.metrics.totalRevenue).toBeCloseTo(report.robots.reduce((sum, robot) => sum + robot.revenue, 0));
+
+    // Sampled at the start, every hour and at the end; ratings lift reputation
+    expect(report.reputation.map(sample => sample.timestamp - report.startTime)).toEqual([0, HOUR]);
+    const first = report.reputation[0].scores;
+    const last = report.reputation[1].scores;
+    expect(Object.keys(last)).toEqual(['warehouse-1', 'warehouse-2', 'service-1']);
+    expect(Object.values(first)).toEqual([3, 3, 3]);
+    expect(Object.keys(last).some(deviceId => last[deviceId] > first[deviceId])).toBe(true);
+  });
+
+  it('should give the same run for the same seed', async () => {
+    const first = await new FleetSimulator(createConfig()).run();
+    const second = await new FleetSimulator(createConfig()).run();
+    const other = await new FleetSimulator(createConfig({ seed: 8 })).run();
+
+    expect(second.tasks).toEqual(first.tasks);
+    expect(second.robots).toEqual(first.robots);
+    expect(other.tasks).not.toEqual(first.tasks);
+  });
+
+  it('should let robots compete on price', async () => {
+    const report = await new FleetSimulator(createConfig({
+      robots: [
+        { kind: 'warehouse', count: 1, idPrefix: 'premium', pricing: () => 140 },
+        { kind: 'warehouse', count: 1, idPrefix: 'budget', pricing: ({ task }) => task.reward * 0.5 },
+        { kind: 'warehouse', count: 1, idPrefix: 'idle', pricing: () => undefined }
+      ],
+      arrivals: [
+        { type: 'transport', interval: { kind: 'constant', value: 120000 }, reward: { kind: 'constant', value: 100 } }
+      ]
+    })).run();
+
+    const [premium, budget, idle] = report.robots;
+    expect(budget.tasksCompleted).toBe(report.tasks.completed);
+    expect(budget.revenue).toBeCloseTo(50 * budget.tasksCompleted);
+    // Capped at the reward, but undercut on every task
+    expect(premium.tasksCompleted).toBe(0);
+    expect(idle.tasksCompleted).toBe(0);
+  });
+
+  it('should bid with registered bidding strategies', async () => {
+    const adaptive = new AdaptiveStrategy({ speed: 10, margin: 0.5 });
+    const outcomes = jest.spyOn(adaptive, 'recordOutcome');
+    const report = await new FleetSimulator(createConfig({
+      robots: [
+        { kind: 'warehouse', count: 2, idPrefix: 'adaptive', pricing: adaptive },
+        { kind: 'warehouse', count: 1, idPrefix: 'fixed', pricing: 'competitive' }
+      ],
+      arrivals: [
+        { type: 'transport', interval: { kind: 'constant', value: 60000 }, reward: { kind: 'constant', value: 100 } }
+      ]
+    })).run();
+
+    const adaptiveRevenue = report.robots
+      .filter(robot => robot.deviceId.startsWith('adaptive'))
+      .reduce((sum, robot) => sum + robot.revenue, 0);
+    expect(adaptiveRevenue).toBeGreaterThan(0);
+    // Both robots of the group learn through the one strategy
+    expect(outcomes.mock.calls.some(([outcome]) => outcome.won)).toBe(true);
+    expect(outcomes.mock.calls.some(([outcome]) => !outcome.won)).toBe(true);
+  });
+
+  it('should reject task types it has no payload for', () => {
+    expect(() => new FleetSimulator(createConfig({
+      arrivals: [{ type: 'welding', interval: { kind: 'constant', value: 1000 }, reward: { kind: 'constant', value: 10 } }]
+    }))).toThrow('No default payload for task type: welding');
+  });
+});
+
+describe('sampleDistribution', () => {
+  it('should draw from each distribution', () => {
+    expect(sampleDistribution({ kind: 'constant', value: 4 }, () => 0.3)).toBe(4);
+    expect(sampleDistribution({ kind: 'uniform', min: 10, max: 20 }, () => 0.25)).toBe(12.5);
+    expect(sampleDistribution({ kind: 'exponential', mean: 100 }, () => 1 - Math.exp(-2))).toBeCloseTo(200);
+    expect(sampleDistribution({ kind: 'normal', mean: 50, stdDev: 5 }, () => 0.75)).toBeCloseTo(50);
+  });
+});
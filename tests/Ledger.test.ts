@@ -0,0 +1,120 @@
+import { EXTERNAL_ACCOUNT, KeyRegistry, Ledger, PaymentModule } from '../src';
+
+describe('Ledger', () => {
+  let ledger: Ledger;
+
+  beforeEach(() => {
+    ledger = new Ledger();
+    ledger.openAccount(EXTERNAL_ACCOUNT, { allowNegative: true });
+    ledger.openAccount('wallet');
+    ledger.openAccount('other');
+  });
+
+  it('should keep every transfer balanced', () => {
+    ledger.transfer({ from: EXTERNAL_ACCOUNT, to: 'wallet', amount: 100, reason: 'deposit' });
+    ledger.transfer({ from: 'wallet', to: 'other', amount: 30, reason: 'payment' });
+
+    expect(ledger.getBalance('wallet')).toBe(70);
+    expect(ledger.getBalance('other')).toBe(30);
+    expect(ledger.getTrialBalance()).toBe(0);
+  });
+
+  it('should not overdraw a wallet account', () => {
+    expect(() => ledger.transfer({ from: 'wallet', to: 'other', amount: 1, reason: 'payment' }))
+      .toThrow('Insufficient balance');
+  });
+
+  it('should reject a reused idempotency key', () => {
+    ledger.transfer({ from: EXTERNAL_ACCOUNT, to: 'wallet', amount: 10, reason: 'deposit', idempotencyKey: 'once' });
+
+    expect(() => ledger.transfer({ from: EXTERNAL_ACCOUNT, to: 'wallet', amount: 10, reason: 'deposit', idempotencyKey: 'once' }))
+      .toThrow('Duplicate transaction');
+    expect(ledger.getBalance('wallet')).toBe(10);
+  });
+
+  it('should report opening and closing balances for a period', () => {
+    const now = jest.spyOn(Date, 'now');
+    try {
+      now.mockReturnValue(1000);
+      ledger.transfer({ from: EXTERNAL_ACCOUNT, to: 'wallet', amount: 100, reason: 'deposit' });
+      now.mockReturnValue(2000);
+      ledger.transfer({ from: 'wallet', to: 'other', amount: 40, reason: 'payment', reference: 'pay-1' });
+      now.mockReturnValue(3000);
+      ledger.transfer({ from: EXTERNAL_ACCOUNT, to: 'wallet', amount: 5, reason: 'bonus' });
+
+      const statement = ledger.getStatement('wallet', 1500, 2500);
+
+      expect(statement.openingBalance).toBe(100);
+      expect(statement.closingBalance).toBe(60);
+      expect(statement.totalDebits).toBe(40);
+      expect(statement.entries).toEqual([
+        expect.objectContaining({ amount: -40, counterAccount: 'other', reason: 'payment', reference: 'pay-1' })
+      ]);
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
+
+describe('PaymentModule ledger', () => {
+  let registry: KeyRegistry;
+  let alice: PaymentModule;
+  let bob: PaymentModule;
+
+  beforeEach(() => {
+    registry = new KeyRegistry();
+    alice = new PaymentModule({ deviceId: 'alice', privateKey: 'alice-key', initialBalance: 100, keyRegistry: registry });
+    bob = new PaymentModule({ deviceId: 'bob', privateKey: 'bob-key', keyRegistry: registry });
+  });
+
+  it('should credit a payment only once', async () => {
+    const payment = await alice.send({ to: 'bob', amount: 10 });
+    await bob.receive(payment);
+
+    await expect(bob.receive(payment)).rejects.toThrow('Duplicate payment');
+    expect(bob.getBalance()).toBe(10);
+  });
+
+  it('should assign increasing nonces to outgoing payments', async () => {
+    const first = await alice.send({ to: 'bob', amount: 1 });
+    const second = await alice.send({ to: 'bob', amount: 1 });
+
+    expect(second.nonce).toBeGreaterThan(first.nonce!);
+  });
+
+  it('should reject payments addressed to another device', async () => {
+    const payment = await alice.send({ to: 'carol', amount: 10 });
+
+    await expect(bob.receive(payment)).rejects.toThrow('not addressed');
+  });
+
+  it('should mirror the sender\'s and receiver\'s views', async () => {
+    await bob.receive(await alice.send({ to: 'bob', amount: 25 }));
+
+    expect(alice.getLedger().getBalance('bob')).toBe(25);
+    expect(bob.getLedger().getBalance('alice')).toBe(-25);
+    expect(alice.getLedger().getTrialBalance()).toBe(0);
+    expect(bob.getLedger().getTrialBalance()).toBe(0);
+  });
+
+  it('should record a reason for every balance change', async () => {
+    alice.addFunds(50, 'top-up');
+    await alice.send({ to: 'bob', amount: 20 });
+
+    expect(alice.getStatement().entries.map(e => e.reason)).toEqual(['initial-balance', 'top-up', 'payment']);
+    expect(alice.getStatement().closingBalance).toBe(130);
+  });
+
+  it('should settle channel spending through the ledger', async () => {
+    const channel = await alice.openChannel({ counterparty: 'bob', initialDeposit: 40 });
+    alice.receiveChannelState(bob.acceptChannel(channel.toOpenRequest()));
+    alice.receiveChannelState(bob.receiveChannelUpdate(alice.payChannel(channel.id, 15)));
+    alice.receiveChannelState(bob.receiveChannelUpdate(await alice.closeChannel(channel.id)));
+
+    expect(alice.getBalance()).toBe(85);
+    expect(alice.getLedger().getBalance('bob')).toBe(15);
+    expect(alice.getLedger().getTrialBalance()).toBe(0);
+    expect(bob.getBalance()).toBe(15);
+    expect(bob.getLedger().getTrialBalance()).toBe(0);
+  });
+});
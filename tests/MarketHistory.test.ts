@@ -0,0 +1,105 @@
+import { AuctionRecord, MarketHistory, TaskPriority, calculateOptimalPrice } from '../src';
+
+function auction(taskId: string, price: number, closedAt: number, overrides: Partial<AuctionRecord> = {}): AuctionRecord {
+  return {
+    taskId,
+    taskType: 'transport',
+    priority: TaskPriority.NORMAL,
+    price,
+    reward: 100,
+    bidders: 2,
+    timeToFill: 5000,
+    closedAt,
+    ...overrides
+  };
+}
+
+describe('MarketHistory', () => {
+  let history: MarketHistory;
+
+  beforeEach(() => {
+    history = new MarketHistory();
+  });
+
+  it('should keep auctions in time order, once each, up to the limit', () => {
+    const recorded = jest.fn();
+    history.on('auction:recorded', recorded);
+
+    expect(history.record(auction('b', 20, 2000))).toBe(true);
+    expect(history.record(auction('a', 10, 1000))).toBe(true);
+    expect(history.record(auction('a', 10, 1000))).toBe(false);
+    expect(history.getRecords().map(record => record.taskId)).toEqual(['a', 'b']);
+    expect(recorded).toHaveBeenCalledTimes(2);
+
+    const small = new MarketHistory({ maxRecords: 2 });
+    [1, 2, 3].forEach(i => small.record(auction(`t${i}`, i, i)));
+    expect(small.getRecords().map(record => record.taskId)).toEqual(['t2', 't3']);
+  });
+
+  it('should filter by type, priority and time', () => {
+    history.record(auction('a', 10, 1000));
+    history.record(auction('b', 20, 2000, { taskType: 'picking' }));
+    history.record(auction('c', 30, 3000, { priority: TaskPriority.HIGH }));
+
+    expect(history.getRecords({ taskType: 'picking' }).map(record => record.taskId)).toEqual(['b']);
+    expect(history.getRecords({ priority: TaskPriority.HIGH }).map(record => record.taskId)).toEqual(['c']);
+    expect(history.getRecords({ since: 2000, until: 3000 }).map(record => record.taskId)).toEqual(['b']);
+    expect(history.getTaskTypes()).toEqual(['transport', 'picking']);
+  });
+
+  it('should summarize clearing prices', () => {
+    [10, 20, 30, 40, 50].forEach((price, i) => history.record(auction(`t${i}`, price, i, { bidders: i + 1 })));
+
+    expect(history.getPercentiles([0, 25, 50, 90, 100])).toEqual([10, 20, 30, 46, 50]);
+    expect(history.getPercentiles([50], { taskType: 'picking' })).toEqual([NaN]);
+    expect(history.getPriceStats()).toEqual({
+      count: 5,
+      min: 10,
+      max: 50,
+      mean: 30,
+      p25: 20,
+      median: 30,
+      p75: 40,
+      p90: 46,
+      meanRewardRatio: 0.3,
+      avgBidders: 3,
+      avgTimeToFill: 5000
+    });
+    expect(history.getPriceStats({ taskType: 'picking' })).toBeUndefined();
+  });
+
+  it('should give moving averages and price curves', () => {
+    [10, 20, 30, 40].forEach((price, i) => history.record(auction(`t${i}`, price, i * 1000)));
+
+    expect(history.getMovingAverage(2).map(point => point.price)).toEqual([10, 15, 25, 35]);
+    expect(history.getPriceCurve(2000)).toEqual([
+      { start: 0, end: 2000, count: 2, mean: 15, median: 15, min: 10, max: 20 },
+      { start: 2000, end: 4000, count: 2, mean: 35, median: 35, min: 30, max: 40 }
+    ]);
+    expect(() => history.getMovingAverage(0)).toThrow('Moving average window must be at least 1');
+    expect(() => history.getPriceCurve(0)).toThrow('Price curve interval must be positive');
+  });
+
+  it('should supply the competition and base price for task pricing', () => {
+    history.record(auction('a', 60, 1, { bidders: 3 }));
+    history.record(auction('b', 80, 2, { bidders: 5 }));
+    history.record(auction('c', 10, 3, { taskType: 'picking', bidders: 1 }));
+
+    const competition = history.getCompetition({ taskType: 'transport' });
+    expect(competition).toBe(4);
+    expect(history.getCompetition({ taskType: 'sorting' })).toBe(0);
+
+    const basePrice = history.getPriceStats({ taskType: 'transport' })!.median;
+    expect(calculateOptimalPrice({ basePrice, distance: 50, reputation: 5, urgency: 0, competition })).toBe(71);
+  });
+
+  it('should restore a snapshot', () => {
+    history.record(auction('a', 10, 1));
+    history.record(auction('b', 20, 2));
+
+    const restored = new MarketHistory();
+    restored.restore(history.snapshot());
+    expect(restored.getRecords()).toEqual(history.getRecords());
+    expect(restored.record(auction('a', 10, 1))).toBe(false);
+  });
+});
@@ -0,0 +1,269 @@
+import * as net from 'net';
+import {
+  AutoGridOS,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  TcpTransport,
+  NetworkMessage,
+  Task,
+  Bid
+} from '../src';
+
+function createDevice(deviceId: string, network: InMemoryNetwork): AutoGridOS {
+  return new AutoGridOS({
+    deviceId,
+    deviceType: DeviceType.WAREHOUSE,
+    privateKey: `${deviceId}-key`,
+    capabilities: ['transport'],
+    transport: new InMemoryTransport({ deviceId, network })
+  });
+}
+
+describe('NetworkTransport', () => {
+  describe('InMemoryTransport', () => {
+    it('should broadcast to every peer except the sender', async () => {
+      const network = new InMemoryNetwork();
+      const a = new InMemoryTransport({ deviceId: 'node-a', network });
+      const b = new InMemoryTransport({ deviceId: 'node-b', network });
+      const c = new InMemoryTransport({ deviceId: 'node-c', network });
+      await Promise.all([a.start(), b.start(), c.start()]);
+
+      const received: string[] = [];
+      a.on('message', () => received.push('a'));
+      b.on('message', () => received.push('b'));
+      c.on('message', () => received.push('c'));
+
+      await a.send({ id: '1', type: 'ping', from: 'node-a', payload: {}, timestamp: 0 });
+
+      expect(received.sort()).toEqual(['b', 'c']);
+      expect(a.getPeers().sort()).toEqual(['node-b', 'node-c']);
+    });
+
+    it('should deliver directed messages only to the recipient', async () => {
+      const network = new InMemoryNetwork();
+      const a = new InMemoryTransport({ deviceId: 'node-a', network });
+      const b = new InMemoryTransport({ deviceId: 'node-b', network });
+      const c = new InMemoryTransport({ deviceId: 'node-c', network });
+      await Promise.all([a.start(), b.start(), c.start()]);
+
+      const onC = jest.fn();
+      c.on('message', onC);
+      const received = new Promise<NetworkMessage>(resolve => b.once('message', resolve));
+
+      await a.send({ id: '1', type: 'ping', from: 'node-a', to: 'node-b', payload: { n: 1 }, timestamp: 0 });
+
+      expect((await received).payload).toEqual({ n: 1 });
+      expect(onC).not.toHaveBeenCalled();
+    });
+
+    it('should report dropped messages for unknown recipients', async () => {
+      const a = new InMemoryTransport({ deviceId: 'node-a' });
+      await a.start();
+
+      const dropped = jest.fn();
+      a.on('message:dropped', dropped);
+      await a.send({ id: '1', type: 'ping', from: 'node-a', to: 'missing', payload: {}, timestamp: 0 });
+
+      expect(dropped).toHaveBeenCalled();
+    });
+  });
+
+  describe('AutoGridOS over a shared network', () => {
+    let network: InMemoryNetwork;
+    let publisher: AutoGridOS;
+    let worker: AutoGridOS;
+
+    beforeEach(async () => {
+      network = new InMemoryNetwork();
+      publisher = createDevice('publisher-001', network);
+      worker = createDevice('worker-001', network);
+      await publisher.connect();
+      await worker.connect();
+    });
+
+    afterEach(async () => {
+      await publisher.disconnect();
+      await worker.disconnect();
+    });
+
+    it('should make published tasks visible to peers', async () => {
+      const task = await publisher.publishTask({
+        type: 'transport',
+        payload: { from: 'A', to: 'B' },
+        maxPrice: 300
+      });
+
+      const tasks = await worker.getAvailableTasks();
+      expect(tasks.map(t => t.id)).toContain(task.id);
+    });
+
+    it('should deliver bids to the task publisher', async () => {
+      const task = await publisher.publishTask({
+        type: 'transport',
+        payload: { from: 'A', to: 'B' },
+        maxPrice: 300
+      });
+
+      const received = new Promise<Bid>(resolve => publisher.once('bid:received', resolve));
+      await worker.submitBid(task.id, { price: 250, estimatedDuration: 60 });
+
+      const bid = await received;
+      expect(bid.taskId).toBe(task.id);
+      expect(bid.deviceId).toBe('worker-001');
+    });
+
+    it('should not share object references between instances', async () => {
+      const task = await publisher.publishTask({
+        type: 'transport',
+        payload: { from: 'A', to: 'B' },
+        maxPrice: 300
+      });
+
+      const [remote] = await worker.getAvailableTasks();
+      remote.payload.from = 'Z';
+      expect((task as Task).payload.from).toBe('A');
+    });
+
+    it('should only accept ratings from the rater itself', async () => {
+      const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+      await mallory.start();
+      const rate = (fromDeviceId: string, toDeviceId: string) => mallory.send({
+        id: `${fromDeviceId}-${toDeviceId}`,
+        type: 'reputation:rating',
+        from: 'mallory',
+        payload: { fromDeviceId, toDeviceId, rating: 5, weight: 100 },
+        timestamp: 0
+      });
+
+      await rate('worker-001', 'mallory');
+      await rate('mallory', 'mallory');
+      await rate('mallory', 'worker-001');
+      for (let i = 0; i < 10; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      const ratings = (publisher as any).reputation;
+      expect(ratings.getRatingHistory('mallory')).toEqual([]);
+      expect(ratings.getRatingHistory('worker-001')).toEqual([
+        expect.objectContaining({ fromDeviceId: 'mallory', rating: 5, weight: 1 })
+      ]);
+      await mallory.stop();
+    });
+
+    it('should ignore task gossip that is not signed by the publisher', async () => {
+      const task = await publisher.publishTask({ type: 'transport', payload: { from: 'A', to: 'B' }, maxPrice: 300 });
+      for (let i = 0; i < 10; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+      await mallory.start();
+      await mallory.send({
+        id: 'forged',
+        type: 'gossip:task',
+        from: 'mallory',
+        payload: {
+          messageId: 'forged',
+          origin: 'publisher-001',
+          hops: 0,
+          expiresAt: Date.now() + 60000,
+          record: { task, version: 99, origin: task.publisherId, removed: true, updatedAt: Date.now() }
+        },
+        timestamp: 0
+      });
+      for (let i = 0; i < 10; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      expect((await worker.getAvailableTasks()).map(t => t.id)).toEqual([task.id]);
+      await expect(worker.submitBid(task.id, { price: 250, estimatedDuration: 60 })).resolves.toBeDefined();
+      await mallory.stop();
+    });
+  });
+
+  describe('TcpTransport', () => {
+    it('should exchange messages between two processes over TCP', async () => {
+      const server = new TcpTransport({ deviceId: 'tcp-a', nodes: [], port: 0, host: '127.0.0.1', encryption: false });
+      await server.start();
+
+      const client = new TcpTransport({
+        deviceId: 'tcp-b',
+        nodes: [`127.0.0.1:${server.getPort()}`],
+        encryption: false
+      });
+
+      const connected = new Promise(resolve => server.once('peer:connected', resolve));
+      await client.start();
+      await connected;
+
+      const received = new Promise<NetworkMessage>(resolve => server.once('message', resolve));
+      await client.send({ id: '1', type: 'ping', from: 'tcp-b', payload: { hello: true }, timestamp: 0 });
+
+      expect((await received).payload).toEqual({ hello: true });
+
+      await client.stop();
+      await server.stop();
+    });
+
+    it('should only accept messages from the device that said hello on the socket', async () => {
+      const server = new TcpTransport({ deviceId: 'tcp-a', nodes: [], port: 0, host: '127.0.0.1', encryption: false, maxMessageSize: 1024 });
+      await server.start();
+      const received: NetworkMessage[] = [];
+      server.on('message', message => received.push(message));
+
+      const socket = net.connect(server.getPort()!, '127.0.0.1');
+      await new Promise(resolve => socket.once('connect', resolve));
+      socket.resume();
+      const send = (type: string, from: string) =>
+        socket.write(JSON.stringify({ id: type, type, from, payload: {}, timestamp: 0 }) + '\n');
+
+      const connected = new Promise(resolve => server.once('peer:connected', resolve));
+      socket.write('null\n42\n{"type":"no-sender"}\n');
+      send('early', 'tcp-b');
+      send('transport:hello', 'tcp-b');
+      await connected;
+      send('transport:hello', 'tcp-c');
+      send('spoofed', 'tcp-c');
+      send('genuine', 'tcp-b');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(received.map(message => message.type)).toEqual(['genuine']);
+
+      // A peer that never ends its line is cut off
+      const closed = new Promise(resolve => socket.once('close', resolve));
+      socket.write('x'.repeat(2048));
+      await closed;
+
+      await server.stop();
+    });
+
+    it('should refuse a second socket that says hello as a connected device', async () => {
+      const server = new TcpTransport({ deviceId: 'tcp-a', nodes: [], port: 0, host: '127.0.0.1', encryption: false });
+      await server.start();
+      const client = new TcpTransport({ deviceId: 'tcp-b', nodes: [`127.0.0.1:${server.getPort()}`], encryption: false });
+      const connected = new Promise(resolve => server.once('peer:connected', resolve));
+      await client.start();
+      await connected;
+
+      const impostor = net.connect(server.getPort()!, '127.0.0.1');
+      await new Promise(resolve => impostor.once('connect', resolve));
+      impostor.resume();
+      const closed = new Promise(resolve => impostor.once('close', resolve));
+      impostor.write(JSON.stringify({ id: 'hello', type: 'transport:hello', from: 'tcp-b', payload: {}, timestamp: 0 }) + '\n');
+      await closed;
+
+      const received = new Promise<NetworkMessage>(resolve => client.once('message', resolve));
+      await server.send({ id: '1', type: 'ping', from: 'tcp-a', to: 'tcp-b', payload: {}, timestamp: 0 });
+      expect((await received).type).toBe('ping');
+
+      await client.stop();
+      await server.stop();
+    });
+
+    it('should require TLS credentials when encryption is enabled', async () => {
+      const transport = new TcpTransport({ deviceId: 'tcp-c', nodes: [], encryption: true });
+      await expect(transport.start()).rejects.toThrow('TLS credentials are required');
+    });
+  });
+});
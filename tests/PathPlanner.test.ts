@@ -0,0 +1,198 @@
+import {
+  CoordinationLayer,
+  CostPlusStrategy,
+  FacilityMap,
+  PathPlanner,
+  TaskMarketplace,
+  TaskPriority,
+  VirtualClock,
+  WarehouseRobotAdapter
+} from '../src';
+
+/**
+ * Two 20 x 10 m floors. On floor 1 a shelf runs from the bottom wall up to
+ * y = 8, leaving an aisle along the top. An elevator and a slow ramp
+ * connect the floors; the door on floor 2 starts closed.
+ */
+function createMap(): FacilityMap {
+  return new FacilityMap({
+    resolution: 0.5,
+    floors: [
+      { floor: 1, width: 20, height: 10, obstacles: [{ x: 9, y: 0, width: 1, height: 8 }] },
+      { floor: 2, width: 20, height: 10, obstacles: [{ x: 5, y: 0, width: 0.5, height: 10 }] }
+    ],
+    connectors: [
+      { id: 'lift', kind: 'elevator', stops: [{ x: 1.25, y: 1.25, floor: 1 }, { x: 1.25, y: 1.25, floor: 2 }], waitTime: 20000, timePerFloor: 5000 },
+      { id: 'ramp', kind: 'ramp', stops: [{ x: 18.25, y: 1.25, floor: 1 }, { x: 18.25, y: 1.25, floor: 2 }], timePerFloor: 60000 }
+    ],
+    doors: [{ id: 'fire-door', floor: 2, area: { x: 5, y: 4, width: 0.5, height: 2 }, open: false }]
+  });
+}
+
+describe('PathPlanner', () => {
+  let map: FacilityMap;
+  let planner: PathPlanner;
+
+  beforeEach(() => {
+    map = createMap();
+    planner = new PathPlanner({ map, speed: 2 });
+  });
+
+  it('should drive straight across open floor', () => {
+    const path = planner.plan({ x: 1.25, y: 5.25, floor: 1 }, { x: 7.25, y: 5.25, floor: 1 })!;
+
+    expect(path.waypoints).toEqual([{ x: 1.25, y: 5.25, floor: 1 }, { x: 7.25, y: 5.25, floor: 1 }]);
+    expect(path.distance).toBeCloseTo(6);
+    expect(path.travelTime).toBeCloseTo(3000);
+    expect(path.connectors).toEqual([]);
+  });
+
+  it('should go around shelving through the aisle', () => {
+    const from = { x: 5.25, y: 2.25, floor: 1 };
+    const to = { x: 14.25, y: 2.25, floor: 1 };
+    const path = planner.plan(from, to)!;
+
+    expect(path.distance).toBeGreaterThan(15);
+    expect(path.waypoints.every(point => map.isFree(point))).toBe(true);
+    // Crosses the shelf line only in the aisle above it
+    const crossing = path.waypoints.filter(point => point.x >= 9 && point.x <= 10);
+    expect(crossing.every(point => point.y >= 8)).toBe(true);
+    expect(planner.distance(from, to)).toBe(path.distance);
+  });
+
+  it('should find no path through closed doors until they open', () => {
+    const from = { x: 2.25, y: 5.25, floor: 2 };
+    const to = { x: 8.25, y: 5.25, floor: 2 };
+
+    // The only ways past the wall are the closed door or two floor changes
+    const around = planner.plan(from, to)!;
+    expect(around.connectors.length).toBe(2);
+
+    map.setDoorOpen('fire-door', true);
+    const through = planner.plan(from, to)!;
+    expect(through.connectors).toEqual([]);
+    expect(through.distance).toBeCloseTo(6);
+
+    map.setBlocked(2, { x: 0, y: 0, width: 20, height: 10 });
+    expect(planner.plan(from, to)).toBeNull();
+    expect(planner.distance(from, to)).toBe(Infinity);
+    expect(() => map.setDoorOpen('missing', true)).toThrow('Unknown door: missing');
+  });
+
+  it('should change floors on the faster connector', () => {
+    const path = planner.plan({ x: 3.25, y: 1.25, floor: 1 }, { x: 3.25, y: 3.25, floor: 2 })!;
+
+    expect(path.connectors).toEqual(['lift']);
+    expect(path.connectorTime).toBe(25000);
+    expect(path.waypoints).toEqual([
+      { x: 3.25, y: 1.25, floor: 1 },
+      { x: 1.25, y: 1.25, floor: 1 },
+      { x: 1.25, y: 1.25, floor: 2 },
+      { x: 3.25, y: 3.25, floor: 2 }
+    ]);
+    expect(path.travelTime).toBeCloseTo(path.distance / 2 * 1000 + 25000);
+    expect(path.times[2] - path.times[1]).toBe(25000);
+    expect(path.times[path.times.length - 1]).toBeCloseTo(path.travelTime);
+
+    // From the far end the elevator only pays off through the fire door
+    const from = { x: 17.25, y: 1.25, floor: 1 };
+    const to = { x: 17.25, y: 3.25, floor: 2 };
+    expect(planner.plan(from, to)!.connectors).toEqual(['ramp']);
+    map.setDoorOpen('fire-door', true);
+    expect(planner.plan(from, to)!.connectors).toEqual(['lift']);
+  });
+
+  it('should plan routes through several stops and estimate their duration', () => {
+    const stops = [{ x: 1.25, y: 5.25, floor: 1 }, { x: 7.25, y: 5.25, floor: 1 }, { x: 7.25, y: 7.25, floor: 1 }];
+    const route = planner.planRoute(stops)!;
+
+    expect(route.distance).toBeCloseTo(8);
+    expect(planner.estimateTaskDuration(stops)).toBe(Math.ceil(4 * 1.1));
+    expect(planner.planRoute([stops[0], { x: 50, y: 0, floor: 1 }])).toBeNull();
+  });
+});
+
+describe('path planning in the marketplace and coordination layer', () => {
+  const planner = new PathPlanner({ map: createMap() });
+
+  it('should create routes along planned paths', async () => {
+    const coordination = new CoordinationLayer({ deviceId: 'robot', planner });
+    const route = await coordination.createRoute({
+      taskId: 'task-1',
+      waypoints: [{ x: 5.25, y: 2.25, floor: 1 }, { x: 14.25, y: 2.25, floor: 1 }],
+      priority: TaskPriority.NORMAL
+    });
+
+    expect(route.waypoints.length).toBeGreaterThan(2);
+    expect(route.estimatedDuration).toBe(Math.ceil(planner.travelTime({ x: 5.25, y: 2.25, floor: 1 }, { x: 14.25, y: 2.25, floor: 1 })));
+
+    await expect(new CoordinationLayer({ deviceId: 'robot' }).createRoute({
+      taskId: 'task-1',
+      waypoints: [],
+      priority: TaskPriority.NORMAL
+    })).rejects.toThrow('Estimated duration is required without a path planner');
+  });
+
+  it('should price bids on path length', async () => {
+    const publisher = new CoordinationLayer({ deviceId: 'publisher' });
+    const task = await publisher.publishTask({
+      type: 'transport',
+      payload: { from: { x: 8.25, y: 2.25, floor: 1 }, to: { x: 11.25, y: 2.25, floor: 1 } },
+      maxPrice: 1000
+    });
+    const strategy = new CostPlusStrategy({ speed: 1, costPerSecond: 1, energyPerMeter: 0, margin: 0 });
+    const location = { x: 5.25, y: 2.25, floor: 1 };
+
+    const straight = new TaskMarketplace({ deviceId: 'a', location, strategies: [strategy] });
+    const mapped = new TaskMarketplace({ deviceId: 'b', location, strategies: [strategy], planner });
+    straight.addTask(task);
+    mapped.addTask(task);
+
+    expect(await straight.quote(task.id, 'cost-plus')).toBeCloseTo(3 + 3);
+    // The drop-off is behind the shelf: up the aisle and back down
+    expect(await mapped.quote(task.id, 'cost-plus')).toBeGreaterThan(3 + 3 + 10);
+
+    const bid = await mapped.submitBid(task.id, { price: 100, estimatedDuration: 60 });
+    expect(bid.distance).toBeCloseTo(3);
+
+    // Off the map: no path, so no price
+    const unreachable = await publisher.publishTask({ type: 'transport', payload: { from: { x: 50, y: 2.25, floor: 1 } }, maxPrice: 1000 });
+    mapped.addTask(unreachable);
+    mapped.registerStrategy({ name: 'flat', price: () => 10 });
+    expect(await mapped.quote(unreachable.id, 'flat')).toBeNull();
+  });
+});
+
+describe('WarehouseRobotAdapter with a planner', () => {
+  it('should drive the planned path', async () => {
+    const clock = new VirtualClock(0);
+    const planner = new PathPlanner({ map: createMap() });
+    const robot = new WarehouseRobotAdapter({
+      deviceId: 'bot-1',
+      privateKey: 'bot-1-key',
+      warehouseId: 'wh-1',
+      capabilities: ['transport'],
+      initialLocation: { x: 5.25, y: 2.25, floor: 1 },
+      planner,
+      clock
+    });
+    const started = jest.fn();
+    robot.on('navigation:started', started);
+
+    const publisher = new CoordinationLayer({ deviceId: 'publisher' });
+    const task = await publisher.publishTask({
+      type: 'transport',
+      payload: { from: { x: 5.25, y: 2.25, floor: 1 }, to: { x: 14.25, y: 2.25, floor: 1 }, items: [], weight: 1 },
+      maxPrice: 10
+    });
+    const work = robot.executeTransport(task);
+    await clock.advance(3600000);
+    await work;
+
+    const drive = started.mock.calls[1][0];
+    expect(drive.distance).toBe(planner.distance(task.payload.from, task.payload.to));
+    expect(drive.waypoints.length).toBeGreaterThan(2);
+    expect(robot.getOS().getLocation()).toEqual(task.payload.to);
+    await robot.stop();
+  });
+});
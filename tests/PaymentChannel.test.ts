@@ -0,0 +1,192 @@
+import {
+  AutoGridOS,
+  ChannelState,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  KeyRegistry,
+  PaymentChannel,
+  PaymentModule,
+  createDeviceKeys
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('PaymentChannel', () => {
+  let alice: PaymentModule;
+  let bob: PaymentModule;
+  let channel: PaymentChannel;
+
+  beforeEach(async () => {
+    const registry = new KeyRegistry();
+    alice = new PaymentModule({ deviceId: 'alice', privateKey: 'alice-key', initialBalance: 100, keyRegistry: registry, challengePeriod: 1000 });
+    bob = new PaymentModule({ deviceId: 'bob', privateKey: 'bob-key', keyRegistry: registry });
+
+    channel = await alice.openChannel({ counterparty: 'bob', initialDeposit: 40 });
+    alice.receiveChannelState(bob.acceptChannel(channel.toOpenRequest()));
+  });
+
+  afterEach(() => {
+    alice.dispose();
+    bob.dispose();
+  });
+
+  function pay(from: PaymentModule, to: PaymentModule, amount: number): ChannelState {
+    const signed = to.receiveChannelUpdate(from.payChannel(channel.id, amount));
+    from.receiveChannelState(signed);
+    return signed;
+  }
+
+  it('should open once the counterparty countersigns', () => {
+    expect(channel.status).toBe('open');
+    expect(bob.getChannel(channel.id)?.status).toBe('open');
+    expect(channel.getState().signatures).toEqual({
+      alice: expect.any(String),
+      bob: expect.any(String)
+    });
+  });
+
+  it('should move funds in both directions with increasing nonces', () => {
+    pay(alice, bob, 15);
+    pay(bob, alice, 5);
+
+    expect(channel.getBalance('alice')).toBe(30);
+    expect(channel.getBalance('bob')).toBe(10);
+    expect(channel.getState().nonce).toBe(2);
+    expect(bob.getChannel(channel.id)?.getState().nonce).toBe(2);
+  });
+
+  it('should reject a state that pays its proposer', () => {
+    // Bob cannot take Alice's funds by signing a transfer to himself
+    const state = bob.getChannel(channel.id)!.nextState('alice', 10);
+    const forged = { ...state, signatures: { bob: createDeviceKeys('bob-key').sign(PaymentChannel.encodeState(state)) } };
+
+    expect(() => alice.receiveChannelUpdate(forged)).toThrow('does not pay this device');
+  });
+
+  it('should reject states that skip or replay nonces', () => {
+    const first = alice.payChannel(channel.id, 5);
+    bob.receiveChannelUpdate(first);
+
+    expect(() => bob.receiveChannelUpdate(first)).toThrow('Stale channel state');
+  });
+
+  it('should pay out both sides on a cooperative close', async () => {
+    pay(alice, bob, 15);
+    alice.receiveChannelState(bob.receiveChannelUpdate(await alice.closeChannel(channel.id)));
+
+    expect(channel.status).toBe('closed');
+    expect(bob.getChannel(channel.id)?.status).toBe('closed');
+    expect(alice.getBalance()).toBe(85);
+    expect(bob.getBalance()).toBe(15);
+  });
+
+  it('should let the counterparty override a stale unilateral close', () => {
+    jest.useFakeTimers();
+    try {
+      pay(alice, bob, 10);
+
+      // Bob countersigns a second payment but Alice never receives it
+      const latest = bob.receiveChannelUpdate(alice.payChannel(channel.id, 5));
+
+      const dispute = alice.forceCloseChannel(channel.id);
+      expect(dispute.state.nonce).toBe(1);
+      expect(channel.status).toBe('disputed');
+
+      const challenge = bob.receiveChannelDispute(dispute);
+      expect(challenge?.nonce).toBe(latest.nonce);
+      expect(alice.challengeChannel(challenge!)).toBe(true);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(channel.status).toBe('closed');
+      expect(alice.getBalance()).toBe(85);
+      expect(bob.getBalance()).toBe(15);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should run the challenge period from when a dispute arrives', () => {
+    jest.useFakeTimers();
+    try {
+      pay(alice, bob, 10);
+      const dispute = bob.forceCloseChannel(channel.id);
+      jest.advanceTimersByTime(400);
+
+      // Bob claims the challenge period is already over
+      alice.receiveChannelDispute({ ...dispute, closesAt: Date.now() });
+      expect(channel.status).toBe('disputed');
+      expect(channel.closesAt).toBe(Date.now() + 1000);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not accept a deposit on its side of a channel', () => {
+    const request = { ...channel.toOpenRequest(), channelId: 'channel-2', deposits: { alice: 40, bob: 10 } };
+
+    expect(() => bob.acceptChannel(request)).toThrow('Channel open request assigns a deposit to this device');
+    expect(bob.getChannel('channel-2')).toBeUndefined();
+  });
+
+  it('should refuse challenges after the challenge period', () => {
+    jest.useFakeTimers();
+    try {
+      const signed = pay(alice, bob, 10);
+      const dispute = bob.forceCloseChannel(channel.id);
+      alice.receiveChannelDispute({ ...dispute, state: signed });
+
+      jest.advanceTimersByTime(dispute.closesAt - Date.now() + 1);
+
+      expect(() => bob.challengeChannel(signed)).toThrow('Channel is not in dispute');
+      expect(bob.getBalance()).toBe(10);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('payment channels through AutoGridOS', () => {
+  it('should stream micro-payments and settle on close', async () => {
+    const network = new InMemoryNetwork();
+    const devices = ['robot', 'charger'].map(deviceId => new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      initialBalance: 100,
+      transport: new InMemoryTransport({ deviceId, network })
+    }));
+    const [robot, charger] = devices;
+
+    try {
+      await Promise.all(devices.map(d => d.connect()));
+      await flush();
+
+      const channel = await robot.openChannel('charger', 50);
+      await flush();
+      expect(channel.status).toBe('open');
+
+      for (let i = 0; i < 20; i++) {
+        await robot.payChannel(channel.id, 1);
+        await flush();
+      }
+      expect(charger.getChannel(channel.id)?.getBalance('charger')).toBe(20);
+
+      const closed = new Promise(resolve => charger.once('channel:closed', resolve));
+      await robot.closeChannel(channel.id);
+      await closed;
+      await flush();
+
+      expect(robot.getBalance()).toBe(80);
+      expect(charger.getBalance()).toBe(120);
+    } finally {
+      await Promise.all(devices.map(d => d.disconnect()));
+    }
+  });
+});
@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuctionResult,
+  AutoGridOS,
+  ComponentType,
+  DeviceType,
+  FileStorage,
+  InMemoryNetwork,
+  InMemoryTransport,
+  KeyRegistry,
+  MaintenancePrediction,
+  MemoryStorage,
+  PaymentModule,
+  TaskPriority,
+  loadSnapshot,
+  saveSnapshot
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+async function waitForFile(file: string, text: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if ((await fs.readFile(file, 'utf8').catch(() => '')).includes(text)) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Timed out waiting for ${text} in ${file}`);
+}
+
+describe('FileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'autogrid-'));
+    file = path.join(dir, 'state.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep values across reopening', async () => {
+    const storage = new FileStorage({ path: file });
+    await storage.set('wallet', { balance: 10 });
+    await storage.set('wallet', { balance: 20 });
+    await storage.set('other', 1);
+    await storage.delete('other');
+    await storage.close();
+
+    const reopened = new FileStorage({ path: file });
+    expect(await reopened.get('wallet')).toEqual({ balance: 20 });
+    expect(await reopened.keys()).toEqual(['wallet']);
+    await reopened.close();
+  });
+
+  it('should drop a record torn by a crash', async () => {
+    await fs.writeFile(file, '{"op":"set","key":"a","value":1}\n{"op":"set","key":"a","val');
+
+    const storage = new FileStorage({ path: file });
+    expect(await storage.get('a')).toBe(1);
+
+    await storage.set('b', 2);
+    await storage.close();
+
+    const reopened = new FileStorage({ path: file });
+    expect(await reopened.get('b')).toBe(2);
+    await reopened.close();
+  });
+
+  it('should compact the log once values are superseded', async () => {
+    const storage = new FileStorage({ path: file, compactThreshold: 4 });
+    for (let i = 0; i < 5; i++) {
+      await storage.set('counter', i);
+    }
+    await storage.close();
+
+    const content = await fs.readFile(file, 'utf8');
+    expect(content.trim().split('\n')).toHaveLength(1);
+
+    const reopened = new FileStorage({ path: file });
+    expect(await reopened.get('counter')).toBe(4);
+    await reopened.close();
+  });
+});
+
+describe('module snapshots', () => {
+  it('should restore a wallet with its history and replay protection', async () => {
+    const registry = new KeyRegistry();
+    const alice = new PaymentModule({ deviceId: 'alice', privateKey: 'alice-key', initialBalance: 100, keyRegistry: registry });
+    const bob = new PaymentModule({ deviceId: 'bob', privateKey: 'bob-key', keyRegistry: registry });
+    const payment = await alice.send({ to: 'bob', amount: 30 });
+    await bob.receive(payment);
+
+    const storage = new MemoryStorage();
+    await saveSnapshot(storage, 'payments', bob);
+
+    const rebooted = new PaymentModule({ deviceId: 'bob', privateKey: 'bob-key', keyRegistry: registry });
+    expect(await loadSnapshot(storage, 'payments', rebooted)).toBe(true);
+
+    expect(rebooted.getBalance()).toBe(30);
+    expect(rebooted.getHistory()).toEqual([payment]);
+    expect(rebooted.getLedger().getTrialBalance()).toBe(0);
+    await expect(rebooted.receive(payment)).rejects.toThrow('Duplicate payment');
+  });
+
+  it('should refund an escrow that expired while the device was down', async () => {
+    const publisher = new PaymentModule({ deviceId: 'publisher', privateKey: 'publisher-key', initialBalance: 100 });
+    publisher.lockEscrow('task-1', 40, { expiresAt: Date.now() + 60000 });
+    const snapshot = publisher.snapshot();
+    publisher.dispose();
+
+    snapshot.escrows[0].expiresAt = Date.now() - 1;
+    const rebooted = new PaymentModule({ deviceId: 'publisher', privateKey: 'publisher-key' });
+    const expired = new Promise(resolve => rebooted.once('escrow:expired', resolve));
+    rebooted.restore(snapshot);
+    await expired;
+
+    expect(rebooted.getBalance()).toBe(100);
+  });
+
+  it('should keep inventory and provider pricing maps', async () => {
+    const maintenance = new MaintenancePrediction({ deviceId: 'robot' });
+    maintenance.addPartToInventory({
+      id: 'p1',
+      name: 'Wheel motor',
+      partNumber: 'WM-1',
+      compatibleComponents: [ComponentType.MOTOR],
+      quantity: 1,
+      unitCost: 120,
+      leadTime: 2,
+      inStock: true
+    }, 3, 'shelf-a');
+    maintenance.registerServiceProvider({
+      id: 'svc',
+      name: 'Repairs Inc',
+      capabilities: [ComponentType.MOTOR],
+      rating: 4.5,
+      availability: true,
+      pricing: new Map([['motor', 80]]),
+      responseTime: 2
+    });
+
+    const storage = new MemoryStorage();
+    await saveSnapshot(storage, 'maintenance', maintenance);
+    const rebooted = new MaintenancePrediction({ deviceId: 'robot' });
+    await loadSnapshot(storage, 'maintenance', rebooted);
+
+    expect(rebooted.getInventory()).toEqual([expect.objectContaining({ quantity: 3, location: 'shelf-a' })]);
+    const provider = await rebooted.findServiceProvider({ componentType: ComponentType.MOTOR });
+    expect(provider?.pricing.get('motor')).toBe(80);
+  });
+});
+
+describe('AutoGridOS power cycle', () => {
+  let dir: string;
+  let network: InMemoryNetwork;
+
+  function createDevice(deviceId: string, storage?: FileStorage, biddingWindow?: number): AutoGridOS {
+    return new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network }),
+      storage,
+      auction: { biddingWindow }
+    });
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'autogrid-'));
+    network = new InMemoryNetwork();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should come back with its wallet and history after a reboot', async () => {
+    const file = path.join(dir, 'robot.log');
+    const before = new FileStorage({ path: file });
+    const after = new FileStorage({ path: file });
+    const robot = createDevice('robot', before);
+    const station = createDevice('station');
+    await Promise.all([robot.connect(), station.connect()]);
+    await flush();
+
+    await robot.sendPayment({ to: 'station', amount: 250 });
+    const task = await robot.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    await waitForFile(file, `"tasks":[{"id":"${task.id}"`);
+
+    // Power loss: no clean disconnect, a fresh process reads the same log
+    await station.disconnect();
+    network = new InMemoryNetwork();
+    const rebooted = createDevice('robot', after);
+    await rebooted.connect();
+
+    try {
+      expect(rebooted.getBalance()).toBe(650);
+      expect(rebooted.getPaymentHistory()).toHaveLength(1);
+      expect(rebooted.getEscrow(task.id)?.status).toBe('locked');
+      expect(rebooted.getActiveTasks().map(t => t.id)).toContain(task.id);
+      expect(rebooted.getPublicKey('station')).toBe(station.getPublicKey());
+    } finally {
+      await Promise.all([robot.disconnect(), rebooted.disconnect()]);
+      await Promise.all([before.close(), after.close()]);
+    }
+  });
+
+  it('should reopen the auction of a task that was taking bids', async () => {
+    const file = path.join(dir, 'robot.log');
+    const before = new FileStorage({ path: file });
+    const after = new FileStorage({ path: file });
+    const robot = createDevice('robot', before);
+    const station = createDevice('station');
+    await Promise.all([robot.connect(), station.connect()]);
+    await flush();
+
+    robot.getMarketHistory().record({
+      taskId: 'earlier', taskType: 'transport', priority: TaskPriority.NORMAL,
+      price: 80, reward: 100, bidders: 2, timeToFill: 500, closedAt: Date.now()
+    });
+    const task = await robot.publishTask({ type: 'transport', payload: {}, maxPrice: 100, biddingWindow: 60000 });
+    await waitForFile(file, `"tasks":[{"id":"${task.id}"`);
+    await robot.disconnect();
+
+    const rebooted = createDevice('robot', after, 50);
+    const closed = new Promise<AuctionResult>(resolve => rebooted.once('auction:closed', resolve));
+    await rebooted.connect();
+    await flush();
+
+    try {
+      expect(rebooted.getClearingPrices('transport')).toEqual([80]);
+      expect(rebooted.getEscrow(task.id)?.status).toBe('locked');
+
+      await station.submitBid(task.id, { price: 90, estimatedDuration: 1000 });
+      const result = await closed;
+      expect(result.winner?.deviceId).toBe('station');
+      expect(rebooted.getBalance()).toBe(900);
+    } finally {
+      await Promise.all([station.disconnect(), rebooted.disconnect()]);
+      await Promise.all([before.close(), after.close()]);
+    }
+  });
+
+  it('should not overwrite stored state before restoring it', async () => {
+    const file = path.join(dir, 'robot.log');
+    const before = new FileStorage({ path: file });
+    const robot = createDevice('robot', before);
+    await robot.connect();
+    robot.addFunds(500);
+    await robot.disconnect();
+    await before.close();
+
+    const after = new FileStorage({ path: file });
+    const rebooted = createDevice('robot', after);
+    rebooted.addFunds(1);
+    await flush();
+    await rebooted.connect();
+
+    expect(rebooted.getBalance()).toBe(1500);
+    await rebooted.disconnect();
+    await after.close();
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  CoordinationLayer,
+  FacilityMap,
+  PathPlanner,
+  ReservationTable,
+  Route,
+  RouteConflict,
+  TaskPriority,
+  VirtualClock
+} from '../src';
+
+/**
+ * A 20 m long shelf block with a one-cell aisle through it at y = 2.25
+ * and a bypass along the top wall. The bypass is just past the aisle on
+ * the short map and far away on the tall one.
+ */
+function createMap(height: number): FacilityMap {
+  return new FacilityMap({
+    resolution: 0.5,
+    floors: [{
+      floor: 0,
+      width: 20,
+      height,
+      obstacles: [
+        { x: 5, y: 0, width: 10, height: 2 },
+        { x: 5, y: 2.5, width: 10, height: height - 3 }
+      ]
+    }]
+  });
+}
+
+const west = { x: 1.25, y: 0.75 };
+const east = { x: 18.75, y: 0.75 };
+
+describe('ReservationTable', () => {
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+  });
+
+  it('should make a route wait for an oncoming one in a narrow aisle', () => {
+    const table = new ReservationTable({ planner: new PathPlanner({ map: createMap(16) }), clock });
+    const conflicts: RouteConflict[] = [];
+    table.on('route:conflict', conflict => conflicts.push(conflict));
+
+    const first = table.reserve({ routeId: 'a', deviceId: 'bot-a', priority: TaskPriority.NORMAL, stops: [west, east] });
+    const second = table.reserve({
+      routeId: 'b',
+      deviceId: 'bot-b',
+      priority: TaskPriority.NORMAL,
+      stops: [{ x: 18.75, y: 3.75 }, { x: 1.25, y: 3.75 }]
+    });
+
+    expect(first.departAt).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ routeId: 'b', otherRouteId: 'a', resolution: 'wait' });
+    expect(conflicts[0].location.y).toBe(2.25);
+    expect(second.departAt).toBe(conflicts[0].delay);
+    expect(second.departAt).toBeGreaterThan(10000);
+    // Through the aisle, not around the block
+    expect(second.waypoints.every(point => point.y < 5)).toBe(true);
+    expect(table.findConflicts()).toEqual([]);
+  });
+
+  it('should re-route when the way around is quicker than waiting', () => {
+    const map = createMap(6);
+    const table = new ReservationTable({ planner: new PathPlanner({ map }), clock });
+    const conflicts: RouteConflict[] = [];
+    table.on('route:conflict', conflict => conflicts.push(conflict));
+
+    table.reserve({ routeId: 'a', deviceId: 'bot-a', priority: TaskPriority.NORMAL, stops: [west, east] });
+    const detour = table.reserve({
+      routeId: 'b',
+      deviceId: 'bot-b',
+      priority: TaskPriority.LOW,
+      stops: [{ x: 18.75, y: 3.75 }, { x: 1.25, y: 3.75 }]
+    });
+
+    expect(conflicts[0]).toMatchObject({ routeId: 'b', resolution: 'reroute', delay: 0 });
+    expect(detour.departAt).toBe(0);
+    expect(detour.waypoints.some(point => point.y > 5.5)).toBe(true);
+    expect(table.findConflicts()).toEqual([]);
+  });
+
+  it('should release reservations and drop them once they have passed', async () => {
+    const table = new ReservationTable({ planner: new PathPlanner({ map: createMap(16) }), clock, dwellTime: 0 });
+    const route = table.reserve({ routeId: 'a', deviceId: 'bot-a', priority: TaskPriority.NORMAL, stops: [west, east] });
+
+    expect(table.release('a')).toBe(true);
+    expect(table.release('a')).toBe(false);
+
+    table.reserve({ routeId: 'a', deviceId: 'bot-a', priority: TaskPriority.NORMAL, stops: [west, east] });
+    await clock.advance(route.arriveAt + 2000);
+    table.prune();
+    expect(table.getReservations()).toEqual([]);
+
+    expect(() => table.reserve({
+      routeId: 'c',
+      deviceId: 'bot-c',
+      priority: TaskPriority.NORMAL,
+      stops: [west, { x: 30, y: 1 }]
+    })).toThrow('No path through the route waypoints');
+  });
+});
+
+describe('CoordinationLayer with a reservation table', () => {
+  it('should give way to higher priority routes across the fleet', async () => {
+    const clock = new VirtualClock(0);
+    const table = new ReservationTable({ planner: new PathPlanner({ map: createMap(16) }), clock });
+    const [a, b, c] = ['bot-a', 'bot-b', 'bot-c'].map(deviceId => new CoordinationLayer({ deviceId, clock, reservations: table }));
+    const conflicts: RouteConflict[] = [];
+    const updated: Route[] = [];
+    b.on('route:conflict', conflict => conflicts.push(conflict));
+    b.on('route:updated', route => updated.push(route));
+
+    const oncoming = { waypoints: [{ x: 18.75, y: 3.75 }, { x: 1.25, y: 3.75 }] };
+    const first = await a.createRoute({ taskId: 't-a', waypoints: [west, east], priority: TaskPriority.NORMAL });
+    const yielding = await b.createRoute({ taskId: 't-b', ...oncoming, priority: TaskPriority.LOW });
+    expect(yielding.departAt).toBeGreaterThan(yielding.createdAt);
+    expect(yielding.estimatedDuration).toBe(Math.ceil(yielding.arriveAt!));
+
+    // The urgent route can't pass the one already under way, but goes before the yielding one
+    const urgent = await c.createRoute({ taskId: 't-c', ...oncoming, priority: TaskPriority.CRITICAL });
+    expect(urgent.departAt).toBeGreaterThan(0);
+    expect(updated).toEqual([yielding]);
+    expect(yielding.arriveAt).toBeGreaterThan(urgent.arriveAt!);
+    expect(conflicts.map(conflict => conflict.otherDeviceId)).toEqual(['bot-a', 'bot-a', 'bot-c']);
+    expect(table.findConflicts()).toEqual([]);
+
+    await a.updateRoute(first.id, first.waypoints.length - 1);
+    expect(table.getReservation(first.id)).toBeUndefined();
+    expect(table.getReservations()).toHaveLength(2);
+  });
+});
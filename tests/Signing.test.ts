@@ -0,0 +1,138 @@
+import {
+  AutoGridOS,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  KeyRegistry,
+  Payment,
+  PaymentModule,
+  TaskVerificationModule,
+  canonicalJson,
+  createDeviceKeys,
+  verifySignature
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('device keys', () => {
+  it('should derive the same key pair from the same secret', () => {
+    expect(createDeviceKeys('secret').publicKey).toBe(createDeviceKeys('secret').publicKey);
+    expect(createDeviceKeys('secret').publicKey).not.toBe(createDeviceKeys('other').publicKey);
+  });
+
+  it('should verify signatures only with the matching public key', () => {
+    const keys = createDeviceKeys('secret');
+    const signature = keys.sign('hello');
+
+    expect(verifySignature('hello', signature, keys.publicKey)).toBe(true);
+    expect(verifySignature('hello!', signature, keys.publicKey)).toBe(false);
+    expect(verifySignature('hello', signature, createDeviceKeys('other').publicKey)).toBe(false);
+  });
+
+  it('should encode objects canonically', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 2], c: undefined } })).toBe('{"a":{"d":[1,2]},"b":1}');
+  });
+});
+
+describe('KeyRegistry', () => {
+  it('should reject a different key for a known device', () => {
+    const registry = new KeyRegistry();
+    registry.register('robot', createDeviceKeys('one').publicKey);
+
+    expect(registry.register('robot', createDeviceKeys('one').publicKey)).toBe(false);
+    expect(() => registry.register('robot', createDeviceKeys('two').publicKey)).toThrow('conflicts');
+  });
+});
+
+describe('signed payments', () => {
+  let registry: KeyRegistry;
+  let alice: PaymentModule;
+  let bob: PaymentModule;
+
+  beforeEach(() => {
+    registry = new KeyRegistry();
+    alice = new PaymentModule({ deviceId: 'alice', privateKey: 'alice-key', initialBalance: 100, keyRegistry: registry });
+    bob = new PaymentModule({ deviceId: 'bob', privateKey: 'bob-key', keyRegistry: registry });
+  });
+
+  it('should not leak the private key into the proof', async () => {
+    const payment = await alice.send({ to: 'bob', amount: 10 });
+
+    expect(Buffer.from(payment.proof!, 'base64').toString()).not.toContain('alice-key');
+    expect(payment.proof).not.toContain(Buffer.from('alice-key').toString('base64'));
+  });
+
+  it('should accept a payment signed by the sender', async () => {
+    const payment = await alice.send({ to: 'bob', amount: 10 });
+    await bob.receive(payment);
+
+    expect(bob.getBalance()).toBe(10);
+  });
+
+  it('should reject a tampered payment', async () => {
+    const payment = await alice.send({ to: 'bob', amount: 10 });
+
+    await expect(bob.receive({ ...payment, amount: 90 })).rejects.toThrow('Invalid payment proof');
+  });
+
+  it('should reject a payment forged in another device\'s name', async () => {
+    const mallory = new PaymentModule({ deviceId: 'mallory', privateKey: 'mallory-key', initialBalance: 100, keyRegistry: registry });
+    const payment = await mallory.send({ to: 'bob', amount: 50 });
+    const forged: Payment = { ...payment, from: 'alice' };
+
+    await expect(bob.receive(forged)).rejects.toThrow('Invalid payment proof');
+  });
+
+  it('should reject payments from devices with unknown keys', async () => {
+    const stranger = new PaymentModule({ deviceId: 'stranger', privateKey: 'stranger-key', initialBalance: 100 });
+    const payment = await stranger.send({ to: 'bob', amount: 10 });
+
+    await expect(bob.receive(payment)).rejects.toThrow('Invalid payment proof');
+  });
+});
+
+describe('signed proofs', () => {
+  it('should only verify proofs signed by the claimed device', async () => {
+    const registry = new KeyRegistry();
+    const worker = new TaskVerificationModule({ deviceId: 'worker', privateKey: 'worker-key', keyRegistry: registry });
+    const verifier = new TaskVerificationModule({ deviceId: 'verifier', privateKey: 'verifier-key', keyRegistry: registry });
+
+    const proof = await worker.generateProof({ taskId: 'task-1', result: { ok: true }, parameters: {}, output: { ok: true } });
+
+    expect(await verifier.verifyProof(proof)).toBe(true);
+    expect(await verifier.verifyProof({ ...proof, deviceId: 'verifier' })).toBe(false);
+    expect(await verifier.verifyProof({ ...proof, signature: undefined })).toBe(false);
+  });
+});
+
+describe('key exchange through AutoGridOS', () => {
+  it('should learn peer keys on connect and accept their payments', async () => {
+    const network = new InMemoryNetwork();
+    const devices = ['alice', 'bob'].map(deviceId => new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    }));
+    const [alice, bob] = devices;
+
+    try {
+      await Promise.all(devices.map(d => d.connect()));
+      await flush();
+
+      expect(bob.getPublicKey('alice')).toBe(alice.getPublicKey());
+
+      const received = new Promise<Payment>(resolve => bob.once('payment:received', resolve));
+      await alice.sendPayment({ to: 'bob', amount: 25 });
+
+      expect((await received).amount).toBe(25);
+    } finally {
+      await Promise.all(devices.map(d => d.disconnect()));
+    }
+  });
+});
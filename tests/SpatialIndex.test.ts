@@ -0,0 +1,159 @@
+import {
+  CoordinationLayer,
+  EnergyMarketModule,
+  EnergySourceType,
+  Location,
+  SpatialIndex,
+  Task,
+  TaskMarketplace,
+  calculateDistance
+} from '../src';
+
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex<string>;
+
+  beforeEach(() => {
+    index = new SpatialIndex({ cellSize: 10 });
+  });
+
+  it('should find entries within a radius on the same floor, nearest first', () => {
+    index.insert('far', { x: 30, y: 0 }, 'far');
+    index.insert('near', { x: 3, y: 4 }, 'near');
+    index.insert('edge', { x: -20, y: 0 }, 'edge');
+    index.insert('upstairs', { x: 1, y: 1, floor: 1 }, 'upstairs');
+
+    expect(index.within({ x: 0, y: 0 }, 20).map(match => match.id)).toEqual(['near', 'edge']);
+    expect(index.within({ x: 0, y: 0 }, 20)[0].distance).toBe(5);
+    expect(index.within({ x: 0, y: 0, floor: 1 }, 20).map(match => match.id)).toEqual(['upstairs']);
+    expect(index.within({ x: 0, y: 0, floor: 2 }, 100)).toEqual([]);
+  });
+
+  it('should limit queries to an area and a filter', () => {
+    index.insert('a', { x: 1, y: 0, area: 'dock' }, 'a');
+    index.insert('b', { x: 2, y: 0, area: 'aisle' }, 'b');
+    index.insert('c', { x: 3, y: 0, area: 'dock' }, 'c');
+
+    expect(index.within({ x: 0, y: 0 }, 10, { area: 'dock' }).map(match => match.id)).toEqual(['a', 'c']);
+    expect(index.nearest({ x: 0, y: 0 }, 1, { filter: item => item !== 'a' }).map(match => match.id)).toEqual(['b']);
+  });
+
+  it('should move and remove entries', () => {
+    index.insert('a', { x: 0, y: 0 }, 'a');
+    index.insert('a', { x: 100, y: 100 }, 'a');
+
+    expect(index.size).toBe(1);
+    expect(index.within({ x: 0, y: 0 }, 10)).toEqual([]);
+    expect(index.within({ x: 100, y: 100 }, 10).map(match => match.id)).toEqual(['a']);
+
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+    expect(index.has('a')).toBe(false);
+    expect(index.nearest({ x: 0, y: 0 }, 3)).toEqual([]);
+  });
+
+  it('should agree with a linear scan', () => {
+    const next = random(42);
+    const points = new Map<string, Location>();
+    for (let i = 0; i < 500; i++) {
+      const location = { x: next() * 1000, y: next() * 1000, floor: Math.floor(next() * 2) };
+      points.set(`p${i}`, location);
+      index.insert(`p${i}`, location, `p${i}`);
+    }
+
+    for (let q = 0; q < 20; q++) {
+      const origin = { x: next() * 1000, y: next() * 1000, floor: q % 2 };
+      const scan = Array.from(points.entries())
+        .filter(([, location]) => location.floor === origin.floor)
+        .map(([id, location]) => ({ id, distance: calculateDistance(origin, location) }))
+        .sort((a, b) => a.distance - b.distance);
+
+      expect(index.within(origin, 80).map(match => match.id))
+        .toEqual(scan.filter(point => point.distance <= 80).map(point => point.id));
+      expect(index.nearest(origin, 5).map(match => match.id)).toEqual(scan.slice(0, 5).map(point => point.id));
+    }
+  });
+
+  it('should stop k-nearest searches at the maximum distance', () => {
+    index.insert('a', { x: 5, y: 0 }, 'a');
+    index.insert('b', { x: 500, y: 0 }, 'b');
+
+    expect(index.nearest({ x: 0, y: 0 }, 2).map(match => match.id)).toEqual(['a', 'b']);
+    expect(index.nearest({ x: 0, y: 0 }, 2, { maxDistance: 100 }).map(match => match.id)).toEqual(['a']);
+  });
+});
+
+describe('TaskMarketplace location queries', () => {
+  let marketplace: TaskMarketplace;
+  let publisher: CoordinationLayer;
+
+  async function addTask(payload: Record<string, any>, maxDistance?: number): Promise<Task> {
+    const task = await publisher.publishTask({ type: 'transport', payload, maxPrice: 100, requirements: { capabilities: [], maxDistance } });
+    marketplace.addTask(task);
+    return task;
+  }
+
+  beforeEach(() => {
+    marketplace = new TaskMarketplace({ deviceId: 'worker', location: { x: 0, y: 0 } });
+    publisher = new CoordinationLayer({ deviceId: 'publisher' });
+  });
+
+  it('should filter available tasks by distance', async () => {
+    const near = await addTask({ location: { x: 10, y: 0 } });
+    const pickup = await addTask({ from: { x: 0, y: 30 }, to: { x: 100, y: 100 } });
+    await addTask({ location: { x: 200, y: 0 } });
+    await addTask({ location: { x: 5, y: 0, floor: 2 } });
+    await addTask({});
+
+    expect((await marketplace.getAvailableTasks({ maxDistance: 50 })).map(t => t.id)).toEqual([near.id, pickup.id]);
+    expect(await marketplace.getAvailableTasks()).toHaveLength(5);
+  });
+
+  it('should skip tasks whose required distance this device exceeds', async () => {
+    const reachable = await addTask({ location: { x: 10, y: 0 } }, 20);
+    await addTask({ location: { x: 30, y: 0 } }, 20);
+
+    expect((await marketplace.getAvailableTasks()).map(t => t.id)).toEqual([reachable.id]);
+  });
+
+  it('should answer radius and k-nearest queries and drop tasks that leave the market', async () => {
+    const a = await addTask({ location: { x: 10, y: 0, area: 'dock' } });
+    const b = await addTask({ location: { x: 20, y: 0 } });
+    const c = await addTask({ location: { x: 40, y: 0, area: 'dock' } });
+
+    expect(marketplace.getTasksNear({ x: 0, y: 0 }, 25).map(t => t.id)).toEqual([a.id, b.id]);
+    expect(marketplace.getTasksNear({ x: 0, y: 0 }, 50, 'dock').map(t => t.id)).toEqual([a.id, c.id]);
+    expect(marketplace.getNearestTasks({ x: 45, y: 0 }, 2).map(t => t.id)).toEqual([c.id, b.id]);
+
+    marketplace.markAssigned(c.id, 'rival');
+    marketplace.removeTask(b.id);
+    expect(marketplace.getNearestTasks({ x: 45, y: 0 }, 2).map(t => t.id)).toEqual([a.id]);
+  });
+});
+
+describe('EnergyMarketModule source lookup', () => {
+  it('should find sources within the maximum distance', () => {
+    const energy = new EnergyMarketModule({ deviceId: 'station-owner', batteryCapacity: 100, currentCharge: 50 });
+    const register = (location: Location) => energy.registerEnergySource({
+      type: EnergySourceType.CHARGING_STATION,
+      location,
+      capacity: 50,
+      pricePerKwh: 0.2,
+      connectorTypes: ['type2'],
+      maxChargingPower: 22
+    });
+
+    const near = register({ x: 10, y: 0 });
+    register({ x: 300, y: 0 });
+    register({ x: 10, y: 0, floor: 1 });
+
+    expect(energy.findAvailableSources({ location: { x: 0, y: 0 }, maxDistance: 100 })).toEqual([near]);
+    expect(energy.findAvailableSources({ location: { x: 0, y: 0 } })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  AutoGridOS,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  LOCATION_SCHEMA,
+  PayloadOf,
+  ResultOf,
+  Task,
+  TaskPriority,
+  TaskStatus,
+  TaskValidationError,
+  TRANSPORT_TASK,
+  WarehouseRobotAdapter,
+  defineTaskType,
+  readPayload,
+  validateSchema
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+const COLD_CHAIN = defineTaskType({
+  type: 'cold-chain',
+  requiredCapabilities: ['transport'],
+  verificationRules: { requireProof: true, requireWitness: false },
+  pricing: { basePrice: 200, variableFactors: [] },
+  payloadSchema: {
+    type: 'object',
+    required: ['to', 'temperature', 'crates'],
+    properties: {
+      to: LOCATION_SCHEMA,
+      temperature: { type: 'number', minimum: -30, maximum: 8 },
+      crates: { type: 'array', minItems: 1, items: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } }
+    }
+  },
+  resultSchema: {
+    type: 'object',
+    required: ['delivered', 'maxTemperature'],
+    additionalProperties: false,
+    properties: {
+      delivered: { type: 'boolean' },
+      maxTemperature: { type: 'number' }
+    }
+  }
+});
+
+const payload = { to: { x: 10, y: 5 }, temperature: 4, crates: [{ id: 'crate-1' }] };
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    type: 'cold-chain',
+    status: TaskStatus.ASSIGNED,
+    priority: TaskPriority.NORMAL,
+    payload,
+    reward: 200,
+    requirements: { capabilities: ['transport'] },
+    publisherId: 'publisher',
+    createdAt: 0,
+    ...overrides
+  };
+}
+
+describe('task contracts', () => {
+  it('should report every violation with the path of the offending value', () => {
+    const errors = validateSchema(
+      { to: { x: 'north' }, temperature: 12, crates: [{ id: 'crate-1' }, {}], extra: true },
+      { ...COLD_CHAIN.payloadSchema, additionalProperties: false }
+    );
+
+    expect(errors).toEqual([
+      { path: '$.to.y', keyword: 'required', message: '$.to.y is required' },
+      { path: '$.to.x', keyword: 'type', message: '$.to.x must be number' },
+      { path: '$.temperature', keyword: 'maximum', message: '$.temperature must be at most 8' },
+      { path: '$.crates[1].id', keyword: 'required', message: '$.crates[1].id is required' },
+      { path: '$.extra', keyword: 'additionalProperties', message: '$.extra is not allowed' }
+    ]);
+    expect(validateSchema(payload, COLD_CHAIN.payloadSchema)).toEqual([]);
+    expect(validateSchema('spot', { enum: ['routine', 'deep'] })[0].keyword).toBe('enum');
+  });
+
+  it('should read typed payloads that meet the contract', () => {
+    const read = readPayload(createTask(), COLD_CHAIN);
+    const temperature: number = read.temperature;
+    const crate: string = read.crates[0].id;
+    const floor: number | undefined = read.to.floor;
+    // @ts-expect-error temperature is a number
+    const label: string = read.temperature;
+    const result: ResultOf<typeof COLD_CHAIN> = { delivered: true, maxTemperature: 5 };
+    expect([temperature, crate, floor, label, result.delivered]).toEqual([4, 'crate-1', undefined, 4, true]);
+
+    expect(() => readPayload(createTask({ payload: { ...payload, crates: [] } }), COLD_CHAIN))
+      .toThrow('Invalid payload for task type: cold-chain ($.payload.crates must have at least 1 items)');
+    expect(() => readPayload(createTask({ type: 'transport' }), COLD_CHAIN))
+      .toThrow('Task task-1 is of type transport, not cold-chain');
+  });
+});
+
+describe('task contracts through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let devices: AutoGridOS[];
+  let publisher: AutoGridOS;
+  let worker: AutoGridOS;
+
+  function createDevice(deviceId: string): AutoGridOS {
+    const device = new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    });
+    devices.push(device);
+    return device;
+  }
+
+  async function awardTask(taskPayload: PayloadOf<typeof COLD_CHAIN>): Promise<Task> {
+    const task = await publisher.publishTask({ type: 'cold-chain', payload: taskPayload, maxPrice: 200 });
+    await flush();
+    await worker.submitBid(task.id, { price: 150, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+    return task;
+  }
+
+  beforeEach(async () => {
+    network = new InMemoryNetwork();
+    devices = [];
+    publisher = createDevice('publisher');
+    worker = createDevice('worker');
+    await Promise.all(devices.map(d => d.connect()));
+    await flush();
+  });
+
+  afterEach(async () => {
+    await Promise.all(devices.map(d => d.disconnect()));
+  });
+
+  it('should refuse to publish a payload that breaks the contract', async () => {
+    publisher.registerTaskType(COLD_CHAIN);
+
+    const error = await publisher.publishTask({ type: 'cold-chain', payload: { ...payload, temperature: 'cold' }, maxPrice: 200 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(TaskValidationError);
+    expect(error).toEqual(expect.objectContaining({ taskType: 'cold-chain', target: 'payload' }));
+    expect(error.errors).toEqual([{ path: '$.payload.temperature', keyword: 'type', message: '$.payload.temperature must be number' }]);
+    expect(publisher.getBalance()).toBe(1000);
+  });
+
+  it('should not bid on a payload from a publisher without the contract', async () => {
+    const { payloadSchema, resultSchema, ...loose } = COLD_CHAIN;
+    publisher.registerTaskType(loose);
+    worker.registerTaskType(COLD_CHAIN);
+
+    const task = await publisher.publishTask({ type: 'cold-chain', payload: { ...payload, to: { x: 10 } }, maxPrice: 200 });
+    await flush();
+
+    await expect(worker.submitBid(task.id, { price: 150, estimatedDuration: 60 }))
+      .rejects.toThrow('Invalid payload for task type: cold-chain ($.payload.to.y is required)');
+    expect(worker.getActiveBids()).toEqual([]);
+  });
+
+  it('should not submit a result that breaks the contract', async () => {
+    publisher.registerTaskType(COLD_CHAIN);
+    worker.registerTaskType(COLD_CHAIN);
+    const task = await awardTask(payload);
+
+    await expect(worker.submitProof(task.id, { delivered: true, maxTemperature: '5C' }))
+      .rejects.toThrow('Invalid result for task type: cold-chain ($.result.maxTemperature must be number)');
+
+    const paid = new Promise(resolve => worker.once('payment:received', resolve));
+    await worker.submitProof(task.id, { delivered: true, maxTemperature: 5 });
+    await paid;
+    expect(publisher.getEscrow(task.id)?.status).toBe('released');
+  });
+
+  it('should not pay for a result that breaks the contract', async () => {
+    const { resultSchema, ...unchecked } = COLD_CHAIN;
+    publisher.registerTaskType(COLD_CHAIN);
+    worker.registerTaskType(unchecked);
+    const task = await awardTask(payload);
+
+    const rejected = new Promise<any>(resolve => publisher.once('proof:rejected', resolve));
+    await worker.submitProof(task.id, { delivered: true });
+
+    expect(await rejected).toEqual(expect.objectContaining({
+      reason: 'invalid-result',
+      errors: [expect.objectContaining({ path: '$.result.maxTemperature', keyword: 'required' })]
+    }));
+    expect(publisher.getEscrow(task.id)?.status).toBe('locked');
+  });
+});
+
+describe('adapter task contracts', () => {
+  it('should fail a malformed task before the robot moves', async () => {
+    const robot = new WarehouseRobotAdapter({
+      deviceId: 'bot-1',
+      privateKey: 'bot-1-key',
+      warehouseId: 'wh-1',
+      capabilities: ['transport']
+    });
+    const started = jest.fn();
+    robot.on('transport:started', started);
+    robot.on('navigation:started', started);
+
+    const task = createTask({ type: TRANSPORT_TASK.type, payload: { from: { x: 0, y: 0 }, to: { x: 5 } } });
+
+    await expect(robot.executeTransport(task)).rejects.toThrow(TaskValidationError);
+    await expect(robot.executeTransport(task)).rejects.toThrow('$.payload.weight is required; $.payload.to.y is required');
+    expect(started).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  KeyRegistry,
+  TaskGossip,
+  TaskRecord,
+  TaskMarketplace,
+  InMemoryNetwork,
+  InMemoryTransport,
+  Task,
+  TaskStatus,
+  TaskPriority,
+  createDeviceKeys
+} from '../src';
+
+function createTask(id: string, publisherId: string): Task {
+  return {
+    id,
+    type: 'transport',
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.NORMAL,
+    publisherId,
+    payload: { from: 'A', to: 'B' },
+    requirements: { capabilities: ['transport'] },
+    reward: 100,
+    createdAt: Date.now()
+  };
+}
+
+function createPeer(deviceId: string, network: InMemoryNetwork, maxHops?: number, keyRegistry?: KeyRegistry) {
+  const transport = new InMemoryTransport({ deviceId, network });
+  const marketplace = new TaskMarketplace({ deviceId });
+  const privateKey = `${deviceId}-key`;
+  keyRegistry?.register(deviceId, createDeviceKeys(privateKey).publicKey);
+  const gossip = new TaskGossip({ deviceId, transport, marketplace, maxHops, privateKey, keyRegistry, syncInterval: 0 });
+  return { transport, marketplace, gossip };
+}
+
+async function startPeer(peer: ReturnType<typeof createPeer>): Promise<void> {
+  await peer.transport.start();
+  await peer.gossip.start();
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('TaskGossip', () => {
+  let network: InMemoryNetwork;
+
+  beforeEach(() => {
+    network = new InMemoryNetwork();
+  });
+
+  it('should spread new tasks to every marketplace', async () => {
+    const a = createPeer('peer-a', network);
+    const b = createPeer('peer-b', network);
+    const c = createPeer('peer-c', network);
+    await Promise.all([startPeer(a), startPeer(b), startPeer(c)]);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    await flush();
+
+    expect((await b.marketplace.getAvailableTasks()).map(t => t.id)).toEqual(['task-1']);
+    expect((await c.marketplace.getAvailableTasks()).map(t => t.id)).toEqual(['task-1']);
+  });
+
+  it('should drop duplicate relays', async () => {
+    const a = createPeer('peer-a', network);
+    const b = createPeer('peer-b', network);
+    const c = createPeer('peer-c', network);
+    await Promise.all([startPeer(a), startPeer(b), startPeer(c)]);
+
+    const duplicates = jest.fn();
+    const applied = jest.fn();
+    b.gossip.on('gossip:duplicate', duplicates);
+    b.gossip.on('gossip:applied', applied);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    await flush();
+
+    expect(applied).toHaveBeenCalledTimes(1);
+    expect(duplicates).toHaveBeenCalled();
+  });
+
+  it('should not relay beyond the hop limit', async () => {
+    const a = createPeer('peer-a', network, 1);
+    const b = createPeer('peer-b', network, 1);
+    await Promise.all([startPeer(a), startPeer(b)]);
+
+    const duplicates = jest.fn();
+    a.gossip.on('gossip:duplicate', duplicates);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    await flush();
+
+    expect(b.gossip.getRecord('task-1')).toBeDefined();
+    expect(duplicates).not.toHaveBeenCalled();
+  });
+
+  it('should propagate removals and assignments', async () => {
+    const a = createPeer('peer-a', network);
+    const b = createPeer('peer-b', network);
+    await Promise.all([startPeer(a), startPeer(b)]);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    a.marketplace.addTask(createTask('task-2', 'peer-a'));
+    await flush();
+
+    a.marketplace.removeTask('task-1');
+    a.marketplace.markAssigned('task-2', 'peer-c');
+    await flush();
+
+    expect(await b.marketplace.getAvailableTasks()).toHaveLength(0);
+    expect(b.gossip.getRecord('task-2')?.task.assignedTo).toBe('peer-c');
+  });
+
+  it('should catch up a late-joining peer through anti-entropy sync', async () => {
+    const a = createPeer('peer-a', network);
+    await startPeer(a);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    a.marketplace.addTask(createTask('task-2', 'peer-a'));
+    a.marketplace.removeTask('task-2');
+    await flush();
+
+    const late = createPeer('peer-late', network);
+    await startPeer(late);
+    await flush();
+
+    expect((await late.marketplace.getAvailableTasks()).map(t => t.id)).toEqual(['task-1']);
+    expect(late.gossip.getRecord('task-2')?.removed).toBe(true);
+  });
+
+  it('should republish above the versions peers held before a restart', async () => {
+    const a = createPeer('peer-a', network);
+    const b = createPeer('peer-b', network);
+    await Promise.all([startPeer(a), startPeer(b)]);
+
+    const task = createTask('task-1', 'peer-a');
+    a.marketplace.addTask(task);
+    a.marketplace.updateTask({ ...task, reward: 120 });
+    a.marketplace.updateTask({ ...task, reward: 140 });
+    await flush();
+    await a.gossip.stop();
+    await a.transport.stop();
+
+    // Versions start over: the removal is older than what peer-b holds
+    const restarted = createPeer('peer-a', network);
+    await startPeer(restarted);
+    restarted.marketplace.addTask(task);
+    restarted.marketplace.removeTask(task.id);
+    await flush();
+    expect(await b.marketplace.getAvailableTasks()).toHaveLength(1);
+
+    await restarted.gossip.sync();
+    await flush();
+
+    expect(await b.marketplace.getAvailableTasks()).toHaveLength(0);
+    expect(restarted.gossip.getRecord(task.id)?.version).toBe(4);
+  });
+
+  it('should only apply records signed by the publisher of the task', async () => {
+    const registry = new KeyRegistry();
+    const a = createPeer('peer-a', network, undefined, registry);
+    const b = createPeer('peer-b', network, undefined, registry);
+    const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+    await Promise.all([startPeer(a), startPeer(b), mallory.start()]);
+    const rejected = jest.fn();
+    b.gossip.on('gossip:rejected', rejected);
+
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    await flush();
+    const record = b.gossip.getRecord('task-1')!;
+    expect(record.signature).toEqual(expect.any(String));
+
+    let sent = 0;
+    const forge = (forged: TaskRecord) => mallory.send({
+      id: `forged-${sent}`,
+      type: 'gossip:task',
+      from: 'mallory',
+      payload: { messageId: `forged-${sent++}`, origin: 'mallory', hops: 0, expiresAt: Date.now() + 60000, record: forged },
+      timestamp: 0
+    });
+    // Removed in the publisher's name, a rewritten reward under its signature, and a claim to the task
+    await forge({ ...record, version: 99, removed: true, signature: undefined });
+    await forge({ ...record, version: 99, task: { ...record.task, reward: 1 } });
+    await forge({ ...record, version: 99, origin: 'mallory', task: { ...record.task, publisherId: 'mallory' } });
+    await flush();
+
+    expect(rejected).toHaveBeenCalledTimes(3);
+    expect((await b.marketplace.getAvailableTasks()).map(t => [t.id, t.reward])).toEqual([['task-1', 100]]);
+    expect(a.marketplace.getTask('task-1')).toBeDefined();
+    await mallory.stop();
+  });
+
+  it('should skip malformed gossip instead of throwing', async () => {
+    const a = createPeer('peer-a', network);
+    const mallory = new InMemoryTransport({ deviceId: 'mallory', network });
+    await Promise.all([startPeer(a), mallory.start()]);
+    const errors = jest.fn();
+    a.gossip.on('gossip:error', errors);
+
+    const payloads: Array<[string, any]> = [
+      ['gossip:records', {}],
+      ['gossip:records', { records: [null, { task: 'task-1' }] }],
+      ['gossip:task', null],
+      ['gossip:task', { messageId: 'm', hops: 0, expiresAt: Date.now() + 60000, record: {} }],
+      ['gossip:digest', { entries: 'all' }]
+    ];
+    for (const [i, [type, payload]] of payloads.entries()) {
+      await mallory.send({ id: `junk-${i}`, type, from: 'mallory', to: 'peer-a', payload, timestamp: 0 });
+    }
+    await flush();
+
+    expect(errors).toHaveBeenCalledTimes(4);
+    expect(errors).toHaveBeenCalledWith(new Error('Malformed gossip records'));
+    a.marketplace.addTask(createTask('task-1', 'peer-a'));
+    expect(a.gossip.getRecord('task-1')).toBeDefined();
+    await mallory.stop();
+  });
+});
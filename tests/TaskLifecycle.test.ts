@@ -0,0 +1,107 @@
+import {
+  AutoGridOS,
+  CoordinationLayer,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  InvalidTaskTransitionError,
+  Task,
+  TaskStatus
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('task lifecycle', () => {
+  let coordination: CoordinationLayer;
+  let task: Task;
+
+  beforeEach(async () => {
+    coordination = new CoordinationLayer({ deviceId: 'publisher' });
+    task = await coordination.publishTask({ type: 'transport', payload: {} });
+  });
+
+  it('should reject a transition out of a final state', async () => {
+    await coordination.cancelTask(task.id, 'not needed');
+
+    const attempt = coordination.updateTaskStatus(task.id, TaskStatus.COMPLETED);
+
+    await expect(attempt).rejects.toBeInstanceOf(InvalidTaskTransitionError);
+    await expect(attempt).rejects.toMatchObject({ from: TaskStatus.CANCELLED, to: TaskStatus.COMPLETED });
+    expect(coordination.getTask(task.id)?.status).toBe(TaskStatus.CANCELLED);
+  });
+
+  it('should not complete a task that was never assigned', async () => {
+    await expect(coordination.updateTaskStatus(task.id, TaskStatus.COMPLETED))
+      .rejects.toThrow('Invalid task transition from pending to completed');
+  });
+
+  it('should record who changed the status and why', async () => {
+    await coordination.updateTaskStatus(task.id, TaskStatus.BIDDING);
+    await coordination.assignTask(task.id, 'worker');
+    await coordination.updateTaskStatus(task.id, TaskStatus.IN_PROGRESS, { actor: 'worker', reason: 'started' });
+
+    expect(coordination.getTaskHistory(task.id)).toEqual([
+      expect.objectContaining({ to: TaskStatus.PENDING, actor: 'publisher', reason: 'published' }),
+      expect.objectContaining({ from: TaskStatus.PENDING, to: TaskStatus.BIDDING, actor: 'publisher' }),
+      expect.objectContaining({ from: TaskStatus.BIDDING, to: TaskStatus.ASSIGNED, metadata: { assignedTo: 'worker' } }),
+      expect.objectContaining({ from: TaskStatus.ASSIGNED, to: TaskStatus.IN_PROGRESS, actor: 'worker', reason: 'started' })
+    ]);
+  });
+});
+
+describe('task lifecycle through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let publisher: AutoGridOS;
+  let worker: AutoGridOS;
+
+  beforeEach(async () => {
+    network = new InMemoryNetwork();
+    [publisher, worker] = ['publisher', 'worker'].map(deviceId => new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    }));
+    await Promise.all([publisher.connect(), worker.connect()]);
+    await flush();
+  });
+
+  afterEach(async () => {
+    await Promise.all([publisher.disconnect(), worker.disconnect()]);
+  });
+
+  it('should refuse proofs for tasks that were not assigned', async () => {
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+
+    await expect(publisher.submitProof(task.id, {})).rejects.toThrow('not assigned');
+  });
+
+  it('should show the worker completing the task in the publisher\'s history', async () => {
+    const task = await publisher.publishTask({ type: 'transport', payload: {}, maxPrice: 100 });
+    await flush();
+    await worker.submitBid(task.id, { price: 80, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+
+    const verified = new Promise(resolve => publisher.once('proof:verified', resolve));
+    await worker.submitProof(task.id, { delivered: true });
+    await verified;
+
+    const history = publisher.getTaskHistory(task.id);
+    expect(history.map(t => t.to)).toEqual([
+      TaskStatus.PENDING,
+      TaskStatus.BIDDING,
+      TaskStatus.ASSIGNED,
+      TaskStatus.COMPLETED
+    ]);
+    expect(history[3]).toEqual(expect.objectContaining({ actor: 'worker', reason: 'proof-verified' }));
+
+    await expect(publisher.cancelTask(task.id)).rejects.toBeInstanceOf(InvalidTaskTransitionError);
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  AutoGridOS,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  KeyRegistry,
+  Location,
+  Proof,
+  ReputationRegistry,
+  Task,
+  TaskPriority,
+  TaskStatus,
+  VirtualClock,
+  WitnessObservation,
+  WitnessProtocol
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+const dropOff = { x: 10, y: 10 };
+
+function createTask(): Task {
+  return {
+    id: 'task-1',
+    type: 'medical-delivery',
+    status: TaskStatus.ASSIGNED,
+    priority: TaskPriority.HIGH,
+    payload: { to: dropOff },
+    reward: 200,
+    requirements: { capabilities: ['transport'] },
+    publisherId: 'publisher',
+    assignedTo: 'courier',
+    createdAt: 0
+  };
+}
+
+describe('WitnessProtocol', () => {
+  const rules = { requireProof: true, requireWitness: true, witnessQuorum: 2, witnessCount: 2 };
+  let clock: VirtualClock;
+  let registry: KeyRegistry;
+  let publisher: WitnessProtocol;
+
+  function createWitness(deviceId: string): WitnessProtocol {
+    return new WitnessProtocol({ deviceId, privateKey: `${deviceId}-key`, keyRegistry: registry, clock });
+  }
+
+  beforeEach(async () => {
+    clock = new VirtualClock(0);
+    registry = new KeyRegistry();
+    const reputation = new ReputationRegistry({ deviceId: 'publisher', clock });
+    for (let i = 0; i < 3; i++) {
+      await reputation.addRating({ fromDeviceId: 'publisher', toDeviceId: 'trusted', rating: 5 });
+      await reputation.recordTaskCompletion({ deviceId: 'trusted', taskId: `task-${i}`, success: true });
+    }
+    publisher = new WitnessProtocol({ deviceId: 'publisher', reputation, keyRegistry: registry, clock });
+  });
+
+  it('should recruit by trust level, then distance, from devices in range', () => {
+    const request = publisher.open(createTask(), { ...rules, witnessCount: 3 });
+    expect(request.location).toEqual(dropOff);
+
+    const offer = (deviceId: string, location: Location) => publisher.offer({ taskId: 'task-1', deviceId, location });
+    expect(offer('courier', dropOff)).toBe(false);
+    expect(offer('far', { x: 100, y: 10 })).toBe(false);
+    expect(offer('upstairs', { ...dropOff, floor: 1 })).toBe(false);
+    expect(offer('near', { x: 11, y: 10 })).toBe(true);
+    expect(offer('near', { x: 11, y: 10 })).toBe(false);
+    expect(offer('nearer', dropOff)).toBe(true);
+    expect(publisher.getSession('task-1')?.status).toBe('recruiting');
+
+    // The third offer fills the session
+    expect(offer('trusted', { x: 40, y: 10 })).toBe(true);
+    expect(publisher.getSession('task-1')).toEqual(expect.objectContaining({
+      status: 'observing',
+      witnesses: ['trusted', 'nearer', 'near']
+    }));
+    expect(offer('late', dropOff)).toBe(false);
+  });
+
+  it('should reach a quorum with signed attestations from recruited witnesses', () => {
+    const quorum = jest.fn();
+    publisher.on('witness:quorum', quorum);
+    const request = publisher.open(createTask(), rules);
+    const [first, second, outsider] = ['w1', 'w2', 'w3'].map(createWitness);
+    for (const witness of [first, second]) {
+      publisher.offer(witness.volunteer(request, dropOff)!);
+    }
+    expect(publisher.getSession('task-1')?.status).toBe('observing');
+
+    const attest = (witness: WitnessProtocol, confirmed = true) =>
+      witness.attest({ taskId: 'task-1', executorId: 'courier', observation: { temperature: 4 }, confirmed });
+
+    expect(publisher.addAttestation(attest(outsider))).toBe(false);
+    expect(publisher.addAttestation({ ...attest(first), confirmed: false })).toBe(false);
+    expect(publisher.addAttestation(attest(first))).toBe(true);
+    expect(publisher.addAttestation(attest(first))).toBe(false);
+    expect(publisher.hasQuorum('task-1')).toBe(false);
+
+    expect(publisher.addAttestation(attest(second))).toBe(true);
+    expect(publisher.hasQuorum('task-1')).toBe(true);
+    expect(quorum).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-1' }));
+    expect(publisher.getConfirmations('task-1').map(attestation => attestation.witnessId)).toEqual(['w1', 'w2']);
+  });
+
+  it('should fail once the quorum is out of reach', async () => {
+    const failed = jest.fn();
+    publisher.on('witness:failed', failed);
+
+    const request = publisher.open(createTask(), rules);
+    const witness = createWitness('w1');
+    publisher.offer(witness.volunteer(request, dropOff)!);
+    await clock.advance(2000);
+    expect(failed).toHaveBeenLastCalledWith({ taskId: 'task-1', reason: 'not-enough-witnesses' });
+
+    publisher.close('task-1');
+    publisher.open(createTask(), rules);
+    for (const id of ['w1', 'w2']) {
+      publisher.offer({ taskId: 'task-1', deviceId: id, location: dropOff });
+    }
+    publisher.addAttestation(createWitness('w1').attest({ taskId: 'task-1', executorId: 'courier', observation: {}, confirmed: false }));
+    expect(failed).toHaveBeenLastCalledWith({ taskId: 'task-1', reason: 'quorum-not-reached' });
+  });
+
+  it('should refuse witness rewards that could exceed the task reward', () => {
+    expect(() => publisher.open(createTask(), { ...rules, witnessReward: -0.1 }))
+      .toThrow('witnessReward must not be negative');
+    expect(() => publisher.open(createTask(), { ...rules, witnessCount: 3, witnessReward: 0.4 }))
+      .toThrow('3 witnesses at a witnessReward of 0.4 would be owed more than the task reward');
+    expect(() => createWitness('w1').open(createTask(), rules))
+      .toThrow('Recruiting witnesses requires a reputation registry');
+    expect(publisher.getSession('task-1')).toBeUndefined();
+  });
+});
+
+describe('witnessed tasks through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let devices: AutoGridOS[];
+  let publisher: AutoGridOS;
+  let courier: AutoGridOS;
+  let releaseObservations: () => void;
+  let confirmed: boolean;
+
+  function createDevice(deviceId: string, location: Location, observe?: () => Promise<WitnessObservation>): AutoGridOS {
+    const device = new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      location,
+      transport: new InMemoryTransport({ deviceId, network }),
+      witness: { observe }
+    });
+    devices.push(device);
+    return device;
+  }
+
+  async function deliver(): Promise<{ task: Task; proof: Proof }> {
+    const task = await publisher.publishTask({ type: 'medical-delivery', payload: { to: dropOff }, maxPrice: 200 });
+    await flush();
+    await courier.submitBid(task.id, { price: 150, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+
+    const proof = await courier.submitProof(task.id, { delivered: true });
+    await flush();
+    return { task, proof };
+  }
+
+  beforeEach(async () => {
+    network = new InMemoryNetwork();
+    devices = [];
+    confirmed = true;
+    const observed = new Promise<void>(resolve => { releaseObservations = resolve; });
+    const observe = async () => {
+      await observed;
+      return { observation: { temperature: 4 }, confirmed };
+    };
+
+    publisher = createDevice('publisher', { x: 0, y: 0 });
+    courier = createDevice('courier', { x: 0, y: 0 });
+    createDevice('witness-a', { x: 12, y: 10 }, observe);
+    createDevice('witness-b', { x: 10, y: 14 }, observe);
+    createDevice('witness-far', { x: 200, y: 10 }, observe);
+    publisher.registerTaskType({
+      type: 'medical-delivery',
+      requiredCapabilities: ['transport'],
+      verificationRules: { requireProof: true, requireWitness: true, witnessQuorum: 2, witnessCount: 2, witnessReward: 0.05 },
+      pricing: { basePrice: 150, variableFactors: [] }
+    });
+    await Promise.all(devices.map(d => d.connect()));
+    await flush();
+  });
+
+  afterEach(async () => {
+    await Promise.all(devices.map(d => d.disconnect()));
+  });
+
+  it('should hold the payment until a quorum of witnesses confirms', async () => {
+    const awaiting = jest.fn();
+    const verified = jest.fn();
+    publisher.on('proof:awaiting-witnesses', awaiting);
+    publisher.on('proof:verified', verified);
+
+    const { task } = await deliver();
+    expect(publisher.getWitnessSession(task.id)?.witnesses.sort()).toEqual(['witness-a', 'witness-b']);
+    expect(awaiting).toHaveBeenCalled();
+    expect(verified).not.toHaveBeenCalled();
+    expect(publisher.getEscrow(task.id)?.status).toBe('locked');
+
+    releaseObservations();
+    await flush();
+
+    expect(verified).toHaveBeenCalled();
+    expect(publisher.getEscrow(task.id)?.releasedAmount).toBe(170);
+    expect(courier.getBalance()).toBe(1150);
+    expect(devices.map(device => device.getBalance()).slice(2)).toEqual([1010, 1010, 1000]);
+    expect(publisher.getBalance()).toBe(830);
+  });
+
+  it('should reject the proof and refund when the witnesses do not confirm', async () => {
+    const rejected = jest.fn();
+    publisher.on('proof:rejected', rejected);
+    confirmed = false;
+
+    const { task, proof } = await deliver();
+    releaseObservations();
+    await flush();
+
+    expect(rejected).toHaveBeenCalledWith({ proof, reason: 'witness-quorum-failed' });
+    expect(publisher.getEscrow(task.id)?.status).toBe('refunded');
+    expect(publisher.getTaskHistory(task.id).pop()).toEqual(expect.objectContaining({
+      to: TaskStatus.FAILED,
+      reason: 'witness-quorum-not-reached'
+    }));
+    expect(courier.getBalance()).toBe(1000);
+    expect(publisher.getBalance()).toBe(1000);
+  });
+
+  it('should not register a task type that owes witnesses more than the reward', () => {
+    expect(() => publisher.registerTaskType({
+      type: 'overpaid-delivery',
+      requiredCapabilities: ['transport'],
+      verificationRules: { requireProof: true, requireWitness: true, witnessQuorum: 2, witnessReward: 0.5 },
+      pricing: { basePrice: 150, variableFactors: [] }
+    })).toThrow('3 witnesses at a witnessReward of 0.5 would be owed more than the task reward');
+    expect(publisher.getTaskTypes().map(definition => definition.type)).not.toContain('overpaid-delivery');
+  });
+});
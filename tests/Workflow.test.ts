@@ -0,0 +1,251 @@
+import {
+  AutoGridOS,
+  CoordinationLayer,
+  DeviceType,
+  InMemoryNetwork,
+  InMemoryTransport,
+  Task,
+  TaskStatus,
+  Workflow
+} from '../src';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('CoordinationLayer workflows', () => {
+  let coordination: CoordinationLayer;
+  let published: Task[];
+
+  async function complete(taskId: string, output?: any): Promise<void> {
+    await coordination.assignTask(taskId, 'worker');
+    await coordination.updateTaskStatus(taskId, TaskStatus.COMPLETED, { output });
+  }
+
+  async function fail(taskId: string): Promise<void> {
+    await coordination.assignTask(taskId, 'worker');
+    await coordination.updateTaskStatus(taskId, TaskStatus.FAILED, { reason: 'broken' });
+  }
+
+  function latestTask(workflow: Workflow, stepId: string): string {
+    const taskIds = workflow.steps[stepId].taskIds;
+    return taskIds[taskIds.length - 1];
+  }
+
+  beforeEach(() => {
+    coordination = new CoordinationLayer({ deviceId: 'publisher' });
+    published = [];
+    coordination.on('workflow:task', ({ task }) => published.push(task));
+  });
+
+  it('should publish a step only after its dependencies, with their outputs', async () => {
+    const workflow = await coordination.createWorkflow({
+      steps: [
+        { id: 'pick', type: 'pick', payload: { sku: 'A1' } },
+        { id: 'scan', type: 'scan' },
+        { id: 'deliver', type: 'transport', dependsOn: ['pick', 'scan'], payload: { to: 'dock' } }
+      ]
+    });
+
+    expect(published.map(t => t.type)).toEqual(['pick', 'scan']);
+
+    await complete(latestTask(workflow, 'pick'), { bin: 7 });
+    expect(published).toHaveLength(2);
+
+    await complete(latestTask(workflow, 'scan'), 'ok');
+    expect(published[2].payload).toEqual({ to: 'dock', inputs: { pick: { bin: 7 }, scan: 'ok' } });
+
+    const completed = jest.fn();
+    coordination.on('workflow:completed', completed);
+    await complete(published[2].id);
+
+    expect(workflow.status).toBe('completed');
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ workflow }));
+  });
+
+  it('should reject a workflow with a cycle or a missing dependency', async () => {
+    await expect(coordination.createWorkflow({
+      steps: [
+        { id: 'a', type: 'pick', dependsOn: ['b'] },
+        { id: 'b', type: 'pick', dependsOn: ['a'] }
+      ]
+    })).rejects.toThrow('Workflow has a dependency cycle');
+
+    await expect(coordination.createWorkflow({
+      steps: [{ id: 'a', type: 'pick', dependsOn: ['missing'] }]
+    })).rejects.toThrow('Unknown workflow dependency: missing');
+
+    expect(published).toHaveLength(0);
+  });
+
+  it('should retry a failed step before aborting', async () => {
+    const workflow = await coordination.createWorkflow({
+      steps: [{ id: 'pick', type: 'pick', onFailure: 'retry', maxRetries: 1 }]
+    });
+
+    await fail(latestTask(workflow, 'pick'));
+    expect(workflow.steps.pick.taskIds).toHaveLength(2);
+    expect(workflow.status).toBe('running');
+
+    await fail(latestTask(workflow, 'pick'));
+    expect(workflow.status).toBe('aborted');
+    expect(published).toHaveLength(2);
+  });
+
+  it('should cancel running steps and skip the rest on abort', async () => {
+    const workflow = await coordination.createWorkflow({
+      steps: [
+        { id: 'pick', type: 'pick' },
+        { id: 'scan', type: 'scan' },
+        { id: 'deliver', type: 'transport', dependsOn: ['pick', 'scan'] }
+      ]
+    });
+
+    const aborted = new Promise<any>(resolve => coordination.once('workflow:aborted', resolve));
+    await fail(latestTask(workflow, 'pick'));
+
+    const { reason, cancelled } = await aborted;
+    expect(reason).toBe('step-failed');
+    expect(cancelled.map((t: Task) => t.id)).toEqual([latestTask(workflow, 'scan')]);
+    expect(coordination.getTask(latestTask(workflow, 'scan'))?.status).toBe(TaskStatus.CANCELLED);
+    expect(workflow.steps.deliver.status).toBe('skipped');
+  });
+
+  it('should undo completed steps when compensating', async () => {
+    const workflow = await coordination.createWorkflow({
+      onFailure: 'compensate',
+      steps: [
+        { id: 'pick', type: 'pick', compensation: { type: 'restock', payload: { shelf: 'A' } } },
+        { id: 'deliver', type: 'transport', dependsOn: ['pick'] }
+      ]
+    });
+
+    await complete(latestTask(workflow, 'pick'), { bin: 7 });
+    await fail(latestTask(workflow, 'deliver'));
+
+    expect(workflow.status).toBe('compensating');
+    const restock = published[published.length - 1];
+    expect(restock.payload).toEqual({
+      shelf: 'A',
+      compensates: { stepId: 'pick', taskId: latestTask(workflow, 'pick'), output: { bin: 7 } }
+    });
+
+    await complete(restock.id);
+    expect(workflow.status).toBe('compensated');
+  });
+});
+
+describe('workflows through AutoGridOS', () => {
+  let network: InMemoryNetwork;
+  let publisher: AutoGridOS;
+  let worker: AutoGridOS;
+
+  function createDevice(deviceId: string): AutoGridOS {
+    return new AutoGridOS({
+      deviceId,
+      deviceType: DeviceType.WAREHOUSE,
+      privateKey: `${deviceId}-key`,
+      capabilities: ['transport'],
+      transport: new InMemoryTransport({ deviceId, network })
+    });
+  }
+
+  async function work(task: Task, result: any): Promise<void> {
+    await flush();
+    await worker.submitBid(task.id, { price: 100, estimatedDuration: 60 });
+    await flush();
+    await publisher.closeAuction(task.id);
+    await flush();
+    await worker.submitProof(task.id, result);
+    await flush();
+  }
+
+  beforeEach(async () => {
+    network = new InMemoryNetwork();
+    publisher = createDevice('publisher');
+    worker = createDevice('worker');
+    await Promise.all([publisher.connect(), worker.connect()]);
+    await flush();
+  });
+
+  afterEach(async () => {
+    await Promise.all([publisher.disconnect(), worker.disconnect()]);
+  });
+
+  it('should pass the verified output of a step to the next one', async () => {
+    const published: Task[] = [];
+    publisher.on('task:published', (task: Task) => published.push(task));
+
+    const workflow = await publisher.publishWorkflow({
+      steps: [
+        { id: 'fetch', type: 'transport', maxPrice: 200 },
+        { id: 'deliver', type: 'transport', maxPrice: 200, dependsOn: ['fetch'] }
+      ]
+    });
+    await flush();
+    expect(publisher.getEscrow(published[0].id)?.status).toBe('locked');
+
+    await work(published[0], { pallet: 'P-9' });
+    expect(published[1].payload.inputs).toEqual({ fetch: { pallet: 'P-9' } });
+
+    await work(published[1], { signedBy: 'dock' });
+    expect(publisher.getWorkflow(workflow.id)?.status).toBe('completed');
+    expect(worker.getBalance()).toBe(1200);
+  });
+
+  it('should refund the running steps when the workflow is aborted', async () => {
+    const workflow = await publisher.publishWorkflow({
+      steps: [
+        { id: 'a', type: 'transport', maxPrice: 200 },
+        { id: 'b', type: 'transport', maxPrice: 300 }
+      ]
+    });
+    await flush();
+    expect(publisher.getBalance()).toBe(500);
+
+    await publisher.cancelTask(workflow.steps.a.taskIds[0]);
+    await flush();
+
+    expect(workflow.status).toBe('aborted');
+    expect(publisher.getEscrow(workflow.steps.b.taskIds[0])?.status).toBe('refunded');
+    expect(publisher.getBalance()).toBe(1000);
+  });
+
+  it('should refuse a workflow it cannot pay for', async () => {
+    await expect(publisher.publishWorkflow({
+      steps: [
+        { id: 'a', type: 'transport', maxPrice: 600 },
+        { id: 'b', type: 'transport', maxPrice: 600 }
+      ]
+    })).rejects.toThrow('Insufficient balance for escrow');
+
+    await expect(publisher.publishWorkflow({
+      steps: [{ id: 'a', type: 'transport', maxPrice: 600, compensation: { type: 'transport', maxPrice: 500 } }],
+      onFailure: 'compensate'
+    })).rejects.toThrow('Insufficient balance for escrow');
+  });
+
+  it('should abort when the balance no longer covers a later step', async () => {
+    const errors: any[] = [];
+    publisher.on('workflow:error', error => errors.push(error));
+
+    const workflow = await publisher.publishWorkflow({
+      steps: [
+        { id: 'fetch', type: 'transport', maxPrice: 400 },
+        { id: 'deliver', type: 'transport', maxPrice: 400, dependsOn: ['fetch'] }
+      ]
+    });
+    await flush();
+    await publisher.sendPayment({ to: 'worker', amount: 600 });
+
+    const [fetch] = publisher.getActiveTasks();
+    await work(fetch, { pallet: 'P-9' });
+
+    expect(workflow.status).toBe('aborted');
+    expect(errors.map(e => e.stepId)).toEqual(['deliver']);
+    expect(publisher.getTaskHistory(workflow.steps.deliver.taskIds[0]).map(t => t.to)).toContain(TaskStatus.CANCELLED);
+    expect(publisher.getBalance()).toBe(300);
+  });
+});